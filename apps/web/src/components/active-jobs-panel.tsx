@@ -1,6 +1,12 @@
 import { useState } from "react";
-import { useActiveJobs, useCancelJob, useRetryJob } from "@/hooks/use-research";
+import {
+  useActiveJobs,
+  useCancelJob,
+  useMoveJobToFront,
+  useRetryJob,
+} from "@/hooks/use-research";
 import { usePrompts } from "@/hooks/use-prompts";
+import { useBudgetStatus } from "@/hooks/use-costs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -18,6 +24,9 @@ import {
   XCircle,
   RotateCcw,
   Activity,
+  Ban,
+  ListOrdered,
+  ArrowUpToLine,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useNow } from "@/hooks/use-now";
@@ -27,10 +36,14 @@ const STATUS_CONFIG: Record<
   string,
   { label: string; variant: "default" | "secondary" | "destructive" | "outline"; icon: typeof Clock }
 > = {
+  queued: { label: "Queued", variant: "outline", icon: ListOrdered },
   pending: { label: "Pending", variant: "outline", icon: Clock },
   running: { label: "Running", variant: "default", icon: Loader2 },
   completed: { label: "Completed", variant: "secondary", icon: Activity },
   failed: { label: "Failed", variant: "destructive", icon: XCircle },
+  cancelled: { label: "Cancelled", variant: "outline", icon: Ban },
+  /** Failed, with a retry scheduled */
+  retrying: { label: "Retrying", variant: "outline", icon: RotateCcw },
 };
 
 function formatRelativeTime(timestamp: number, now: number): string {
@@ -67,7 +80,7 @@ export function ActiveJobsPanel() {
     );
   }
 
-  const { jobs, count, limit } = activeJobs;
+  const { jobs, count, queued, limit } = activeJobs;
 
   // Build a map of prompts for quick lookup
   const promptMap = new Map<string, Doc<"prompts">>();
@@ -86,7 +99,7 @@ export function ActiveJobsPanel() {
             Active Jobs
           </span>
           <Badge variant="outline" className="text-xs font-normal">
-            {count}/{limit} slots
+            {count}/{limit} slots{queued > 0 && ` · ${queued} queued`}
           </Badge>
         </CardTitle>
       </CardHeader>
@@ -115,20 +128,31 @@ function JobCard({
   job,
   promptName,
 }: {
-  job: Doc<"researchJobs">;
+  job: Doc<"researchJobs"> & { queuePosition?: number };
   promptName?: string;
 }) {
   const cancelJob = useCancelJob();
   const retryJob = useRetryJob();
+  const moveJobToFront = useMoveJobToFront();
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
   const [cancelling, setCancelling] = useState(false);
   const [retrying, setRetrying] = useState(false);
+  const [promoting, setPromoting] = useState(false);
+  const [retryError, setRetryError] = useState<string | null>(null);
+  const budget = useBudgetStatus();
   const now = useNow(1_000);
 
-  const config = STATUS_CONFIG[job.status] ?? STATUS_CONFIG.pending;
+  const config = STATUS_CONFIG[job.awaitingRetry ? "retrying" : job.status] ?? STATUS_CONFIG.pending;
   const StatusIcon = config.icon;
-  const canCancel = job.status === "pending" || job.status === "running";
-  const canRetry = job.status === "failed";
+  const canCancel =
+    job.status === "queued" ||
+    job.status === "pending" ||
+    job.status === "running" ||
+    job.awaitingRetry === true;
+  const isDeferred = job.deferredUntil !== undefined && job.deferredUntil > now;
+  const canPromote =
+    job.status === "queued" && !isDeferred && job.queuePosition !== 1;
+  const canRetry = (job.status === "failed" && !job.awaitingRetry) || job.status === "cancelled";
 
   async function handleCancel() {
     setCancelling(true);
@@ -140,10 +164,27 @@ function JobCard({
     }
   }
 
-  async function handleRetry() {
+  async function handlePromote() {
+    setPromoting(true);
+    try {
+      await moveJobToFront({ id: job._id });
+    } finally {
+      setPromoting(false);
+    }
+  }
+
+  async function handleRetry(overrideBudgetCap?: boolean) {
     setRetrying(true);
     try {
-      await retryJob({ id: job._id });
+      await retryJob({ id: job._id, overrideBudgetCap });
+      setRetryError(null);
+    } catch (err) {
+      // With a hard cap set, a refused retry can be overridden explicitly
+      if (budget && !overrideBudgetCap) {
+        setRetryError(err instanceof Error ? err.message : "Retry was refused");
+      } else {
+        throw err;
+      }
     } finally {
       setRetrying(false);
     }
@@ -173,8 +214,29 @@ function JobCard({
               {promptName ?? "Research Job"}
             </span>
             <Badge variant={config.variant} className="text-[10px] px-1.5 py-0 shrink-0">
-              {config.label}
+              {job.queuePosition !== undefined
+                ? `${config.label} #${job.queuePosition}`
+                : config.label}
             </Badge>
+            {isDeferred && job.deferredUntil !== undefined && (
+              <Badge variant="secondary" className="text-[10px] px-1.5 py-0 shrink-0">
+                Budget cap · until{" "}
+                {new Date(job.deferredUntil).toLocaleDateString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                })}
+              </Badge>
+            )}
+            {job.status === "queued" && job.scheduleId && (
+              <Badge variant="secondary" className="text-[10px] px-1.5 py-0 shrink-0">
+                Scheduled
+              </Badge>
+            )}
+            {job.runtimeExceededAt !== undefined && job.status === "running" && (
+              <Badge variant="destructive" className="text-[10px] px-1.5 py-0 shrink-0">
+                Over max runtime
+              </Badge>
+            )}
           </div>
           <div className="flex items-center gap-2 text-xs text-muted-foreground">
             <span>{job.stockIds.length} stock{job.stockIds.length !== 1 ? "s" : ""}</span>
@@ -183,7 +245,7 @@ function JobCard({
             {job.attempts > 0 && (
               <>
                 <span>·</span>
-                <span>Attempt {job.attempts}/3</span>
+                <span>Attempt {job.attempts}</span>
               </>
             )}
           </div>
@@ -194,11 +256,27 @@ function JobCard({
           )}
         </div>
         <div className="flex shrink-0 items-center gap-1">
+          {canPromote && (
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={handlePromote}
+              disabled={promoting}
+              title="Move to front of queue"
+            >
+              {promoting ? (
+                <Loader2 className="size-3.5 animate-spin" />
+              ) : (
+                <ArrowUpToLine className="size-3.5" />
+              )}
+              <span className="sr-only">Move to front of queue</span>
+            </Button>
+          )}
           {canRetry && (
             <Button
               variant="ghost"
               size="icon-sm"
-              onClick={handleRetry}
+              onClick={() => handleRetry()}
               disabled={retrying}
               title="Retry"
             >
@@ -258,6 +336,33 @@ function JobCard({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog
+        open={retryError !== null}
+        onOpenChange={(open) => !open && setRetryError(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Retry Blocked by Budget Cap</DialogTitle>
+            <DialogDescription>{retryError}</DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRetryError(null)}>
+              Keep Blocked
+            </Button>
+            <Button onClick={() => handleRetry(true)} disabled={retrying}>
+              {retrying ? (
+                <>
+                  <Loader2 className="size-4 animate-spin" />
+                  Retrying...
+                </>
+              ) : (
+                "Override Cap and Retry"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
@@ -16,6 +16,7 @@ import {
   Sun,
   Moon,
   Loader2,
+  Workflow,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useNow } from "@/hooks/use-now";
@@ -41,6 +42,7 @@ const navItems = [
   { to: "/", label: "Dashboard", icon: LayoutDashboard },
   { to: "/stocks", label: "Stocks", icon: TrendingUp },
   { to: "/prompts", label: "Prompts", icon: FileText },
+  { to: "/pipelines", label: "Pipelines", icon: Workflow },
   { to: "/research", label: "Research", icon: FlaskConical },
   { to: "/history", label: "History", icon: History },
   { to: "/schedules", label: "Schedules", icon: Clock },
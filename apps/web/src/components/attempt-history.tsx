@@ -0,0 +1,112 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import type { Doc } from "@repo/convex/dataModel";
+import { formatTokenCount } from "@/lib/token-usage";
+
+const ATTEMPT_STATUS: Record<
+  Doc<"jobAttempts">["status"],
+  { variant: "default" | "secondary" | "destructive" | "outline"; label: string }
+> = {
+  running: { variant: "outline", label: "Running" },
+  completed: { variant: "secondary", label: "Completed" },
+  failed: { variant: "destructive", label: "Failed" },
+  cancelled: { variant: "outline", label: "Cancelled" },
+};
+
+const ERROR_REASON_LABELS: Record<NonNullable<Doc<"jobAttempts">["errorReason"]>, string> = {
+  rate_limit: "Rate limit",
+  server_error: "Server error",
+  timeout: "Timeout",
+  auth: "Invalid API key",
+  content_policy: "Content policy",
+  quota: "Quota exceeded",
+  invalid_request: "Invalid request",
+  unknown: "Unknown error",
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function formatElapsed(attempt: Doc<"jobAttempts">): string | null {
+  if (attempt.endedAt === undefined) return null;
+  const seconds = Math.round((attempt.endedAt - attempt.startedAt) / 1000);
+  return seconds >= 60 ? `${Math.round(seconds / 60)}m` : `${seconds}s`;
+}
+
+/** Every provider run of a job, with the classified error of failed ones. */
+export function AttemptHistory({ attempts }: { attempts: Doc<"jobAttempts">[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="size-4" />
+          Attempts
+          <Badge variant="secondary" className="text-xs">
+            {attempts.length}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-2">
+        {attempts.map((attempt) => {
+          const status = ATTEMPT_STATUS[attempt.status];
+          const elapsed = formatElapsed(attempt);
+          return (
+            <div key={attempt._id} className="flex flex-col gap-1 rounded-lg border px-3 py-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">#{attempt.attempt}</span>
+                <Badge variant={status.variant} className="text-[10px] px-1.5 py-0">
+                  {status.label}
+                </Badge>
+                {attempt.errorReason && (
+                  <Badge
+                    variant={attempt.errorClass === "permanent" ? "destructive" : "outline"}
+                    className="text-[10px] px-1.5 py-0"
+                  >
+                    {ERROR_REASON_LABELS[attempt.errorReason]}
+                    {attempt.errorClass === "permanent" ? " · not retried" : ""}
+                  </Badge>
+                )}
+                <span className="ml-auto text-xs tabular-nums text-muted-foreground">
+                  {formatTime(attempt.startedAt)}
+                  {elapsed && ` · ${elapsed}`}
+                  {attempt.costUsd != null && ` · $${attempt.costUsd.toFixed(2)}`}
+                </span>
+              </div>
+              {attempt.usage && (
+                <p className="text-xs tabular-nums text-muted-foreground">
+                  {formatTokenCount(attempt.usage.inputTokens)} in ·{" "}
+                  {formatTokenCount(attempt.usage.outputTokens)} out
+                  {attempt.usage.reasoningTokens
+                    ? ` (${formatTokenCount(attempt.usage.reasoningTokens)} reasoning)`
+                    : ""}
+                  {attempt.usage.webSearchRequests
+                    ? ` · ${attempt.usage.webSearchRequests} searches`
+                    : ""}
+                </p>
+              )}
+              {attempt.error && (
+                <p className="text-xs text-muted-foreground line-clamp-2">{attempt.error}</p>
+              )}
+              {attempt.cancelError && (
+                <p className="text-xs text-destructive line-clamp-2">
+                  The provider run could not be cancelled and may still be billing: {attempt.cancelError}
+                </p>
+              )}
+              {attempt.externalJobId && (
+                <p className="truncate font-mono text-[10px] text-muted-foreground">
+                  {attempt.externalJobId}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
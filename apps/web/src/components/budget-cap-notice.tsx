@@ -0,0 +1,58 @@
+import { AlertTriangle } from "lucide-react";
+import { useBudgetStatus } from "@/hooks/use-costs";
+
+interface BudgetCapNoticeProps {
+  /** Expected cost of the run; null while unknown */
+  expectedCostUsd: number | null;
+  /** Offer the override even when the estimate fits, e.g. after the server refused the run */
+  forceOverride?: boolean;
+  override: boolean;
+  onOverrideChange: (override: boolean) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Warns when a manual run would push month-to-date spend over the hard cap
+ * and lets the user explicitly override it. Renders nothing under the cap.
+ */
+export function BudgetCapNotice({
+  expectedCostUsd,
+  forceOverride,
+  override,
+  onOverrideChange,
+  disabled,
+}: BudgetCapNoticeProps) {
+  const budget = useBudgetStatus();
+  if (!budget) return null;
+
+  const exceeds =
+    expectedCostUsd !== null && budget.spentUsd + expectedCostUsd > budget.capUsd;
+  if (!exceeds && !forceOverride) return null;
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border border-amber-500/50 bg-amber-500/5 p-3 text-xs">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="mt-0.5 size-3.5 shrink-0 text-amber-500" />
+        <p className="text-muted-foreground">
+          {expectedCostUsd !== null
+            ? `This run (~$${expectedCostUsd.toFixed(2)}) would exceed`
+            : "This run would exceed"}{" "}
+          the ${budget.capUsd.toFixed(2)} monthly cap (${budget.spentUsd.toFixed(2)} spent).{" "}
+          {budget.mode === "defer"
+            ? "It will be held until the first of next month unless you override the cap."
+            : "It will be refused unless you override the cap."}
+        </p>
+      </div>
+      <label className="flex items-center gap-2 font-medium">
+        <input
+          type="checkbox"
+          checked={override}
+          disabled={disabled}
+          onChange={(e) => onOverrideChange(e.target.checked)}
+          className="size-4 rounded border-input accent-primary"
+        />
+        Override the budget cap for this run
+      </label>
+    </div>
+  );
+}
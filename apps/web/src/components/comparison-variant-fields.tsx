@@ -0,0 +1,201 @@
+import type { ReactNode } from "react";
+import { usePrompts } from "@/hooks/use-prompts";
+import { usePromptVersions } from "@/hooks/use-prompt-versions";
+import { ModelSelect } from "@/components/model-select";
+import { cn } from "@/lib/utils";
+import { PROVIDER_OPTIONS, type ResearchProvider } from "@/lib/providers";
+import type { ComparisonVariant } from "@/lib/research-flow";
+import type { GenericId } from "convex/values";
+
+const KIND_OPTIONS: { kind: ComparisonVariant["kind"]; label: string }[] = [
+  { kind: "prompts", label: "Another prompt" },
+  { kind: "versions", label: "Another version" },
+  { kind: "models", label: "Another model" },
+];
+
+const selectClassName = cn(
+  "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm text-foreground shadow-xs transition-colors",
+  "focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring",
+);
+
+interface ComparisonVariantFieldsProps {
+  /** Run A's prompt, which run B is compared against */
+  promptId: GenericId<"prompts">;
+  provider: ResearchProvider;
+  value: ComparisonVariant;
+  onChange: (value: ComparisonVariant) => void;
+  disabled?: boolean;
+}
+
+/** What run B of an A/B run changes: its prompt, its prompt version or its model. */
+export function ComparisonVariantFields({
+  promptId,
+  provider,
+  value,
+  onChange,
+  disabled,
+}: ComparisonVariantFieldsProps) {
+  function selectKind(kind: ComparisonVariant["kind"]) {
+    if (kind === value.kind) return;
+    switch (kind) {
+      case "prompts":
+        onChange({ kind, promptId: null });
+        break;
+      case "versions":
+        onChange({ kind, promptVersionId: null });
+        break;
+      case "models":
+        onChange({ kind, provider, model: null });
+        break;
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap gap-1.5">
+        {KIND_OPTIONS.map((option) => (
+          <button
+            key={option.kind}
+            type="button"
+            onClick={() => selectKind(option.kind)}
+            disabled={disabled}
+            className={cn(
+              "inline-flex items-center rounded-md border px-2 py-0.5 text-xs font-medium transition-colors",
+              value.kind === option.kind
+                ? "border-primary bg-primary text-primary-foreground"
+                : "border-border bg-background text-foreground hover:bg-accent",
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {value.kind === "prompts" && (
+        <PromptChoice promptId={promptId} value={value} onChange={onChange} disabled={disabled} />
+      )}
+      {value.kind === "versions" && (
+        <VersionChoice promptId={promptId} value={value} onChange={onChange} disabled={disabled} />
+      )}
+      {value.kind === "models" && (
+        <div className="flex flex-col gap-1.5">
+          <select
+            aria-label="Run B provider"
+            value={value.provider}
+            onChange={(e) =>
+              onChange({ kind: "models", provider: e.target.value as ResearchProvider, model: null })
+            }
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {PROVIDER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value} className="bg-background text-foreground">
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <ModelSelect
+            provider={value.provider}
+            value={value.model ?? undefined}
+            onChange={(model) => onChange({ ...value, model: model ?? null })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PromptChoice({
+  promptId,
+  value,
+  onChange,
+  disabled,
+}: {
+  promptId: GenericId<"prompts">;
+  value: Extract<ComparisonVariant, { kind: "prompts" }>;
+  onChange: (value: ComparisonVariant) => void;
+  disabled?: boolean;
+}) {
+  const prompts = usePrompts();
+  const promptType = prompts?.find((p) => p._id === promptId)?.type;
+  // Both runs share the stocks, so only prompts of the same type fit
+  const candidates = prompts?.filter((p) => p._id !== promptId && p.type === promptType) ?? [];
+
+  if (prompts !== undefined && candidates.length === 0) {
+    return <Hint>No other {promptType} prompt to compare against.</Hint>;
+  }
+
+  return (
+    <select
+      aria-label="Run B prompt"
+      value={value.promptId ?? ""}
+      onChange={(e) =>
+        onChange({ kind: "prompts", promptId: (e.target.value || null) as GenericId<"prompts"> | null })
+      }
+      disabled={disabled || prompts === undefined}
+      className={selectClassName}
+    >
+      <option value="" className="bg-background text-foreground">
+        Choose a prompt…
+      </option>
+      {candidates.map((p) => (
+        <option key={p._id} value={p._id} className="bg-background text-foreground">
+          {p.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function VersionChoice({
+  promptId,
+  value,
+  onChange,
+  disabled,
+}: {
+  promptId: GenericId<"prompts">;
+  value: Extract<ComparisonVariant, { kind: "versions" }>;
+  onChange: (value: ComparisonVariant) => void;
+  disabled?: boolean;
+}) {
+  const prompts = usePrompts();
+  const versions = usePromptVersions(promptId);
+  const currentVersionId = prompts?.find((p) => p._id === promptId)?.currentVersionId;
+  // Run A runs the current template
+  const candidates = versions?.filter((version) => version._id !== currentVersionId) ?? [];
+
+  if (versions !== undefined && candidates.length === 0) {
+    return <Hint>This prompt has no earlier version yet.</Hint>;
+  }
+
+  return (
+    <select
+      aria-label="Run B version"
+      value={value.promptVersionId ?? ""}
+      onChange={(e) =>
+        onChange({
+          kind: "versions",
+          promptVersionId: (e.target.value || null) as GenericId<"promptVersions"> | null,
+        })
+      }
+      disabled={disabled || versions === undefined}
+      className={selectClassName}
+    >
+      <option value="" className="bg-background text-foreground">
+        Choose a version…
+      </option>
+      {candidates.map((version) => (
+        <option key={version._id} value={version._id} className="bg-background text-foreground">
+          {`v${version.version}${version.note ? ` · ${version.note}` : ""} · ${new Date(
+            version.createdAt,
+          ).toLocaleDateString("en-US", { month: "short", day: "numeric" })}`}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function Hint({ children }: { children: ReactNode }) {
+  return <p className="text-xs text-muted-foreground">{children}</p>;
+}
@@ -0,0 +1,87 @@
+import type { ResearchEstimate } from "@/hooks/use-research-estimate";
+
+function formatUsd(value: number): string {
+  return value > 0 && value < 0.01 ? "<$0.01" : `$${value.toFixed(2)}`;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  return minutes >= 1 ? `${minutes} min` : `${Math.round(ms / 1000)}s`;
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium tabular-nums">{value}</span>
+    </div>
+  );
+}
+
+interface CostEstimateProps {
+  estimate: ResearchEstimate | undefined;
+  /** Shown when there is no run history for the prompt yet */
+  fallbackCost?: string;
+  /** Include the projected monthly cost of a schedule */
+  showMonthly?: boolean;
+}
+
+/**
+ * Median and p90 cost/duration from past runs of the prompt, plus the size of
+ * the resolved prompt. Renders summary rows; wrap it in the caller's layout.
+ */
+export function CostEstimate({ estimate, fallbackCost, showMonthly }: CostEstimateProps) {
+  if (estimate === undefined) {
+    return <Row label="Est. Cost" value="Estimating…" />;
+  }
+
+  const { costUsd, durationMs, monthlyCostUsd } = estimate;
+  const perJob = estimate.jobCount > 1 ? " per job" : "";
+
+  return (
+    <>
+      <Row
+        label="Est. Cost"
+        value={
+          costUsd
+            ? `${formatUsd(costUsd.median)} (p90 ${formatUsd(costUsd.p90)})`
+            : (fallbackCost ?? "—")
+        }
+      />
+      {durationMs && (
+        <Row
+          label="Est. Duration"
+          value={`${formatDuration(durationMs.median)} (p90 ${formatDuration(durationMs.p90)})${perJob}`}
+        />
+      )}
+      <Row
+        label="Prompt Size"
+        value={`~${estimate.promptTokens.toLocaleString()} tokens${perJob}${
+          estimate.inputCostUsd !== null ? ` · ${formatUsd(estimate.inputCostUsd)} input` : ""
+        }`}
+      />
+      {showMonthly && estimate.runsPerMonth !== null && (
+        <Row
+          label="Projected Monthly"
+          value={
+            monthlyCostUsd
+              ? `${formatUsd(monthlyCostUsd.median)} (p90 ${formatUsd(monthlyCostUsd.p90)})`
+              : `${estimate.runsPerMonth.toFixed(1)} runs`
+          }
+        />
+      )}
+      <p className="text-xs text-muted-foreground">
+        {estimate.sampleSize > 0
+          ? `Based on ${estimate.sampleSize} past run${estimate.sampleSize !== 1 ? "s" : ""} of this prompt${
+              estimate.usesModelHistory ? ` on ${estimate.model}` : " across all models"
+            }.`
+          : "No past runs of this prompt yet; cost shown is the provider's typical range."}
+        {showMonthly &&
+          estimate.runsPerMonth !== null &&
+          ` About ${estimate.runsPerMonth.toFixed(1)} runs per month${
+            estimate.jobCount > 1 ? `, ${estimate.jobCount} jobs each` : ""
+          }.`}
+      </p>
+    </>
+  );
+}
@@ -0,0 +1,77 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardList } from "lucide-react";
+import { usePrompt } from "@/hooks/use-prompts";
+import { formatFindingValue, formatPriceTarget } from "@/lib/findings";
+import type { Doc, Id } from "@repo/convex/dataModel";
+
+/** Structured values extracted from a report, one block per ticker. */
+export function FindingsCard({
+  findings,
+  promptId,
+  error,
+}: {
+  findings: Doc<"researchFindings">[];
+  /** Prompt whose output schema labels the custom fields */
+  promptId: Id<"prompts">;
+  /** Why the last extraction failed */
+  error?: string;
+}) {
+  const prompt = usePrompt(promptId);
+  const labels = new Map(prompt?.outputSchema?.map((field) => [field.key, field.label]) ?? []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ClipboardList className="size-4" />
+          Findings
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {error && <p className="text-sm text-destructive">Extraction failed: {error}</p>}
+        {findings.map((finding) => (
+          <div key={finding._id} className="flex flex-col gap-2">
+            {findings.length > 1 && <span className="text-sm font-semibold">{finding.ticker}</span>}
+            <dl className="flex flex-col gap-2 text-sm">
+              {finding.rating && (
+                <FindingRow label="Rating">
+                  <Badge variant="secondary">{finding.rating}</Badge>
+                </FindingRow>
+              )}
+              {finding.priceTarget != null && (
+                <FindingRow label="Price target">{formatPriceTarget(finding.priceTarget)}</FindingRow>
+              )}
+              {finding.conviction != null && (
+                <FindingRow label="Conviction">{finding.conviction}</FindingRow>
+              )}
+              {finding.keyRisks && finding.keyRisks.length > 0 && (
+                <FindingRow label="Key risks">
+                  <ul className="flex flex-col items-end gap-0.5">
+                    {finding.keyRisks.map((risk) => (
+                      <li key={risk}>{risk}</li>
+                    ))}
+                  </ul>
+                </FindingRow>
+              )}
+              {Object.entries(finding.extra ?? {}).map(([key, value]) => (
+                <FindingRow key={key} label={labels.get(key) ?? key}>
+                  {formatFindingValue(value)}
+                </FindingRow>
+              ))}
+            </dl>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function FindingRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <dt className="shrink-0 text-muted-foreground">{label}</dt>
+      <dd className="text-right">{children}</dd>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { Link } from "@tanstack/react-router";
+import { useStockFindings } from "@/hooks/use-findings";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChevronRight, LineChart } from "lucide-react";
+import { RATING_SCALE, formatPriceTarget, ratingScore } from "@/lib/findings";
+import type { GenericId } from "convex/values";
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+const PADDING = { top: 8, right: 8, bottom: 18, left: 64 };
+
+interface ChartPoint {
+  time: number;
+  value: number;
+  title: string;
+}
+
+interface ChartTick {
+  value: number;
+  label: string;
+}
+
+const RATING_TICKS: ChartTick[] = RATING_SCALE.map((label, index) => ({ value: index + 1, label }));
+
+function priceTargetTicks(min: number, max: number): ChartTick[] {
+  const ticks = [{ value: min, label: formatPriceTarget(min) }];
+  if (max !== min) ticks.push({ value: max, label: formatPriceTarget(max) });
+  return ticks;
+}
+
+function formatShortDate(time: number): string {
+  return new Date(time).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toLocaleDateString();
+}
+
+/**
+ * Minimal SVG line chart over time. Values are plotted between `min` and
+ * `max`, with a gridline and label at every tick.
+ */
+function HistoryChart({
+  points,
+  min,
+  max,
+  ticks,
+}: {
+  points: ChartPoint[];
+  min: number;
+  max: number;
+  ticks: ChartTick[];
+}) {
+  const first = points[0]?.time ?? 0;
+  const last = points.at(-1)?.time ?? 0;
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (time: number) =>
+    PADDING.left + (last === first ? plotWidth / 2 : ((time - first) / (last - first)) * plotWidth);
+  const y = (value: number) =>
+    PADDING.top + (max === min ? plotHeight / 2 : (1 - (value - min) / (max - min)) * plotHeight);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full" role="img">
+      {ticks.map((tick) => (
+        <g key={tick.label} className="text-muted-foreground">
+          <line
+            x1={PADDING.left}
+            x2={CHART_WIDTH - PADDING.right}
+            y1={y(tick.value)}
+            y2={y(tick.value)}
+            stroke="currentColor"
+            strokeOpacity={0.2}
+          />
+          <text
+            x={PADDING.left - 6}
+            y={y(tick.value)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            fontSize={9}
+            fill="currentColor"
+          >
+            {tick.label}
+          </text>
+        </g>
+      ))}
+      <g className="text-muted-foreground" fontSize={9} fill="currentColor">
+        <text x={PADDING.left} y={CHART_HEIGHT - 4}>
+          {formatShortDate(first)}
+        </text>
+        {last !== first && (
+          <text x={CHART_WIDTH - PADDING.right} y={CHART_HEIGHT - 4} textAnchor="end">
+            {formatShortDate(last)}
+          </text>
+        )}
+      </g>
+      <g className="text-primary">
+        <polyline
+          points={points.map((point) => `${x(point.time)},${y(point.value)}`).join(" ")}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+        />
+        {points.map((point) => (
+          <circle
+            key={`${point.time}-${point.title}`}
+            cx={x(point.time)}
+            cy={y(point.value)}
+            r={3}
+            fill="currentColor"
+          >
+            <title>{point.title}</title>
+          </circle>
+        ))}
+      </g>
+    </svg>
+  );
+}
+
+/** Rating and price-target history of a stock, from findings extracted across runs. */
+export function FindingsHistory({ stockId }: { stockId: GenericId<"stocks"> }) {
+  const findings = useStockFindings(stockId);
+  if (!findings) return null;
+
+  const ratingPoints: ChartPoint[] = findings.flatMap((finding) => {
+    const score = finding.rating ? ratingScore(finding.rating) : undefined;
+    return score === undefined
+      ? []
+      : [
+          {
+            time: finding.createdAt,
+            value: score,
+            title: `${formatDate(finding.createdAt)} · ${finding.promptName}: ${finding.rating}`,
+          },
+        ];
+  });
+
+  const targetPoints: ChartPoint[] = findings.flatMap((finding) =>
+    finding.priceTarget == null
+      ? []
+      : [
+          {
+            time: finding.createdAt,
+            value: finding.priceTarget,
+            title: `${formatDate(finding.createdAt)} · ${finding.promptName}: ${formatPriceTarget(finding.priceTarget)}`,
+          },
+        ],
+  );
+  const targets = targetPoints.map((point) => point.value);
+  const targetMin = Math.min(...targets);
+  const targetMax = Math.max(...targets);
+
+  const recent = findings.slice(-5).toReversed();
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <LineChart className="size-4" />
+          Research Findings
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {findings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No findings yet. Give a prompt a structured output with a rating or price target
+            to track them across runs.
+          </p>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="flex flex-col gap-1">
+                <span className="text-xs font-medium text-muted-foreground">Rating</span>
+                {ratingPoints.length > 0 ? (
+                  <HistoryChart
+                    points={ratingPoints}
+                    min={1}
+                    max={RATING_SCALE.length}
+                    ticks={RATING_TICKS}
+                  />
+                ) : (
+                  <p className="text-xs text-muted-foreground">No ratings extracted.</p>
+                )}
+              </div>
+              <div className="flex flex-col gap-1">
+                <span className="text-xs font-medium text-muted-foreground">Price target</span>
+                {targetPoints.length > 0 ? (
+                  <HistoryChart
+                    points={targetPoints}
+                    min={targetMin}
+                    max={targetMax}
+                    ticks={priceTargetTicks(targetMin, targetMax)}
+                  />
+                ) : (
+                  <p className="text-xs text-muted-foreground">No price targets extracted.</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-1.5">
+              {recent.map((finding) => (
+                <Link
+                  key={finding._id}
+                  to="/history/$jobId"
+                  params={{ jobId: finding.jobId }}
+                  className="flex items-center gap-3 rounded-lg border px-3 py-2 transition-colors hover:bg-accent"
+                >
+                  <span className="min-w-0 flex-1 truncate text-sm font-medium">
+                    {finding.promptName}
+                  </span>
+                  {finding.rating && (
+                    <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                      {finding.rating}
+                    </Badge>
+                  )}
+                  {finding.priceTarget != null && (
+                    <span className="text-xs tabular-nums">{formatPriceTarget(finding.priceTarget)}</span>
+                  )}
+                  <span className="hidden text-xs text-muted-foreground sm:inline">
+                    {formatDate(finding.createdAt)}
+                  </span>
+                  <ChevronRight className="size-4 shrink-0 text-muted-foreground" />
+                </Link>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Link } from "@tanstack/react-router";
+import { Loader2, MessageSquare, Send } from "lucide-react";
+import type { Doc } from "@repo/convex/dataModel";
+import { useAskFollowUp, useFollowUps } from "@/hooks/use-research";
+import { useBudgetStatus } from "@/hooks/use-costs";
+import { MarkdownRenderer } from "@/components/markdown-renderer";
+import { BudgetCapNotice } from "@/components/budget-cap-notice";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+
+function isActive(job: Doc<"researchJobs">): boolean {
+  return (
+    job.status === "queued" ||
+    job.status === "pending" ||
+    job.status === "running" ||
+    (job.status === "failed" && job.awaitingRetry === true)
+  );
+}
+
+function FollowUpAnswer({ followUp }: { followUp: Doc<"researchJobs"> }) {
+  if (isActive(followUp)) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="size-4 animate-spin" />
+        {followUp.status === "queued" ? "Waiting in the queue…" : "Researching…"}
+      </div>
+    );
+  }
+  if (followUp.status === "completed" && followUp.result) {
+    return <MarkdownRenderer content={followUp.result} collapsible={false} />;
+  }
+  return (
+    <p className="text-sm text-destructive">
+      {followUp.status === "cancelled" ? "Cancelled" : (followUp.error ?? "Failed")}
+    </p>
+  );
+}
+
+/**
+ * Follow-up questions on a completed job, each run as a child job that
+ * continues the conversation, with a box to ask the next one.
+ */
+export function FollowUpThread({ job }: { job: Doc<"researchJobs"> }) {
+  const followUps = useFollowUps(job._id);
+  const askFollowUp = useAskFollowUp();
+  const budget = useBudgetStatus();
+  const [question, setQuestion] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [overrideBudgetCap, setOverrideBudgetCap] = useState(false);
+
+  const inProgress = followUps?.some(isActive) ?? false;
+  const canAsk = job.status === "completed" && !inProgress && question.trim().length > 0;
+
+  async function handleAsk() {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await askFollowUp({ jobId: job._id, question, overrideBudgetCap });
+      setQuestion("");
+      setOverrideBudgetCap(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to ask the follow-up");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <MessageSquare className="size-4" />
+          Follow-ups
+          {followUps && followUps.length > 0 && (
+            <Badge variant="secondary" className="text-xs">
+              {followUps.length}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {followUps?.map((followUp) => (
+          <div key={followUp._id} className="flex flex-col gap-2">
+            <div className="ml-auto max-w-[85%] rounded-lg bg-muted px-3 py-2 text-sm whitespace-pre-wrap">
+              {followUp.promptSnapshot}
+            </div>
+            <FollowUpAnswer followUp={followUp} />
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              {followUp.costUsd != null && (
+                <span className="tabular-nums">${followUp.costUsd.toFixed(2)}</span>
+              )}
+              <Link
+                to="/history/$jobId"
+                params={{ jobId: followUp._id }}
+                className="text-primary hover:underline"
+              >
+                {followUp.resultStorageId ? "Open full answer" : "Details"}
+              </Link>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex flex-col gap-2">
+          <Textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder={
+              inProgress
+                ? "Wait for the current follow-up to finish…"
+                : "Ask a follow-up about this report…"
+            }
+            disabled={submitting || inProgress}
+            rows={3}
+          />
+          {budget && error && (
+            <BudgetCapNotice
+              expectedCostUsd={null}
+              forceOverride
+              override={overrideBudgetCap}
+              onOverrideChange={setOverrideBudgetCap}
+              disabled={submitting}
+            />
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              Runs as a new research job on the same model, continuing from the answers above.
+            </p>
+            <Button size="sm" onClick={handleAsk} disabled={!canAsk || submitting}>
+              {submitting ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <Send className="size-4" />
+              )}
+              Ask
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
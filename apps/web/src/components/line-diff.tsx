@@ -0,0 +1,42 @@
+import { cn } from "@/lib/utils";
+import type { DiffLine } from "@/lib/line-diff";
+
+function DiffLineRow({ line }: { line: DiffLine }) {
+  if (line.type === "skipped") {
+    return (
+      <div className="px-2 text-muted-foreground">
+        … {line.count} unchanged {line.count === 1 ? "line" : "lines"}
+      </div>
+    );
+  }
+  return (
+    <div
+      className={cn(
+        "px-2 whitespace-pre-wrap",
+        line.type === "added" && "bg-green-500/10 text-green-700 dark:text-green-400",
+        line.type === "removed" && "bg-red-500/10 text-red-700 line-through dark:text-red-400",
+        line.type === "same" && "text-muted-foreground",
+      )}
+    >
+      {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+      {line.text}
+    </div>
+  );
+}
+
+/** Line diff with added lines in green and removed ones in red. */
+export function LineDiff({ lines, className }: { lines: DiffLine[]; className?: string }) {
+  return (
+    <div
+      className={cn(
+        "max-h-64 overflow-y-auto rounded-lg border bg-muted/30 py-1 font-mono text-xs leading-5",
+        className,
+      )}
+    >
+      {lines.map((line, index) => (
+        // Lines repeat, so their position is the only stable key
+        <DiffLineRow key={index} line={line} />
+      ))}
+    </div>
+  );
+}
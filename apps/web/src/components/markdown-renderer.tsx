@@ -5,6 +5,7 @@ import type { Components } from "react-markdown";
 import { cn } from "@/lib/utils";
 import { ChevronRight, ChevronsDownUp, ChevronsUpDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { insertCitationMarkers, type ResearchSource } from "@/lib/citations";
 
 // --- Markdown components (non-heading) ---
 
@@ -14,17 +15,28 @@ const baseComponents: Components = {
       {children}
     </p>
   ),
-  a: ({ children, href, ...props }) => (
-    <a
-      href={href}
-      target="_blank"
-      rel="noopener noreferrer"
-      className="text-primary underline underline-offset-4 hover:text-primary/80"
-      {...props}
-    >
-      {children}
-    </a>
-  ),
+  a: ({ children, href, ...props }) =>
+    href?.startsWith("#source-") ? (
+      <sup>
+        <a
+          href={href}
+          className="text-primary px-0.5 font-mono text-[10px] no-underline hover:underline"
+          {...props}
+        >
+          [{children}]
+        </a>
+      </sup>
+    ) : (
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-primary underline underline-offset-4 hover:text-primary/80"
+        {...props}
+      >
+        {children}
+      </a>
+    ),
   ul: ({ children, ...props }) => (
     <ul className="mb-3 ml-6 list-disc space-y-1" {...props}>
       {children}
@@ -111,7 +123,7 @@ const remarkPlugins = [remarkGfm];
 
 // --- Section parsing (hierarchical) ---
 
-interface Section {
+export interface Section {
   level: number;
   displayLevel: number;
   title: string;
@@ -119,12 +131,13 @@ interface Section {
   children: Section[];
 }
 
-interface ParsedMarkdown {
+export interface ParsedMarkdown {
   preamble: string;
   sections: Section[];
 }
 
-function parseSections(markdown: string): ParsedMarkdown {
+/** Split Markdown into its preamble and a tree of sections nested by heading level. */
+export function parseSections(markdown: string): ParsedMarkdown {
   const lines = markdown.split("\n");
   let preamble = "";
 
@@ -267,14 +280,21 @@ interface MarkdownRendererProps {
   content: string;
   className?: string;
   collapsible?: boolean;
+  /** Cited sources; rendered as numbered footnote links after each cited span */
+  sources?: ResearchSource[];
 }
 
 export function MarkdownRenderer({
   content,
   className,
   collapsible = true,
+  sources,
 }: MarkdownRendererProps) {
-  const { preamble, sections } = useMemo(() => parseSections(content), [content]);
+  const annotated = useMemo(
+    () => (sources && sources.length > 0 ? insertCitationMarkers(content, sources) : content),
+    [content, sources],
+  );
+  const { preamble, sections } = useMemo(() => parseSections(annotated), [annotated]);
   const hasCollapsibleSections = collapsible && sections.length > 0;
 
   // Collect all keys from the tree for expand-all
@@ -319,7 +339,7 @@ export function MarkdownRenderer({
     return (
       <div className={cn("text-foreground text-sm leading-relaxed break-words overflow-hidden", className)}>
         <ReactMarkdown remarkPlugins={remarkPlugins} components={baseComponents}>
-          {content}
+          {annotated}
         </ReactMarkdown>
       </div>
     );
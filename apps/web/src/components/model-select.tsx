@@ -0,0 +1,52 @@
+import { useProviderModels } from "@/hooks/use-model-pricing";
+import { cn } from "@/lib/utils";
+import type { ResearchProvider } from "@/lib/providers";
+
+interface ModelSelectProps {
+  id?: string;
+  provider: ResearchProvider;
+  /** Selected model; undefined means "use the default" */
+  value: string | undefined;
+  onChange: (model: string | undefined) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function ModelSelect({
+  id,
+  provider,
+  value,
+  onChange,
+  disabled,
+  className,
+}: ModelSelectProps) {
+  const models = useProviderModels(provider);
+  const defaultModel = models?.find((m) => m.isDefault)?.model;
+
+  return (
+    <select
+      id={id}
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value || undefined)}
+      disabled={disabled || models === undefined}
+      className={cn(
+        "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm text-foreground shadow-xs transition-colors",
+        "focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring",
+        className,
+      )}
+    >
+      <option value="" className="bg-background text-foreground">
+        Default{defaultModel ? ` (${defaultModel})` : ""}
+      </option>
+      {models?.map((m) => (
+        <option
+          key={m.model}
+          value={m.model}
+          className="bg-background text-foreground"
+        >
+          {m.model} — ${m.inputPerMillion}/${m.outputPerMillion} per 1M
+        </option>
+      ))}
+    </select>
+  );
+}
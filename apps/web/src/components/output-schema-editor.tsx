@@ -0,0 +1,164 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  OUTPUT_FIELD_TYPE_OPTIONS,
+  STANDARD_OUTPUT_FIELDS,
+  isStandardOutputField,
+  type OutputField,
+  type OutputFieldType,
+} from "@/lib/findings";
+
+export interface OutputFieldDraft extends OutputField {
+  /** Stable React key while the field key is being typed */
+  id: number;
+  /** Toggled on from STANDARD_OUTPUT_FIELDS rather than added by hand */
+  standard: boolean;
+}
+
+let nextFieldId = 0;
+
+export function toOutputFieldDrafts(fields: OutputField[] | undefined): OutputFieldDraft[] {
+  return (fields ?? []).map((field) => {
+    nextFieldId += 1;
+    return Object.assign({ id: nextFieldId, standard: isStandardOutputField(field.key) }, field);
+  });
+}
+
+export function fromOutputFieldDrafts(drafts: OutputFieldDraft[]): OutputField[] {
+  return drafts.map((field) => ({
+    key: field.key.trim(),
+    label: field.label.trim(),
+    type: field.type,
+    description: field.description?.trim() || undefined,
+  }));
+}
+
+/** First problem with the custom fields, mirroring the server's checks. */
+export function validateOutputFields(drafts: OutputFieldDraft[]): string | undefined {
+  const keys = new Set<string>();
+  for (const field of drafts) {
+    const key = field.key.trim();
+    if (!/^[a-zA-Z][a-zA-Z0-9]{0,49}$/.test(key)) {
+      return "Field keys must start with a letter and contain only letters and digits";
+    }
+    if (!field.standard && isStandardOutputField(key)) {
+      return `"${key}" is a standard field, turn it on above instead`;
+    }
+    if (keys.has(key)) return `Field key "${key}" is used twice`;
+    keys.add(key);
+    if (!field.label.trim()) return `Field "${key}" needs a label`;
+  }
+  return undefined;
+}
+
+interface OutputSchemaEditorProps {
+  fields: OutputFieldDraft[];
+  onChange: (fields: OutputFieldDraft[]) => void;
+  error?: string;
+}
+
+/**
+ * Standard fields toggle on and off; custom fields get a key, label and type.
+ * Values are extracted from every completed report of the prompt.
+ */
+export function OutputSchemaEditor({ fields, onChange, error }: OutputSchemaEditorProps) {
+  const customFields = fields.filter((field) => !field.standard);
+
+  function toggleStandard(standard: OutputField) {
+    if (fields.some((field) => field.standard && field.key === standard.key)) {
+      onChange(fields.filter((field) => !(field.standard && field.key === standard.key)));
+    } else {
+      onChange([...toOutputFieldDrafts([standard]), ...fields]);
+    }
+  }
+
+  function updateCustom(id: number, updates: Partial<OutputField>) {
+    onChange(fields.map((field) => (field.id === id ? Object.assign({}, field, updates) : field)));
+  }
+
+  function addCustom() {
+    onChange([...fields, ...toOutputFieldDrafts([{ key: "", label: "", type: "text" }])]);
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Label>Structured Output</Label>
+      <p className="text-xs text-muted-foreground">
+        Values pulled out of every completed report. Rating and price target are charted on
+        the stock page.
+      </p>
+
+      <div className="flex flex-wrap gap-1.5">
+        {STANDARD_OUTPUT_FIELDS.map((standard) => {
+          const enabled = fields.some((field) => field.standard && field.key === standard.key);
+          return (
+            <button
+              key={standard.key}
+              type="button"
+              onClick={() => toggleStandard(standard)}
+              title={standard.description}
+              className={cn(
+                "inline-flex items-center rounded-md border px-2.5 py-1 text-xs font-medium transition-colors",
+                enabled
+                  ? "border-primary bg-primary text-primary-foreground"
+                  : "border-border bg-background text-foreground hover:bg-accent",
+              )}
+            >
+              {standard.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {customFields.map((field) => (
+        <div key={field.id} className="flex items-center gap-2">
+          <Input
+            placeholder="key, e.g. moat"
+            value={field.key}
+            onChange={(e) => updateCustom(field.id, { key: e.target.value })}
+            className="h-8 font-mono text-xs"
+          />
+          <Input
+            placeholder="Label, e.g. Economic moat"
+            value={field.label}
+            onChange={(e) => updateCustom(field.id, { label: e.target.value })}
+            className="h-8"
+          />
+          <select
+            value={field.type}
+            onChange={(e) => updateCustom(field.id, { type: e.target.value as OutputFieldType })}
+            className={cn(
+              "flex h-8 w-28 shrink-0 rounded-md border border-input bg-background px-2 py-1 text-sm text-foreground shadow-xs transition-colors",
+              "focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring",
+            )}
+          >
+            {OUTPUT_FIELD_TYPE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value} className="bg-background text-foreground">
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => onChange(fields.filter((other) => other.id !== field.id))}
+            title="Remove field"
+          >
+            <Trash2 className="size-3.5 text-destructive" />
+            <span className="sr-only">Remove</span>
+          </Button>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={addCustom} className="self-start">
+        <Plus className="size-4" />
+        Add Custom Field
+      </Button>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,411 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useCreatePipeline, useUpdatePipeline } from "@/hooks/use-pipelines";
+import { usePrompts } from "@/hooks/use-prompts";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PROVIDER_OPTIONS, type ResearchProvider } from "@/lib/providers";
+import { ModelSelect } from "@/components/model-select";
+import { PromptParameterFields } from "@/components/prompt-parameter-fields";
+import {
+  cleanParameterValues,
+  validateParameterValues,
+  type ParameterValues,
+} from "@/lib/prompt-parameters";
+import { findPromptParameters, findStepReferences } from "@repo/convex/promptTemplate";
+import type { Doc, Id } from "@repo/convex/dataModel";
+
+interface PipelineModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pipeline?: Doc<"pipelines"> | null;
+}
+
+interface StepFormData {
+  /** Stable React key while steps are reordered */
+  key: number;
+  name: string;
+  promptId: string;
+  provider: ResearchProvider;
+  model?: string;
+  parameterValues: ParameterValues;
+}
+
+interface PipelineFormData {
+  name: string;
+  description: string;
+  steps: StepFormData[];
+}
+
+interface PipelineFormErrors {
+  name?: string;
+  steps?: string;
+}
+
+let nextStepKey = 0;
+
+function emptyStep(): StepFormData {
+  nextStepKey += 1;
+  return { key: nextStepKey, name: "", promptId: "", provider: "openai", parameterValues: {} };
+}
+
+/** Problem with each of a step's parameter values, by parameter name. */
+function stepParameterErrors(step: StepFormData, template: string | undefined): Record<string, string> {
+  return template ? validateParameterValues(findPromptParameters(template), step.parameterValues) : {};
+}
+
+/** Step references that point at the step itself or a later one. */
+function invalidReferences(template: string | undefined, index: number): number[] {
+  if (!template) return [];
+  return findStepReferences(template).filter((n) => n < 1 || n > index);
+}
+
+function validatePipelineForm(
+  form: PipelineFormData,
+  templates: Map<string, string>,
+): PipelineFormErrors {
+  const errors: PipelineFormErrors = {};
+  if (!form.name.trim()) errors.name = "Name is required";
+  if (form.steps.length === 0) {
+    errors.steps = "Add at least one step";
+  } else if (form.steps.some((step) => !step.promptId)) {
+    errors.steps = "Choose a prompt for every step";
+  } else if (
+    form.steps.some((step, index) => invalidReferences(templates.get(step.promptId), index).length > 0)
+  ) {
+    errors.steps = "A step can only use the output of the steps before it";
+  } else if (
+    form.steps.some(
+      (step) => Object.keys(stepParameterErrors(step, templates.get(step.promptId))).length > 0,
+    )
+  ) {
+    errors.steps = "Fill in the parameters of every step";
+  }
+  return errors;
+}
+
+export function PipelineModal({ open, onOpenChange, pipeline }: PipelineModalProps) {
+  const createPipeline = useCreatePipeline();
+  const updatePipeline = useUpdatePipeline();
+  const prompts = usePrompts();
+  const isEditing = !!pipeline;
+
+  const [form, setForm] = useState<PipelineFormData>({ name: "", description: "", steps: [] });
+  const [errors, setErrors] = useState<PipelineFormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [showParameterErrors, setShowParameterErrors] = useState(false);
+
+  const templates = new Map(prompts?.map((p) => [p._id as string, p.template]) ?? []);
+
+  useEffect(() => {
+    if (open) {
+      if (pipeline) {
+        const steps: StepFormData[] = [];
+        for (const step of pipeline.steps) {
+          steps.push({ ...emptyStep(), ...step, parameterValues: { ...step.parameterValues } });
+        }
+        setForm({ name: pipeline.name, description: pipeline.description, steps });
+      } else {
+        setForm({ name: "", description: "", steps: [emptyStep()] });
+      }
+      setErrors({});
+      setSubmitError(null);
+      setShowParameterErrors(false);
+    }
+  }, [open, pipeline]);
+
+  function updateStep(index: number, updates: Partial<StepFormData>) {
+    setForm((prev) => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index ? Object.assign({}, step, updates) : step)),
+    }));
+    if (errors.steps) setErrors((prev) => ({ ...prev, steps: undefined }));
+  }
+
+  function selectPrompt(index: number, promptId: string) {
+    const prompt = prompts?.find((p) => p._id === promptId);
+    const step = form.steps[index];
+    updateStep(index, {
+      promptId,
+      name: step?.name.trim() ? step.name : (prompt?.name ?? ""),
+      provider: prompt?.defaultProvider ?? step?.provider,
+      model: prompt?.defaultModel,
+      parameterValues: {},
+    });
+  }
+
+  function moveStep(index: number, offset: -1 | 1) {
+    setForm((prev) => {
+      const steps = [...prev.steps];
+      const [moved] = steps.splice(index, 1);
+      if (moved) steps.splice(index + offset, 0, moved);
+      return { ...prev, steps };
+    });
+  }
+
+  function removeStep(index: number) {
+    setForm((prev) => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitError(null);
+
+    const validationErrors = validatePipelineForm(form, templates);
+    setErrors(validationErrors);
+    setShowParameterErrors(true);
+    if (validationErrors.name || validationErrors.steps) return;
+
+    const steps = form.steps.map((step, index) => {
+      const template = templates.get(step.promptId);
+      const parameters = template ? findPromptParameters(template) : [];
+      return {
+        name: step.name.trim() || `Step ${index + 1}`,
+        promptId: step.promptId as Id<"prompts">,
+        provider: step.provider,
+        model: step.model,
+        parameterValues:
+          parameters.length > 0 ? cleanParameterValues(parameters, step.parameterValues) : undefined,
+      };
+    });
+
+    setSubmitting(true);
+    try {
+      if (isEditing && pipeline) {
+        await updatePipeline({
+          id: pipeline._id,
+          name: form.name.trim(),
+          description: form.description.trim(),
+          steps,
+        });
+      } else {
+        await createPipeline({
+          name: form.name.trim(),
+          description: form.description.trim(),
+          steps,
+        });
+      }
+      onOpenChange(false);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Pipeline" : "Create Pipeline"}</DialogTitle>
+          <DialogDescription>
+            Steps run one after another. A step&apos;s prompt can include the output of an
+            earlier step with {"{{STEP_1_RESULT}}"}, {"{{STEP_2_RESULT}}"}, and so on.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          {/* Name */}
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="pipeline-name">Name *</Label>
+            <Input
+              id="pipeline-name"
+              placeholder="e.g. Research, critique, summarize"
+              value={form.name}
+              onChange={(e) => {
+                setForm((prev) => ({ ...prev, name: e.target.value }));
+                if (errors.name) setErrors((prev) => ({ ...prev, name: undefined }));
+              }}
+              aria-invalid={!!errors.name}
+            />
+            {errors.name && <p className="text-xs text-destructive">{errors.name}</p>}
+          </div>
+
+          {/* Description */}
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="pipeline-description">Description</Label>
+            <Input
+              id="pipeline-description"
+              placeholder="What this pipeline produces"
+              value={form.description}
+              onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+
+          {/* Steps */}
+          <div className="flex flex-col gap-2">
+            <Label>Steps *</Label>
+            {form.steps.map((step, index) => {
+              const template = templates.get(step.promptId);
+              const references = template ? findStepReferences(template) : [];
+              const invalid = invalidReferences(template, index);
+              const parameters = template ? findPromptParameters(template) : undefined;
+              return (
+                <div key={step.key} className="flex flex-col gap-2 rounded-md border p-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="shrink-0 text-[10px] px-1.5 py-0">
+                      Step {index + 1}
+                    </Badge>
+                    <Input
+                      placeholder="Step name"
+                      value={step.name}
+                      onChange={(e) => updateStep(index, { name: e.target.value })}
+                      className="h-8"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => moveStep(index, -1)}
+                      disabled={index === 0}
+                      title="Move up"
+                    >
+                      <ArrowUp className="size-3.5" />
+                      <span className="sr-only">Move up</span>
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === form.steps.length - 1}
+                      title="Move down"
+                    >
+                      <ArrowDown className="size-3.5" />
+                      <span className="sr-only">Move down</span>
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => removeStep(index)}
+                      disabled={form.steps.length === 1}
+                      title="Remove step"
+                    >
+                      <Trash2 className="size-3.5 text-destructive" />
+                      <span className="sr-only">Remove</span>
+                    </Button>
+                  </div>
+
+                  <select
+                    value={step.promptId}
+                    onChange={(e) => selectPrompt(index, e.target.value)}
+                    disabled={prompts === undefined}
+                    className={cn(
+                      "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm text-foreground shadow-xs transition-colors",
+                      "focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring",
+                    )}
+                  >
+                    <option value="" className="bg-background text-foreground">
+                      Choose a prompt…
+                    </option>
+                    {prompts?.map((prompt) => (
+                      <option key={prompt._id} value={prompt._id} className="bg-background text-foreground">
+                        {prompt.name}
+                      </option>
+                    ))}
+                  </select>
+
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    {PROVIDER_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => updateStep(index, { provider: option.value, model: undefined })}
+                        className={cn(
+                          "inline-flex items-center rounded-md border px-2.5 py-1 text-xs font-medium transition-colors",
+                          step.provider === option.value
+                            ? "border-primary bg-primary text-primary-foreground"
+                            : "border-border bg-background text-foreground hover:bg-accent",
+                        )}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <ModelSelect
+                    provider={step.provider}
+                    value={step.model}
+                    onChange={(model) => updateStep(index, { model })}
+                  />
+
+                  {parameters && parameters.length > 0 && (
+                    <PromptParameterFields
+                      parameters={parameters}
+                      values={step.parameterValues}
+                      onChange={(parameterValues) => updateStep(index, { parameterValues })}
+                      errors={showParameterErrors ? stepParameterErrors(step, template) : undefined}
+                      idPrefix={`pipeline-step-${step.key}`}
+                    />
+                  )}
+
+                  {references.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                      Uses
+                      {references.map((n) => (
+                        <Badge
+                          key={n}
+                          variant={invalid.includes(n) ? "destructive" : "outline"}
+                          className="text-[10px] px-1.5 py-0"
+                        >
+                          {`{{STEP_${n}_RESULT}}`}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {invalid.length > 0 && (
+                    <p className="text-xs text-destructive">
+                      {index === 0
+                        ? "The first step has no earlier output to use."
+                        : `Step ${index + 1} can only use the output of steps 1–${index}.`}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setForm((prev) => ({ ...prev, steps: [...prev.steps, emptyStep()] }))}
+              className="self-start"
+            >
+              <Plus className="size-4" />
+              Add Step
+            </Button>
+            {errors.steps && <p className="text-xs text-destructive">{errors.steps}</p>}
+          </div>
+
+          {submitError && <p className="text-sm text-destructive">{submitError}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting
+                ? isEditing
+                  ? "Saving..."
+                  : "Creating..."
+                : isEditing
+                  ? "Save Changes"
+                  : "Create Pipeline"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useMemo, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import type { Doc } from "@repo/convex/dataModel";
+import { usePromptVersions, useRestorePromptVersion } from "@/hooks/use-prompt-versions";
+import { LineDiff } from "@/components/line-diff";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { compactDiff, contentLines, diffLines } from "@/lib/line-diff";
+import { cn } from "@/lib/utils";
+
+type CompareTo = "previous" | "current";
+
+const COMPARE_OPTIONS: { value: CompareTo; label: string }[] = [
+  { value: "previous", label: "Previous version" },
+  { value: "current", label: "Current version" },
+];
+
+function formatDateTime(time: number): string {
+  return new Date(time).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+interface PromptHistoryDialogProps {
+  prompt: Doc<"prompts"> | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Every saved template of a prompt, with a diff against the version before
+ * it or the current one, and a way to make an old version current again.
+ */
+export function PromptHistoryDialog({ prompt, onOpenChange }: PromptHistoryDialogProps) {
+  const versions = usePromptVersions(prompt?._id);
+  const restoreVersion = useRestorePromptVersion();
+  const [selectedId, setSelectedId] = useState<Doc<"promptVersions">["_id"] | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTo>("previous");
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedIndex = Math.max(0, versions?.findIndex((version) => version._id === selectedId) ?? 0);
+  const selected = versions?.[selectedIndex];
+  const base =
+    compareTo === "previous"
+      ? versions?.[selectedIndex + 1]
+      : versions?.find((version) => version._id === prompt?.currentVersionId);
+  const isCurrent = selected !== undefined && selected._id === prompt?.currentVersionId;
+
+  const diff = useMemo(() => {
+    if (!selected || !base || base._id === selected._id) return null;
+    // Read as the edit from the older template to the newer one
+    const [older, newer] = base.version < selected.version ? [base, selected] : [selected, base];
+    return {
+      from: older.version,
+      to: newer.version,
+      lines: compactDiff(diffLines(contentLines(older.template), contentLines(newer.template))),
+    };
+  }, [selected, base]);
+
+  function handleOpenChange(open: boolean) {
+    if (!open) {
+      setSelectedId(null);
+      setCompareTo("previous");
+      setError(null);
+    }
+    onOpenChange(open);
+  }
+
+  async function handleRestore() {
+    if (!selected) return;
+    setRestoring(true);
+    setError(null);
+    try {
+      await restoreVersion({ versionId: selected._id });
+      setSelectedId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore the version");
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  return (
+    <Dialog open={!!prompt} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="size-4" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>{prompt?.name}</DialogDescription>
+        </DialogHeader>
+
+        {versions === undefined ? (
+          <div className="h-40 animate-pulse rounded-md bg-muted" />
+        ) : versions.length === 0 || !selected ? (
+          <p className="text-sm text-muted-foreground">
+            No versions yet. The first one is saved on the next edit or run of this prompt.
+          </p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[14rem_1fr]">
+            <div className="flex max-h-[60vh] flex-col gap-1.5 overflow-y-auto">
+              {versions.map((version) => (
+                <button
+                  key={version._id}
+                  type="button"
+                  onClick={() => setSelectedId(version._id)}
+                  className={cn(
+                    "flex flex-col items-start gap-0.5 rounded-md border p-2 text-left transition-colors",
+                    version._id === selected._id
+                      ? "border-primary bg-primary/5"
+                      : "border-transparent hover:bg-accent",
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">Version {version.version}</span>
+                    {version._id === prompt?.currentVersionId && (
+                      <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                        Current
+                      </Badge>
+                    )}
+                  </div>
+                  <span className="text-[11px] text-muted-foreground">
+                    {formatDateTime(version.createdAt)}
+                  </span>
+                  {version.note && (
+                    <span className="text-xs text-muted-foreground line-clamp-2">{version.note}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex min-w-0 flex-col gap-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap gap-1.5">
+                  {COMPARE_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setCompareTo(option.value)}
+                      className={cn(
+                        "inline-flex items-center rounded-md border px-2 py-0.5 text-xs font-medium transition-colors",
+                        compareTo === option.value
+                          ? "border-primary bg-primary text-primary-foreground"
+                          : "border-border bg-background text-foreground hover:bg-accent",
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {!isCurrent && (
+                  <Button size="sm" variant="outline" onClick={handleRestore} disabled={restoring}>
+                    {restoring ? (
+                      <Loader2 className="size-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="size-4" />
+                    )}
+                    Restore this version
+                  </Button>
+                )}
+              </div>
+
+              {diff ? (
+                <>
+                  <span className="text-xs text-muted-foreground">
+                    Changes from version {diff.from} to {diff.to}
+                  </span>
+                  <LineDiff lines={diff.lines} className="max-h-[50vh]" />
+                </>
+              ) : (
+                <>
+                  <span className="text-xs text-muted-foreground">
+                    {compareTo === "previous"
+                      ? "First version of this prompt"
+                      : "This is the current version"}
+                  </span>
+                  <pre className="bg-muted max-h-[50vh] overflow-auto rounded-lg p-4 text-xs whitespace-pre-wrap">
+                    {selected.template}
+                  </pre>
+                </>
+              )}
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
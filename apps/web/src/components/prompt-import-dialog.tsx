@@ -0,0 +1,210 @@
+import { useMemo, useState } from "react";
+import { Loader2, Upload } from "lucide-react";
+import { useImportPrompts, usePromptImportPreview } from "@/hooks/use-prompt-library";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { readPromptFiles, type PromptFile } from "@/lib/prompt-library";
+import { cn } from "@/lib/utils";
+
+type RowAction = "create" | "update" | "unchanged" | "invalid";
+
+const ACTION_LABELS: Record<RowAction, string> = {
+  create: "Create",
+  update: "Update",
+  unchanged: "Unchanged",
+  invalid: "Invalid",
+};
+
+const ACTION_STYLES: Record<RowAction, string> = {
+  create: "border-green-500/50 text-green-600 dark:text-green-400",
+  update: "border-amber-500/50 text-amber-600 dark:text-amber-400",
+  unchanged: "text-muted-foreground",
+  invalid: "border-destructive/50 text-destructive",
+};
+
+interface ImportRow {
+  file: string;
+  name?: string;
+  action?: RowAction;
+  detail?: string;
+}
+
+interface PromptImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Import prompts from Markdown files or a zip of them, after previewing
+ * which prompts will be created and which existing ones updated.
+ */
+export function PromptImportDialog({ open, onOpenChange }: PromptImportDialogProps) {
+  const importPrompts = useImportPrompts();
+  const [files, setFiles] = useState<PromptFile[] | null>(null);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  const entries = useMemo(
+    () => files?.flatMap((file) => (file.entry ? [file.entry] : [])) ?? [],
+    [files],
+  );
+  const preview = usePromptImportPreview(entries);
+
+  const rows = useMemo<ImportRow[]>(() => {
+    if (!files) return [];
+    let index = 0;
+    return files.map((file) => {
+      if (!file.entry) return { file: file.file, action: "invalid", detail: file.error };
+      const planned = preview?.[index++];
+      return {
+        file: file.file,
+        name: file.entry.name,
+        action: planned?.action,
+        detail:
+          planned?.error ??
+          (planned?.action === "update" ? `Changes ${planned.changes.join(", ")}` : undefined),
+      };
+    });
+  }, [files, preview]);
+
+  const hasInvalid = rows.some((row) => row.action === "invalid");
+  const pendingChanges = rows.filter((row) => row.action === "create" || row.action === "update").length;
+  const canImport = !!preview && !hasInvalid && pendingChanges > 0 && !importing;
+
+  function reset() {
+    setFiles(null);
+    setError(null);
+    setResult(null);
+  }
+
+  function handleOpenChange(nextOpen: boolean) {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  }
+
+  async function handleFiles(list: FileList | null) {
+    if (!list || list.length === 0) return;
+    reset();
+    setReading(true);
+    try {
+      const read = await readPromptFiles([...list]);
+      if (read.length === 0) {
+        setError("No Markdown files found");
+      } else {
+        setFiles(read);
+      }
+    } finally {
+      setReading(false);
+    }
+  }
+
+  async function handleImport() {
+    if (!canImport) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const summary = await importPrompts({ prompts: entries });
+      setFiles(null);
+      setResult(
+        `Created ${summary.created} and updated ${summary.updated} prompt${summary.created + summary.updated === 1 ? "" : "s"}`,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import prompts");
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Prompts</DialogTitle>
+          <DialogDescription>
+            Choose Markdown files or a .zip of them. Each file holds one prompt: YAML frontmatter
+            with name, description, type, provider and model, then the template. Prompts are
+            matched by name, so existing ones are updated instead of duplicated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".md,.markdown,.zip"
+          multiple
+          onChange={(e) => {
+            void handleFiles(e.target.files);
+            e.target.value = "";
+          }}
+          disabled={reading || importing}
+        />
+
+        {reading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="size-4 animate-spin" />
+            Reading files…
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <div className="flex flex-col gap-1.5">
+            {rows.map((row) => (
+              <div
+                key={row.file}
+                className="flex items-start justify-between gap-3 rounded-md border px-3 py-2 text-sm"
+              >
+                <div className="flex min-w-0 flex-col gap-0.5">
+                  <span className="font-medium truncate">{row.name ?? row.file}</span>
+                  <span className="text-xs text-muted-foreground truncate">{row.file}</span>
+                  {row.detail && (
+                    <span
+                      className={cn(
+                        "text-xs",
+                        row.action === "invalid" ? "text-destructive" : "text-muted-foreground",
+                      )}
+                    >
+                      {row.detail}
+                    </span>
+                  )}
+                </div>
+                {row.action ? (
+                  <Badge variant="outline" className={cn("shrink-0 text-[10px] px-1.5 py-0", ACTION_STYLES[row.action])}>
+                    {ACTION_LABELS[row.action]}
+                  </Badge>
+                ) : (
+                  <Loader2 className="size-3.5 shrink-0 animate-spin text-muted-foreground" />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasInvalid && (
+          <p className="text-sm text-destructive">Fix or remove the invalid files before importing.</p>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {result && <p className="text-sm text-muted-foreground">{result}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {result ? "Done" : "Cancel"}
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport}>
+            {importing ? <Loader2 className="size-4 animate-spin" /> : <Upload className="size-4" />}
+            Import{pendingChanges > 0 ? ` ${pendingChanges}` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
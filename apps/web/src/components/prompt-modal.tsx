@@ -13,13 +13,25 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { useCreatePrompt, useUpdatePrompt } from "@/hooks/use-prompts";
+import { useStocks } from "@/hooks/use-stocks";
+import { usePipelines } from "@/hooks/use-pipelines";
 import {
-  injectVariables,
+  previewTemplate,
   extractVariables,
   getPromptVariables,
 } from "@/lib/prompt-preview";
-import { Eye, EyeOff } from "lucide-react";
+import { AlertTriangle, CircleX, Eye, EyeOff } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { PROVIDER_OPTIONS, type ResearchProvider } from "@/lib/providers";
+import { ModelSelect } from "@/components/model-select";
+import {
+  OutputSchemaEditor,
+  fromOutputFieldDrafts,
+  toOutputFieldDrafts,
+  validateOutputFields,
+  type OutputFieldDraft,
+} from "@/components/output-schema-editor";
+import { lintPromptTemplate, type LintIssue } from "@repo/convex/promptLint";
 import type { Doc } from "@repo/convex/dataModel";
 
 type PromptType = "single-stock" | "multi-stock" | "discovery";
@@ -34,20 +46,29 @@ interface PromptFormData {
   name: string;
   description: string;
   type: PromptType;
+  defaultProvider: ResearchProvider;
+  defaultModel?: string;
   template: string;
+  outputFields: OutputFieldDraft[];
+  /** Saved with the new version when the template changes */
+  versionNote: string;
 }
 
 interface PromptFormErrors {
   name?: string;
   description?: string;
   template?: string;
+  outputFields?: string;
 }
 
 const INITIAL_FORM: PromptFormData = {
   name: "",
   description: "",
   type: "single-stock",
+  defaultProvider: "openai",
   template: "",
+  outputFields: [],
+  versionNote: "",
 };
 
 const TYPE_OPTIONS: { value: PromptType; label: string; description: string }[] = [
@@ -68,11 +89,14 @@ const TYPE_OPTIONS: { value: PromptType; label: string; description: string }[]
   },
 ];
 
-function validatePromptForm(form: PromptFormData): PromptFormErrors {
+function validatePromptForm(form: PromptFormData, lintIssues: LintIssue[]): PromptFormErrors {
   const errors: PromptFormErrors = {};
   if (!form.name.trim()) errors.name = "Name is required";
   if (!form.description.trim()) errors.description = "Description is required";
   if (!form.template.trim()) errors.template = "Template is required";
+  else if (lintIssues.some((issue) => issue.severity === "error"))
+    errors.template = "Fix the template errors before saving";
+  errors.outputFields = validateOutputFields(form.outputFields);
   return errors;
 }
 
@@ -98,7 +122,11 @@ export function PromptModal({ open, onOpenChange, prompt }: PromptModalProps) {
           name: prompt.name,
           description: prompt.description,
           type: prompt.type,
+          defaultProvider: prompt.defaultProvider,
+          defaultModel: prompt.defaultModel,
           template: prompt.template,
+          outputFields: toOutputFieldDrafts(prompt.outputSchema),
+          versionNote: "",
         });
       } else {
         setForm(INITIAL_FORM);
@@ -119,23 +147,48 @@ export function PromptModal({ open, onOpenChange, prompt }: PromptModalProps) {
     }
   }
 
-  const previewText = useMemo(
-    () => injectVariables(form.template),
+  const preview = useMemo(
+    () => previewTemplate(form.template),
     [form.template],
   );
 
+  // Multi-stock prompts are sized for the whole watchlist
+  const stocks = useStocks();
+  const stockCount = stocks?.length;
+  // Step references are checked against the pipelines that already run the prompt
+  const pipelines = usePipelines();
+  const pipelineSteps = useMemo(() => {
+    if (!prompt) return undefined;
+    const steps = (pipelines ?? []).flatMap((pipeline) =>
+      pipeline.steps.flatMap((step, index) => (step.promptId === prompt._id ? [index + 1] : [])),
+    );
+    return steps.length > 0 ? steps : undefined;
+  }, [pipelines, prompt]);
+  const lintIssues = useMemo(
+    () =>
+      lintPromptTemplate(form.template, {
+        type: form.type,
+        provider: form.defaultProvider,
+        model: form.defaultModel,
+        stockCount: stockCount || undefined,
+        pipelineSteps,
+      }),
+    [form.template, form.type, form.defaultProvider, form.defaultModel, stockCount, pipelineSteps],
+  );
+
   const usedVariables = useMemo(
     () => extractVariables(form.template),
     [form.template],
   );
 
   const availableVariables = getPromptVariables();
+  const templateChanged = !!prompt && form.template !== prompt.template;
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setSubmitError(null);
 
-    const validationErrors = validatePromptForm(form);
+    const validationErrors = validatePromptForm(form, lintIssues);
     setErrors(validationErrors);
     if (hasErrors(validationErrors)) return;
 
@@ -147,14 +200,21 @@ export function PromptModal({ open, onOpenChange, prompt }: PromptModalProps) {
           name: form.name.trim(),
           description: form.description.trim(),
           type: form.type,
+          defaultProvider: form.defaultProvider,
+          defaultModel: form.defaultModel,
           template: form.template,
+          outputSchema: fromOutputFieldDrafts(form.outputFields),
+          versionNote: templateChanged ? form.versionNote.trim() || undefined : undefined,
         });
       } else {
         await createPrompt({
           name: form.name.trim(),
           description: form.description.trim(),
           type: form.type,
+          defaultProvider: form.defaultProvider,
+          defaultModel: form.defaultModel,
           template: form.template,
+          outputSchema: fromOutputFieldDrafts(form.outputFields),
         });
       }
       onOpenChange(false);
@@ -234,6 +294,35 @@ export function PromptModal({ open, onOpenChange, prompt }: PromptModalProps) {
             </div>
           </div>
 
+          <div className="flex flex-col gap-2">
+            <Label>Default Provider</Label>
+            <div className="flex flex-wrap gap-1.5">
+              {PROVIDER_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => {
+                    updateField("defaultProvider", option.value);
+                    updateField("defaultModel", undefined);
+                  }}
+                  className={cn(
+                    "inline-flex items-center rounded-md border px-2.5 py-1 text-xs font-medium transition-colors",
+                    form.defaultProvider === option.value
+                      ? "border-primary bg-primary text-primary-foreground"
+                      : "border-border bg-background text-foreground hover:bg-accent",
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <ModelSelect
+              provider={form.defaultProvider}
+              value={form.defaultModel}
+              onChange={(model) => updateField("defaultModel", model)}
+            />
+          </div>
+
           <div className="flex flex-col gap-2">
             <div className="flex items-center justify-between">
               <Label htmlFor="prompt-template">Template *</Label>
@@ -269,7 +358,7 @@ export function PromptModal({ open, onOpenChange, prompt }: PromptModalProps) {
 
             <Textarea
               id="prompt-template"
-              placeholder="Write your prompt template here. Use {{TICKER}}, {{STOCKS}}, or {{DATE}} for variable injection."
+              placeholder="Write your prompt template here. Use variables like {{TICKER}}, {{COMPANY_NAME}} or {{DATE}}, and {{#each STOCKS}}…{{/each}} to repeat text per stock."
               value={form.template}
               onChange={(e) => updateField("template", e.target.value)}
               aria-invalid={!!errors.template}
@@ -279,6 +368,7 @@ export function PromptModal({ open, onOpenChange, prompt }: PromptModalProps) {
             {errors.template && (
               <p className="text-xs text-destructive">{errors.template}</p>
             )}
+            {lintIssues.length > 0 && <LintIssueList issues={lintIssues} />}
 
             {/* Live preview panel */}
             {showPreview && form.template.trim() && (
@@ -286,13 +376,42 @@ export function PromptModal({ open, onOpenChange, prompt }: PromptModalProps) {
                 <Label className="text-muted-foreground">
                   Preview (with sample data)
                 </Label>
-                <div className="rounded-md border bg-muted/50 p-3 text-sm whitespace-pre-wrap max-h-48 overflow-y-auto">
-                  {previewText}
-                </div>
+                {preview.text !== null ? (
+                  <div className="rounded-md border bg-muted/50 p-3 text-sm whitespace-pre-wrap max-h-48 overflow-y-auto">
+                    {preview.text}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Fix the template errors to see a preview.
+                  </p>
+                )}
               </div>
             )}
           </div>
 
+          {templateChanged && (
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="prompt-version-note">Version Note</Label>
+              <Input
+                id="prompt-version-note"
+                placeholder="What changed and why, e.g. Ask for a bear case"
+                value={form.versionNote}
+                onChange={(e) => updateField("versionNote", e.target.value)}
+                maxLength={500}
+              />
+              <p className="text-xs text-muted-foreground">
+                Saving the template creates a new version. Earlier versions stay in the
+                prompt&apos;s history.
+              </p>
+            </div>
+          )}
+
+          <OutputSchemaEditor
+            fields={form.outputFields}
+            onChange={(fields) => updateField("outputFields", fields)}
+            error={errors.outputFields}
+          />
+
           {submitError && (
             <p className="text-sm text-destructive">{submitError}</p>
           )}
@@ -320,3 +439,29 @@ export function PromptModal({ open, onOpenChange, prompt }: PromptModalProps) {
     </Dialog>
   );
 }
+
+function LintIssueList({ issues }: { issues: LintIssue[] }) {
+  return (
+    <ul className="flex flex-col gap-0.5 text-xs">
+      {issues.map((issue) => (
+        <li
+          key={`${issue.line}:${issue.message}`}
+          className={cn(
+            "flex items-start gap-1.5",
+            issue.severity === "error" ? "text-destructive" : "text-amber-600 dark:text-amber-400",
+          )}
+        >
+          {issue.severity === "error" ? (
+            <CircleX className="mt-px size-3.5 shrink-0" />
+          ) : (
+            <AlertTriangle className="mt-px size-3.5 shrink-0" />
+          )}
+          <span>
+            Line {issue.line}: {issue.message}
+            {issue.hint && <span className="text-muted-foreground"> {issue.hint}</span>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,86 @@
+import type { PromptParameter } from "@repo/convex/promptTemplate";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatParameterLabel, type ParameterValues } from "@/lib/prompt-parameters";
+import { cn } from "@/lib/utils";
+
+interface PromptParameterFieldsProps {
+  parameters: PromptParameter[];
+  values: ParameterValues;
+  onChange: (values: ParameterValues) => void;
+  /** Problems to show under the fields, by parameter name */
+  errors?: Record<string, string>;
+  /** Keeps field ids unique when several forms are on the page */
+  idPrefix: string;
+  disabled?: boolean;
+}
+
+/**
+ * One input per parameter a prompt declares: a select for select
+ * parameters, a number or text input otherwise. Blank fields use the default.
+ */
+export function PromptParameterFields({
+  parameters,
+  values,
+  onChange,
+  errors,
+  idPrefix,
+  disabled,
+}: PromptParameterFieldsProps) {
+  function setValue(name: string, value: string) {
+    onChange({ ...values, [name]: value });
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {parameters.map((parameter) => {
+        const id = `${idPrefix}-${parameter.name}`;
+        const error = errors?.[parameter.name];
+        return (
+          <div key={parameter.name} className="flex flex-col gap-1.5">
+            <Label htmlFor={id} className="flex items-baseline gap-2">
+              {formatParameterLabel(parameter.name)}
+              <span className="font-mono text-[10px] font-normal text-muted-foreground">
+                {`{{${parameter.name}}}`}
+              </span>
+            </Label>
+            {parameter.type === "select" ? (
+              <select
+                id={id}
+                value={values[parameter.name] ?? ""}
+                onChange={(e) => setValue(parameter.name, e.target.value)}
+                disabled={disabled}
+                className={cn(
+                  "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm text-foreground shadow-xs transition-colors",
+                  "focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring",
+                  error && "border-destructive",
+                )}
+              >
+                <option value="" className="bg-background text-foreground">
+                  {parameter.defaultValue ? `Default (${parameter.defaultValue})` : "Choose…"}
+                </option>
+                {parameter.options?.map((option) => (
+                  <option key={option} value={option} className="bg-background text-foreground">
+                    {option}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <Input
+                id={id}
+                type={parameter.type === "number" ? "number" : "text"}
+                placeholder={parameter.defaultValue ? `Default: ${parameter.defaultValue}` : undefined}
+                value={values[parameter.name] ?? ""}
+                onChange={(e) => setValue(parameter.name, e.target.value)}
+                aria-invalid={!!error}
+                disabled={disabled}
+                maxLength={1000}
+              />
+            )}
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useMemo, useState } from "react";
+import { Link } from "@tanstack/react-router";
+import { GitCompare, Loader2, Sparkles } from "lucide-react";
+import type { Doc } from "@repo/convex/dataModel";
+import { usePreviousRun, useSummarizeChanges } from "@/hooks/use-report-changes";
+import { useFullResult } from "@/hooks/use-full-result";
+import { MarkdownRenderer, parseSections } from "@/components/markdown-renderer";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LineDiff } from "@/components/line-diff";
+import { diffReports, type SectionChange } from "@/lib/report-diff";
+
+type FullResult = ReturnType<typeof useFullResult>;
+
+const STATUS_LABELS: Record<Exclude<SectionChange["status"], "unchanged">, string> = {
+  added: "New",
+  removed: "Removed",
+  changed: "Changed",
+};
+
+function formatDate(time: number): string {
+  return new Date(time).toLocaleDateString();
+}
+
+function SectionDiff({ change }: { change: SectionChange }) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex items-center gap-2">
+        <span className="min-w-0 truncate text-sm font-medium">{change.path.join(" › ")}</span>
+        {change.status !== "unchanged" && (
+          <Badge
+            variant={change.status === "removed" ? "outline" : "secondary"}
+            className="text-[10px] px-1.5 py-0"
+          >
+            {STATUS_LABELS[change.status]}
+          </Badge>
+        )}
+      </div>
+      {change.lines.length > 0 && <LineDiff lines={change.lines} />}
+    </div>
+  );
+}
+
+/**
+ * What changed since the previous completed run of the same prompt on the
+ * same stocks: a model-written summary and a diff of the report by section.
+ */
+export function ReportChanges({
+  job,
+  currentResult,
+}: {
+  job: Doc<"researchJobs">;
+  /** Full result of `job`, shared with the report card so it loads once */
+  currentResult: FullResult;
+}) {
+  const previous = usePreviousRun(job._id);
+  const previousResult = useFullResult(previous);
+  const summarizeChanges = useSummarizeChanges();
+  const [summarizing, setSummarizing] = useState(false);
+  const [loadingFull, setLoadingFull] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentText = currentResult.text ?? job.result ?? "";
+  const previousText = previousResult.text ?? previous?.result ?? "";
+  const changes = useMemo(
+    () => diffReports(parseSections(previousText), parseSections(currentText)),
+    [previousText, currentText],
+  );
+
+  if (!previous) return null;
+
+  const isPreview =
+    (currentResult.isStored && currentResult.text === null) ||
+    (previousResult.isStored && previousResult.text === null);
+  const changed = changes.filter((change) => change.status !== "unchanged");
+  const unchangedCount = changes.length - changed.length;
+  const summary = job.changeSummary?.previousJobId === previous._id ? job.changeSummary : undefined;
+  const summaryError =
+    job.changeSummaryError?.previousJobId === previous._id ? job.changeSummaryError : undefined;
+
+  async function handleSummarize() {
+    setSummarizing(true);
+    setError(null);
+    try {
+      await summarizeChanges(job._id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to summarize the changes");
+    } finally {
+      setSummarizing(false);
+    }
+  }
+
+  async function handleLoadFull() {
+    setLoadingFull(true);
+    setError(null);
+    try {
+      await Promise.all([currentResult.load(), previousResult.load()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the full reports");
+    } finally {
+      setLoadingFull(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <GitCompare className="size-4" />
+          What Changed
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Compared with the{" "}
+          <Link
+            to="/history/$jobId"
+            params={{ jobId: previous._id }}
+            className="text-primary underline-offset-4 hover:underline"
+          >
+            previous run on {formatDate(previous.createdAt)}
+          </Link>
+        </p>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {summary ? (
+          <div className="flex flex-col gap-2 rounded-lg border bg-muted/50 px-3 py-2">
+            <span className="text-xs font-medium text-muted-foreground">
+              Summary · {formatDate(summary.createdAt)}
+            </span>
+            <MarkdownRenderer content={summary.text} collapsible={false} className="text-sm" />
+          </div>
+        ) : (
+          <div className="flex flex-col gap-2">
+            {summaryError && (
+              <p className="text-sm text-destructive">
+                Summarizing after the run failed: {summaryError.error}
+              </p>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSummarize}
+              disabled={summarizing}
+              className="self-start"
+            >
+              {summarizing ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <Sparkles className="size-4" />
+              )}
+              Summarize changes
+            </Button>
+          </div>
+        )}
+
+        {isPreview && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+            <span>Comparing previews, later sections may be missing</span>
+            <Button variant="outline" size="sm" onClick={handleLoadFull} disabled={loadingFull}>
+              {loadingFull && <Loader2 className="size-4 animate-spin" />}
+              Compare full reports
+            </Button>
+          </div>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {changed.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No section changed since the previous run.</p>
+        ) : (
+          changed.map((change) => <SectionDiff key={change.path.join("\u0000")} change={change} />)
+        )}
+        {changed.length > 0 && unchangedCount > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {unchangedCount} unchanged {unchangedCount === 1 ? "section" : "sections"}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,7 +15,21 @@ import { useResearchFlow } from "@/hooks/use-research-flow";
 import { usePrompts } from "@/hooks/use-prompts";
 import { useStocks, useTags } from "@/hooks/use-stocks";
 import { useActiveJobs } from "@/hooks/use-research";
+import { ModelSelect } from "@/components/model-select";
+import { CostEstimate } from "@/components/cost-estimate";
+import { BudgetCapNotice } from "@/components/budget-cap-notice";
+import { useResearchEstimate } from "@/hooks/use-research-estimate";
+import { PromptParameterFields } from "@/components/prompt-parameter-fields";
+import { ComparisonVariantFields } from "@/components/comparison-variant-fields";
 import { cn } from "@/lib/utils";
+import { PROVIDER_OPTIONS } from "@/lib/providers";
+import { getResearchFlowSteps, type ResearchFlowStep } from "@/lib/research-flow";
+import {
+  cleanParameterValues,
+  effectiveParameterValue,
+  formatParameterLabel,
+  validateParameterValues,
+} from "@/lib/prompt-parameters";
 import {
   ArrowLeft,
   Check,
@@ -26,22 +40,18 @@ import {
   Search,
   Zap,
 } from "lucide-react";
+import { findPromptParameters } from "@repo/convex/promptTemplate";
 import type { Doc } from "@repo/convex/dataModel";
 import type { GenericId } from "convex/values";
 
 const STEP_LABELS: Record<string, string> = {
   "prompt-selection": "Select Prompt",
+  parameters: "Set Parameters",
   "stock-selection": "Select Stocks",
   "provider-confirm": "Confirm & Run",
   executing: "Running",
 };
 
-const STEP_ORDER = [
-  "prompt-selection",
-  "stock-selection",
-  "provider-confirm",
-] as const;
-
 export function ResearchWizard() {
   const flow = useResearchFlow();
 
@@ -58,11 +68,12 @@ export function ResearchWizard() {
         {/* Step indicator */}
         <StepIndicator
           currentStep={flow.step}
-          promptType={flow.promptType}
+          steps={getResearchFlowSteps(flow.promptType, flow.parameters.length > 0)}
         />
 
         {/* Step content */}
         {flow.step === "prompt-selection" && <PromptSelectionStep />}
+        {flow.step === "parameters" && <ParametersStep />}
         {flow.step === "stock-selection" && <StockSelectionStep />}
         {flow.step === "provider-confirm" && <ProviderConfirmStep />}
         {flow.step === "executing" && <ExecutingStep />}
@@ -73,16 +84,11 @@ export function ResearchWizard() {
 
 function StepIndicator({
   currentStep,
-  promptType,
+  steps,
 }: {
-  currentStep: string;
-  promptType: string | null;
+  currentStep: ResearchFlowStep;
+  steps: ResearchFlowStep[];
 }) {
-  const steps: readonly string[] =
-    promptType === "discovery"
-      ? ["prompt-selection", "provider-confirm"]
-      : STEP_ORDER;
-
   const currentIndex = steps.indexOf(currentStep);
 
   return (
@@ -136,7 +142,15 @@ function PromptSelectionStep() {
         <button
           key={prompt._id}
           type="button"
-          onClick={() => flow.selectPrompt(prompt._id, prompt.type)}
+          onClick={() =>
+            flow.selectPrompt(
+              prompt._id,
+              prompt.type,
+              prompt.defaultProvider,
+              prompt.defaultModel,
+              findPromptParameters(prompt.template),
+            )
+          }
           className={cn(
             "flex items-start gap-3 rounded-lg border p-3 text-left transition-colors hover:bg-accent",
           )}
@@ -162,6 +176,49 @@ function PromptSelectionStep() {
   );
 }
 
+function ParametersStep() {
+  const flow = useResearchFlow();
+  const [values, setValues] = useState(flow.parameterValues);
+  const [showErrors, setShowErrors] = useState(false);
+  const errors = validateParameterValues(flow.parameters, values);
+
+  function handleContinue() {
+    if (Object.keys(errors).length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    flow.setParameterValues(cleanParameterValues(flow.parameters, values));
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-xs text-muted-foreground">
+        This prompt takes parameters. The values are saved with the run so it can be
+        reproduced exactly.
+      </p>
+
+      <PromptParameterFields
+        parameters={flow.parameters}
+        values={values}
+        onChange={setValues}
+        errors={showErrors ? errors : undefined}
+        idPrefix="research-parameter"
+      />
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={flow.back}>
+          <ArrowLeft className="size-4" />
+          Back
+        </Button>
+        <Button type="button" onClick={handleContinue}>
+          Continue
+          <ChevronRight className="size-4" />
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
 function StockSelectionStep() {
   const flow = useResearchFlow();
   const [search, setSearch] = useState("");
@@ -171,6 +228,8 @@ function StockSelectionStep() {
   const [selected, setSelected] = useState<Set<string>>(
     () => new Set(flow.stockIds),
   );
+  // Fan-out runs single-stock prompts once per stock, so any number can be picked
+  const singleOnly = flow.promptType === "single-stock" && !flow.fanOut;
 
   function toggleStock(id: GenericId<"stocks">) {
     setSelected((prev) => {
@@ -178,7 +237,7 @@ function StockSelectionStep() {
       if (next.has(id)) {
         next.delete(id);
       } else {
-        if (flow.promptType === "single-stock") {
+        if (singleOnly) {
           // Single-stock: only allow one
           next.clear();
         }
@@ -188,6 +247,14 @@ function StockSelectionStep() {
     });
   }
 
+  function toggleFanOut() {
+    const fanOut = !flow.fanOut;
+    flow.setFanOut(fanOut);
+    if (!fanOut && flow.promptType === "single-stock" && selected.size > 1) {
+      setSelected(new Set([...selected].slice(0, 1)));
+    }
+  }
+
   function handleContinue() {
     flow.selectStocks(Array.from(selected) as GenericId<"stocks">[]);
   }
@@ -240,13 +307,28 @@ function StockSelectionStep() {
         </div>
       )}
 
+      {/* Fan-out toggle */}
+      <div className="flex items-center justify-between rounded-md border px-3 py-2">
+        <div className="flex flex-col gap-0.5">
+          <span className="text-sm font-medium">One job per stock</span>
+          <span className="text-xs text-muted-foreground">
+            Run each selected stock as its own job under one batch
+          </span>
+        </div>
+        <ToggleSwitch
+          checked={flow.fanOut}
+          onClick={toggleFanOut}
+          label={flow.fanOut ? "Disable fan-out" : "Enable fan-out"}
+        />
+      </div>
+
       {/* Selected count + Select all */}
       <div className="flex items-center justify-between">
         <span className="text-xs text-muted-foreground">
           {selected.size} stock{selected.size !== 1 ? "s" : ""} selected
-          {flow.promptType === "single-stock" && " (max 1)"}
+          {singleOnly && " (max 1)"}
         </span>
-        {flow.promptType !== "single-stock" && stocks && stocks.length > 0 && (
+        {!singleOnly && stocks && stocks.length > 0 && (
           <button
             type="button"
             onClick={() => {
@@ -307,6 +389,38 @@ function StockSelectionStep() {
   );
 }
 
+function ToggleSwitch({
+  checked,
+  onClick,
+  label,
+  disabled,
+}: {
+  checked: boolean;
+  onClick: () => void;
+  label: string;
+  disabled?: boolean;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "relative inline-flex h-5 w-9 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors",
+        checked ? "bg-primary" : "bg-muted",
+      )}
+      aria-label={label}
+    >
+      <span
+        className={cn(
+          "pointer-events-none inline-block size-4 rounded-full bg-background shadow-sm ring-0 transition-transform",
+          checked ? "translate-x-4" : "translate-x-0",
+        )}
+      />
+    </button>
+  );
+}
+
 function StockSelectItem({
   stock,
   isSelected,
@@ -370,16 +484,62 @@ function ProviderConfirmStep() {
   const activeJobs = useActiveJobs();
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [overrideBudgetCap, setOverrideBudgetCap] = useState(false);
 
   const slotsUsed = activeJobs?.count ?? 0;
   const slotsLimit = activeJobs?.limit ?? 5;
+  const queued = activeJobs?.queued ?? 0;
   const hasCapacity = slotsUsed < slotsLimit;
+  const selectedProvider = PROVIDER_OPTIONS.find(
+    (option) => option.value === flow.provider,
+  );
+  const estimate = useResearchEstimate(
+    flow.promptId
+      ? {
+          promptId: flow.promptId,
+          provider: flow.provider,
+          model: flow.model ?? undefined,
+          stockIds: flow.stockIds,
+          fanOut: flow.isBatch,
+          parameterValues: flow.parameters.length > 0 ? flow.parameterValues : undefined,
+        }
+      : null,
+  );
+  const estimateB = useResearchEstimate(
+    flow.runB
+      ? {
+          promptId: flow.runB.promptId,
+          promptVersionId: flow.runB.promptVersionId,
+          provider: flow.runB.provider,
+          model: flow.runB.model,
+          stockIds: flow.stockIds,
+          fanOut: false,
+          parameterValues: flow.parameters.length > 0 ? flow.parameterValues : undefined,
+        }
+      : null,
+  );
+  const expectedCostUsd = estimate
+    ? (estimate.costUsd?.median ?? estimate.inputCostUsd)
+    : null;
+  const expectedCostUsdB = estimateB
+    ? (estimateB.costUsd?.median ?? estimateB.inputCostUsd)
+    : null;
+  // Both runs of an A/B run count toward the budget cap
+  const totalExpectedCostUsd = flow.isComparison
+    ? expectedCostUsd !== null && expectedCostUsdB !== null
+      ? expectedCostUsd + expectedCostUsdB
+      : null
+    : expectedCostUsd;
+
+  function toggleComparison() {
+    flow.setComparison(flow.comparison ? null : { kind: "prompts", promptId: null });
+  }
 
   async function handleRun() {
     setError(null);
     setSubmitting(true);
     try {
-      await flow.execute();
+      await flow.execute({ overrideBudgetCap });
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to start research");
       setSubmitting(false);
@@ -388,16 +548,77 @@ function ProviderConfirmStep() {
 
   return (
     <div className="flex flex-col gap-4">
-      {/* Summary */}
-      <Card className="py-3">
-        <CardContent className="flex flex-col gap-3 text-sm">
+      {/* Provider choice */}
+      <div className="flex flex-col gap-2">
+        {PROVIDER_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => flow.selectProvider(option.value)}
+            disabled={submitting}
+            className={cn(
+              "flex items-start gap-3 rounded-lg border p-3 text-left transition-colors hover:bg-accent",
+              flow.provider === option.value && "border-primary bg-primary/5",
+            )}
+          >
+            <div className="mt-0.5 flex size-8 shrink-0 items-center justify-center rounded-md bg-muted">
+              <Zap className="size-4 text-muted-foreground" />
+            </div>
+            <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+              <span className="text-sm font-medium">{option.label}</span>
+              <span className="text-xs text-muted-foreground">
+                {option.description}
+              </span>
+            </div>
+            {flow.provider === option.value && (
+              <Check className="mt-1 size-4 shrink-0 text-primary" />
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-1.5">
+        <span className="text-xs text-muted-foreground">Model</span>
+        <ModelSelect
+          provider={flow.provider}
+          value={flow.model ?? undefined}
+          onChange={(model) => flow.selectModel(model ?? null)}
+          disabled={submitting}
+        />
+      </div>
+
+      {/* A/B run: a second job on the same stocks, compared side by side */}
+      {!flow.isBatch && flow.promptId && (
+        <div className="flex flex-col gap-3 rounded-md border px-3 py-2">
           <div className="flex items-center justify-between">
-            <span className="text-muted-foreground">Provider</span>
-            <div className="flex items-center gap-1.5">
-              <Zap className="size-3.5 text-primary" />
-              <span className="font-medium">OpenAI Deep Research</span>
+            <div className="flex flex-col gap-0.5">
+              <span className="text-sm font-medium">A/B run</span>
+              <span className="text-xs text-muted-foreground">
+                Also run a variant on the same stocks and compare the reports side by side
+              </span>
             </div>
+            <ToggleSwitch
+              checked={flow.isComparison}
+              onClick={toggleComparison}
+              label={flow.isComparison ? "Disable A/B run" : "Enable A/B run"}
+              disabled={submitting}
+            />
           </div>
+          {flow.comparison && (
+            <ComparisonVariantFields
+              promptId={flow.promptId}
+              provider={flow.provider}
+              value={flow.comparison}
+              onChange={flow.setComparison}
+              disabled={submitting}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Summary */}
+      <Card className="py-3">
+        <CardContent className="flex flex-col gap-3 text-sm">
           <div className="flex items-center justify-between">
             <span className="text-muted-foreground">Prompt Type</span>
             <Badge variant="outline" className="text-xs">
@@ -412,31 +633,77 @@ function ProviderConfirmStep() {
               </span>
             </div>
           )}
-          <div className="flex items-center justify-between">
-            <span className="text-muted-foreground">Est. Cost</span>
-            <span className="font-medium">~$3-4</span>
-          </div>
+          {flow.parameters.map((parameter) => (
+            <div key={parameter.name} className="flex items-center justify-between gap-3">
+              <span className="text-muted-foreground">
+                {formatParameterLabel(parameter.name)}
+              </span>
+              <span className="truncate font-medium">
+                {effectiveParameterValue(parameter, flow.parameterValues)}
+              </span>
+            </div>
+          ))}
+          {flow.isBatch && (
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Jobs</span>
+              <span className="font-medium">
+                {flow.stockIds.length} (one per stock)
+              </span>
+            </div>
+          )}
+          {flow.isComparison && (
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Jobs</span>
+              <span className="font-medium">2 (A/B run)</span>
+            </div>
+          )}
+          {flow.isComparison && <span className="text-xs font-medium">Run A</span>}
+          <CostEstimate
+            estimate={estimate}
+            fallbackCost={selectedProvider?.estimatedCost}
+          />
+          {flow.isComparison && (
+            <>
+              <span className="text-xs font-medium">Run B</span>
+              {flow.runB ? (
+                <CostEstimate estimate={estimateB} />
+              ) : (
+                <span className="text-xs text-muted-foreground">
+                  Choose what run B changes to see its estimate
+                </span>
+              )}
+            </>
+          )}
           <div className="flex items-center justify-between">
             <span className="text-muted-foreground">Active Jobs</span>
             <span
               className={cn(
                 "font-medium",
-                !hasCapacity && "text-destructive",
+                !hasCapacity && "text-amber-500",
               )}
             >
               {slotsUsed}/{slotsLimit}
+              {queued > 0 && ` · ${queued} queued`}
             </span>
           </div>
         </CardContent>
       </Card>
 
       {!hasCapacity && (
-        <p className="text-xs text-destructive">
-          Maximum concurrent jobs reached. Wait for an active job to complete or
-          cancel one before starting a new research.
+        <p className="text-xs text-muted-foreground">
+          All slots are in use. This research will be queued and start
+          automatically when a slot frees up, ahead of scheduled runs.
         </p>
       )}
 
+      <BudgetCapNotice
+        expectedCostUsd={totalExpectedCostUsd}
+        forceOverride={error !== null}
+        override={overrideBudgetCap}
+        onOverrideChange={setOverrideBudgetCap}
+        disabled={submitting}
+      />
+
       {error && <p className="text-sm text-destructive">{error}</p>}
 
       <DialogFooter>
@@ -452,7 +719,7 @@ function ProviderConfirmStep() {
         <Button
           type="button"
           onClick={handleRun}
-          disabled={submitting || !flow.canExecute || !hasCapacity}
+          disabled={submitting || !flow.canExecute}
         >
           {submitting ? (
             <>
@@ -462,7 +729,7 @@ function ProviderConfirmStep() {
           ) : (
             <>
               <Play className="size-4" />
-              Run Research
+              {flow.isComparison ? "Run A/B" : "Run Research"}
             </>
           )}
         </Button>
@@ -482,8 +749,11 @@ function ExecutingStep() {
       <div className="text-center">
         <p className="text-sm font-medium">Research started</p>
         <p className="text-xs text-muted-foreground mt-1">
-          Your research job has been queued. You can track its progress in the
-          active jobs panel.
+          {flow.isComparison
+            ? "Both runs have been submitted. Open the comparison from either job in History to read the reports side by side and pick the better one."
+            : flow.isBatch
+              ? "One job per stock has been submitted. You'll get a single summary when the batch finishes."
+              : "Your research job has been submitted. You can track its progress and queue position in the active jobs panel."}
         </p>
       </div>
       <Button type="button" variant="outline" size="sm" onClick={flow.close}>
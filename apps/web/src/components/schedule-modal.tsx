@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import {
   Dialog,
   DialogContent,
@@ -13,9 +13,13 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { useCreateSchedule, useUpdateSchedule } from "@/hooks/use-schedules";
 import { usePrompts } from "@/hooks/use-prompts";
+import { usePromptVersions } from "@/hooks/use-prompt-versions";
+import { usePipelines } from "@/hooks/use-pipelines";
 import { useStocks, useTags } from "@/hooks/use-stocks";
 import {
   validateScheduleForm,
+  validateCron,
+  validateStockSelection,
   hasErrors,
   describeCron,
   COMMON_TIMEZONES,
@@ -23,6 +27,13 @@ import {
   type ScheduleFormErrors,
 } from "@/lib/schedule-validation";
 import { cn } from "@/lib/utils";
+import { PROVIDER_OPTIONS } from "@/lib/providers";
+import { ModelSelect } from "@/components/model-select";
+import { CostEstimate } from "@/components/cost-estimate";
+import { useResearchEstimate } from "@/hooks/use-research-estimate";
+import { PromptParameterFields } from "@/components/prompt-parameter-fields";
+import { cleanParameterValues, validateParameterValues } from "@/lib/prompt-parameters";
+import { findPromptParameters } from "@repo/convex/promptTemplate";
 import type { Doc, Id } from "@repo/convex/dataModel";
 
 interface ScheduleModalProps {
@@ -52,10 +63,19 @@ const STOCK_MODE_OPTIONS: {
   { value: "none", label: "None", description: "Discovery prompt, no stocks needed" },
 ];
 
+const TARGET_OPTIONS: { value: ScheduleFormData["target"]; label: string }[] = [
+  { value: "prompt", label: "Prompt" },
+  { value: "pipeline", label: "Pipeline" },
+];
+
 const INITIAL_FORM: ScheduleFormData = {
   name: "",
+  target: "prompt",
   promptId: "",
+  parameterValues: {},
+  pipelineId: "",
   stockSelection: { type: "all" },
+  provider: "openai",
   cron: "@daily",
   timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
   enabled: true,
@@ -69,23 +89,73 @@ export function ScheduleModal({
   const createSchedule = useCreateSchedule();
   const updateSchedule = useUpdateSchedule();
   const prompts = usePrompts();
+  const pipelines = usePipelines();
   const stocks = useStocks();
   const tags = useTags();
   const isEditing = !!schedule;
 
   const [form, setForm] = useState<ScheduleFormData>(INITIAL_FORM);
+  const versions = usePromptVersions(
+    open && form.target === "prompt" && form.promptId !== ""
+      ? (form.promptId as Id<"prompts">)
+      : undefined,
+  );
   const [errors, setErrors] = useState<ScheduleFormErrors>({});
   const [submitting, setSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [frequencyMode, setFrequencyMode] = useState<string>("@daily");
+  const [showParameterErrors, setShowParameterErrors] = useState(false);
+
+  const isPipeline = form.target === "pipeline";
+  // Parameters of the template the runs will use: the pinned version's, or the latest
+  const runTemplate =
+    versions?.find((version) => version._id === form.promptVersionId)?.template ??
+    prompts?.find((prompt) => prompt._id === form.promptId)?.template;
+  const parameters = useMemo(
+    () => (!isPipeline && runTemplate ? findPromptParameters(runTemplate) : []),
+    [isPipeline, runTemplate],
+  );
+  const parameterErrors = validateParameterValues(parameters, form.parameterValues);
+  const canEstimate =
+    !isPipeline &&
+    form.promptId !== "" &&
+    validateCron(form.cron) === undefined &&
+    validateStockSelection(form.stockSelection) === undefined;
+  const estimate = useResearchEstimate(
+    open && canEstimate
+      ? {
+          promptId: form.promptId as Id<"prompts">,
+          promptVersionId: form.promptVersionId,
+          provider: form.provider,
+          model: form.model,
+          stockSelection: form.stockSelection as Doc<"schedules">["stockSelection"],
+          fanOut: form.stockSelection.type === "none" ? undefined : form.fanOut,
+          cron: form.cron,
+          parameterValues:
+            parameters.length > 0
+              ? cleanParameterValues(parameters, form.parameterValues)
+              : undefined,
+        }
+      : null,
+  );
+  const selectedProvider = PROVIDER_OPTIONS.find(
+    (option) => option.value === form.provider,
+  );
 
   useEffect(() => {
     if (open) {
       if (schedule) {
         setForm({
           name: schedule.name,
-          promptId: schedule.promptId,
+          target: schedule.pipelineId ? "pipeline" : "prompt",
+          promptId: schedule.promptId ?? "",
+          promptVersionId: schedule.promptVersionId,
+          parameterValues: { ...schedule.parameterValues },
+          pipelineId: schedule.pipelineId ?? "",
           stockSelection: { ...schedule.stockSelection },
+          provider: schedule.provider,
+          model: schedule.model,
+          fanOut: schedule.fanOut,
           cron: schedule.cron,
           timezone: schedule.timezone,
           enabled: schedule.enabled,
@@ -100,6 +170,7 @@ export function ScheduleModal({
       }
       setErrors({});
       setSubmitError(null);
+      setShowParameterErrors(false);
     }
   }, [open, schedule]);
 
@@ -154,7 +225,19 @@ export function ScheduleModal({
 
     const validationErrors = validateScheduleForm(form);
     setErrors(validationErrors);
-    if (hasErrors(validationErrors)) return;
+    setShowParameterErrors(true);
+    if (hasErrors(validationErrors) || Object.keys(parameterErrors).length > 0) return;
+
+    const target = isPipeline
+      ? { pipelineId: form.pipelineId as Id<"pipelines"> }
+      : {
+          promptId: form.promptId as Id<"prompts">,
+          promptVersionId: form.promptVersionId,
+          parameterValues:
+            parameters.length > 0
+              ? cleanParameterValues(parameters, form.parameterValues)
+              : undefined,
+        };
 
     setSubmitting(true);
     try {
@@ -162,8 +245,11 @@ export function ScheduleModal({
         await updateSchedule({
           id: schedule._id,
           name: form.name.trim(),
-          promptId: form.promptId as Id<"prompts">,
+          ...target,
           stockSelection: form.stockSelection as Doc<"schedules">["stockSelection"],
+          provider: form.provider,
+          model: form.model,
+          fanOut: isPipeline || form.stockSelection.type === "none" ? undefined : form.fanOut,
           cron: form.cron,
           timezone: form.timezone,
           enabled: form.enabled,
@@ -171,9 +257,11 @@ export function ScheduleModal({
       } else {
         await createSchedule({
           name: form.name.trim(),
-          promptId: form.promptId as Id<"prompts">,
+          ...target,
           stockSelection: form.stockSelection as Doc<"schedules">["stockSelection"],
-          provider: "openai",
+          provider: form.provider,
+          model: form.model,
+          fanOut: isPipeline || form.stockSelection.type === "none" ? undefined : form.fanOut,
           cron: form.cron,
           timezone: form.timezone,
           enabled: form.enabled,
@@ -219,46 +307,213 @@ export function ScheduleModal({
             )}
           </div>
 
-          {/* Prompt picker */}
+          {/* Target: a single prompt or a pipeline */}
           <div className="flex flex-col gap-2">
-            <Label>Prompt *</Label>
-            {prompts === undefined ? (
-              <div className="h-20 animate-pulse rounded-md bg-muted" />
-            ) : prompts.length === 0 ? (
+            <Label>Runs *</Label>
+            <div className="flex flex-wrap gap-1.5">
+              {TARGET_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => updateField("target", option.value)}
+                  className={cn(
+                    "inline-flex items-center rounded-md border px-2.5 py-1 text-xs font-medium transition-colors",
+                    form.target === option.value
+                      ? "border-primary bg-primary text-primary-foreground"
+                      : "border-border bg-background text-foreground hover:bg-accent",
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Pipeline picker */}
+          {isPipeline && (
+            <div className="flex flex-col gap-2">
+              <Label>Pipeline *</Label>
+              {pipelines === undefined ? (
+                <div className="h-20 animate-pulse rounded-md bg-muted" />
+              ) : pipelines.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  No pipelines available. Create a pipeline first.
+                </p>
+              ) : (
+                <div className="flex flex-col gap-1.5 max-h-40 overflow-y-auto rounded-md border p-2">
+                  {pipelines.map((pipeline) => (
+                    <button
+                      key={pipeline._id}
+                      type="button"
+                      onClick={() => updateField("pipelineId", pipeline._id)}
+                      className={cn(
+                        "flex flex-col items-start gap-0.5 rounded-md border p-2 text-left transition-colors",
+                        form.pipelineId === pipeline._id
+                          ? "border-primary bg-primary/5"
+                          : "border-transparent hover:bg-accent",
+                      )}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{pipeline.name}</span>
+                        <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                          {pipeline.steps.length} step{pipeline.steps.length !== 1 ? "s" : ""}
+                        </Badge>
+                      </div>
+                      <span className="text-xs text-muted-foreground line-clamp-1">
+                        {pipeline.steps.map((step) => step.name).join(" → ")}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {errors.pipelineId && (
+                <p className="text-xs text-destructive">{errors.pipelineId}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Each step runs on the provider and model set in the pipeline.
+              </p>
+            </div>
+          )}
+
+          {/* Prompt picker */}
+          {!isPipeline && (
+            <div className="flex flex-col gap-2">
+              <Label>Prompt *</Label>
+              {prompts === undefined ? (
+                <div className="h-20 animate-pulse rounded-md bg-muted" />
+              ) : prompts.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  No prompts available. Create a prompt first.
+                </p>
+              ) : (
+                <div className="flex flex-col gap-1.5 max-h-40 overflow-y-auto rounded-md border p-2">
+                  {prompts.map((prompt) => (
+                    <button
+                      key={prompt._id}
+                      type="button"
+                      onClick={() => {
+                        if (prompt._id !== form.promptId) {
+                          updateField("promptVersionId", undefined);
+                          updateField("parameterValues", {});
+                        }
+                        updateField("promptId", prompt._id);
+                        if (!isEditing) {
+                          updateField("provider", prompt.defaultProvider);
+                          updateField("model", prompt.defaultModel);
+                        }
+                      }}
+                      className={cn(
+                        "flex flex-col items-start gap-0.5 rounded-md border p-2 text-left transition-colors",
+                        form.promptId === prompt._id
+                          ? "border-primary bg-primary/5"
+                          : "border-transparent hover:bg-accent",
+                      )}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{prompt.name}</span>
+                        <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                          {prompt.type}
+                        </Badge>
+                      </div>
+                      <span className="text-xs text-muted-foreground line-clamp-1">
+                        {prompt.description}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {errors.promptId && (
+                <p className="text-xs text-destructive">{errors.promptId}</p>
+              )}
+            </div>
+          )}
+
+          {/* Prompt version pin */}
+          {!isPipeline && versions && versions.length > 0 && (
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="schedule-prompt-version">Prompt Version</Label>
+              <select
+                id="schedule-prompt-version"
+                value={form.promptVersionId ?? ""}
+                onChange={(e) =>
+                  updateField(
+                    "promptVersionId",
+                    (e.target.value || undefined) as Id<"promptVersions"> | undefined,
+                  )
+                }
+                className={cn(
+                  "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm text-foreground shadow-xs transition-colors",
+                  "focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring",
+                )}
+              >
+                <option value="" className="bg-background text-foreground">
+                  Latest (follows edits)
+                </option>
+                {versions.map((version) => (
+                  <option
+                    key={version._id}
+                    value={version._id}
+                    className="bg-background text-foreground"
+                  >
+                    Version {version.version}
+                    {version.note ? ` · ${version.note}` : ""}
+                  </option>
+                ))}
+              </select>
               <p className="text-xs text-muted-foreground">
-                No prompts available. Create a prompt first.
+                Pin a version so later edits to the prompt don&apos;t change these runs.
               </p>
-            ) : (
-              <div className="flex flex-col gap-1.5 max-h-40 overflow-y-auto rounded-md border p-2">
-                {prompts.map((prompt) => (
+            </div>
+          )}
+
+          {/* Prompt parameters */}
+          {parameters.length > 0 && (
+            <div className="flex flex-col gap-2">
+              <Label>Parameters</Label>
+              <p className="text-xs text-muted-foreground">
+                Every run of this schedule uses these values.
+              </p>
+              <PromptParameterFields
+                parameters={parameters}
+                values={form.parameterValues}
+                onChange={(values) => updateField("parameterValues", values)}
+                errors={showParameterErrors ? parameterErrors : undefined}
+                idPrefix="schedule-parameter"
+              />
+            </div>
+          )}
+
+          {/* Provider */}
+          {!isPipeline && (
+            <div className="flex flex-col gap-2">
+              <Label>Provider *</Label>
+              <div className="flex flex-wrap gap-1.5">
+                {PROVIDER_OPTIONS.map((option) => (
                   <button
-                    key={prompt._id}
+                    key={option.value}
                     type="button"
-                    onClick={() => updateField("promptId", prompt._id)}
+                    onClick={() => {
+                      updateField("provider", option.value);
+                      updateField("model", undefined);
+                    }}
                     className={cn(
-                      "flex flex-col items-start gap-0.5 rounded-md border p-2 text-left transition-colors",
-                      form.promptId === prompt._id
-                        ? "border-primary bg-primary/5"
-                        : "border-transparent hover:bg-accent",
+                      "inline-flex items-center rounded-md border px-2.5 py-1 text-xs font-medium transition-colors",
+                      form.provider === option.value
+                        ? "border-primary bg-primary text-primary-foreground"
+                        : "border-border bg-background text-foreground hover:bg-accent",
                     )}
                   >
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm font-medium">{prompt.name}</span>
-                      <Badge variant="outline" className="text-[10px] px-1.5 py-0">
-                        {prompt.type}
-                      </Badge>
-                    </div>
-                    <span className="text-xs text-muted-foreground line-clamp-1">
-                      {prompt.description}
-                    </span>
+                    {option.label}
                   </button>
                 ))}
               </div>
-            )}
-            {errors.promptId && (
-              <p className="text-xs text-destructive">{errors.promptId}</p>
-            )}
-          </div>
+              <ModelSelect
+                provider={form.provider}
+                value={form.model}
+                onChange={(model) => updateField("model", model)}
+              />
+            </div>
+          )}
 
           {/* Stock selection mode */}
           <div className="flex flex-col gap-2">
@@ -378,6 +633,34 @@ export function ScheduleModal({
             )}
           </div>
 
+          {/* Fan-out toggle */}
+          {!isPipeline && form.stockSelection.type !== "none" && (
+            <div className="flex items-center justify-between rounded-md border px-3 py-2">
+              <div className="flex flex-col gap-0.5">
+                <span className="text-sm font-medium">One job per stock</span>
+                <span className="text-xs text-muted-foreground">
+                  Run each matching stock as its own job and send one summary
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => updateField("fanOut", !form.fanOut)}
+                className={cn(
+                  "relative inline-flex h-5 w-9 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors",
+                  form.fanOut ? "bg-primary" : "bg-muted",
+                )}
+                aria-label={form.fanOut ? "Disable fan-out" : "Enable fan-out"}
+              >
+                <span
+                  className={cn(
+                    "pointer-events-none inline-block size-4 rounded-full bg-background shadow-sm ring-0 transition-transform",
+                    form.fanOut ? "translate-x-4" : "translate-x-0",
+                  )}
+                />
+              </button>
+            </div>
+          )}
+
           {/* Frequency */}
           <div className="flex flex-col gap-2">
             <Label>Frequency *</Label>
@@ -453,6 +736,17 @@ export function ScheduleModal({
             )}
           </div>
 
+          {/* Cost estimate */}
+          {canEstimate && (
+            <div className="flex flex-col gap-2 rounded-md border px-3 py-2 text-sm">
+              <CostEstimate
+                estimate={estimate}
+                fallbackCost={selectedProvider?.estimatedCost}
+                showMonthly
+              />
+            </div>
+          )}
+
           {/* Enabled toggle */}
           <div className="flex items-center justify-between rounded-md border px-3 py-2">
             <div className="flex flex-col gap-0.5">
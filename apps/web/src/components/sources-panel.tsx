@@ -0,0 +1,70 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Globe, Link2 } from "lucide-react";
+import {
+  groupSourcesByDomain,
+  sourceAnchorId,
+  type ResearchSource,
+} from "@/lib/citations";
+
+export function SourcesPanel({ sources }: { sources: ResearchSource[] }) {
+  const groups = groupSourcesByDomain(sources);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Link2 className="size-4" />
+          Sources
+          <Badge variant="secondary" className="text-xs">
+            {sources.length}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {groups.map((group) => (
+          <div key={group.domain} className="flex flex-col gap-1.5">
+            <div className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+              <Globe className="size-3.5" />
+              {group.domain}
+              <span>({group.sources.length})</span>
+            </div>
+            <ol className="flex flex-col gap-1.5">
+              {group.sources.map((source) => (
+                <li
+                  key={source._id}
+                  id={sourceAnchorId(source.number)}
+                  className="flex scroll-mt-20 items-start gap-2 rounded-md p-1 text-sm target:bg-primary/10"
+                >
+                  <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                    [{source.number}]
+                  </span>
+                  <div className="flex min-w-0 flex-col gap-0.5">
+                    <a
+                      href={source.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="truncate text-primary underline-offset-4 hover:underline"
+                    >
+                      {source.title ?? source.url}
+                    </a>
+                    {source.citedText && (
+                      <span className="text-xs text-muted-foreground line-clamp-2">
+                        &ldquo;{source.citedText}&rdquo;
+                      </span>
+                    )}
+                    {source.spans.length === 0 && (
+                      <span className="text-xs text-muted-foreground">
+                        Consulted, not cited
+                      </span>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
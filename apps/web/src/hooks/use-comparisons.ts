@@ -0,0 +1,41 @@
+import { useCallback } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@repo/convex";
+import type { GenericId } from "convex/values";
+import { useAuthToken } from "@/lib/auth";
+
+// --- Query Hooks ---
+
+/** An A/B comparison with both of its jobs. */
+export function useComparison(id: GenericId<"comparisons">) {
+  const token = useAuthToken();
+  return useQuery(api.comparisons.getComparison, token ? { id, token } : "skip");
+}
+
+/** Head-to-head record of each prompt in A/B runs against other prompts, by prompt id. */
+export function usePromptRecords() {
+  const token = useAuthToken();
+  return useQuery(api.comparisons.listPromptRecords, token ? { token } : "skip");
+}
+
+// --- Mutation Hooks ---
+
+export function useStartComparison() {
+  const token = useAuthToken();
+  const mutation = useMutation(api.comparisons.createAndStartComparison);
+  return useCallback(
+    (args: Omit<Parameters<typeof mutation>[0], "token">) =>
+      mutation({ ...args, token: token ?? undefined }),
+    [mutation, token],
+  );
+}
+
+export function useVoteComparison() {
+  const token = useAuthToken();
+  const mutation = useMutation(api.comparisons.voteComparison);
+  return useCallback(
+    (args: Omit<Parameters<typeof mutation>[0], "token">) =>
+      mutation({ ...args, token: token ?? undefined }),
+    [mutation, token],
+  );
+}
@@ -18,6 +18,12 @@ export function useMonthlyCost(options: UseMonthlyCostOptions = {}) {
   );
 }
 
+/** Hard monthly cap with month-to-date spend; null when no cap is set. */
+export function useBudgetStatus() {
+  const token = useAuthToken();
+  return useQuery(api.budgetCap.getBudgetStatus, token ? { token } : "skip");
+}
+
 interface UseCostHistoryOptions {
   months?: number;
 }
@@ -46,3 +52,19 @@ export function useCostByProvider(options: UseCostByProviderOptions = {}) {
       : "skip",
   );
 }
+
+interface UseUsageBreakdownOptions {
+  from?: number;
+  to?: number;
+}
+
+/** Token usage and cost split by input, output, reasoning and web search. */
+export function useUsageBreakdown(options: UseUsageBreakdownOptions = {}) {
+  const token = useAuthToken();
+  return useQuery(
+    api.costTracking.getUsageBreakdown,
+    token
+      ? { from: options.from, to: options.to, token }
+      : "skip",
+  );
+}
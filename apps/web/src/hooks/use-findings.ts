@@ -0,0 +1,14 @@
+import { useQuery } from "convex/react";
+import { api } from "@repo/convex";
+import type { GenericId } from "convex/values";
+import { useAuthToken } from "@/lib/auth";
+
+export function useStockFindings(stockId: GenericId<"stocks">) {
+  const token = useAuthToken();
+  return useQuery(api.findings.listStockFindings, token ? { stockId, token } : "skip");
+}
+
+export function useJobFindings(jobId: GenericId<"researchJobs">) {
+  const token = useAuthToken();
+  return useQuery(api.findings.getJobFindings, token ? { jobId, token } : "skip");
+}
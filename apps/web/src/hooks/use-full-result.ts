@@ -0,0 +1,78 @@
+import { useCallback, useRef, useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@repo/convex";
+import type { Doc } from "@repo/convex/dataModel";
+import { useAuthToken } from "@/lib/auth";
+
+type ResultFields = Pick<
+  Doc<"researchJobs">,
+  "_id" | "result" | "resultStorageId" | "resultLength"
+>;
+
+/** Read a text stream to the end, reporting the length received so far. */
+async function readChunks(
+  reader: ReadableStreamDefaultReader<string>,
+  received: string,
+  onProgress: (chars: number) => void,
+): Promise<string> {
+  const { done, value } = await reader.read();
+  if (done) return received;
+  const next = received + value;
+  onProgress(next.length);
+  return readChunks(reader, next, onProgress);
+}
+
+/**
+ * Full text of a job's result. Short results are inline on the job; long ones
+ * are streamed from file storage when `load` is first called.
+ */
+export function useFullResult(job: ResultFields | null | undefined) {
+  const token = useAuthToken();
+  const url = useQuery(
+    api.researchResults.getFullResultUrl,
+    token && job?.resultStorageId ? { jobId: job._id, token } : "skip",
+  );
+  const [streamed, setStreamed] = useState<string | null>(null);
+  const [loadedChars, setLoadedChars] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const pending = useRef<Promise<string> | null>(null);
+
+  const isStored = job?.resultStorageId !== undefined;
+  const text = isStored ? streamed : (job?.result ?? null);
+
+  const load = useCallback(async (): Promise<string> => {
+    if (!isStored) return job?.result ?? "";
+    if (streamed !== null) return streamed;
+    if (!url) throw new Error("Full result is not available yet");
+    if (pending.current) return pending.current;
+
+    setLoading(true);
+    pending.current = (async () => {
+      const response = await fetch(url);
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to load the full result (${response.status})`);
+      }
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      const full = await readChunks(reader, "", setLoadedChars);
+      setStreamed(full);
+      return full;
+    })();
+
+    try {
+      return await pending.current;
+    } finally {
+      pending.current = null;
+      setLoading(false);
+    }
+  }, [isStored, job?.result, streamed, url]);
+
+  return {
+    /** Full text, or null until a stored result has been loaded */
+    text,
+    isStored,
+    loading,
+    /** Share of the stored result streamed so far, 0–1 */
+    progress: job?.resultLength ? Math.min(loadedChars / job.resultLength, 1) : 0,
+    load,
+  };
+}
@@ -0,0 +1,30 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@repo/convex";
+import { useAuthToken } from "@/lib/auth";
+import { useCallback } from "react";
+import type { ResearchProvider } from "@/lib/providers";
+
+// --- Query Hooks ---
+
+export function useModelPricing() {
+  const token = useAuthToken();
+  return useQuery(api.modelPricing.listModelPricing, token ? { token } : "skip");
+}
+
+/** Models offered for a provider, default model first. */
+export function useProviderModels(provider: ResearchProvider) {
+  const pricing = useModelPricing();
+  return pricing?.filter((row) => row.provider === provider);
+}
+
+// --- Mutation Hooks ---
+
+export function useUpdateModelPricing() {
+  const token = useAuthToken();
+  const mutation = useMutation(api.modelPricing.updateModelPricing);
+  return useCallback(
+    (args: Omit<Parameters<typeof mutation>[0], "token">) =>
+      mutation({ ...args, token: token ?? undefined }),
+    [mutation, token],
+  );
+}
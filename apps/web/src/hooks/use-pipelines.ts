@@ -0,0 +1,68 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@repo/convex";
+import type { GenericId } from "convex/values";
+import { useAuthToken } from "@/lib/auth";
+import { useCallback } from "react";
+
+// --- Query Hooks ---
+
+export function usePipelines() {
+  const token = useAuthToken();
+  return useQuery(api.pipelines.listPipelines, token ? { token } : "skip");
+}
+
+export function usePipelineRuns(options: { pipelineId?: GenericId<"pipelines">; limit?: number } = {}) {
+  const token = useAuthToken();
+  const { pipelineId, limit } = options;
+  return useQuery(
+    api.pipelines.listPipelineRuns,
+    token ? { pipelineId, limit, token } : "skip",
+  );
+}
+
+export function usePipelineRun(id: GenericId<"pipelineRuns">) {
+  const token = useAuthToken();
+  return useQuery(api.pipelines.getPipelineRun, token ? { id, token } : "skip");
+}
+
+// --- Mutation Hooks ---
+
+export function useCreatePipeline() {
+  const token = useAuthToken();
+  const mutation = useMutation(api.pipelines.createPipeline);
+  return useCallback(
+    (args: Omit<Parameters<typeof mutation>[0], "token">) =>
+      mutation({ ...args, token: token ?? undefined }),
+    [mutation, token],
+  );
+}
+
+export function useUpdatePipeline() {
+  const token = useAuthToken();
+  const mutation = useMutation(api.pipelines.updatePipeline);
+  return useCallback(
+    (args: Omit<Parameters<typeof mutation>[0], "token">) =>
+      mutation({ ...args, token: token ?? undefined }),
+    [mutation, token],
+  );
+}
+
+export function useDeletePipeline() {
+  const token = useAuthToken();
+  const mutation = useMutation(api.pipelines.deletePipeline);
+  return useCallback(
+    (args: Omit<Parameters<typeof mutation>[0], "token">) =>
+      mutation({ ...args, token: token ?? undefined }),
+    [mutation, token],
+  );
+}
+
+export function useStartPipelineRun() {
+  const token = useAuthToken();
+  const mutation = useMutation(api.pipelines.startPipelineRun);
+  return useCallback(
+    (args: Omit<Parameters<typeof mutation>[0], "token">) =>
+      mutation({ ...args, token: token ?? undefined }),
+    [mutation, token],
+  );
+}
@@ -0,0 +1,28 @@
+import { useCallback } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@repo/convex";
+import { useAuthToken } from "@/lib/auth";
+import type { PromptLibraryEntry } from "@/lib/prompt-library";
+
+// --- Query Hooks ---
+
+/** What importing these prompts would create and update. Skipped while there are none. */
+export function usePromptImportPreview(prompts: PromptLibraryEntry[]) {
+  const token = useAuthToken();
+  return useQuery(
+    api.promptLibrary.previewPromptImport,
+    token && prompts.length > 0 ? { prompts, token } : "skip",
+  );
+}
+
+// --- Mutation Hooks ---
+
+export function useImportPrompts() {
+  const token = useAuthToken();
+  const mutation = useMutation(api.promptLibrary.importPrompts);
+  return useCallback(
+    (args: Omit<Parameters<typeof mutation>[0], "token">) =>
+      mutation({ ...args, token: token ?? undefined }),
+    [mutation, token],
+  );
+}
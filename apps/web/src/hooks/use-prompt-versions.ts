@@ -0,0 +1,33 @@
+import { useCallback } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@repo/convex";
+import type { GenericId } from "convex/values";
+import { useAuthToken } from "@/lib/auth";
+
+// --- Query Hooks ---
+
+/** Versions of a prompt, newest first. Skipped while `promptId` is unset. */
+export function usePromptVersions(promptId: GenericId<"prompts"> | undefined) {
+  const token = useAuthToken();
+  return useQuery(
+    api.promptVersions.listPromptVersions,
+    token && promptId ? { promptId, token } : "skip",
+  );
+}
+
+export function usePromptVersion(id: GenericId<"promptVersions"> | undefined) {
+  const token = useAuthToken();
+  return useQuery(api.promptVersions.getPromptVersion, token && id ? { id, token } : "skip");
+}
+
+// --- Mutation Hooks ---
+
+export function useRestorePromptVersion() {
+  const token = useAuthToken();
+  const mutation = useMutation(api.promptVersions.restorePromptVersion);
+  return useCallback(
+    (args: Omit<Parameters<typeof mutation>[0], "token">) =>
+      mutation({ ...args, token: token ?? undefined }),
+    [mutation, token],
+  );
+}
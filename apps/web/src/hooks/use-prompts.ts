@@ -28,6 +28,15 @@ export function usePrompt(id: GenericId<"prompts">) {
   return useQuery(api.prompts.getPrompt, token ? { id, token } : "skip");
 }
 
+/** Run outcomes, duration and cost spreads, errors, schedules and A/B votes of a prompt. */
+export function usePromptAnalytics(promptId: GenericId<"prompts">) {
+  const token = useAuthToken();
+  return useQuery(
+    api.promptAnalytics.getPromptAnalytics,
+    token ? { promptId, token } : "skip",
+  );
+}
+
 // --- Mutation Hooks ---
 
 export function useCreatePrompt() {
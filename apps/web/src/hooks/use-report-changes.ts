@@ -0,0 +1,23 @@
+import { useCallback } from "react";
+import { useAction, useQuery } from "convex/react";
+import { api } from "@repo/convex";
+import type { GenericId } from "convex/values";
+import { useAuthToken } from "@/lib/auth";
+
+/** Previous completed run of the same prompt on the same stocks. */
+export function usePreviousRun(jobId: GenericId<"researchJobs">) {
+  const token = useAuthToken();
+  return useQuery(api.reportChanges.getPreviousRun, token ? { jobId, token } : "skip");
+}
+
+export function useSummarizeChanges() {
+  const token = useAuthToken();
+  const action = useAction(api.reportChangesActions.summarizeChanges);
+  return useCallback(
+    (jobId: GenericId<"researchJobs">) => {
+      if (!token) throw new Error("Not authenticated");
+      return action({ jobId, token });
+    },
+    [action, token],
+  );
+}
@@ -0,0 +1,17 @@
+import { useQuery } from "convex/react";
+import { api } from "@repo/convex";
+import type { FunctionArgs, FunctionReturnType } from "convex/server";
+import { useAuthToken } from "@/lib/auth";
+
+type EstimateArgs = Omit<FunctionArgs<typeof api.estimates.getResearchEstimate>, "token">;
+
+export type ResearchEstimate = FunctionReturnType<typeof api.estimates.getResearchEstimate>;
+
+/** Pre-flight cost and duration estimate; pass null to skip until the inputs are ready. */
+export function useResearchEstimate(args: EstimateArgs | null) {
+  const token = useAuthToken();
+  return useQuery(
+    api.estimates.getResearchEstimate,
+    token && args ? { ...args, token } : "skip",
+  );
+}
@@ -1,4 +1,5 @@
 import { useCallback } from "react";
+import type { GenericId } from "convex/values";
 import {
   useResearchFlowStore,
   useResearchFlowActions,
@@ -6,10 +7,38 @@ import {
   useResearchFlowIsOpen,
   useResearchFlowPromptId,
   useResearchFlowPromptType,
+  useResearchFlowParameters,
+  useResearchFlowParameterValues,
   useResearchFlowStockIds,
   useResearchFlowProvider,
+  useResearchFlowModel,
+  useResearchFlowFanOut,
+  useResearchFlowComparison,
+  type ComparisonVariant,
 } from "@/lib/research-flow";
-import { useStartResearch } from "./use-research";
+import type { ResearchProvider } from "@/lib/providers";
+import { useStartBatch, useStartResearch } from "./use-research";
+import { useStartComparison } from "./use-comparisons";
+
+interface ComparisonRunArgs {
+  promptId: GenericId<"prompts">;
+  promptVersionId?: GenericId<"promptVersions">;
+  provider: ResearchProvider;
+  model?: string;
+}
+
+/** Run B of an A/B run: run A with the variant's change applied, or null until it is chosen. */
+function comparisonRunB(runA: ComparisonRunArgs, variant: ComparisonVariant): ComparisonRunArgs | null {
+  switch (variant.kind) {
+    case "prompts":
+      // Without a model of its own, run B gets run A's resolved model
+      return variant.promptId ? { ...runA, promptId: variant.promptId } : null;
+    case "versions":
+      return variant.promptVersionId ? { ...runA, promptVersionId: variant.promptVersionId } : null;
+    case "models":
+      return { promptId: runA.promptId, provider: variant.provider, model: variant.model ?? undefined };
+  }
+}
 
 /**
  * Orchestrates the research wizard flow by combining
@@ -19,24 +48,42 @@ import { useStartResearch } from "./use-research";
  *   const flow = useResearchFlow();
  *   flow.open();               // open wizard
  *   flow.selectPrompt(id, t);  // step 1: pick prompt
+ *   flow.setParameterValues(v); // optional: fill in the prompt's parameters
+ *   flow.setFanOut(true);      // step 2: optional, one job per stock
  *   flow.selectStocks([...]);  // step 2: pick stocks
- *   await flow.execute();      // step 3: confirm & run
+ *   flow.selectProvider(p);    // step 3: pick provider
+ *   flow.setComparison(v);     // step 3: optional, A/B run against variant v
+ *   await flow.execute();      // step 3: confirm & run ({ overrideBudgetCap } past the hard cap)
  */
 export function useResearchFlow() {
   const step = useResearchFlowStep();
   const isOpen = useResearchFlowIsOpen();
   const promptId = useResearchFlowPromptId();
   const promptType = useResearchFlowPromptType();
+  const parameters = useResearchFlowParameters();
+  const parameterValues = useResearchFlowParameterValues();
   const stockIds = useResearchFlowStockIds();
   const provider = useResearchFlowProvider();
+  const model = useResearchFlowModel();
+  const fanOut = useResearchFlowFanOut();
+  const comparison = useResearchFlowComparison();
   const actions = useResearchFlowActions();
   const startResearch = useStartResearch();
+  const startBatch = useStartBatch();
+  const startComparison = useStartComparison();
+  const isBatch = fanOut && promptType !== "discovery" && stockIds.length > 1;
+  const isComparison = comparison !== null && !isBatch;
+  const runB =
+    isComparison && promptId
+      ? comparisonRunB({ promptId, provider, model: model ?? undefined }, comparison)
+      : null;
 
   const canExecute =
     promptId !== null &&
-    (promptType === "discovery" || stockIds.length > 0);
+    (promptType === "discovery" || stockIds.length > 0) &&
+    (!isComparison || runB !== null);
 
-  const execute = useCallback(async () => {
+  const execute = useCallback(async (options: { overrideBudgetCap?: boolean } = {}) => {
     if (!promptId) {
       throw new Error("No prompt selected");
     }
@@ -44,17 +91,27 @@ export function useResearchFlow() {
       throw new Error("No stocks selected");
     }
 
+    const runA = { promptId, provider, model: model ?? undefined };
+    const shared = {
+      stockIds,
+      parameterValues: parameters.length > 0 ? parameterValues : undefined,
+      overrideBudgetCap: options.overrideBudgetCap || undefined,
+    };
+    if (isComparison && !runB) {
+      throw new Error("Choose what run B changes");
+    }
+
     actions.confirmProvider();
 
-    const jobId = await startResearch({
-      promptId,
-      stockIds,
-      provider,
-    });
+    const id = runB
+      ? await startComparison({ ...shared, a: runA, b: runB })
+      : isBatch
+        ? await startBatch({ ...runA, ...shared })
+        : await startResearch({ ...runA, ...shared });
 
     actions.markExecuting();
-    return jobId;
-  }, [promptId, promptType, stockIds, provider, actions, startResearch]);
+    return id;
+  }, [promptId, promptType, parameters, parameterValues, stockIds, provider, model, isBatch, isComparison, runB, actions, startResearch, startBatch, startComparison]);
 
   return {
     // State
@@ -62,15 +119,29 @@ export function useResearchFlow() {
     isOpen,
     promptId,
     promptType,
+    parameters,
+    parameterValues,
     stockIds,
     provider,
+    model,
+    fanOut,
+    comparison,
+    isBatch,
+    isComparison,
+    /** Run B's prompt, version and model once chosen */
+    runB,
     canExecute,
 
     // Actions
     open: actions.open,
     close: actions.close,
     selectPrompt: actions.selectPrompt,
+    setParameterValues: actions.setParameterValues,
+    setFanOut: actions.setFanOut,
+    setComparison: actions.setComparison,
     selectStocks: actions.selectStocks,
+    selectProvider: actions.selectProvider,
+    selectModel: actions.selectModel,
     back: actions.back,
     reset: actions.reset,
     execute,
@@ -78,7 +149,7 @@ export function useResearchFlow() {
 }
 
 // Re-export types for consumers
-export type { ResearchFlowStep } from "@/lib/research-flow";
+export type { ComparisonVariant, ResearchFlowStep } from "@/lib/research-flow";
 
 // Re-export individual selectors for components that only need one piece
 export {
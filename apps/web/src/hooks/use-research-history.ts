@@ -6,7 +6,7 @@ import { useAuthToken } from "@/lib/auth";
 
 // --- Types ---
 
-type JobStatus = "pending" | "running" | "completed" | "failed";
+type JobStatus = "queued" | "pending" | "running" | "completed" | "failed" | "cancelled";
 
 interface UseResearchHistoryOptions {
   status?: JobStatus;
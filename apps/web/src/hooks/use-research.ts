@@ -6,7 +6,7 @@ import { useCallback } from "react";
 
 // --- Query Hooks ---
 
-type JobStatus = "pending" | "running" | "completed" | "failed";
+type JobStatus = "queued" | "pending" | "running" | "completed" | "failed" | "cancelled";
 
 interface UseResearchJobsOptions {
   status?: JobStatus;
@@ -35,6 +35,36 @@ export function useResearchJob(id: GenericId<"researchJobs">) {
   return useQuery(api.researchJobs.getJob, token ? { id, token } : "skip");
 }
 
+export function useResearchSources(jobId: GenericId<"researchJobs">) {
+  const token = useAuthToken();
+  return useQuery(
+    api.researchSources.listSourcesByJob,
+    token ? { jobId, token } : "skip",
+  );
+}
+
+export function useJobAttempts(jobId: GenericId<"researchJobs">) {
+  const token = useAuthToken();
+  return useQuery(
+    api.jobAttempts.listJobAttempts,
+    token ? { jobId, token } : "skip",
+  );
+}
+
+/** Follow-up questions on a job, oldest first. */
+export function useFollowUps(jobId: GenericId<"researchJobs">) {
+  const token = useAuthToken();
+  return useQuery(
+    api.followUps.listFollowUps,
+    token ? { jobId, token } : "skip",
+  );
+}
+
+export function useResearchBatch(id: GenericId<"researchBatches">) {
+  const token = useAuthToken();
+  return useQuery(api.researchBatches.getBatch, token ? { id, token } : "skip");
+}
+
 export function useActiveJobs() {
   const token = useAuthToken();
   return useQuery(api.researchJobs.getActiveJobs, token ? { token } : "skip");
@@ -52,6 +82,16 @@ export function useStartResearch() {
   );
 }
 
+export function useStartBatch() {
+  const token = useAuthToken();
+  const mutation = useMutation(api.researchBatches.createAndStartBatch);
+  return useCallback(
+    (args: Omit<Parameters<typeof mutation>[0], "token">) =>
+      mutation({ ...args, token: token ?? undefined }),
+    [mutation, token],
+  );
+}
+
 export function useCancelJob() {
   const token = useAuthToken();
   const mutation = useMutation(api.researchJobs.cancelJob);
@@ -72,6 +112,16 @@ export function useRetryJob() {
   );
 }
 
+export function useMoveJobToFront() {
+  const token = useAuthToken();
+  const mutation = useMutation(api.researchJobs.moveJobToFront);
+  return useCallback(
+    (args: Omit<Parameters<typeof mutation>[0], "token">) =>
+      mutation({ ...args, token: token ?? undefined }),
+    [mutation, token],
+  );
+}
+
 export function useDeleteJob() {
   const token = useAuthToken();
   const mutation = useMutation(api.researchJobs.deleteJob);
@@ -81,3 +131,13 @@ export function useDeleteJob() {
     [mutation, token],
   );
 }
+
+export function useAskFollowUp() {
+  const token = useAuthToken();
+  const mutation = useMutation(api.followUps.askFollowUp);
+  return useCallback(
+    (args: Omit<Parameters<typeof mutation>[0], "token">) =>
+      mutation({ ...args, token: token ?? undefined }),
+    [mutation, token],
+  );
+}
@@ -0,0 +1,57 @@
+import type { Doc } from "@repo/convex/dataModel";
+
+export type ResearchSource = Doc<"researchSources">;
+
+/** Anchor id for a source entry in the Sources panel. */
+export function sourceAnchorId(number: number): string {
+  return `source-${number}`;
+}
+
+/**
+ * Insert numbered footnote links after each cited span. Markers are Markdown
+ * links to the matching Sources panel entry, so MarkdownRenderer can style them.
+ */
+export function insertCitationMarkers(
+  text: string,
+  sources: ResearchSource[],
+): string {
+  const markersByPosition = new Map<number, Set<number>>();
+  for (const source of sources) {
+    for (const span of source.spans) {
+      const position = Math.min(span.end, text.length);
+      const numbers = markersByPosition.get(position) ?? new Set<number>();
+      numbers.add(source.number);
+      markersByPosition.set(position, numbers);
+    }
+  }
+
+  // Insert from the end so earlier offsets stay valid
+  const positions = [...markersByPosition.keys()].toSorted((a, b) => b - a);
+  let result = text;
+  for (const position of positions) {
+    const markers = [...markersByPosition.get(position)!]
+      .toSorted((a, b) => a - b)
+      .map((n) => `[${n}](#${sourceAnchorId(n)})`)
+      .join("");
+    result = result.slice(0, position) + markers + result.slice(position);
+  }
+  return result;
+}
+
+/** Group sources by domain, largest groups first. */
+export function groupSourcesByDomain(
+  sources: ResearchSource[],
+): { domain: string; sources: ResearchSource[] }[] {
+  const groups = new Map<string, ResearchSource[]>();
+  for (const source of sources) {
+    const group = groups.get(source.domain) ?? [];
+    group.push(source);
+    groups.set(source.domain, group);
+  }
+  return [...groups.entries()]
+    .map(([domain, items]) => ({ domain, sources: items }))
+    .toSorted(
+      (a, b) =>
+        b.sources.length - a.sources.length || a.domain.localeCompare(b.domain),
+    );
+}
@@ -0,0 +1,56 @@
+import type { Doc } from "@repo/convex/dataModel";
+
+export type OutputField = NonNullable<Doc<"prompts">["outputSchema"]>[number];
+export type OutputFieldType = OutputField["type"];
+export type FindingValue = NonNullable<Doc<"researchFindings">["extra"]>[string];
+
+/** Rating scale, from most bearish to most bullish. Mirrors the backend. */
+export const RATING_SCALE = ["Strong Sell", "Sell", "Hold", "Buy", "Strong Buy"] as const;
+
+/**
+ * Fields stored in their own findings column and charted on the stock page.
+ * Their keys and types are fixed; any other key is a custom field.
+ */
+export const STANDARD_OUTPUT_FIELDS: OutputField[] = [
+  { key: "rating", label: "Rating", type: "rating" },
+  {
+    key: "priceTarget",
+    label: "Price target",
+    type: "number",
+    description: "12-month price target",
+  },
+  {
+    key: "conviction",
+    label: "Conviction",
+    type: "number",
+    description: "1 (low) to 5 (high)",
+  },
+  { key: "keyRisks", label: "Key risks", type: "list" },
+];
+
+export const OUTPUT_FIELD_TYPE_OPTIONS: { value: OutputFieldType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "list", label: "List" },
+  { value: "rating", label: "Rating" },
+];
+
+export function isStandardOutputField(key: string): boolean {
+  return STANDARD_OUTPUT_FIELDS.some((field) => field.key === key);
+}
+
+/** Position on the rating scale, 1 (Strong Sell) to 5 (Strong Buy). */
+export function ratingScore(rating: string): number | undefined {
+  const index = RATING_SCALE.findIndex((r) => r === rating);
+  return index === -1 ? undefined : index + 1;
+}
+
+export function formatFindingValue(value: FindingValue): string {
+  if (Array.isArray(value)) return value.join("; ");
+  if (typeof value === "number") return value.toLocaleString("en-US");
+  return value;
+}
+
+export function formatPriceTarget(value: number): string {
+  return `$${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
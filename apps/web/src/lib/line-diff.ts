@@ -0,0 +1,85 @@
+export type DiffLine =
+  | { type: "added" | "removed" | "same"; text: string }
+  | { type: "skipped"; count: number };
+
+/** Above this many line comparisons, lines are matched as sets instead of in order. */
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Unchanged lines kept around each change. */
+const CONTEXT_LINES = 1;
+
+/** Non-blank lines of a text, without trailing whitespace. */
+export function contentLines(content: string): string[] {
+  return content
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim() !== "");
+}
+
+/** Lines in order, added and removed by longest common subsequence. */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  if (before.length * after.length > MAX_LCS_CELLS) {
+    const beforeSet = new Set(before);
+    const afterSet = new Set(after);
+    return [
+      ...before.flatMap((text): DiffLine[] => (afterSet.has(text) ? [] : [{ type: "removed", text }])),
+      ...after.map((text): DiffLine => ({ type: beforeSet.has(text) ? "same" : "added", text })),
+    ];
+  }
+
+  // lengths[i * width + j] = LCS length of before[i..] and after[j..]
+  const width = after.length + 1;
+  const lengths = new Uint32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        before[i] === after[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ type: "same", text: after[j] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      lines.push({ type: "removed", text: before[i] });
+      i++;
+    } else {
+      lines.push({ type: "added", text: after[j] });
+      j++;
+    }
+  }
+  for (; i < before.length; i++) lines.push({ type: "removed", text: before[i] });
+  for (; j < after.length; j++) lines.push({ type: "added", text: after[j] });
+  return lines;
+}
+
+/** Replace unchanged runs away from any change with a single skipped marker. */
+export function compactDiff(lines: DiffLine[]): DiffLine[] {
+  const nearChange = lines.map((_, index) =>
+    lines
+      .slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1)
+      .some((line) => line.type === "added" || line.type === "removed"),
+  );
+
+  const compacted: DiffLine[] = [];
+  lines.forEach((line, index) => {
+    if (line.type !== "same" || nearChange[index]) {
+      compacted.push(line);
+      return;
+    }
+    const last = compacted.at(-1);
+    if (last?.type === "skipped") {
+      last.count += 1;
+    } else {
+      compacted.push({ type: "skipped", count: 1 });
+    }
+  });
+  return compacted;
+}
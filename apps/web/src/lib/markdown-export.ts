@@ -0,0 +1,17 @@
+/** Save a file through a temporary download link. */
+export function downloadFile(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Save Markdown text as a `.md` file through a temporary download link. */
+export function downloadMarkdown(text: string, filename: string): void {
+  downloadFile(
+    new Blob([text], { type: "text/markdown" }),
+    filename.endsWith(".md") ? filename : `${filename}.md`,
+  );
+}
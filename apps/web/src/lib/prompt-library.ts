@@ -0,0 +1,166 @@
+/**
+ * Prompts as Markdown files, for keeping the prompt library in git.
+ *
+ * Each file holds one prompt: YAML frontmatter with its name, description,
+ * type, provider and model, then the template as the body.
+ *
+ *     ---
+ *     name: Earnings Preview
+ *     description: "What to watch before the call"
+ *     type: single-stock
+ *     provider: openai
+ *     model: o3-deep-research
+ *     ---
+ *     Preview the upcoming earnings of {{TICKER}}...
+ */
+
+import type { FunctionArgs } from "convex/server";
+import type { api } from "@repo/convex";
+import type { Doc } from "@repo/convex/dataModel";
+import { PROVIDER_OPTIONS } from "@/lib/providers";
+import { createZip, readZip } from "@/lib/zip";
+
+export type PromptLibraryEntry = FunctionArgs<typeof api.promptLibrary.importPrompts>["prompts"][number];
+
+export interface PromptFile {
+  /** File the prompt came from, e.g. "prompts/earnings-preview.md" */
+  file: string;
+  entry?: PromptLibraryEntry;
+  error?: string;
+}
+
+const PROMPT_TYPES: PromptLibraryEntry["type"][] = ["single-stock", "multi-stock", "discovery"];
+const FRONTMATTER_KEYS = new Set(["name", "description", "type", "provider", "model"]);
+
+/** Quote a value unless YAML reads it back as the same plain string. */
+function yamlValue(value: string): string {
+  const plain =
+    /^[\w(][\w .,&()/-]*$/.test(value) &&
+    value.trim() === value &&
+    !/^(true|false|yes|no|null|[\d.]+)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function parseYamlValue(raw: string, key: string): string {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      throw new Error(`Invalid quoted value for "${key}"`);
+    }
+  }
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) throw new Error(`Invalid quoted value for "${key}"`);
+    return value.slice(1, -1).replaceAll("''", "'");
+  }
+  if (value === "|" || value === ">" || value.startsWith("|-") || value.startsWith(">-")) {
+    throw new Error(`Multi-line values are not supported for "${key}"; use a quoted string`);
+  }
+  return value;
+}
+
+export function promptToMarkdown(prompt: Doc<"prompts">): string {
+  const lines = [
+    "---",
+    `name: ${yamlValue(prompt.name)}`,
+    `description: ${yamlValue(prompt.description)}`,
+    `type: ${prompt.type}`,
+    `provider: ${prompt.defaultProvider}`,
+    ...(prompt.defaultModel ? [`model: ${yamlValue(prompt.defaultModel)}`] : []),
+    "---",
+    prompt.template,
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * The prompt a Markdown file describes. Throws when the frontmatter is
+ * missing, malformed or names an unknown type or provider; everything else
+ * is checked by the server when previewing the import.
+ */
+export function parsePromptMarkdown(text: string): PromptLibraryEntry {
+  const match = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(text);
+  if (!match) throw new Error("Missing frontmatter: start the file with a --- block");
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1]!.split(/\r?\n/)) {
+    if (line.trim() === "" || line.trimStart().startsWith("#")) continue;
+    const separator = line.indexOf(":");
+    if (separator <= 0) throw new Error(`Invalid frontmatter line: ${line}`);
+    const key = line.slice(0, separator).trim();
+    if (!FRONTMATTER_KEYS.has(key)) throw new Error(`Unknown frontmatter key "${key}"`);
+    fields[key] = parseYamlValue(line.slice(separator + 1), key);
+  }
+
+  if (!fields.name) throw new Error('Missing "name" in frontmatter');
+  const type = fields.type as PromptLibraryEntry["type"];
+  if (!PROMPT_TYPES.includes(type)) {
+    throw new Error(`"type" must be one of ${PROMPT_TYPES.join(", ")}`);
+  }
+  const provider = fields.provider as PromptLibraryEntry["defaultProvider"];
+  if (provider !== undefined && !PROVIDER_OPTIONS.some((option) => option.value === provider)) {
+    throw new Error(`"provider" must be one of ${PROVIDER_OPTIONS.map((option) => option.value).join(", ")}`);
+  }
+
+  return {
+    name: fields.name,
+    description: fields.description,
+    type,
+    template: match[2]!.replace(/\r?\n$/, ""),
+    defaultProvider: provider,
+    defaultModel: fields.model || undefined,
+  };
+}
+
+/** File name for a prompt, e.g. "Earnings Preview" becomes "earnings-preview.md". */
+export function promptFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replaceAll(/[^a-z0-9]+/g, "-")
+    .replaceAll(/^-|-$/g, "");
+  return `${slug || "prompt"}.md`;
+}
+
+/** Zip of one Markdown file per prompt, with unique file names. */
+export function exportPromptsZip(prompts: Doc<"prompts">[]): Blob {
+  const used = new Set<string>();
+  const files = prompts.map((prompt) => {
+    let name = promptFileName(prompt.name);
+    for (let n = 2; used.has(name); n++) name = promptFileName(`${prompt.name} ${n}`);
+    used.add(name);
+    return { name, content: promptToMarkdown(prompt) };
+  });
+  return createZip(files);
+}
+
+function parseFile(file: string, content: string): PromptFile {
+  try {
+    return { file, entry: parsePromptMarkdown(content) };
+  } catch (err) {
+    return { file, error: err instanceof Error ? err.message : "Could not read the file" };
+  }
+}
+
+/**
+ * Prompts in the chosen `.md` files and `.zip` archives of them. Other
+ * files inside an archive are skipped.
+ */
+export async function readPromptFiles(files: File[]): Promise<PromptFile[]> {
+  const results = await Promise.all(
+    files.map(async (file): Promise<PromptFile[]> => {
+      if (!file.name.toLowerCase().endsWith(".zip")) {
+        return [parseFile(file.name, await file.text())];
+      }
+      try {
+        const entries = await readZip(await file.arrayBuffer());
+        return entries
+          .filter((entry) => entry.name.toLowerCase().endsWith(".md") && !entry.name.startsWith("__MACOSX/"))
+          .map((entry) => parseFile(`${file.name}/${entry.name}`, entry.content));
+      } catch (err) {
+        return [{ file: file.name, error: err instanceof Error ? err.message : "Could not read the archive" }];
+      }
+    }),
+  );
+  return results.flat();
+}
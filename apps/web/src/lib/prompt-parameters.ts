@@ -0,0 +1,49 @@
+import {
+  checkParameterValue,
+  type PromptParameter,
+} from "@repo/convex/promptTemplate";
+
+export type ParameterValues = Record<string, string>;
+
+/** Readable label for a parameter name, e.g. MAX_PICKS becomes "Max picks". */
+export function formatParameterLabel(name: string): string {
+  const words = name.toLowerCase().replaceAll("_", " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** Value a run would use: the entered one, or the parameter's default. */
+export function effectiveParameterValue(
+  parameter: PromptParameter,
+  values: ParameterValues,
+): string {
+  return values[parameter.name]?.trim() || parameter.defaultValue || "";
+}
+
+/** Problem with each parameter's value, by name; empty when all of them are fine. */
+export function validateParameterValues(
+  parameters: PromptParameter[],
+  values: ParameterValues,
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const parameter of parameters) {
+    const error = checkParameterValue(parameter, effectiveParameterValue(parameter, values));
+    if (error) errors[parameter.name] = error;
+  }
+  return errors;
+}
+
+/**
+ * Entered values of the given parameters, trimmed, without blanks so
+ * defaults apply. Values of parameters the prompt no longer has are dropped.
+ */
+export function cleanParameterValues(
+  parameters: PromptParameter[],
+  values: ParameterValues,
+): ParameterValues {
+  const cleaned: ParameterValues = {};
+  for (const parameter of parameters) {
+    const value = values[parameter.name]?.trim();
+    if (value) cleaned[parameter.name] = value;
+  }
+  return cleaned;
+}
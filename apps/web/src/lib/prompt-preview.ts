@@ -1,85 +1,126 @@
 /**
  * Variable injection preview for prompt templates.
  *
- * Replaces {{STOCKS}}, {{TICKER}}, and {{DATE}} with sample data
- * so users can preview how a prompt will look before execution.
+ * Renders a template with the same engine the backend uses, on sample stocks,
+ * so users can preview how a prompt will look before execution. Pipeline step
+ * references and parameters without a default are shown as placeholders.
  */
 
-const SAMPLE_TICKER = "AAPL";
+import {
+  TEMPLATE_VARIABLES,
+  findPromptParameters,
+  findTemplateErrors,
+  resolvePromptTemplate,
+  type TemplateError,
+  type TemplateStock,
+} from "@repo/convex/promptTemplate";
 
-const SAMPLE_STOCKS = "AAPL, MSFT, GOOGL, AMZN, NVDA";
+const SAMPLE_STOCKS: TemplateStock[] = [
+  {
+    ticker: "AAPL",
+    companyName: "Apple Inc.",
+    exchange: "NASDAQ",
+    sector: "Technology",
+    notes: "Watching services growth and buyback pace.",
+    tags: ["core", "hardware"],
+    nextEarningsDate: "2026-01-29",
+    lastEarnings: { date: "2025-10-30", epsActual: 1.85, epsEstimate: 1.77 },
+  },
+  {
+    ticker: "MSFT",
+    companyName: "Microsoft Corporation",
+    exchange: "NASDAQ",
+    sector: "Technology",
+    tags: ["core", "cloud"],
+    nextEarningsDate: "2026-01-28",
+    lastEarnings: { date: "2025-10-29", epsActual: 3.72, epsEstimate: 3.67 },
+  },
+  {
+    ticker: "JPM",
+    companyName: "JPMorgan Chase & Co.",
+    exchange: "NYSE",
+    sector: "Financials",
+    tags: ["banks"],
+  },
+];
 
 function getSampleDate(): string {
-  return new Date().toLocaleDateString("en-US", {
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-  });
+  return new Date().toISOString().split("T")[0]!;
 }
 
 export interface PromptVariable {
   name: string;
   pattern: string;
   description: string;
-  sampleValue: string;
 }
 
 export function getPromptVariables(): PromptVariable[] {
   return [
+    ...TEMPLATE_VARIABLES.map((variable) => ({
+      name: variable.name,
+      pattern: `{{${variable.name}}}`,
+      description: variable.perStock
+        ? `${variable.description}. Inside {{#each STOCKS}} it is the current stock, elsewhere the first one.`
+        : variable.description,
+    })),
     {
-      name: "TICKER",
-      pattern: "{{TICKER}}",
-      description: "A single stock ticker symbol",
-      sampleValue: SAMPLE_TICKER,
+      name: "#each",
+      pattern: "{{#each STOCKS}}…{{/each}}",
+      description: "Repeats the enclosed text for every stock",
     },
     {
-      name: "STOCKS",
-      pattern: "{{STOCKS}}",
-      description: "A comma-separated list of stock ticker symbols",
-      sampleValue: SAMPLE_STOCKS,
+      name: "#if",
+      pattern: "{{#if SECTOR}}…{{else}}…{{/if}}",
+      description: "Includes the enclosed text only when the variable is not empty; {{else}} is optional",
     },
     {
-      name: "DATE",
-      pattern: "{{DATE}}",
-      description: "The current date",
-      sampleValue: getSampleDate(),
+      name: "parameter",
+      pattern: "{{NAME: text|number|select[a,b]=default}}",
+      description:
+        "Declares a parameter filled in when the research runs; use {{NAME}} to repeat its value",
+    },
+    {
+      name: "STEP_1_RESULT",
+      pattern: "{{STEP_1_RESULT}}",
+      description: "In a pipeline, the output of step 1 (STEP_2_RESULT for step 2, and so on)",
     },
   ];
 }
 
-export interface InjectVariablesOptions {
-  ticker?: string;
-  stocks?: string;
-  date?: string;
+export interface PromptPreview {
+  /** The rendered template, or null when it has errors */
+  text: string | null;
+  errors: TemplateError[];
 }
 
 /**
- * Injects variable values into a prompt template.
- * Falls back to sample data for any variable not provided.
+ * Renders a template on sample stocks, or lists why it can't be rendered.
  */
-export function injectVariables(
-  template: string,
-  options: InjectVariablesOptions = {},
-): string {
-  const { ticker, stocks, date } = options;
-
-  let result = template;
-  result = result.replaceAll("{{TICKER}}", ticker ?? SAMPLE_TICKER);
-  result = result.replaceAll("{{STOCKS}}", stocks ?? SAMPLE_STOCKS);
-  result = result.replaceAll("{{DATE}}", date ?? getSampleDate());
+export function previewTemplate(template: string): PromptPreview {
+  const errors = findTemplateErrors(template);
+  if (errors.length > 0) return { text: null, errors };
 
-  return result;
+  const parameters = Object.fromEntries(
+    findPromptParameters(template).map((p) => [p.name, p.defaultValue ?? `[${p.name}]`]),
+  );
+  const text = resolvePromptTemplate(template, {
+    stocks: SAMPLE_STOCKS,
+    date: getSampleDate(),
+    parameters,
+  }).replaceAll(/\{\{STEP_(\d+)_RESULT\}\}/g, "[Output of step $1]");
+  return { text, errors };
 }
 
 /**
- * Extracts all variable placeholders found in a template string.
- * Returns the unique variable names (e.g., ["TICKER", "DATE"]).
+ * Extracts all variables and blocks found in a template string.
+ * Returns the unique names (e.g., ["TICKER", "DATE", "#each"]).
  */
 export function extractVariables(template: string): string[] {
-  const matches = template.matchAll(/\{\{(\w+)\}\}/g);
+  const matches = template.matchAll(/\{\{\s*(#?\w+)(?:\s+(\w+))?/g);
   const variables = new Set<string>();
   for (const match of matches) {
     variables.add(match[1]);
+    if (match[2]) variables.add(match[2]);
   }
   return [...variables];
 }
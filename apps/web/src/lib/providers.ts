@@ -0,0 +1,38 @@
+import type { Doc } from "@repo/convex/dataModel";
+
+export type ResearchProvider = Doc<"researchJobs">["provider"];
+
+export interface ProviderOption {
+  value: ResearchProvider;
+  label: string;
+  description: string;
+  estimatedCost: string;
+}
+
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+  {
+    value: "openai",
+    label: "OpenAI Deep Research",
+    description: "o3-deep-research with web search, 5-30 min",
+    estimatedCost: "~$3-4",
+  },
+  {
+    value: "anthropic",
+    label: "Anthropic Claude",
+    description: "Claude Sonnet with web search, 2-10 min",
+    estimatedCost: "~$0.50-1",
+  },
+  {
+    value: "gemini",
+    label: "Gemini Deep Research",
+    description: "Gemini Deep Research agent, 5-20 min",
+    estimatedCost: "~$2-3",
+  },
+];
+
+export function getProviderLabel(provider: ResearchProvider): string {
+  return (
+    PROVIDER_OPTIONS.find((option) => option.value === provider)?.label ??
+    provider
+  );
+}
@@ -0,0 +1,84 @@
+import type { ParsedMarkdown, Section } from "@/components/markdown-renderer";
+import { compactDiff, contentLines, diffLines, type DiffLine } from "@/lib/line-diff";
+
+export type SectionChangeStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface SectionChange {
+  /** Heading titles from the top-level section down to this one */
+  path: string[];
+  status: SectionChangeStatus;
+  /** Line diff of the section content, with long unchanged runs skipped */
+  lines: DiffLine[];
+}
+
+const PREAMBLE_TITLE = "Introduction";
+
+interface FlatSection {
+  key: string;
+  path: string[];
+  content: string;
+}
+
+function normalizeTitle(title: string): string {
+  return title.replace(/\s+/g, " ").replace(/:$/, "").trim().toLowerCase();
+}
+
+function flattenSections(parsed: ParsedMarkdown): FlatSection[] {
+  const flat: FlatSection[] = [];
+  if (parsed.preamble) {
+    flat.push({ key: normalizeTitle(PREAMBLE_TITLE), path: [PREAMBLE_TITLE], content: parsed.preamble });
+  }
+
+  function visit(sections: Section[], path: string[]) {
+    for (const section of sections) {
+      const sectionPath = [...path, section.title];
+      flat.push({
+        key: sectionPath.map(normalizeTitle).join("\u0000"),
+        path: sectionPath,
+        content: section.content,
+      });
+      visit(section.children, sectionPath);
+    }
+  }
+  visit(parsed.sections, []);
+  return flat;
+}
+
+/**
+ * Section-aware diff of two reports. Sections are matched by their heading
+ * path, so a moved paragraph shows up in the section it moved to. Sections
+ * of the current report come first in their order, then removed ones.
+ */
+export function diffReports(previous: ParsedMarkdown, current: ParsedMarkdown): SectionChange[] {
+  const before = new Map(flattenSections(previous).map((section) => [section.key, section]));
+  const after = flattenSections(current);
+  const afterKeys = new Set(after.map((section) => section.key));
+
+  const changes: SectionChange[] = after.map((section) => {
+    const old = before.get(section.key);
+    if (!old) {
+      return {
+        path: section.path,
+        status: "added",
+        lines: contentLines(section.content).map((text) => ({ type: "added", text })),
+      };
+    }
+    const lines = diffLines(contentLines(old.content), contentLines(section.content));
+    const changed = lines.some((line) => line.type !== "same");
+    return {
+      path: section.path,
+      status: changed ? "changed" : "unchanged",
+      lines: changed ? compactDiff(lines) : [],
+    };
+  });
+
+  for (const section of before.values()) {
+    if (afterKeys.has(section.key)) continue;
+    changes.push({
+      path: section.path,
+      status: "removed",
+      lines: contentLines(section.content).map((text) => ({ type: "removed", text })),
+    });
+  }
+  return changes;
+}
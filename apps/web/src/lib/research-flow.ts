@@ -1,19 +1,38 @@
 import { create } from "zustand";
 import { useShallow } from "zustand/react/shallow";
 import type { GenericId } from "convex/values";
+import type { PromptParameter } from "@repo/convex/promptTemplate";
+import type { ResearchProvider } from "./providers";
 
 export type ResearchFlowStep =
   | "prompt-selection"
+  | "parameters"
   | "stock-selection"
   | "provider-confirm"
   | "executing";
 
+/** What run B of an A/B run changes from run A. */
+export type ComparisonVariant =
+  | { kind: "prompts"; promptId: GenericId<"prompts"> | null }
+  | { kind: "versions"; promptVersionId: GenericId<"promptVersions"> | null }
+  | { kind: "models"; provider: ResearchProvider; model: string | null };
+
 interface ResearchFlowState {
   step: ResearchFlowStep;
   promptId: GenericId<"prompts"> | null;
   promptType: "single-stock" | "multi-stock" | "discovery" | null;
+  /** Parameters the selected prompt declares */
+  parameters: PromptParameter[];
+  /** Entered parameter values; blank ones use the default */
+  parameterValues: Record<string, string>;
   stockIds: GenericId<"stocks">[];
-  provider: "openai";
+  provider: ResearchProvider;
+  /** Model override; null uses the provider default */
+  model: string | null;
+  /** Run one job per selected stock under a batch */
+  fanOut: boolean;
+  /** Run B of an A/B run; null for a single run */
+  comparison: ComparisonVariant | null;
   isOpen: boolean;
 }
 
@@ -26,9 +45,22 @@ interface ResearchFlowActions {
   selectPrompt: (
     promptId: GenericId<"prompts">,
     promptType: "single-stock" | "multi-stock" | "discovery",
+    defaultProvider?: ResearchProvider,
+    defaultModel?: string,
+    parameters?: PromptParameter[],
   ) => void;
+  /** Keep the entered parameter values and advance to the next step */
+  setParameterValues: (values: Record<string, string>) => void;
+  /** Toggle one-job-per-stock mode */
+  setFanOut: (fanOut: boolean) => void;
+  /** Turn A/B mode on with run B's variant, or off with null */
+  setComparison: (comparison: ComparisonVariant | null) => void;
   /** Select stocks and advance to provider confirmation */
   selectStocks: (stockIds: GenericId<"stocks">[]) => void;
+  /** Choose which provider runs the research */
+  selectProvider: (provider: ResearchProvider) => void;
+  /** Choose the model for the selected provider */
+  selectModel: (model: string | null) => void;
   /** Confirm provider and move to executing step */
   confirmProvider: () => void;
   /** Mark execution as started (called after mutation succeeds) */
@@ -45,11 +77,29 @@ const initialState: ResearchFlowState = {
   step: "prompt-selection",
   promptId: null,
   promptType: null,
+  parameters: [],
+  parameterValues: {},
   stockIds: [],
   provider: "openai",
+  model: null,
+  fanOut: false,
+  comparison: null,
   isOpen: false,
 };
 
+/** Steps of the wizard for a prompt, in order. */
+export function getResearchFlowSteps(
+  promptType: ResearchFlowState["promptType"],
+  hasParameters: boolean,
+): ResearchFlowStep[] {
+  return [
+    "prompt-selection",
+    ...(hasParameters ? (["parameters"] as const) : []),
+    ...(promptType === "discovery" ? [] : (["stock-selection"] as const)),
+    "provider-confirm",
+  ];
+}
+
 export const useResearchFlowStore = create<ResearchFlowStore>()((set, get) => ({
   ...initialState,
 
@@ -57,22 +107,52 @@ export const useResearchFlowStore = create<ResearchFlowStore>()((set, get) => ({
 
   close: () => set(initialState),
 
-  selectPrompt: (promptId, promptType) => {
-    // Discovery prompts skip stock selection entirely
-    const nextStep =
-      promptType === "discovery" ? "provider-confirm" : "stock-selection";
+  selectPrompt: (promptId, promptType, defaultProvider, defaultModel, parameters = []) => {
+    // Discovery prompts skip stock selection, prompts without parameters their form
+    const nextStep = getResearchFlowSteps(promptType, parameters.length > 0)[1]!;
     set({
       promptId,
       promptType,
+      parameters,
+      parameterValues: {},
       stockIds: [],
+      provider: defaultProvider ?? initialState.provider,
+      model: defaultModel ?? null,
+      fanOut: false,
+      comparison: null,
       step: nextStep,
     });
   },
 
+  setParameterValues: (parameterValues) => {
+    const { promptType } = get();
+    set({
+      parameterValues,
+      step: promptType === "discovery" ? "provider-confirm" : "stock-selection",
+    });
+  },
+
+  setFanOut: (fanOut) => {
+    // A/B runs are two single jobs, so fan-out turns them off
+    set(fanOut ? { fanOut, comparison: null } : { fanOut });
+  },
+
+  setComparison: (comparison) => {
+    set({ comparison });
+  },
+
   selectStocks: (stockIds) => {
     set({ stockIds, step: "provider-confirm" });
   },
 
+  selectProvider: (provider) => {
+    set({ provider, model: null });
+  },
+
+  selectModel: (model) => {
+    set({ model });
+  },
+
   confirmProvider: () => {
     set({ step: "executing" });
   },
@@ -82,17 +162,24 @@ export const useResearchFlowStore = create<ResearchFlowStore>()((set, get) => ({
   },
 
   back: () => {
-    const { step, promptType } = get();
-    switch (step) {
-      case "stock-selection":
-        set({ step: "prompt-selection", promptId: null, promptType: null });
+    const { step, promptType, parameters } = get();
+    const steps = getResearchFlowSteps(promptType, parameters.length > 0);
+    const previous = steps[steps.indexOf(step) - 1];
+    switch (previous) {
+      case "prompt-selection":
+        set({
+          step: previous,
+          promptId: null,
+          promptType: null,
+          parameters: [],
+          parameterValues: {},
+        });
         break;
-      case "provider-confirm":
-        if (promptType === "discovery") {
-          set({ step: "prompt-selection", promptId: null, promptType: null });
-        } else {
-          set({ step: "stock-selection", stockIds: [] });
-        }
+      case "parameters":
+        set({ step: previous });
+        break;
+      case "stock-selection":
+        set({ step: previous, stockIds: [] });
         break;
       default:
         break;
@@ -111,10 +198,20 @@ export const useResearchFlowPromptId = () =>
   useResearchFlowStore((s) => s.promptId);
 export const useResearchFlowPromptType = () =>
   useResearchFlowStore((s) => s.promptType);
+export const useResearchFlowParameters = () =>
+  useResearchFlowStore((s) => s.parameters);
+export const useResearchFlowParameterValues = () =>
+  useResearchFlowStore((s) => s.parameterValues);
 export const useResearchFlowStockIds = () =>
   useResearchFlowStore((s) => s.stockIds);
 export const useResearchFlowProvider = () =>
   useResearchFlowStore((s) => s.provider);
+export const useResearchFlowModel = () =>
+  useResearchFlowStore((s) => s.model);
+export const useResearchFlowFanOut = () =>
+  useResearchFlowStore((s) => s.fanOut);
+export const useResearchFlowComparison = () =>
+  useResearchFlowStore((s) => s.comparison);
 
 // Actions hook
 export const useResearchFlowActions = () =>
@@ -123,7 +220,12 @@ export const useResearchFlowActions = () =>
       open: s.open,
       close: s.close,
       selectPrompt: s.selectPrompt,
+      setParameterValues: s.setParameterValues,
+      setFanOut: s.setFanOut,
+      setComparison: s.setComparison,
       selectStocks: s.selectStocks,
+      selectProvider: s.selectProvider,
+      selectModel: s.selectModel,
       confirmProvider: s.confirmProvider,
       markExecuting: s.markExecuting,
       back: s.back,
@@ -1,15 +1,27 @@
 import type { GenericId } from "convex/values";
+import type { ResearchProvider } from "./providers";
 
 // --- Form Data ---
 
 export interface ScheduleFormData {
   name: string;
+  /** Whether the schedule runs a single prompt or a pipeline */
+  target: "prompt" | "pipeline";
   promptId: string;
+  /** Pinned version of the prompt; unset follows the latest edits */
+  promptVersionId?: GenericId<"promptVersions">;
+  /** Fixed values for the prompt's own parameters; blank ones use the default */
+  parameterValues: Record<string, string>;
+  pipelineId: string;
   stockSelection: {
     type: "all" | "tagged" | "specific" | "none";
     tags?: string[];
     stockIds?: GenericId<"stocks">[];
   };
+  provider: ResearchProvider;
+  model?: string;
+  /** One job per matching stock instead of one job for all of them */
+  fanOut?: boolean;
   cron: string;
   timezone: string;
   enabled: boolean;
@@ -20,6 +32,7 @@ export interface ScheduleFormData {
 export interface ScheduleFormErrors {
   name?: string;
   promptId?: string;
+  pipelineId?: string;
   stockSelection?: string;
   cron?: string;
   timezone?: string;
@@ -185,6 +198,13 @@ export function validatePromptId(promptId: string): string | undefined {
   return undefined;
 }
 
+export function validatePipelineId(pipelineId: string): string | undefined {
+  if (!pipelineId) {
+    return "Pipeline is required";
+  }
+  return undefined;
+}
+
 export function validateStockSelection(stockSelection: ScheduleFormData["stockSelection"]): string | undefined {
   if (stockSelection.type === "tagged") {
     if (!stockSelection.tags || stockSelection.tags.length === 0) {
@@ -207,8 +227,13 @@ export function validateScheduleForm(data: ScheduleFormData): ScheduleFormErrors
   const nameError = validateName(data.name);
   if (nameError) errors.name = nameError;
 
-  const promptError = validatePromptId(data.promptId);
-  if (promptError) errors.promptId = promptError;
+  if (data.target === "pipeline") {
+    const pipelineError = validatePipelineId(data.pipelineId);
+    if (pipelineError) errors.pipelineId = pipelineError;
+  } else {
+    const promptError = validatePromptId(data.promptId);
+    if (promptError) errors.promptId = promptError;
+  }
 
   const stockError = validateStockSelection(data.stockSelection);
   if (stockError) errors.stockSelection = stockError;
@@ -0,0 +1,58 @@
+import type { Doc } from "@repo/convex/dataModel";
+
+export type TokenUsage = NonNullable<Doc<"researchJobs">["usage"]>;
+export type CostBreakdown = NonNullable<Doc<"researchJobs">["costBreakdown"]>;
+
+/** Compact token count, e.g. 950, 12.4K, 1.2M. */
+export function formatTokenCount(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}K`;
+  return String(count);
+}
+
+/** Cost components in display order, with how many units each one billed. */
+export const USAGE_COMPONENTS = [
+  {
+    key: "inputUsd",
+    label: "Input",
+    units: (u: TokenUsage) => Math.max(0, u.inputTokens - (u.cachedInputTokens ?? 0)),
+    unitLabel: "tokens",
+  },
+  {
+    key: "cachedInputUsd",
+    label: "Cached input",
+    units: (u: TokenUsage) => u.cachedInputTokens ?? 0,
+    unitLabel: "tokens",
+  },
+  {
+    key: "outputUsd",
+    label: "Output",
+    units: (u: TokenUsage) => Math.max(0, u.outputTokens - (u.reasoningTokens ?? 0)),
+    unitLabel: "tokens",
+  },
+  {
+    key: "reasoningUsd",
+    label: "Reasoning",
+    units: (u: TokenUsage) => u.reasoningTokens ?? 0,
+    unitLabel: "tokens",
+  },
+  {
+    key: "webSearchUsd",
+    label: "Web search",
+    units: (u: TokenUsage) => u.webSearchRequests ?? 0,
+    unitLabel: "calls",
+  },
+] as const satisfies ReadonlyArray<{
+  key: keyof CostBreakdown;
+  label: string;
+  units: (usage: TokenUsage) => number;
+  unitLabel: string;
+}>;
+
+export const USAGE_COMPONENT_COLORS: Record<keyof CostBreakdown, string> = {
+  inputUsd: "bg-sky-500",
+  cachedInputUsd: "bg-sky-300",
+  outputUsd: "bg-emerald-500",
+  reasoningUsd: "bg-violet-500",
+  webSearchUsd: "bg-amber-500",
+};
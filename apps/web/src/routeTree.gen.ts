@@ -17,11 +17,17 @@ import { Route as AuthenticatedSettingsRouteImport } from './routes/_authenticat
 import { Route as AuthenticatedSchedulesRouteImport } from './routes/_authenticated/schedules'
 import { Route as AuthenticatedResearchRouteImport } from './routes/_authenticated/research'
 import { Route as AuthenticatedPromptsRouteImport } from './routes/_authenticated/prompts'
+import { Route as AuthenticatedPipelinesRouteImport } from './routes/_authenticated/pipelines'
 import { Route as AuthenticatedHistoryRouteImport } from './routes/_authenticated/history'
 import { Route as AuthenticatedApiExampleRouteImport } from './routes/_authenticated/api-example'
+import { Route as AuthenticatedPromptsIndexRouteImport } from './routes/_authenticated/prompts.index'
 import { Route as AuthenticatedHistoryIndexRouteImport } from './routes/_authenticated/history.index'
 import { Route as AuthenticatedStocksStockIdRouteImport } from './routes/_authenticated/stocks.$stockId'
+import { Route as AuthenticatedPromptsPromptIdRouteImport } from './routes/_authenticated/prompts.$promptId'
 import { Route as AuthenticatedHistoryJobIdRouteImport } from './routes/_authenticated/history.$jobId'
+import { Route as AuthenticatedHistoryPipelineRunIdRouteImport } from './routes/_authenticated/history.pipeline.$runId'
+import { Route as AuthenticatedHistoryCompareComparisonIdRouteImport } from './routes/_authenticated/history.compare.$comparisonId'
+import { Route as AuthenticatedHistoryBatchBatchIdRouteImport } from './routes/_authenticated/history.batch.$batchId'
 
 const LoginRoute = LoginRouteImport.update({
   id: '/login',
@@ -62,6 +68,11 @@ const AuthenticatedPromptsRoute = AuthenticatedPromptsRouteImport.update({
   path: '/prompts',
   getParentRoute: () => AuthenticatedRoute,
 } as any)
+const AuthenticatedPipelinesRoute = AuthenticatedPipelinesRouteImport.update({
+  id: '/pipelines',
+  path: '/pipelines',
+  getParentRoute: () => AuthenticatedRoute,
+} as any)
 const AuthenticatedHistoryRoute = AuthenticatedHistoryRouteImport.update({
   id: '/history',
   path: '/history',
@@ -72,6 +83,12 @@ const AuthenticatedApiExampleRoute = AuthenticatedApiExampleRouteImport.update({
   path: '/api-example',
   getParentRoute: () => AuthenticatedRoute,
 } as any)
+const AuthenticatedPromptsIndexRoute =
+  AuthenticatedPromptsIndexRouteImport.update({
+    id: '/',
+    path: '/',
+    getParentRoute: () => AuthenticatedPromptsRoute,
+  } as any)
 const AuthenticatedHistoryIndexRoute =
   AuthenticatedHistoryIndexRouteImport.update({
     id: '/',
@@ -84,39 +101,74 @@ const AuthenticatedStocksStockIdRoute =
     path: '/$stockId',
     getParentRoute: () => AuthenticatedStocksRoute,
   } as any)
+const AuthenticatedPromptsPromptIdRoute =
+  AuthenticatedPromptsPromptIdRouteImport.update({
+    id: '/$promptId',
+    path: '/$promptId',
+    getParentRoute: () => AuthenticatedPromptsRoute,
+  } as any)
 const AuthenticatedHistoryJobIdRoute =
   AuthenticatedHistoryJobIdRouteImport.update({
     id: '/$jobId',
     path: '/$jobId',
     getParentRoute: () => AuthenticatedHistoryRoute,
   } as any)
+const AuthenticatedHistoryPipelineRunIdRoute =
+  AuthenticatedHistoryPipelineRunIdRouteImport.update({
+    id: '/pipeline/$runId',
+    path: '/pipeline/$runId',
+    getParentRoute: () => AuthenticatedHistoryRoute,
+  } as any)
+const AuthenticatedHistoryCompareComparisonIdRoute =
+  AuthenticatedHistoryCompareComparisonIdRouteImport.update({
+    id: '/compare/$comparisonId',
+    path: '/compare/$comparisonId',
+    getParentRoute: () => AuthenticatedHistoryRoute,
+  } as any)
+const AuthenticatedHistoryBatchBatchIdRoute =
+  AuthenticatedHistoryBatchBatchIdRouteImport.update({
+    id: '/batch/$batchId',
+    path: '/batch/$batchId',
+    getParentRoute: () => AuthenticatedHistoryRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof AuthenticatedIndexRoute
   '/login': typeof LoginRoute
   '/api-example': typeof AuthenticatedApiExampleRoute
   '/history': typeof AuthenticatedHistoryRouteWithChildren
-  '/prompts': typeof AuthenticatedPromptsRoute
+  '/pipelines': typeof AuthenticatedPipelinesRoute
+  '/prompts': typeof AuthenticatedPromptsRouteWithChildren
   '/research': typeof AuthenticatedResearchRoute
   '/schedules': typeof AuthenticatedSchedulesRoute
   '/settings': typeof AuthenticatedSettingsRoute
   '/stocks': typeof AuthenticatedStocksRouteWithChildren
   '/history/$jobId': typeof AuthenticatedHistoryJobIdRoute
+  '/prompts/$promptId': typeof AuthenticatedPromptsPromptIdRoute
   '/stocks/$stockId': typeof AuthenticatedStocksStockIdRoute
   '/history/': typeof AuthenticatedHistoryIndexRoute
+  '/prompts/': typeof AuthenticatedPromptsIndexRoute
+  '/history/batch/$batchId': typeof AuthenticatedHistoryBatchBatchIdRoute
+  '/history/compare/$comparisonId': typeof AuthenticatedHistoryCompareComparisonIdRoute
+  '/history/pipeline/$runId': typeof AuthenticatedHistoryPipelineRunIdRoute
 }
 export interface FileRoutesByTo {
   '/login': typeof LoginRoute
   '/api-example': typeof AuthenticatedApiExampleRoute
-  '/prompts': typeof AuthenticatedPromptsRoute
+  '/pipelines': typeof AuthenticatedPipelinesRoute
   '/research': typeof AuthenticatedResearchRoute
   '/schedules': typeof AuthenticatedSchedulesRoute
   '/settings': typeof AuthenticatedSettingsRoute
   '/stocks': typeof AuthenticatedStocksRouteWithChildren
   '/': typeof AuthenticatedIndexRoute
   '/history/$jobId': typeof AuthenticatedHistoryJobIdRoute
+  '/prompts/$promptId': typeof AuthenticatedPromptsPromptIdRoute
   '/stocks/$stockId': typeof AuthenticatedStocksStockIdRoute
   '/history': typeof AuthenticatedHistoryIndexRoute
+  '/prompts': typeof AuthenticatedPromptsIndexRoute
+  '/history/batch/$batchId': typeof AuthenticatedHistoryBatchBatchIdRoute
+  '/history/compare/$comparisonId': typeof AuthenticatedHistoryCompareComparisonIdRoute
+  '/history/pipeline/$runId': typeof AuthenticatedHistoryPipelineRunIdRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -124,15 +176,21 @@ export interface FileRoutesById {
   '/login': typeof LoginRoute
   '/_authenticated/api-example': typeof AuthenticatedApiExampleRoute
   '/_authenticated/history': typeof AuthenticatedHistoryRouteWithChildren
-  '/_authenticated/prompts': typeof AuthenticatedPromptsRoute
+  '/_authenticated/pipelines': typeof AuthenticatedPipelinesRoute
+  '/_authenticated/prompts': typeof AuthenticatedPromptsRouteWithChildren
   '/_authenticated/research': typeof AuthenticatedResearchRoute
   '/_authenticated/schedules': typeof AuthenticatedSchedulesRoute
   '/_authenticated/settings': typeof AuthenticatedSettingsRoute
   '/_authenticated/stocks': typeof AuthenticatedStocksRouteWithChildren
   '/_authenticated/': typeof AuthenticatedIndexRoute
   '/_authenticated/history/$jobId': typeof AuthenticatedHistoryJobIdRoute
+  '/_authenticated/prompts/$promptId': typeof AuthenticatedPromptsPromptIdRoute
   '/_authenticated/stocks/$stockId': typeof AuthenticatedStocksStockIdRoute
   '/_authenticated/history/': typeof AuthenticatedHistoryIndexRoute
+  '/_authenticated/prompts/': typeof AuthenticatedPromptsIndexRoute
+  '/_authenticated/history/batch/$batchId': typeof AuthenticatedHistoryBatchBatchIdRoute
+  '/_authenticated/history/compare/$comparisonId': typeof AuthenticatedHistoryCompareComparisonIdRoute
+  '/_authenticated/history/pipeline/$runId': typeof AuthenticatedHistoryPipelineRunIdRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -141,33 +199,45 @@ export interface FileRouteTypes {
     | '/login'
     | '/api-example'
     | '/history'
+    | '/pipelines'
     | '/prompts'
     | '/research'
     | '/schedules'
     | '/settings'
     | '/stocks'
     | '/history/$jobId'
+    | '/prompts/$promptId'
     | '/stocks/$stockId'
     | '/history/'
+    | '/prompts/'
+    | '/history/batch/$batchId'
+    | '/history/compare/$comparisonId'
+    | '/history/pipeline/$runId'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/login'
     | '/api-example'
-    | '/prompts'
+    | '/pipelines'
     | '/research'
     | '/schedules'
     | '/settings'
     | '/stocks'
     | '/'
     | '/history/$jobId'
+    | '/prompts/$promptId'
     | '/stocks/$stockId'
     | '/history'
+    | '/prompts'
+    | '/history/batch/$batchId'
+    | '/history/compare/$comparisonId'
+    | '/history/pipeline/$runId'
   id:
     | '__root__'
     | '/_authenticated'
     | '/login'
     | '/_authenticated/api-example'
     | '/_authenticated/history'
+    | '/_authenticated/pipelines'
     | '/_authenticated/prompts'
     | '/_authenticated/research'
     | '/_authenticated/schedules'
@@ -175,8 +245,13 @@ export interface FileRouteTypes {
     | '/_authenticated/stocks'
     | '/_authenticated/'
     | '/_authenticated/history/$jobId'
+    | '/_authenticated/prompts/$promptId'
     | '/_authenticated/stocks/$stockId'
     | '/_authenticated/history/'
+    | '/_authenticated/prompts/'
+    | '/_authenticated/history/batch/$batchId'
+    | '/_authenticated/history/compare/$comparisonId'
+    | '/_authenticated/history/pipeline/$runId'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -242,6 +317,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedPromptsRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/pipelines': {
+      id: '/_authenticated/pipelines'
+      path: '/pipelines'
+      fullPath: '/pipelines'
+      preLoaderRoute: typeof AuthenticatedPipelinesRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
     '/_authenticated/history': {
       id: '/_authenticated/history'
       path: '/history'
@@ -256,6 +338,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedApiExampleRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/prompts/': {
+      id: '/_authenticated/prompts/'
+      path: '/'
+      fullPath: '/prompts/'
+      preLoaderRoute: typeof AuthenticatedPromptsIndexRouteImport
+      parentRoute: typeof AuthenticatedPromptsRoute
+    }
     '/_authenticated/history/': {
       id: '/_authenticated/history/'
       path: '/'
@@ -270,6 +359,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedStocksStockIdRouteImport
       parentRoute: typeof AuthenticatedStocksRoute
     }
+    '/_authenticated/prompts/$promptId': {
+      id: '/_authenticated/prompts/$promptId'
+      path: '/$promptId'
+      fullPath: '/prompts/$promptId'
+      preLoaderRoute: typeof AuthenticatedPromptsPromptIdRouteImport
+      parentRoute: typeof AuthenticatedPromptsRoute
+    }
     '/_authenticated/history/$jobId': {
       id: '/_authenticated/history/$jobId'
       path: '/$jobId'
@@ -277,22 +373,64 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedHistoryJobIdRouteImport
       parentRoute: typeof AuthenticatedHistoryRoute
     }
+    '/_authenticated/history/pipeline/$runId': {
+      id: '/_authenticated/history/pipeline/$runId'
+      path: '/pipeline/$runId'
+      fullPath: '/history/pipeline/$runId'
+      preLoaderRoute: typeof AuthenticatedHistoryPipelineRunIdRouteImport
+      parentRoute: typeof AuthenticatedHistoryRoute
+    }
+    '/_authenticated/history/compare/$comparisonId': {
+      id: '/_authenticated/history/compare/$comparisonId'
+      path: '/compare/$comparisonId'
+      fullPath: '/history/compare/$comparisonId'
+      preLoaderRoute: typeof AuthenticatedHistoryCompareComparisonIdRouteImport
+      parentRoute: typeof AuthenticatedHistoryRoute
+    }
+    '/_authenticated/history/batch/$batchId': {
+      id: '/_authenticated/history/batch/$batchId'
+      path: '/batch/$batchId'
+      fullPath: '/history/batch/$batchId'
+      preLoaderRoute: typeof AuthenticatedHistoryBatchBatchIdRouteImport
+      parentRoute: typeof AuthenticatedHistoryRoute
+    }
   }
 }
 
 interface AuthenticatedHistoryRouteChildren {
   AuthenticatedHistoryJobIdRoute: typeof AuthenticatedHistoryJobIdRoute
   AuthenticatedHistoryIndexRoute: typeof AuthenticatedHistoryIndexRoute
+  AuthenticatedHistoryBatchBatchIdRoute: typeof AuthenticatedHistoryBatchBatchIdRoute
+  AuthenticatedHistoryCompareComparisonIdRoute: typeof AuthenticatedHistoryCompareComparisonIdRoute
+  AuthenticatedHistoryPipelineRunIdRoute: typeof AuthenticatedHistoryPipelineRunIdRoute
 }
 
 const AuthenticatedHistoryRouteChildren: AuthenticatedHistoryRouteChildren = {
   AuthenticatedHistoryJobIdRoute: AuthenticatedHistoryJobIdRoute,
   AuthenticatedHistoryIndexRoute: AuthenticatedHistoryIndexRoute,
+  AuthenticatedHistoryBatchBatchIdRoute: AuthenticatedHistoryBatchBatchIdRoute,
+  AuthenticatedHistoryCompareComparisonIdRoute:
+    AuthenticatedHistoryCompareComparisonIdRoute,
+  AuthenticatedHistoryPipelineRunIdRoute:
+    AuthenticatedHistoryPipelineRunIdRoute,
 }
 
 const AuthenticatedHistoryRouteWithChildren =
   AuthenticatedHistoryRoute._addFileChildren(AuthenticatedHistoryRouteChildren)
 
+interface AuthenticatedPromptsRouteChildren {
+  AuthenticatedPromptsPromptIdRoute: typeof AuthenticatedPromptsPromptIdRoute
+  AuthenticatedPromptsIndexRoute: typeof AuthenticatedPromptsIndexRoute
+}
+
+const AuthenticatedPromptsRouteChildren: AuthenticatedPromptsRouteChildren = {
+  AuthenticatedPromptsPromptIdRoute: AuthenticatedPromptsPromptIdRoute,
+  AuthenticatedPromptsIndexRoute: AuthenticatedPromptsIndexRoute,
+}
+
+const AuthenticatedPromptsRouteWithChildren =
+  AuthenticatedPromptsRoute._addFileChildren(AuthenticatedPromptsRouteChildren)
+
 interface AuthenticatedStocksRouteChildren {
   AuthenticatedStocksStockIdRoute: typeof AuthenticatedStocksStockIdRoute
 }
@@ -307,7 +445,8 @@ const AuthenticatedStocksRouteWithChildren =
 interface AuthenticatedRouteChildren {
   AuthenticatedApiExampleRoute: typeof AuthenticatedApiExampleRoute
   AuthenticatedHistoryRoute: typeof AuthenticatedHistoryRouteWithChildren
-  AuthenticatedPromptsRoute: typeof AuthenticatedPromptsRoute
+  AuthenticatedPipelinesRoute: typeof AuthenticatedPipelinesRoute
+  AuthenticatedPromptsRoute: typeof AuthenticatedPromptsRouteWithChildren
   AuthenticatedResearchRoute: typeof AuthenticatedResearchRoute
   AuthenticatedSchedulesRoute: typeof AuthenticatedSchedulesRoute
   AuthenticatedSettingsRoute: typeof AuthenticatedSettingsRoute
@@ -318,7 +457,8 @@ interface AuthenticatedRouteChildren {
 const AuthenticatedRouteChildren: AuthenticatedRouteChildren = {
   AuthenticatedApiExampleRoute: AuthenticatedApiExampleRoute,
   AuthenticatedHistoryRoute: AuthenticatedHistoryRouteWithChildren,
-  AuthenticatedPromptsRoute: AuthenticatedPromptsRoute,
+  AuthenticatedPipelinesRoute: AuthenticatedPipelinesRoute,
+  AuthenticatedPromptsRoute: AuthenticatedPromptsRouteWithChildren,
   AuthenticatedResearchRoute: AuthenticatedResearchRoute,
   AuthenticatedSchedulesRoute: AuthenticatedSchedulesRoute,
   AuthenticatedSettingsRoute: AuthenticatedSettingsRoute,
@@ -1,11 +1,26 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
-import { useResearchJob, useDeleteJob } from "@/hooks/use-research";
+import {
+  useDeleteJob,
+  useJobAttempts,
+  useResearchJob,
+  useResearchSources,
+} from "@/hooks/use-research";
 import { useToggleFavorite } from "@/hooks/use-research-history";
+import { useFullResult } from "@/hooks/use-full-result";
+import { useJobFindings } from "@/hooks/use-findings";
+import { usePromptVersion } from "@/hooks/use-prompt-versions";
+import { downloadMarkdown } from "@/lib/markdown-export";
+import { formatParameterLabel } from "@/lib/prompt-parameters";
 import { PageHeader } from "@/components/page-header";
 import { EmptyState } from "@/components/empty-state";
 import { PageSkeleton } from "@/components/loading-skeleton";
 import { MarkdownRenderer } from "@/components/markdown-renderer";
+import { SourcesPanel } from "@/components/sources-panel";
+import { AttemptHistory } from "@/components/attempt-history";
+import { FollowUpThread } from "@/components/follow-up-thread";
+import { FindingsCard } from "@/components/findings-card";
+import { ReportChanges } from "@/components/report-changes";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -28,8 +43,16 @@ import {
   FlaskConical,
   BarChart3,
   Trash2,
+  Download,
+  Loader2,
+  ArrowDownToLine,
+  ArrowUpFromLine,
+  Brain,
+  Globe,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getProviderLabel } from "@/lib/providers";
+import { formatTokenCount } from "@/lib/token-usage";
 import type { GenericId } from "convex/values";
 
 export const Route = createFileRoute("/_authenticated/history/$jobId")({
@@ -42,17 +65,50 @@ const statusConfig: Record<
 > = {
   completed: { variant: "secondary", label: "Completed" },
   failed: { variant: "destructive", label: "Failed" },
+  cancelled: { variant: "outline", label: "Cancelled" },
   running: { variant: "outline", label: "Running" },
   pending: { variant: "outline", label: "Pending" },
+  queued: { variant: "outline", label: "Queued" },
 };
 
 function ResultDetailPage() {
   const { jobId } = Route.useParams();
   const navigate = useNavigate();
   const job = useResearchJob(jobId as GenericId<"researchJobs">);
+  const sources = useResearchSources(jobId as GenericId<"researchJobs">);
+  const attempts = useJobAttempts(jobId as GenericId<"researchJobs">);
+  const findings = useJobFindings(jobId as GenericId<"researchJobs">);
+  const promptVersion = usePromptVersion(job?.promptVersionId);
   const toggleFavorite = useToggleFavorite();
   const deleteJob = useDeleteJob();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const fullResult = useFullResult(job);
+  const [exporting, setExporting] = useState(false);
+  const [resultError, setResultError] = useState<string | null>(null);
+
+  async function loadFullResult() {
+    setResultError(null);
+    try {
+      await fullResult.load();
+    } catch (err) {
+      setResultError(err instanceof Error ? err.message : "Failed to load the full result");
+    }
+  }
+
+  // Always exports the complete text, fetching it from storage if needed
+  async function handleExport() {
+    if (!job) return;
+    setExporting(true);
+    setResultError(null);
+    try {
+      const text = await fullResult.load();
+      downloadMarkdown(text, `research-${new Date(job.createdAt).toISOString().slice(0, 10)}-${job._id}`);
+    } catch (err) {
+      setResultError(err instanceof Error ? err.message : "Failed to export the result");
+    } finally {
+      setExporting(false);
+    }
+  }
 
   async function confirmDelete() {
     try {
@@ -161,7 +217,22 @@ function ResultDetailPage() {
               />
               {job.isFavorited ? "Favorited" : "Favorite"}
             </Button>
-            {job.status !== "pending" && job.status !== "running" && (
+            {job.result && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExport}
+                disabled={exporting}
+              >
+                {exporting ? (
+                  <Loader2 className="size-4 animate-spin" />
+                ) : (
+                  <Download className="size-4" />
+                )}
+                Export
+              </Button>
+            )}
+            {job.status !== "queued" && job.status !== "pending" && job.status !== "running" && (
               <Button
                 variant="outline"
                 size="sm"
@@ -200,10 +271,53 @@ function ResultDetailPage() {
           <MetadataCard
             icon={Cpu}
             label="Provider"
-            value={job.provider.toUpperCase()}
+            value={
+              job.model
+                ? `${getProviderLabel(job.provider)} · ${job.model}`
+                : getProviderLabel(job.provider)
+            }
           />
         </div>
 
+        {/* Token usage of the run that produced the result */}
+        {job.usage && (
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+            <MetadataCard
+              icon={ArrowDownToLine}
+              label="Input tokens"
+              value={formatTokenCount(job.usage.inputTokens)}
+              detail={joinDetails(
+                job.usage.cachedInputTokens
+                  ? `${formatTokenCount(job.usage.cachedInputTokens)} cached`
+                  : null,
+                job.costBreakdown
+                  ? formatUsd(job.costBreakdown.inputUsd + job.costBreakdown.cachedInputUsd)
+                  : null,
+              )}
+            />
+            <MetadataCard
+              icon={ArrowUpFromLine}
+              label="Output tokens"
+              value={formatTokenCount(
+                Math.max(0, job.usage.outputTokens - (job.usage.reasoningTokens ?? 0)),
+              )}
+              detail={job.costBreakdown ? formatUsd(job.costBreakdown.outputUsd) : undefined}
+            />
+            <MetadataCard
+              icon={Brain}
+              label="Reasoning tokens"
+              value={formatTokenCount(job.usage.reasoningTokens ?? 0)}
+              detail={job.costBreakdown ? formatUsd(job.costBreakdown.reasoningUsd) : undefined}
+            />
+            <MetadataCard
+              icon={Globe}
+              label="Web searches"
+              value={job.usage.webSearchRequests ?? 0}
+              detail={job.costBreakdown ? formatUsd(job.costBreakdown.webSearchUsd) : undefined}
+            />
+          </div>
+        )}
+
         {/* Timing details */}
         <Card>
           <CardHeader>
@@ -232,6 +346,62 @@ function ResultDetailPage() {
                 <dt className="text-muted-foreground">Attempts</dt>
                 <dd>{job.attempts}</dd>
               </div>
+              {job.parentJobId && (
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Follow-up to</dt>
+                  <dd>
+                    <Link
+                      to="/history/$jobId"
+                      params={{ jobId: job.parentJobId }}
+                      className="font-medium text-primary hover:underline"
+                    >
+                      View original report
+                    </Link>
+                  </dd>
+                </div>
+              )}
+              {job.batchId && (
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Batch</dt>
+                  <dd>
+                    <Link
+                      to="/history/batch/$batchId"
+                      params={{ batchId: job.batchId }}
+                      className="font-medium text-primary hover:underline"
+                    >
+                      View batch
+                    </Link>
+                  </dd>
+                </div>
+              )}
+              {job.comparisonId && (
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">A/B run</dt>
+                  <dd>
+                    <Link
+                      to="/history/compare/$comparisonId"
+                      params={{ comparisonId: job.comparisonId }}
+                      className="font-medium text-primary hover:underline"
+                    >
+                      View comparison
+                    </Link>
+                  </dd>
+                </div>
+              )}
+              {job.pipelineRunId && (
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Pipeline</dt>
+                  <dd>
+                    <Link
+                      to="/history/pipeline/$runId"
+                      params={{ runId: job.pipelineRunId }}
+                      className="font-medium text-primary hover:underline"
+                    >
+                      Step {(job.pipelineStep ?? 0) + 1} · View run
+                    </Link>
+                  </dd>
+                </div>
+              )}
             </dl>
           </CardContent>
         </Card>
@@ -251,6 +421,23 @@ function ResultDetailPage() {
           </Card>
         )}
 
+        {/* Attempt history, when the job was retried, failed or could not be cancelled */}
+        {attempts &&
+          attempts.length > 0 &&
+          (attempts.length > 1 || job.status === "failed" || attempts.some((a) => a.cancelError)) && (
+            <AttemptHistory attempts={attempts} />
+          )}
+
+        {/* Structured values extracted from the report */}
+        {findings && (findings.length > 0 || job.findingsError) && (
+          <FindingsCard findings={findings} promptId={job.promptId} error={job.findingsError} />
+        )}
+
+        {/* Changes since the previous run of the same prompt on the same stocks */}
+        {!job.parentJobId && job.status === "completed" && (
+          <ReportChanges job={job} currentResult={fullResult} />
+        )}
+
         {/* Research result content */}
         {job.result && (
           <Card>
@@ -260,19 +447,87 @@ function ResultDetailPage() {
                 Research Output
               </CardTitle>
             </CardHeader>
-            <CardContent>
-              <MarkdownRenderer content={job.result} />
+            <CardContent className="flex flex-col gap-4">
+              {job.executiveSummary && (
+                <div className="flex flex-col gap-1.5 rounded-lg border bg-muted/50 px-3 py-2 text-sm">
+                  <p className="font-medium">{job.executiveSummary.tldr}</p>
+                  {job.executiveSummary.bullets.length > 0 && (
+                    <ul className="ml-5 list-disc space-y-0.5 text-muted-foreground">
+                      {job.executiveSummary.bullets.map((bullet) => (
+                        <li key={bullet}>{bullet}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              {!job.executiveSummary && job.executiveSummaryError && (
+                <p className="text-sm text-destructive">
+                  Summary could not be written: {job.executiveSummaryError}
+                </p>
+              )}
+              {fullResult.isStored && fullResult.text === null && (
+                <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+                  <span>
+                    Showing a preview ({job.result.length.toLocaleString()} of{" "}
+                    {(job.resultLength ?? job.result.length).toLocaleString()} characters)
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={loadFullResult}
+                    disabled={fullResult.loading}
+                  >
+                    {fullResult.loading ? (
+                      <>
+                        <Loader2 className="size-4 animate-spin" />
+                        Loading {Math.round(fullResult.progress * 100)}%
+                      </>
+                    ) : (
+                      "Load full report"
+                    )}
+                  </Button>
+                </div>
+              )}
+              {resultError && <p className="text-sm text-destructive">{resultError}</p>}
+              {/* Citation offsets refer to the full text, so footnotes wait for it */}
+              <MarkdownRenderer
+                content={fullResult.text ?? job.result}
+                sources={fullResult.text !== null ? sources : undefined}
+              />
             </CardContent>
           </Card>
         )}
 
+        {/* Follow-up thread, asked on the original job only */}
+        {!job.parentJobId && job.status === "completed" && <FollowUpThread job={job} />}
+
+        {/* Cited sources */}
+        {sources && sources.length > 0 && <SourcesPanel sources={sources} />}
+
         {/* Prompt snapshot */}
         {job.promptSnapshot && (
           <Card>
             <CardHeader>
-              <CardTitle className="text-base">Prompt Used</CardTitle>
+              <CardTitle className="text-base">
+                {job.parentJobId ? "Follow-up Question" : "Prompt Used"}
+                {promptVersion && (
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    Version {promptVersion.version}
+                  </span>
+                )}
+              </CardTitle>
             </CardHeader>
-            <CardContent>
+            <CardContent className="flex flex-col gap-3">
+              {job.parameterValues && Object.keys(job.parameterValues).length > 0 && (
+                <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                  {Object.entries(job.parameterValues).map(([name, value]) => (
+                    <Fragment key={name}>
+                      <dt className="text-muted-foreground">{formatParameterLabel(name)}</dt>
+                      <dd className="font-medium break-words">{value}</dd>
+                    </Fragment>
+                  ))}
+                </dl>
+              )}
               <pre className="bg-muted overflow-x-auto rounded-lg p-4 text-xs whitespace-pre-wrap">
                 {job.promptSnapshot}
               </pre>
@@ -291,7 +546,7 @@ function ResultDetailPage() {
             <DialogTitle>Delete Research Job</DialogTitle>
             <DialogDescription>
               Are you sure you want to delete this research job? This will also
-              remove all associated cost logs. This action cannot be undone.
+              remove all associated cost logs, sources and attempt history. This action cannot be undone.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -308,14 +563,25 @@ function ResultDetailPage() {
   );
 }
 
+function formatUsd(amount: number): string {
+  return amount > 0 && amount < 0.01 ? "<$0.01" : `$${amount.toFixed(2)}`;
+}
+
+function joinDetails(...parts: (string | null)[]): string | undefined {
+  return parts.filter(Boolean).join(" · ") || undefined;
+}
+
 function MetadataCard({
   icon: Icon,
   label,
   value,
+  detail,
 }: {
   icon: React.ComponentType<{ className?: string }>;
   label: string;
   value: React.ReactNode;
+  /** Secondary line under the value, e.g. the cost of a token count */
+  detail?: string;
 }) {
   return (
     <div className="flex flex-col gap-1 rounded-lg border p-3">
@@ -326,6 +592,9 @@ function MetadataCard({
       <div className="text-sm font-medium">
         {value}
       </div>
+      {detail && (
+        <div className="text-xs tabular-nums text-muted-foreground">{detail}</div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,213 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useResearchBatch } from "@/hooks/use-research";
+import { usePrompts } from "@/hooks/use-prompts";
+import { useStocks } from "@/hooks/use-stocks";
+import { PageHeader } from "@/components/page-header";
+import { EmptyState } from "@/components/empty-state";
+import { PageSkeleton } from "@/components/loading-skeleton";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ArrowLeft,
+  BarChart3,
+  ChevronRight,
+  DollarSign,
+  Layers,
+  ListChecks,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getProviderLabel } from "@/lib/providers";
+import type { GenericId } from "convex/values";
+
+export const Route = createFileRoute("/_authenticated/history/batch/$batchId")({
+  component: BatchDetailPage,
+});
+
+const batchStatusConfig: Record<
+  string,
+  { variant: "default" | "secondary" | "destructive" | "outline"; label: string }
+> = {
+  running: { variant: "outline", label: "Running" },
+  completed: { variant: "secondary", label: "Completed" },
+  partial: { variant: "outline", label: "Partially completed" },
+  failed: { variant: "destructive", label: "Failed" },
+  cancelled: { variant: "outline", label: "Cancelled" },
+};
+
+const jobStatusConfig: Record<
+  string,
+  { variant: "default" | "secondary" | "destructive" | "outline"; label: string }
+> = {
+  completed: { variant: "secondary", label: "Completed" },
+  failed: { variant: "destructive", label: "Failed" },
+  cancelled: { variant: "outline", label: "Cancelled" },
+  running: { variant: "outline", label: "Running" },
+  pending: { variant: "outline", label: "Pending" },
+  queued: { variant: "outline", label: "Queued" },
+};
+
+function BatchDetailPage() {
+  const { batchId } = Route.useParams();
+  const data = useResearchBatch(batchId as GenericId<"researchBatches">);
+  const prompts = usePrompts();
+  const stocks = useStocks();
+
+  if (data === undefined) {
+    return <PageSkeleton />;
+  }
+
+  if (data === null) {
+    return (
+      <div className="flex flex-col gap-4">
+        <div className="px-4 pt-4 md:px-6">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/history">
+              <ArrowLeft className="size-4" />
+              Back to History
+            </Link>
+          </Button>
+        </div>
+        <EmptyState
+          icon={Layers}
+          title="Batch not found"
+          description="This batch may have been deleted."
+        />
+      </div>
+    );
+  }
+
+  const { batch, jobs, summary } = data;
+  const config = batchStatusConfig[batch.status] ?? batchStatusConfig.running;
+  const promptName = prompts?.find((p) => p._id === batch.promptId)?.name;
+  const tickerById = new Map(stocks?.map((s) => [s._id, s.ticker]) ?? []);
+
+  const createdLabel = new Date(batch.createdAt).toLocaleString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="px-4 pt-4 md:px-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/history">
+            <ArrowLeft className="size-4" />
+            Back to History
+          </Link>
+        </Button>
+      </div>
+
+      <PageHeader
+        title={promptName ? `Batch: ${promptName}` : "Research Batch"}
+        description={`${createdLabel} · ${
+          batch.model
+            ? `${getProviderLabel(batch.provider)} · ${batch.model}`
+            : getProviderLabel(batch.provider)
+        }`}
+      />
+
+      <div className="flex flex-col gap-4 px-4 pb-4 md:px-6">
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-3">
+          <SummaryTile
+            icon={BarChart3}
+            label="Status"
+            value={
+              <Badge variant={config.variant} className="text-xs">
+                {config.label}
+              </Badge>
+            }
+          />
+          <SummaryTile
+            icon={ListChecks}
+            label="Progress"
+            value={`${summary.total - summary.active}/${summary.total} finished`}
+          />
+          <SummaryTile
+            icon={DollarSign}
+            label="Cost"
+            value={`$${summary.costUsd.toFixed(2)}`}
+          />
+        </div>
+
+        <div className="flex flex-col gap-1.5">
+          <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+            <div
+              className={cn(
+                "h-full rounded-full transition-all",
+                summary.failed > 0 ? "bg-amber-500" : "bg-primary",
+              )}
+              style={{ width: `${summary.progress * 100}%` }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {summary.completed} completed, {summary.failed} failed,{" "}
+            {summary.cancelled} cancelled, {summary.active} in progress
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Layers className="size-4" />
+              Jobs
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-1.5">
+            {jobs.map((job) => {
+              const jobConfig = jobStatusConfig[job.status] ?? jobStatusConfig.pending;
+              const ticker = job.stockIds[0] ? tickerById.get(job.stockIds[0]) : undefined;
+              return (
+                <Link
+                  key={job._id}
+                  to="/history/$jobId"
+                  params={{ jobId: job._id }}
+                  className="flex items-center gap-3 rounded-lg border px-3 py-2 transition-colors hover:bg-accent"
+                >
+                  <span className="w-20 shrink-0 text-sm font-semibold">
+                    {ticker ?? "—"}
+                  </span>
+                  <Badge variant={jobConfig.variant} className="text-[10px] px-1.5 py-0">
+                    {jobConfig.label}
+                  </Badge>
+                  <span className="min-w-0 flex-1 truncate text-xs text-muted-foreground">
+                    {job.error ?? ""}
+                  </span>
+                  {job.costUsd != null && (
+                    <span className="text-xs tabular-nums text-muted-foreground">
+                      ${job.costUsd.toFixed(2)}
+                    </span>
+                  )}
+                  <ChevronRight className="size-4 shrink-0 text-muted-foreground" />
+                </Link>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function SummaryTile({
+  icon: Icon,
+  label,
+  value,
+}: {
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  value: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-1 rounded-lg border p-3">
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <Icon className="size-3.5" />
+        {label}
+      </div>
+      <div className="text-sm font-medium">{value}</div>
+    </div>
+  );
+}
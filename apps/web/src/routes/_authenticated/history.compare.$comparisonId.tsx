@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useComparison, useVoteComparison } from "@/hooks/use-comparisons";
+import { useFullResult } from "@/hooks/use-full-result";
+import { usePromptVersion } from "@/hooks/use-prompt-versions";
+import { usePrompts } from "@/hooks/use-prompts";
+import { useStocks } from "@/hooks/use-stocks";
+import { PageHeader } from "@/components/page-header";
+import { EmptyState } from "@/components/empty-state";
+import { PageSkeleton } from "@/components/loading-skeleton";
+import { MarkdownRenderer } from "@/components/markdown-renderer";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Columns2, ExternalLink, Loader2, Trophy } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getProviderLabel } from "@/lib/providers";
+import type { Doc } from "@repo/convex/dataModel";
+import type { GenericId } from "convex/values";
+
+export const Route = createFileRoute("/_authenticated/history/compare/$comparisonId")({
+  component: ComparisonPage,
+});
+
+type BadgeVariant = "default" | "secondary" | "destructive" | "outline";
+type Side = "a" | "b";
+type Winner = NonNullable<Doc<"comparisons">["winner"]>;
+
+const kindLabels: Record<Doc<"comparisons">["kind"], string> = {
+  prompts: "Two prompts",
+  versions: "Two prompt versions",
+  models: "Two models",
+};
+
+const jobStatusConfig: Record<Doc<"researchJobs">["status"], { variant: BadgeVariant; label: string }> = {
+  completed: { variant: "secondary", label: "Completed" },
+  failed: { variant: "destructive", label: "Failed" },
+  cancelled: { variant: "outline", label: "Cancelled" },
+  running: { variant: "outline", label: "Running" },
+  pending: { variant: "outline", label: "Pending" },
+  queued: { variant: "outline", label: "Queued" },
+};
+
+const voteOptions: { winner: Winner; label: string }[] = [
+  { winner: "a", label: "A is better" },
+  { winner: "tie", label: "Tie" },
+  { winner: "b", label: "B is better" },
+];
+
+function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return "—";
+  return ms >= 60_000
+    ? `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`
+    : `${Math.round(ms / 1000)}s`;
+}
+
+function formatCost(costUsd: number | undefined): string {
+  return costUsd === undefined ? "—" : `$${costUsd.toFixed(2)}`;
+}
+
+function isFinished(job: Doc<"researchJobs">): boolean {
+  return (
+    job.status === "completed" ||
+    job.status === "cancelled" ||
+    (job.status === "failed" && !job.awaitingRetry)
+  );
+}
+
+function ComparisonPage() {
+  const { comparisonId } = Route.useParams();
+  const data = useComparison(comparisonId as GenericId<"comparisons">);
+  const stocks = useStocks();
+  const vote = useVoteComparison();
+  const [voting, setVoting] = useState(false);
+  const [voteError, setVoteError] = useState<string | null>(null);
+
+  async function handleVote(winner: Winner) {
+    setVoteError(null);
+    setVoting(true);
+    try {
+      await vote({ id: comparisonId as GenericId<"comparisons">, winner });
+    } catch (err) {
+      setVoteError(err instanceof Error ? err.message : "Failed to record the vote");
+    } finally {
+      setVoting(false);
+    }
+  }
+
+  if (data === undefined) {
+    return <PageSkeleton />;
+  }
+
+  if (data === null) {
+    return (
+      <div className="flex flex-col gap-4">
+        <div className="px-4 pt-4 md:px-6">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/history">
+              <ArrowLeft className="size-4" />
+              Back to History
+            </Link>
+          </Button>
+        </div>
+        <EmptyState
+          icon={Columns2}
+          title="Comparison not found"
+          description="This comparison may have been deleted."
+        />
+      </div>
+    );
+  }
+
+  const { comparison, jobA, jobB } = data;
+  const jobs = { a: jobA, b: jobB };
+  const canVote = [jobA, jobB].every((job) => job === null || isFinished(job));
+  const tickerById = new Map(stocks?.map((s) => [s._id, s.ticker]) ?? []);
+  const tickers = comparison.stockIds.map((id) => tickerById.get(id) ?? "—").join(", ");
+
+  const createdLabel = new Date(comparison.createdAt).toLocaleString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="px-4 pt-4 md:px-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/history">
+            <ArrowLeft className="size-4" />
+            Back to History
+          </Link>
+        </Button>
+      </div>
+
+      <PageHeader
+        title={`A/B run: ${kindLabels[comparison.kind].toLowerCase()}`}
+        description={`${createdLabel}${tickers ? ` · ${tickers}` : ""}`}
+      />
+
+      <div className="flex flex-col gap-4 px-4 pb-4 md:px-6">
+        {/* Which run was better */}
+        <Card>
+          <CardContent className="flex flex-col gap-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-sm">
+                <Trophy className="size-4 text-muted-foreground" />
+                {comparison.winner === undefined ? (
+                  <span className="text-muted-foreground">
+                    {canVote
+                      ? "Read both reports, then record which one was better."
+                      : "Voting opens once both runs have finished."}
+                  </span>
+                ) : (
+                  <span className="font-medium">
+                    {comparison.winner === "tie"
+                      ? "Recorded as a tie"
+                      : `Run ${comparison.winner.toUpperCase()} won`}
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {voteOptions.map((option) => (
+                  <Button
+                    key={option.winner}
+                    variant={comparison.winner === option.winner ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleVote(option.winner)}
+                    disabled={!canVote || voting}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {voteError && <p className="text-sm text-destructive">{voteError}</p>}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {(["a", "b"] as const).map((side) => (
+            <RunColumn
+              key={side}
+              side={side}
+              run={comparison[side]}
+              job={jobs[side]}
+              isWinner={comparison.winner === side}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function RunColumn({
+  side,
+  run,
+  job,
+  isWinner,
+}: {
+  side: Side;
+  run: Doc<"comparisons">["a"];
+  job: Doc<"researchJobs"> | null;
+  isWinner: boolean;
+}) {
+  const prompts = usePrompts();
+  const version = usePromptVersion(run.promptVersionId);
+  const fullResult = useFullResult(job);
+  const [resultError, setResultError] = useState<string | null>(null);
+  const promptName = prompts?.find((p) => p._id === run.promptId)?.name ?? "Deleted prompt";
+  const config = job ? jobStatusConfig[job.status] : null;
+
+  async function loadFullResult() {
+    setResultError(null);
+    try {
+      await fullResult.load();
+    } catch (err) {
+      setResultError(err instanceof Error ? err.message : "Failed to load the full result");
+    }
+  }
+
+  return (
+    <Card className={cn("min-w-0", isWinner && "border-green-600 dark:border-green-400")}>
+      <CardHeader className="flex flex-col gap-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          Run {side.toUpperCase()}
+          {isWinner && (
+            <Badge
+              variant="outline"
+              className="text-[10px] px-1.5 py-0 text-green-600 dark:text-green-400"
+            >
+              Winner
+            </Badge>
+          )}
+          {config && (
+            <Badge variant={config.variant} className="ml-auto text-xs">
+              {config.label}
+            </Badge>
+          )}
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {promptName}
+          {version ? ` · v${version.version}` : ""} · {getProviderLabel(run.provider)} · {run.model}
+        </p>
+        <dl className="grid grid-cols-2 gap-2 text-sm">
+          <div className="flex flex-col gap-0.5 rounded-lg border px-3 py-2">
+            <dt className="text-xs text-muted-foreground">Cost</dt>
+            <dd className="font-medium tabular-nums">{formatCost(job?.costUsd)}</dd>
+          </div>
+          <div className="flex flex-col gap-0.5 rounded-lg border px-3 py-2">
+            <dt className="text-xs text-muted-foreground">Duration</dt>
+            <dd className="font-medium tabular-nums">{formatDuration(job?.durationMs)}</dd>
+          </div>
+        </dl>
+        {job && (
+          <Link
+            to="/history/$jobId"
+            params={{ jobId: job._id }}
+            className="inline-flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+          >
+            <ExternalLink className="size-3" />
+            Open report
+          </Link>
+        )}
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {job === null ? (
+          <p className="text-sm text-muted-foreground">This run has been deleted.</p>
+        ) : job.result ? (
+          <>
+            {fullResult.isStored && fullResult.text === null && (
+              <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+                <span>
+                  Showing a preview ({job.result.length.toLocaleString()} of{" "}
+                  {(job.resultLength ?? job.result.length).toLocaleString()} characters)
+                </span>
+                <Button variant="outline" size="sm" onClick={loadFullResult} disabled={fullResult.loading}>
+                  {fullResult.loading ? (
+                    <>
+                      <Loader2 className="size-4 animate-spin" />
+                      Loading {Math.round(fullResult.progress * 100)}%
+                    </>
+                  ) : (
+                    "Load full report"
+                  )}
+                </Button>
+              </div>
+            )}
+            {resultError && <p className="text-sm text-destructive">{resultError}</p>}
+            <MarkdownRenderer content={fullResult.text ?? job.result} />
+          </>
+        ) : job.error ? (
+          <p className="text-sm whitespace-pre-wrap text-destructive">{job.error}</p>
+        ) : (
+          <p className="text-sm text-muted-foreground">The report will appear here once the run completes.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -40,14 +40,16 @@ export const Route = createFileRoute("/_authenticated/history/")({
   component: HistoryPage,
 });
 
-type JobStatus = "pending" | "running" | "completed" | "failed";
+type JobStatus = "queued" | "pending" | "running" | "completed" | "failed" | "cancelled";
 
 const STATUS_OPTIONS: { value: JobStatus | undefined; label: string }[] = [
   { value: undefined, label: "All" },
   { value: "completed", label: "Completed" },
   { value: "failed", label: "Failed" },
+  { value: "cancelled", label: "Cancelled" },
   { value: "running", label: "Running" },
   { value: "pending", label: "Pending" },
+  { value: "queued", label: "Queued" },
 ];
 
 function HistoryPage() {
@@ -356,8 +358,10 @@ const statusConfig: Record<
 > = {
   completed: { variant: "secondary", label: "Completed" },
   failed: { variant: "destructive", label: "Failed" },
+  cancelled: { variant: "outline", label: "Cancelled" },
   running: { variant: "outline", label: "Running" },
   pending: { variant: "outline", label: "Pending" },
+  queued: { variant: "outline", label: "Queued" },
 };
 
 function ResultCard({
@@ -388,8 +392,10 @@ function ResultCard({
     ? `$${job.costUsd.toFixed(2)}`
     : undefined;
 
-  const snippet =
-    job.result
+  // The executive summary reads better than the first lines of the report
+  const snippet = job.executiveSummary
+    ? job.executiveSummary.tldr
+    : job.result
       ? job.result.replace(/[#*_`>[\]]/g, "").slice(0, 120) + (job.result.length > 120 ? "..." : "")
       : job.error
         ? job.error.slice(0, 100)
@@ -459,7 +465,7 @@ function ResultCard({
               )}
             />
           </button>
-          {job.status !== "pending" && job.status !== "running" && (
+          {job.status !== "queued" && job.status !== "pending" && job.status !== "running" && (
             <button
               type="button"
               onClick={(e) => {
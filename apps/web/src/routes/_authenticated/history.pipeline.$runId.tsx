@@ -0,0 +1,224 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { usePipelineRun } from "@/hooks/use-pipelines";
+import { useStocks } from "@/hooks/use-stocks";
+import { PageHeader } from "@/components/page-header";
+import { EmptyState } from "@/components/empty-state";
+import { PageSkeleton } from "@/components/loading-skeleton";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ArrowLeft,
+  BarChart3,
+  ChevronRight,
+  DollarSign,
+  ListChecks,
+  Workflow,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getProviderLabel } from "@/lib/providers";
+import type { Doc } from "@repo/convex/dataModel";
+import type { GenericId } from "convex/values";
+
+export const Route = createFileRoute("/_authenticated/history/pipeline/$runId")({
+  component: PipelineRunPage,
+});
+
+type BadgeVariant = "default" | "secondary" | "destructive" | "outline";
+
+const runStatusConfig: Record<Doc<"pipelineRuns">["status"], { variant: BadgeVariant; label: string }> = {
+  running: { variant: "outline", label: "Running" },
+  completed: { variant: "secondary", label: "Completed" },
+  failed: { variant: "destructive", label: "Failed" },
+  cancelled: { variant: "outline", label: "Cancelled" },
+};
+
+const stepStatusConfig: Record<
+  Doc<"pipelineRuns">["steps"][number]["status"],
+  { variant: BadgeVariant; label: string }
+> = {
+  waiting: { variant: "outline", label: "Waiting" },
+  queued: { variant: "outline", label: "Queued" },
+  running: { variant: "outline", label: "Running" },
+  completed: { variant: "secondary", label: "Completed" },
+  failed: { variant: "destructive", label: "Failed" },
+  cancelled: { variant: "outline", label: "Cancelled" },
+};
+
+function PipelineRunPage() {
+  const { runId } = Route.useParams();
+  const run = usePipelineRun(runId as GenericId<"pipelineRuns">);
+  const stocks = useStocks();
+
+  if (run === undefined) {
+    return <PageSkeleton />;
+  }
+
+  if (run === null) {
+    return (
+      <div className="flex flex-col gap-4">
+        <div className="px-4 pt-4 md:px-6">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/pipelines">
+              <ArrowLeft className="size-4" />
+              Back to Pipelines
+            </Link>
+          </Button>
+        </div>
+        <EmptyState
+          icon={Workflow}
+          title="Pipeline run not found"
+          description="This run may have been deleted."
+        />
+      </div>
+    );
+  }
+
+  const config = runStatusConfig[run.status];
+  const completed = run.steps.filter((step) => step.status === "completed").length;
+  // Steps are keyed by their 1-based number, which is fixed once the run starts
+  const numberedSteps = run.steps.map((step, index) => ({ step, number: index + 1 }));
+  const tickers = run.stockIds.flatMap((id) => {
+    const ticker = stocks?.find((s) => s._id === id)?.ticker;
+    return ticker ? [ticker] : [];
+  });
+
+  const createdLabel = new Date(run.createdAt).toLocaleString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="px-4 pt-4 md:px-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/pipelines">
+            <ArrowLeft className="size-4" />
+            Back to Pipelines
+          </Link>
+        </Button>
+      </div>
+
+      <PageHeader
+        title={`Pipeline: ${run.name}`}
+        description={tickers.length > 0 ? `${createdLabel} · ${tickers.join(", ")}` : createdLabel}
+      />
+
+      <div className="flex flex-col gap-4 px-4 pb-4 md:px-6">
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-3">
+          <SummaryTile
+            icon={BarChart3}
+            label="Status"
+            value={
+              <Badge variant={config.variant} className="text-xs">
+                {config.label}
+              </Badge>
+            }
+          />
+          <SummaryTile
+            icon={ListChecks}
+            label="Progress"
+            value={`${completed}/${run.steps.length} steps completed`}
+          />
+          <SummaryTile icon={DollarSign} label="Cost so far" value={`$${run.costUsd.toFixed(2)}`} />
+        </div>
+
+        <div className="flex flex-col gap-1.5">
+          <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+            <div
+              className={cn(
+                "h-full rounded-full transition-all",
+                run.status === "failed" ? "bg-destructive" : "bg-primary",
+              )}
+              style={{ width: `${(completed / run.steps.length) * 100}%` }}
+            />
+          </div>
+          {run.error && <p className="text-xs text-destructive">{run.error}</p>}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Workflow className="size-4" />
+              Steps
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-1.5">
+            {numberedSteps.map(({ step, number }) => {
+              const stepConfig = stepStatusConfig[step.status];
+              const content = (
+                <>
+                  <span
+                    className={cn(
+                      "flex size-6 shrink-0 items-center justify-center rounded-full border text-xs font-medium",
+                      number === run.currentStep + 1 && run.status === "running" && "border-primary text-primary",
+                    )}
+                  >
+                    {number}
+                  </span>
+                  <div className="flex min-w-0 flex-1 flex-col">
+                    <span className="truncate text-sm font-medium">{step.name}</span>
+                    <span className="truncate text-xs text-muted-foreground">
+                      {step.model
+                        ? `${getProviderLabel(step.provider)} · ${step.model}`
+                        : getProviderLabel(step.provider)}
+                    </span>
+                  </div>
+                  <Badge variant={stepConfig.variant} className="text-[10px] px-1.5 py-0">
+                    {stepConfig.label}
+                  </Badge>
+                  {step.costUsd != null && (
+                    <span className="text-xs tabular-nums text-muted-foreground">
+                      ${step.costUsd.toFixed(2)}
+                    </span>
+                  )}
+                </>
+              );
+              return step.jobId ? (
+                <Link
+                  key={number}
+                  to="/history/$jobId"
+                  params={{ jobId: step.jobId }}
+                  className="flex items-center gap-3 rounded-lg border px-3 py-2 transition-colors hover:bg-accent"
+                >
+                  {content}
+                  <ChevronRight className="size-4 shrink-0 text-muted-foreground" />
+                </Link>
+              ) : (
+                <div
+                  key={number}
+                  className="flex items-center gap-3 rounded-lg border border-dashed px-3 py-2 opacity-60"
+                >
+                  {content}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function SummaryTile({
+  icon: Icon,
+  label,
+  value,
+}: {
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  value: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-1 rounded-lg border p-3">
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <Icon className="size-3.5" />
+        {label}
+      </div>
+      <div className="text-sm font-medium">{value}</div>
+    </div>
+  );
+}
@@ -6,6 +6,12 @@ import {
   useActiveJobsCount,
   useQuickActions,
 } from "@/hooks/use-dashboard";
+import { useUsageBreakdown } from "@/hooks/use-costs";
+import {
+  USAGE_COMPONENTS,
+  USAGE_COMPONENT_COLORS,
+  formatTokenCount,
+} from "@/lib/token-usage";
 import { PageHeader } from "@/components/page-header";
 import { CardSkeleton } from "@/components/loading-skeleton";
 import { Badge } from "@/components/ui/badge";
@@ -28,6 +34,8 @@ import {
   Activity,
   CheckCircle2,
   XCircle,
+  Ban,
+  PieChart,
 } from "lucide-react";
 
 export const Route = createFileRoute("/_authenticated/")({
@@ -52,6 +60,7 @@ function DashboardPage() {
       <div className="flex flex-col gap-6 px-4 pb-4 md:px-6">
         <OverviewCards />
         <QuickActions />
+        <UsageBreakdownCard />
         <div className="grid gap-6 md:grid-cols-2">
           <RecentResearchCard />
           <UpcomingSchedulesCard />
@@ -96,6 +105,17 @@ function OverviewCards() {
             {monthlySpend.jobCount} research{" "}
             {monthlySpend.jobCount === 1 ? "run" : "runs"} this month
           </p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {monthlySpend.hardCap
+              ? `Hard cap $${monthlySpend.hardCap.capUsd.toFixed(2)} · ${
+                  monthlySpend.hardCap.mode === "defer"
+                    ? "defers new jobs to next month"
+                    : "blocks new jobs"
+                }`
+              : budget != null
+                ? "Alert only, no hard cap"
+                : "No budget limits"}
+          </p>
         </CardContent>
       </Card>
 
@@ -148,8 +168,8 @@ function OverviewCards() {
         </CardHeader>
         <CardContent>
           <p className="text-xs text-muted-foreground">
-            {activeJobs.running} running, {activeJobs.pending} pending (limit{" "}
-            {activeJobs.limit})
+            {activeJobs.running} running, {activeJobs.pending} pending,{" "}
+            {activeJobs.queued} queued (limit {activeJobs.limit})
           </p>
         </CardContent>
       </Card>
@@ -161,7 +181,7 @@ function OverviewCards() {
             <FlaskConical className="size-4 text-muted-foreground" />
           </div>
           <CardTitle className="text-2xl tabular-nums">
-            {activeJobs.limit - activeJobs.total}/{activeJobs.limit}
+            {Math.max(activeJobs.limit - activeJobs.total, 0)}/{activeJobs.limit}
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -176,13 +196,15 @@ function OverviewCards() {
                       : "bg-primary"
                 }`}
                 style={{
-                  width: `${(activeJobs.total / activeJobs.limit) * 100}%`,
+                  width: `${Math.min(activeJobs.total / activeJobs.limit, 1) * 100}%`,
                 }}
               />
             </div>
             <p className="text-xs text-muted-foreground">
               {activeJobs.total >= activeJobs.limit
-                ? "At capacity"
+                ? activeJobs.queued > 0
+                  ? `At capacity · ${activeJobs.queued} queued`
+                  : "At capacity"
                 : "Slots available"}
             </p>
           </div>
@@ -217,6 +239,104 @@ function QuickActions() {
   );
 }
 
+function startOfCurrentMonth(): number {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+}
+
+function UsageBreakdownCard() {
+  const usage = useUsageBreakdown({ from: startOfCurrentMonth() });
+
+  if (usage === undefined) {
+    return <CardSkeleton />;
+  }
+
+  const trackedCost = usage.totalCost;
+
+  return (
+    <Card className="py-4">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <PieChart className="size-4 text-muted-foreground" />
+          <CardTitle className="text-base">Where the Money Goes</CardTitle>
+        </div>
+        <CardDescription>
+          Token usage and cost this month, split by what the providers billed
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {usage.runCount === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No token usage recorded this month yet.
+          </p>
+        ) : (
+          <div className="flex flex-col gap-4">
+            <div className="flex h-2 w-full overflow-hidden rounded-full bg-muted">
+              {USAGE_COMPONENTS.map((component) => (
+                <div
+                  key={component.key}
+                  className={USAGE_COMPONENT_COLORS[component.key]}
+                  style={{
+                    width: `${trackedCost > 0 ? (usage.costs[component.key] / trackedCost) * 100 : 0}%`,
+                  }}
+                />
+              ))}
+            </div>
+
+            <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-5">
+              {USAGE_COMPONENTS.map((component) => (
+                <div key={component.key} className="flex flex-col gap-0.5">
+                  <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <span
+                      className={`size-2 rounded-full ${USAGE_COMPONENT_COLORS[component.key]}`}
+                    />
+                    {component.label}
+                  </div>
+                  <span className="text-sm font-medium tabular-nums">
+                    ${usage.costs[component.key].toFixed(2)}
+                  </span>
+                  <span className="text-xs tabular-nums text-muted-foreground">
+                    {formatTokenCount(component.units(usage.tokens))} {component.unitLabel}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-col divide-y rounded-lg border text-sm">
+              {usage.byModel.map((row) => (
+                <div
+                  key={`${row.provider}:${row.model ?? ""}`}
+                  className="flex flex-wrap items-center gap-x-3 gap-y-1 px-3 py-2"
+                >
+                  <span className="font-medium">{row.model ?? row.provider}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {row.runCount} {row.runCount === 1 ? "run" : "runs"}
+                  </span>
+                  <span className="ml-auto text-xs tabular-nums text-muted-foreground">
+                    {formatTokenCount(row.tokens.inputTokens)} in ·{" "}
+                    {formatTokenCount(row.tokens.outputTokens)} out ·{" "}
+                    {row.tokens.webSearchRequests} searches
+                  </span>
+                  <span className="w-16 text-right tabular-nums">
+                    ${row.totalCost.toFixed(2)}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {usage.untrackedCost > 0 && (
+              <p className="text-xs text-muted-foreground">
+                ${usage.untrackedCost.toFixed(2)} from runs logged before token usage was
+                tracked is not included.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function RecentResearchCard() {
   const recentResearch = useRecentResearch();
 
@@ -255,6 +375,8 @@ function RecentResearchCard() {
                 <div className="mt-0.5">
                   {job.status === "completed" ? (
                     <CheckCircle2 className="size-4 text-green-600 dark:text-green-400" />
+                  ) : job.status === "cancelled" ? (
+                    <Ban className="size-4 text-muted-foreground" />
                   ) : (
                     <XCircle className="size-4 text-destructive" />
                   )}
@@ -263,6 +385,11 @@ function RecentResearchCard() {
                   <span className="truncate text-sm font-medium">
                     {job.promptName}
                   </span>
+                  {job.tldr && (
+                    <p className="line-clamp-2 text-xs text-muted-foreground">
+                      {job.tldr}
+                    </p>
+                  )}
                   <div className="flex flex-wrap items-center gap-1.5">
                     {job.stockTickers.length > 0 ? (
                       job.stockTickers.slice(0, 3).map((ticker) => (
@@ -0,0 +1,372 @@
+import { useState } from "react";
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
+import {
+  usePipelines,
+  usePipelineRuns,
+  useDeletePipeline,
+  useStartPipelineRun,
+} from "@/hooks/use-pipelines";
+import { usePrompts } from "@/hooks/use-prompts";
+import { useStocks } from "@/hooks/use-stocks";
+import { PageHeader } from "@/components/page-header";
+import { EmptyState } from "@/components/empty-state";
+import { ListSkeleton } from "@/components/loading-skeleton";
+import { PipelineModal } from "@/components/pipeline-modal";
+import { BudgetCapNotice } from "@/components/budget-cap-notice";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { ChevronRight, Pencil, Play, Plus, Trash2, Workflow } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getProviderLabel } from "@/lib/providers";
+import type { Doc, Id } from "@repo/convex/dataModel";
+
+export const Route = createFileRoute("/_authenticated/pipelines")({
+  component: PipelinesPage,
+});
+
+const runStatusConfig: Record<
+  Doc<"pipelineRuns">["status"],
+  { variant: "default" | "secondary" | "destructive" | "outline"; label: string }
+> = {
+  running: { variant: "outline", label: "Running" },
+  completed: { variant: "secondary", label: "Completed" },
+  failed: { variant: "destructive", label: "Failed" },
+  cancelled: { variant: "outline", label: "Cancelled" },
+};
+
+function PipelinesPage() {
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingPipeline, setEditingPipeline] = useState<Doc<"pipelines"> | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Doc<"pipelines"> | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [runTarget, setRunTarget] = useState<Doc<"pipelines"> | null>(null);
+
+  const pipelines = usePipelines();
+  const runs = usePipelineRuns({ limit: 10 });
+  const prompts = usePrompts();
+  const deletePipeline = useDeletePipeline();
+
+  const promptNames = new Map(prompts?.map((p) => [p._id, p.name]) ?? []);
+
+  function openEdit(pipeline: Doc<"pipelines">) {
+    setEditingPipeline(pipeline);
+    setModalOpen(true);
+  }
+
+  function openAdd() {
+    setEditingPipeline(null);
+    setModalOpen(true);
+  }
+
+  async function confirmDelete() {
+    if (!deleteTarget) return;
+    try {
+      await deletePipeline({ id: deleteTarget._id });
+      setDeleteTarget(null);
+    } catch (err) {
+      setDeleteError(err instanceof Error ? err.message : "Failed to delete the pipeline");
+    }
+  }
+
+  const isLoading = pipelines === undefined;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <PageHeader
+        title="Pipelines"
+        description="Chain prompts into multi-step research, each step building on the last"
+        actions={
+          <Button size="sm" onClick={openAdd}>
+            <Plus className="size-4" />
+            New Pipeline
+          </Button>
+        }
+      />
+
+      {/* Pipeline list */}
+      <div className="px-4 md:px-6">
+        {isLoading ? (
+          <ListSkeleton count={3} />
+        ) : pipelines.length === 0 ? (
+          <EmptyState
+            icon={Workflow}
+            title="No pipelines yet"
+            description="Combine prompts into steps like deep research, then a bull/bear critique, then a one-page summary."
+            action={
+              <Button size="sm" onClick={openAdd}>
+                <Plus className="size-4" />
+                New Pipeline
+              </Button>
+            }
+          />
+        ) : (
+          <div className="flex flex-col gap-2">
+            {pipelines.map((pipeline) => (
+              <PipelineCard
+                key={pipeline._id}
+                pipeline={pipeline}
+                promptNames={promptNames}
+                onRun={() => setRunTarget(pipeline)}
+                onEdit={() => openEdit(pipeline)}
+                onDelete={() => {
+                  setDeleteError(null);
+                  setDeleteTarget(pipeline);
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Recent runs */}
+      {runs && runs.length > 0 && (
+        <div className="flex flex-col gap-2 px-4 pb-4 md:px-6">
+          <h2 className="text-sm font-medium text-muted-foreground">Recent Runs</h2>
+          <div className="flex flex-col gap-1.5">
+            {runs.map((run) => (
+              <PipelineRunRow key={run._id} run={run} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Create/Edit Modal */}
+      <PipelineModal
+        open={modalOpen}
+        onOpenChange={setModalOpen}
+        pipeline={editingPipeline}
+      />
+
+      <RunPipelineDialog pipeline={runTarget} onClose={() => setRunTarget(null)} />
+
+      {/* Delete Confirmation */}
+      <Dialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Pipeline</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete &quot;{deleteTarget?.name}&quot;?
+              Past runs stay in history. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          {deleteError && <p className="text-sm text-destructive">{deleteError}</p>}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={confirmDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function PipelineCard({
+  pipeline,
+  promptNames,
+  onRun,
+  onEdit,
+  onDelete,
+}: {
+  pipeline: Doc<"pipelines">;
+  promptNames: Map<Id<"prompts">, string>;
+  onRun: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  const numberedSteps = pipeline.steps.map((step, index) => ({ step, number: index + 1 }));
+  return (
+    <Card className="py-3">
+      <CardContent className="flex items-start gap-3">
+        <div className="flex min-w-0 flex-1 flex-col gap-1.5">
+          <span className="text-sm font-semibold">{pipeline.name}</span>
+          {pipeline.description && (
+            <span className="text-sm text-muted-foreground line-clamp-2">
+              {pipeline.description}
+            </span>
+          )}
+          <div className="flex flex-wrap items-center gap-1">
+            {numberedSteps.map(({ step, number }) => (
+              <div key={number} className="flex items-center gap-1">
+                {number > 1 && <ChevronRight className="size-3 text-muted-foreground" />}
+                <Badge
+                  variant="outline"
+                  className="text-[10px] px-1.5 py-0"
+                  title={`${promptNames.get(step.promptId) ?? "Deleted prompt"} · ${getProviderLabel(step.provider)}${step.model ? ` · ${step.model}` : ""}`}
+                >
+                  {number}. {step.name}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          <Button variant="ghost" size="icon-sm" onClick={onRun} title="Run pipeline">
+            <Play className="size-3.5" />
+            <span className="sr-only">Run</span>
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={onEdit} title="Edit pipeline">
+            <Pencil className="size-3.5" />
+            <span className="sr-only">Edit</span>
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={onDelete} title="Delete pipeline">
+            <Trash2 className="size-3.5 text-destructive" />
+            <span className="sr-only">Delete</span>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PipelineRunRow({ run }: { run: Doc<"pipelineRuns"> }) {
+  const config = runStatusConfig[run.status];
+  const finished = run.steps.filter((step) => step.status === "completed").length;
+
+  return (
+    <Link
+      to="/history/pipeline/$runId"
+      params={{ runId: run._id }}
+      className="flex items-center gap-3 rounded-lg border px-3 py-2 transition-colors hover:bg-accent"
+    >
+      <span className="min-w-0 flex-1 truncate text-sm font-medium">{run.name}</span>
+      <Badge variant={config.variant} className="text-[10px] px-1.5 py-0">
+        {config.label}
+      </Badge>
+      <span className="text-xs text-muted-foreground">
+        {finished}/{run.steps.length} steps
+      </span>
+      <span className="text-xs tabular-nums text-muted-foreground">${run.costUsd.toFixed(2)}</span>
+      <span className="hidden text-xs text-muted-foreground sm:inline">
+        {new Date(run.createdAt).toLocaleString()}
+      </span>
+      <ChevronRight className="size-4 shrink-0 text-muted-foreground" />
+    </Link>
+  );
+}
+
+function RunPipelineDialog({
+  pipeline,
+  onClose,
+}: {
+  pipeline: Doc<"pipelines"> | null;
+  onClose: () => void;
+}) {
+  const stocks = useStocks();
+  const startRun = useStartPipelineRun();
+  const navigate = useNavigate();
+  const [stockIds, setStockIds] = useState<Id<"stocks">[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [overrideBudgetCap, setOverrideBudgetCap] = useState(false);
+
+  function close() {
+    setStockIds([]);
+    setError(null);
+    setOverrideBudgetCap(false);
+    onClose();
+  }
+
+  function toggleStock(stockId: Id<"stocks">) {
+    setStockIds((prev) =>
+      prev.includes(stockId) ? prev.filter((id) => id !== stockId) : [...prev, stockId],
+    );
+  }
+
+  async function handleRun() {
+    if (!pipeline) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const runId = await startRun({ pipelineId: pipeline._id, stockIds, overrideBudgetCap });
+      close();
+      navigate({ to: "/history/pipeline/$runId", params: { runId } });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start the pipeline");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={!!pipeline} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Run &quot;{pipeline?.name}&quot;</DialogTitle>
+          <DialogDescription>
+            Every step covers the stocks you pick here. Leave them all unselected for
+            discovery prompts.
+          </DialogDescription>
+        </DialogHeader>
+
+        {stocks && stocks.length > 0 ? (
+          <div className="flex flex-col gap-1 max-h-64 overflow-y-auto rounded-md border p-2">
+            {stocks.map((stock) => {
+              const selected = stockIds.includes(stock._id);
+              return (
+                <button
+                  key={stock._id}
+                  type="button"
+                  onClick={() => toggleStock(stock._id)}
+                  className={cn(
+                    "flex items-center gap-2 rounded px-2 py-1 text-left text-sm transition-colors",
+                    selected ? "bg-primary/10 text-primary" : "hover:bg-accent",
+                  )}
+                >
+                  <span
+                    className={cn(
+                      "flex size-4 shrink-0 items-center justify-center rounded border text-[10px]",
+                      selected ? "border-primary bg-primary text-primary-foreground" : "border-border",
+                    )}
+                  >
+                    {selected && "✓"}
+                  </span>
+                  <span className="font-medium">{stock.ticker}</span>
+                  <span className="text-xs text-muted-foreground truncate">{stock.companyName}</span>
+                </button>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">No stocks available.</p>
+        )}
+
+        {error && (
+          <BudgetCapNotice
+            expectedCostUsd={null}
+            forceOverride
+            override={overrideBudgetCap}
+            onOverrideChange={setOverrideBudgetCap}
+            disabled={submitting}
+          />
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button onClick={handleRun} disabled={submitting}>
+            <Play className="size-4" />
+            {submitting ? "Starting..." : "Run Pipeline"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,327 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { usePromptAnalytics } from "@/hooks/use-prompts";
+import { PageHeader } from "@/components/page-header";
+import { EmptyState } from "@/components/empty-state";
+import { PageSkeleton } from "@/components/loading-skeleton";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertCircle,
+  ArrowLeft,
+  BarChart3,
+  CalendarClock,
+  CheckCircle2,
+  Clock,
+  Columns2,
+  DollarSign,
+  FileText,
+  ListChecks,
+} from "lucide-react";
+import type { FunctionReturnType } from "convex/server";
+import type { api } from "@repo/convex";
+import type { GenericId } from "convex/values";
+
+export const Route = createFileRoute("/_authenticated/prompts/$promptId")({
+  component: PromptAnalyticsPage,
+});
+
+type PromptAnalytics = NonNullable<FunctionReturnType<typeof api.promptAnalytics.getPromptAnalytics>>;
+type ComparisonRecord = { wins: number; losses: number; ties: number; undecided: number };
+
+const TYPE_LABELS: Record<PromptAnalytics["prompt"]["type"], string> = {
+  "single-stock": "Single Stock",
+  "multi-stock": "Multi Stock",
+  discovery: "Discovery",
+};
+
+function formatDuration(ms: number): string {
+  return ms >= 60_000
+    ? `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`
+    : `${Math.round(ms / 1000)}s`;
+}
+
+function formatUsd(value: number): string {
+  return value > 0 && value < 0.01 ? "<$0.01" : `$${value.toFixed(2)}`;
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(year!, monthIndex! - 1, 1).toLocaleDateString("en-US", { month: "short" });
+}
+
+function formatRecord(record: ComparisonRecord): string {
+  const decided = `${record.wins} won · ${record.losses} lost · ${record.ties} tied`;
+  return record.undecided > 0 ? `${decided} · ${record.undecided} not voted` : decided;
+}
+
+function PromptAnalyticsPage() {
+  const { promptId } = Route.useParams();
+  const analytics = usePromptAnalytics(promptId as GenericId<"prompts">);
+
+  if (analytics === undefined) {
+    return <PageSkeleton />;
+  }
+
+  if (analytics === null) {
+    return (
+      <div className="flex flex-col gap-4">
+        <BackLink />
+        <EmptyState
+          icon={FileText}
+          title="Prompt not found"
+          description="This prompt may have been deleted."
+        />
+      </div>
+    );
+  }
+
+  const { prompt, summary, truncated } = analytics;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <BackLink />
+
+      <PageHeader
+        title={prompt.name}
+        description={`${TYPE_LABELS[prompt.type]} · ${
+          truncated ? `Last ${summary.runs} runs` : `${summary.runs} run${summary.runs === 1 ? "" : "s"}`
+        }`}
+      />
+
+      <div className="flex flex-col gap-4 px-4 pb-4 md:px-6">
+        {summary.runs === 0 ? (
+          <EmptyState
+            icon={BarChart3}
+            title="No runs yet"
+            description="Run this prompt from the research wizard or a schedule to see how it performs."
+          />
+        ) : (
+          <>
+            <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+              <SummaryTile
+                icon={ListChecks}
+                label="Runs"
+                value={summary.runs.toLocaleString()}
+                detail={`${summary.completed} completed, ${summary.failed} failed, ${summary.cancelled} cancelled${
+                  summary.active > 0 ? `, ${summary.active} in progress` : ""
+                }`}
+              />
+              <SummaryTile
+                icon={CheckCircle2}
+                label="Success rate"
+                value={formatRate(summary.successRate)}
+                detail={`${formatRate(summary.failureRate)} failed`}
+              />
+              <SummaryTile
+                icon={Clock}
+                label="Duration"
+                value={summary.durationMs ? formatDuration(summary.durationMs.median) : "—"}
+                detail={summary.durationMs ? `p90 ${formatDuration(summary.durationMs.p90)}` : "Median per run"}
+              />
+              <SummaryTile
+                icon={DollarSign}
+                label="Cost"
+                value={summary.costUsd ? formatUsd(summary.costUsd.median) : "—"}
+                detail={
+                  summary.costUsd
+                    ? `p90 ${formatUsd(summary.costUsd.p90)} · ${formatUsd(summary.totalCostUsd)} total`
+                    : "Median per run"
+                }
+              />
+            </div>
+
+            <CostTrendCard trend={analytics.costTrend} />
+            {analytics.errors.length > 0 && <ErrorsCard errors={analytics.errors} />}
+          </>
+        )}
+
+        <SchedulesCard schedules={analytics.schedules} />
+        {analytics.comparisons.total > 0 && <ComparisonsCard comparisons={analytics.comparisons} />}
+      </div>
+    </div>
+  );
+}
+
+function BackLink() {
+  return (
+    <div className="px-4 pt-4 md:px-6">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to="/prompts">
+          <ArrowLeft className="size-4" />
+          Back to Prompts
+        </Link>
+      </Button>
+    </div>
+  );
+}
+
+function SummaryTile({
+  icon: Icon,
+  label,
+  value,
+  detail,
+}: {
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  value: string;
+  detail: string;
+}) {
+  return (
+    <div className="flex flex-col gap-1 rounded-lg border p-3">
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <Icon className="size-3.5" />
+        {label}
+      </div>
+      <div className="text-lg font-semibold tabular-nums">{value}</div>
+      <div className="text-xs text-muted-foreground">{detail}</div>
+    </div>
+  );
+}
+
+function CostTrendCard({ trend }: { trend: PromptAnalytics["costTrend"] }) {
+  const max = Math.max(...trend.map((entry) => entry.costUsd));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <BarChart3 className="size-4" />
+          Cost by month
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex h-36 items-end gap-2">
+          {trend.map((entry) => (
+            <div
+              key={entry.month}
+              className="flex h-full flex-1 flex-col items-center justify-end gap-1"
+              title={`${entry.runs} run${entry.runs === 1 ? "" : "s"}`}
+            >
+              <span className="text-[10px] tabular-nums text-muted-foreground">
+                {entry.costUsd > 0 ? formatUsd(entry.costUsd) : ""}
+              </span>
+              <div className="flex w-full flex-1 items-end">
+                <div
+                  className="w-full rounded-t bg-primary"
+                  style={{ height: max > 0 ? `${(entry.costUsd / max) * 100}%` : 0 }}
+                />
+              </div>
+              <span className="text-xs text-muted-foreground">{formatMonth(entry.month)}</span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ErrorsCard({ errors }: { errors: PromptAnalytics["errors"] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <AlertCircle className="size-4" />
+          Common errors
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-1.5">
+        {errors.map((error) => (
+          <div key={error.message} className="flex items-start gap-3 rounded-lg border px-3 py-2">
+            <Badge variant="destructive" className="text-[10px] px-1.5 py-0 tabular-nums">
+              {error.count}×
+            </Badge>
+            <span className="min-w-0 flex-1 break-words text-sm">{error.message}</span>
+            <span className="shrink-0 text-xs text-muted-foreground">
+              {new Date(error.lastSeenAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SchedulesCard({ schedules }: { schedules: PromptAnalytics["schedules"] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CalendarClock className="size-4" />
+          Schedules
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-1.5">
+        {schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No schedule runs this prompt.</p>
+        ) : (
+          schedules.map((schedule) => (
+            <div key={schedule._id} className="flex items-center gap-3 rounded-lg border px-3 py-2">
+              <div className="flex min-w-0 flex-1 flex-col">
+                <span className="truncate text-sm font-medium">{schedule.name}</span>
+                <span className="truncate text-xs text-muted-foreground">
+                  {schedule.cron} ({schedule.timezone})
+                  {schedule.pipelineName && ` · step of ${schedule.pipelineName}`}
+                </span>
+              </div>
+              {schedule.enabled ? (
+                schedule.nextRunAt && (
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    Next{" "}
+                    {new Date(schedule.nextRunAt).toLocaleString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </span>
+                )
+              ) : (
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                  Paused
+                </Badge>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ComparisonsCard({ comparisons }: { comparisons: PromptAnalytics["comparisons"] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Columns2 className="size-4" />
+          A/B runs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3 text-sm">
+        {comparisons.againstPrompts && (
+          <RecordRow label="Against other prompts" record={comparisons.againstPrompts} />
+        )}
+        {comparisons.versions.map((version) => (
+          <RecordRow key={version.versionId} label={`Version ${version.version}`} record={version.record} />
+        ))}
+        {comparisons.models.map((model) => (
+          <RecordRow key={model.model} label={model.model} record={model.record} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RecordRow({ label, record }: { label: string; record: ComparisonRecord }) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="truncate text-muted-foreground">{label}</span>
+      <span className="shrink-0 font-medium tabular-nums">{formatRecord(record)}</span>
+    </div>
+  );
+}
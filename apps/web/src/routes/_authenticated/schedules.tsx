@@ -250,6 +250,16 @@ function ScheduleCard({
             <span className="text-sm font-semibold truncate">
               {schedule.name}
             </span>
+            {schedule.pipelineId && (
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                Pipeline
+              </Badge>
+            )}
+            {schedule.promptVersionId && (
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                Pinned version
+              </Badge>
+            )}
             {!schedule.enabled && (
               <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
                 Disabled
@@ -271,6 +281,11 @@ function ScheduleCard({
               Next: {formatRelativeTime(schedule.nextRunAt)}
             </span>
           )}
+          {schedule.lastRunError && (
+            <span className="text-xs text-destructive line-clamp-2">
+              Last run skipped: {schedule.lastRunError}
+            </span>
+          )}
         </div>
 
         {/* Actions */}
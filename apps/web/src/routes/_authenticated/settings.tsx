@@ -3,6 +3,8 @@ import { createFileRoute } from "@tanstack/react-router";
 import { useAction } from "convex/react";
 import { api } from "@repo/convex";
 import { useSettings, useUpdateSetting } from "@/hooks/use-settings";
+import { useModelPricing, useUpdateModelPricing } from "@/hooks/use-model-pricing";
+import { getProviderLabel } from "@/lib/providers";
 import { useAuthToken } from "@/lib/auth";
 import { useTheme } from "@/hooks/use-theme";
 import { PageHeader } from "@/components/page-header";
@@ -30,6 +32,11 @@ import {
   EyeOff,
   Check,
   Send,
+  Cpu,
+  Timer,
+  ListOrdered,
+  RotateCcw,
+  FlaskConical,
 } from "lucide-react";
 
 export const Route = createFileRoute("/_authenticated/settings")({
@@ -49,6 +56,11 @@ function SettingsPage() {
         <EmailSection />
         <NotificationTogglesSection />
         <BudgetSection />
+        <ModelPricingSection />
+        <JobQueueSection />
+        <RetryPolicySection />
+        <WatchdogSection />
+        <MockProviderSection />
         <PasswordSection />
         <ThemeSection />
       </div>
@@ -217,6 +229,23 @@ function ApiKeysSection() {
             placeholder="sk-..."
             type="password"
           />
+          <SettingField
+            settingKey="anthropic_api_key"
+            label="Anthropic API Key"
+            placeholder="sk-ant-..."
+            type="password"
+          />
+          <SettingField
+            settingKey="gemini_api_key"
+            label="Gemini API Key"
+            placeholder="AIza..."
+            type="password"
+          />
+          <ToggleField
+            settingKey="webhookless_mode"
+            label="Webhook-less mode"
+            description="Poll providers for results instead of waiting for webhooks. Use when this deployment has no public callback URL."
+          />
         </div>
       </CardContent>
     </Card>
@@ -382,20 +411,373 @@ function BudgetSection() {
           <CardTitle className="text-base">Budget</CardTitle>
         </div>
         <CardDescription>
-          Set a monthly spending threshold for budget alerts
+          Get an alert past a monthly threshold, and optionally stop new jobs at a hard cap
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-4">
+          <SettingField
+            settingKey="budget_threshold"
+            label="Monthly Budget (USD)"
+            placeholder="30.00"
+          />
+          <SettingField
+            settingKey="budget_hard_cap"
+            label="Hard Monthly Cap (USD)"
+            placeholder="Leave empty for no cap"
+          />
+          <BudgetCapModeField />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const BUDGET_CAP_MODES = [
+  { value: "block", label: "Block", description: "Refuse runs that would exceed the cap" },
+  { value: "defer", label: "Defer", description: "Queue them until the first of next month" },
+] as const;
+
+function BudgetCapModeField() {
+  const currentValue = useSettings("budget_cap_mode");
+  const updateSetting = useUpdateSetting();
+  const [saving, setSaving] = useState(false);
+
+  const mode = currentValue === "defer" ? "defer" : "block";
+  const active = BUDGET_CAP_MODES.find((m) => m.value === mode)!;
+
+  async function handleSelect(value: string) {
+    if (value === mode) return;
+    setSaving(true);
+    try {
+      await updateSetting({ key: "budget_cap_mode", value });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (currentValue === undefined) {
+    return <Skeleton className="h-14 w-full" />;
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="flex flex-col gap-0.5">
+        <span className="text-sm font-medium">Over the Cap</span>
+        <span className="text-xs text-muted-foreground">
+          {active.description}. Manual runs can override.
+        </span>
+      </div>
+      <div className="flex shrink-0 gap-1">
+        {BUDGET_CAP_MODES.map((m) => (
+          <Button
+            key={m.value}
+            variant={m.value === mode ? "default" : "outline"}
+            size="sm"
+            disabled={saving}
+            onClick={() => handleSelect(m.value)}
+          >
+            {m.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function JobQueueSection() {
+  return (
+    <Card className="py-4">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ListOrdered className="size-4 text-muted-foreground" />
+          <CardTitle className="text-base">Job Queue</CardTitle>
+        </div>
+        <CardDescription>
+          Jobs over the limit wait in the queue and start when a slot frees up
         </CardDescription>
       </CardHeader>
       <CardContent>
         <SettingField
-          settingKey="budget_threshold"
-          label="Monthly Budget (USD)"
-          placeholder="30.00"
+          settingKey="max_concurrent_jobs"
+          label="Max Concurrent Jobs"
+          placeholder="5"
         />
       </CardContent>
     </Card>
   );
 }
 
+function RetryPolicySection() {
+  return (
+    <Card className="py-4">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <RotateCcw className="size-4 text-muted-foreground" />
+          <CardTitle className="text-base">Retry Policy</CardTitle>
+        </div>
+        <CardDescription>
+          Transient errors (rate limits, 5xx, timeouts) are retried with exponential
+          backoff. Permanent errors (invalid key, content policy, quota) stop after the
+          first attempt unless you allow more.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <SettingField
+            settingKey="retry_transient_max_attempts"
+            label="Transient: Max Attempts"
+            placeholder="3"
+          />
+          <SettingField
+            settingKey="retry_transient_base_delay_seconds"
+            label="Transient: Base Delay (seconds)"
+            placeholder="5"
+          />
+          <SettingField
+            settingKey="retry_permanent_max_attempts"
+            label="Permanent: Max Attempts"
+            placeholder="1"
+          />
+          <SettingField
+            settingKey="retry_permanent_base_delay_seconds"
+            label="Permanent: Base Delay (seconds)"
+            placeholder="5"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function WatchdogSection() {
+  return (
+    <Card className="py-4">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Timer className="size-4 text-muted-foreground" />
+          <CardTitle className="text-base">Job Watchdog</CardTitle>
+        </div>
+        <CardDescription>
+          Notify when a running job exceeds its maximum runtime
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-4">
+          <SettingField
+            settingKey="max_runtime_minutes"
+            label="Maximum Runtime (minutes)"
+            placeholder="60"
+          />
+          <ToggleField
+            settingKey="watchdog_auto_cancel"
+            label="Auto-cancel"
+            description="Cancel jobs that exceed the limit instead of only flagging them"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const PRICING_FIELDS = [
+  { key: "inputPerMillion", label: "Input / 1M" },
+  { key: "cachedInputPerMillion", label: "Cached input / 1M" },
+  { key: "outputPerMillion", label: "Output / 1M" },
+  { key: "reasoningPerMillion", label: "Reasoning / 1M" },
+  { key: "webSearchPerCall", label: "Per search" },
+] as const;
+
+type PricingRow = NonNullable<ReturnType<typeof useModelPricing>>[number];
+type PricingKey = (typeof PRICING_FIELDS)[number]["key"];
+
+function MockProviderSection() {
+  return (
+    <Card className="py-4">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <FlaskConical className="size-4 text-muted-foreground" />
+          <CardTitle className="text-base">Mock Provider</CardTitle>
+        </div>
+        <CardDescription>
+          Replace every research provider with canned reports for local development.
+          No API calls are made and no API keys are needed. Add{" "}
+          <code className="font-mono">[[mock:failed]]</code> to a prompt to override the
+          scenario for a single run.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-4">
+          <ToggleField
+            settingKey="mock_provider_enabled"
+            label="Use mock provider"
+            description="Can also be enabled with the MOCK_RESEARCH_PROVIDER=true environment variable."
+          />
+          <SettingField
+            settingKey="mock_provider_delay_seconds"
+            label="Delay Before Completion (seconds)"
+            placeholder="5"
+          />
+          <MockScenarioField />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const MOCK_SCENARIOS = [
+  { value: "completed", label: "Completed", description: "Return a canned report with usage" },
+  { value: "failed", label: "Failed", description: "Fail with a retryable server error" },
+  { value: "cancelled", label: "Cancelled", description: "End as cancelled by the provider" },
+  { value: "rate_limit", label: "Rate limit", description: "Reject the start with a 429" },
+  { value: "invalid_key", label: "Invalid key", description: "Reject the start with a 401" },
+] as const;
+
+function MockScenarioField() {
+  const currentValue = useSettings("mock_provider_scenario");
+  const updateSetting = useUpdateSetting();
+  const [saving, setSaving] = useState(false);
+
+  const active = MOCK_SCENARIOS.find((s) => s.value === currentValue) ?? MOCK_SCENARIOS[0];
+
+  async function handleSelect(value: string) {
+    if (value === active.value) return;
+    setSaving(true);
+    try {
+      await updateSetting({ key: "mock_provider_scenario", value });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (currentValue === undefined) {
+    return <Skeleton className="h-14 w-full" />;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-col gap-0.5">
+        <span className="text-sm font-medium">Scenario</span>
+        <span className="text-xs text-muted-foreground">{active.description}</span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {MOCK_SCENARIOS.map((s) => (
+          <Button
+            key={s.value}
+            variant={s.value === active.value ? "default" : "outline"}
+            size="sm"
+            disabled={saving}
+            onClick={() => handleSelect(s.value)}
+          >
+            {s.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ModelPricingSection() {
+  const pricing = useModelPricing();
+
+  return (
+    <Card className="py-4">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Cpu className="size-4 text-muted-foreground" />
+          <CardTitle className="text-base">Model Pricing</CardTitle>
+        </div>
+        <CardDescription>
+          USD rates used to compute job costs. Each save creates a new price
+          version; past costs keep the version they were computed with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {pricing === undefined ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="flex flex-col gap-4">
+            {pricing.map((row) => (
+              <ModelPricingRow key={row.model} row={row} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ModelPricingRow({ row }: { row: PricingRow }) {
+  const updatePricing = useUpdateModelPricing();
+  const [values, setValues] = useState<Partial<Record<PricingKey, string>>>({});
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasChanged = PRICING_FIELDS.some(
+    (f) => values[f.key] !== undefined && Number(values[f.key]) !== row[f.key],
+  );
+
+  async function handleSave() {
+    if (!hasChanged) return;
+    setError(null);
+    setSaving(true);
+    try {
+      const rates = Object.fromEntries(
+        PRICING_FIELDS.map((f) => [f.key, Number(values[f.key] ?? row[f.key])]),
+      ) as Record<PricingKey, number>;
+      await updatePricing({ model: row.model, ...rates });
+      setValues({});
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save pricing");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-col">
+          <span className="text-sm font-medium">{row.model}</span>
+          <span className="text-xs text-muted-foreground">
+            {getProviderLabel(row.provider)}
+            {row.isDefault && " · default"} ·{" "}
+            {row.version === 0 ? "list price" : `v${row.version}`}
+          </span>
+        </div>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!hasChanged || saving}
+          className="shrink-0"
+        >
+          {saved ? <Check className="size-4" /> : saving ? "..." : "Save"}
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-5">
+        {PRICING_FIELDS.map((f) => (
+          <div key={f.key} className="flex flex-col gap-1">
+            <Label className="text-xs text-muted-foreground">{f.label}</Label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={values[f.key] ?? String(row[f.key])}
+              onChange={(e) =>
+                setValues((prev) => ({ ...prev, [f.key]: e.target.value }))
+              }
+            />
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
 function PasswordSection() {
   const changePassword = useAction(api.auth.changePassword);
   const [currentPassword, setCurrentPassword] = useState("");
@@ -4,6 +4,7 @@ import { useStock, useDeleteStock } from "@/hooks/use-stocks";
 import { useStockEarnings } from "@/hooks/use-earnings";
 import { PageHeader } from "@/components/page-header";
 import { StockModal } from "@/components/stock-modal";
+import { FindingsHistory } from "@/components/findings-history";
 import { EmptyState } from "@/components/empty-state";
 import { PageSkeleton } from "@/components/loading-skeleton";
 import { Button } from "@/components/ui/button";
@@ -210,6 +211,9 @@ function StockDetailPage() {
         {/* Earnings Card */}
         <EarningsCard earnings={earnings} />
 
+        {/* Rating and price target history */}
+        <FindingsHistory stockId={stock._id} />
+
         {/* Research History Card */}
         <Card className="md:col-span-2">
           <CardHeader>
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { exceedsBudgetCap, getMonthBounds, parseBudgetCap } from "../budgetCap";
+import { NO_HISTORY_JOB_COST_USD, fallbackJobCostUsd } from "../estimates";
+
+describe("parseBudgetCap", () => {
+  it("returns null when no cap is configured", () => {
+    expect(parseBudgetCap(null, "block")).toBeNull();
+    expect(parseBudgetCap("", "defer")).toBeNull();
+    expect(parseBudgetCap("0", "block")).toBeNull();
+    expect(parseBudgetCap("lots", "block")).toBeNull();
+  });
+
+  it("defaults to block mode", () => {
+    expect(parseBudgetCap("50", null)).toEqual({ capUsd: 50, mode: "block" });
+    expect(parseBudgetCap("50", "unknown")).toEqual({ capUsd: 50, mode: "block" });
+  });
+
+  it("reads defer mode", () => {
+    expect(parseBudgetCap("12.5", "defer")).toEqual({ capUsd: 12.5, mode: "defer" });
+  });
+});
+
+describe("exceedsBudgetCap", () => {
+  it("allows a run that lands exactly on the cap", () => {
+    expect(exceedsBudgetCap({ spentUsd: 40, unfinishedUsd: 0, estimatedUsd: 10, capUsd: 50 })).toBe(false);
+  });
+
+  it("refuses a run whose estimate pushes spend over the cap", () => {
+    expect(exceedsBudgetCap({ spentUsd: 45, unfinishedUsd: 0, estimatedUsd: 6, capUsd: 50 })).toBe(true);
+  });
+
+  it("refuses everything once the cap is already spent", () => {
+    expect(exceedsBudgetCap({ spentUsd: 52, unfinishedUsd: 0, estimatedUsd: 0.01, capUsd: 50 })).toBe(true);
+  });
+
+  it("counts the expected cost of unfinished jobs", () => {
+    expect(exceedsBudgetCap({ spentUsd: 30, unfinishedUsd: 0, estimatedUsd: 10, capUsd: 50 })).toBe(false);
+    expect(exceedsBudgetCap({ spentUsd: 30, unfinishedUsd: 15, estimatedUsd: 10, capUsd: 50 })).toBe(true);
+  });
+
+  it("refuses a prompt without history near the cap, whatever its input cost", () => {
+    const estimatedUsd = fallbackJobCostUsd([], 0.002);
+    expect(estimatedUsd).toBe(NO_HISTORY_JOB_COST_USD);
+    expect(exceedsBudgetCap({ spentUsd: 49, unfinishedUsd: 0, estimatedUsd, capUsd: 50 })).toBe(true);
+  });
+});
+
+describe("getMonthBounds", () => {
+  it("spans the calendar month containing the timestamp", () => {
+    const { start, end } = getMonthBounds(new Date(2025, 1, 14, 9, 30).getTime());
+    expect(start).toBe(new Date(2025, 1, 1).getTime());
+    expect(end).toBe(new Date(2025, 2, 1).getTime());
+  });
+
+  it("rolls over into the next year in December", () => {
+    const { end } = getMonthBounds(new Date(2025, 11, 31, 23, 59).getTime());
+    expect(end).toBe(new Date(2026, 0, 1).getTime());
+  });
+});
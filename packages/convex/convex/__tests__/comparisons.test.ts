@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import type { Id } from "../_generated/dataModel";
+import { comparisonKind, tallyComparisonVotes } from "../comparisons";
+import type { ComparisonRun } from "../comparisons";
+
+const run = (overrides: Partial<ComparisonRun> = {}): ComparisonRun => ({
+  promptId: "prompt_1" as Id<"prompts">,
+  promptVersionId: "version_1" as Id<"promptVersions">,
+  provider: "openai",
+  model: "o3-deep-research",
+  ...overrides,
+});
+
+const side = (overrides: Partial<ComparisonRun> = {}) => ({
+  ...run(overrides),
+  jobId: "job_1" as Id<"researchJobs">,
+});
+
+describe("comparisonKind", () => {
+  it("names the one thing that differs", () => {
+    expect(
+      comparisonKind(
+        run(),
+        run({ promptId: "prompt_2" as Id<"prompts">, promptVersionId: "version_9" as Id<"promptVersions"> }),
+      ),
+    ).toBe("prompts");
+    expect(comparisonKind(run(), run({ promptVersionId: "version_2" as Id<"promptVersions"> }))).toBe(
+      "versions",
+    );
+    expect(comparisonKind(run(), run({ model: "o4-mini-deep-research" }))).toBe("models");
+    expect(comparisonKind(run(), run({ provider: "anthropic", model: "claude-sonnet-4-5" }))).toBe(
+      "models",
+    );
+  });
+
+  it("rejects identical runs", () => {
+    expect(() => comparisonKind(run(), run())).toThrow(
+      "The two runs must differ in prompt, prompt version or model",
+    );
+  });
+
+  it("rejects changing the model along with the prompt or version", () => {
+    expect(() =>
+      comparisonKind(run(), run({ promptVersionId: "version_2" as Id<"promptVersions">, model: "o4-mini-deep-research" })),
+    ).toThrow("Change only one of prompt, prompt version or model");
+  });
+});
+
+describe("tallyComparisonVotes", () => {
+  const promptA = side();
+  const promptB = side({ promptId: "prompt_2" as Id<"prompts"> });
+
+  it("counts wins, losses, ties and undecided comparisons per key", () => {
+    const records = tallyComparisonVotes(
+      [
+        { a: promptA, b: promptB, winner: "a" },
+        { a: promptB, b: promptA, winner: "a" },
+        { a: promptA, b: promptB, winner: "tie" },
+        { a: promptA, b: promptB },
+      ],
+      (r) => r.promptId,
+    );
+    expect(records.get("prompt_1")).toEqual({ wins: 1, losses: 1, ties: 1, undecided: 1 });
+    expect(records.get("prompt_2")).toEqual({ wins: 1, losses: 1, ties: 1, undecided: 1 });
+  });
+
+  it("skips comparisons where both runs share the key", () => {
+    const records = tallyComparisonVotes(
+      [{ a: promptA, b: side({ model: "o4-mini-deep-research" }), winner: "b" }],
+      (r) => r.promptId,
+    );
+    expect(records.size).toBe(0);
+
+    const byModel = tallyComparisonVotes(
+      [{ a: promptA, b: side({ model: "o4-mini-deep-research" }), winner: "b" }],
+      (r) => r.model,
+    );
+    expect(byModel.get("o4-mini-deep-research")?.wins).toBe(1);
+    expect(byModel.get("o3-deep-research")?.losses).toBe(1);
+  });
+});
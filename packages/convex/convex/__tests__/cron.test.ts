@@ -4,9 +4,9 @@ import {
   parseField,
   matchesField,
   computeNextRunAt,
-  type CronFields,
+  estimateRunsPerMonth,
   type FieldSpec,
-} from "../scheduleActions";
+} from "../cron";
 
 describe("parseField", () => {
   it("parses wildcard (*)", () => {
@@ -222,3 +222,26 @@ describe("computeNextRunAt", () => {
     expect(nextRun).toBeGreaterThan(afterMs);
   });
 });
+
+describe("estimateRunsPerMonth", () => {
+  it("counts daily runs", () => {
+    expect(estimateRunsPerMonth("@daily")).toBeCloseTo(365 / 12);
+  });
+
+  it("counts weekday runs", () => {
+    // 2025 has 261 weekdays
+    expect(estimateRunsPerMonth("0 9 * * 1-5")).toBeCloseTo(261 / 12);
+  });
+
+  it("counts monthly runs", () => {
+    expect(estimateRunsPerMonth("@monthly")).toBe(1);
+  });
+
+  it("multiplies by runs per day", () => {
+    expect(estimateRunsPerMonth("0 */6 * * *")).toBeCloseTo((365 * 4) / 12);
+  });
+
+  it("throws on an invalid expression", () => {
+    expect(() => estimateRunsPerMonth("not a cron")).toThrow();
+  });
+});
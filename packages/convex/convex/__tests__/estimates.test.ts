@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  NO_HISTORY_JOB_COST_USD,
+  fallbackJobCostUsd,
+  percentile,
+  summarizeSpread,
+} from "../estimates";
+import { estimateTokenCount } from "../pricing";
+import { resolvePromptTemplate } from "../promptTemplate";
+import type { TemplateStock } from "../promptTemplate";
+
+const stock = (ticker: string): TemplateStock => ({
+  ticker,
+  companyName: ticker,
+  exchange: "NASDAQ",
+  tags: [],
+});
+
+describe("percentile", () => {
+  it("interpolates between neighbours", () => {
+    expect(percentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(percentile([10, 20, 30, 40, 50], 90)).toBe(46);
+  });
+
+  it("returns the only value for a single sample", () => {
+    expect(percentile([7], 90)).toBe(7);
+  });
+});
+
+describe("summarizeSpread", () => {
+  it("returns null without samples", () => {
+    expect(summarizeSpread([])).toBeNull();
+  });
+
+  it("sorts before computing median and p90", () => {
+    expect(summarizeSpread([5, 1, 3])).toEqual({ median: 3, p90: 4.6 });
+  });
+});
+
+describe("fallbackJobCostUsd", () => {
+  it("assumes the p90 of the model's recent runs", () => {
+    expect(fallbackJobCostUsd([1, 2, 3, 4, 5], 0.01)).toBeCloseTo(4.6);
+  });
+
+  it("uses the flat default without enough runs of the model", () => {
+    expect(fallbackJobCostUsd([], 0.01)).toBe(NO_HISTORY_JOB_COST_USD);
+    expect(fallbackJobCostUsd([0.5, 0.6], 0.01)).toBe(NO_HISTORY_JOB_COST_USD);
+  });
+
+  it("never assumes less than the input cost", () => {
+    expect(fallbackJobCostUsd([0.1, 0.1, 0.1], 0.4)).toBe(0.4);
+  });
+});
+
+describe("estimateTokenCount", () => {
+  it("rounds up at four characters per token", () => {
+    expect(estimateTokenCount("")).toBe(0);
+    expect(estimateTokenCount("abcde")).toBe(2);
+  });
+});
+
+describe("resolvePromptTemplate", () => {
+  it("substitutes stocks, ticker and date", () => {
+    expect(
+      resolvePromptTemplate("{{TICKER}} of {{STOCKS}} on {{DATE}}", {
+        stocks: [stock("AAPL"), stock("MSFT")],
+        date: "2025-01-15",
+      }),
+    ).toBe("AAPL of AAPL, MSFT on 2025-01-15");
+  });
+
+  it("leaves the ticker empty for discovery prompts", () => {
+    expect(
+      resolvePromptTemplate("[{{TICKER}}]", { stocks: [], date: "2025-01-15" }),
+    ).toBe("[]");
+  });
+});
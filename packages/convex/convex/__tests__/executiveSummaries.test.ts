@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { SUMMARY_SCHEMA, parseExecutiveSummary } from "../executiveSummaries";
+import { buildMockStructuredOutput } from "../mockProvider";
+
+describe("parseExecutiveSummary", () => {
+  it("trims the TL;DR and bullets", () => {
+    expect(
+      parseExecutiveSummary({ tldr: "  Buy on weakness. ", bullets: [" Margins expand ", "Cheap vs peers"] }),
+    ).toEqual({ tldr: "Buy on weakness.", bullets: ["Margins expand", "Cheap vs peers"] });
+  });
+
+  it("keeps at most five non-empty bullets", () => {
+    const summary = parseExecutiveSummary({
+      tldr: "Hold.",
+      bullets: ["a", "", "b", 3, "c", "d", "e", "f"],
+    });
+    expect(summary?.bullets).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("rejects answers without a TL;DR", () => {
+    expect(parseExecutiveSummary({ tldr: " ", bullets: ["a"] })).toBeNull();
+    expect(parseExecutiveSummary({ bullets: ["a"] })).toBeNull();
+    expect(parseExecutiveSummary("Buy")).toBeNull();
+    expect(parseExecutiveSummary(null)).toBeNull();
+  });
+
+  it("accepts the mock model's answer to the summary schema", () => {
+    const summary = parseExecutiveSummary(buildMockStructuredOutput(SUMMARY_SCHEMA, 42));
+    expect(summary?.tldr).toBeTruthy();
+    expect(summary?.bullets.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import type { Id } from "../_generated/dataModel";
+import { buildExtractionSchema, parseExtractedFindings } from "../findings";
+import type { OutputField } from "../findings";
+import { buildMockStructuredOutput } from "../mockProvider";
+
+const stockId = (ticker: string) => `stock_${ticker}` as Id<"stocks">;
+
+const fields: OutputField[] = [
+  { key: "rating", label: "Rating", type: "rating" },
+  { key: "priceTarget", label: "Price target", type: "number" },
+  { key: "keyRisks", label: "Key risks", type: "list" },
+  { key: "moat", label: "Moat", type: "text", description: "Wide, narrow or none" },
+];
+
+describe("buildExtractionSchema", () => {
+  it("requires every field and limits tickers to the job's stocks", () => {
+    const schema = buildExtractionSchema(fields, ["AAPL", "MSFT"]) as {
+      properties: { findings: { items: { properties: Record<string, { enum?: unknown[] }>; required: string[] } } };
+    };
+    const items = schema.properties.findings.items;
+    expect(items.required).toEqual(["ticker", "rating", "priceTarget", "keyRisks", "moat"]);
+    expect(items.properties.ticker!.enum).toEqual(["AAPL", "MSFT"]);
+    expect(items.properties.rating!.enum).toContain(null);
+  });
+
+  it("accepts any ticker for discovery prompts", () => {
+    const schema = buildExtractionSchema(fields, []) as {
+      properties: { findings: { items: { properties: Record<string, { enum?: unknown[] }> } } };
+    };
+    expect(schema.properties.findings.items.properties.ticker!.enum).toBeUndefined();
+  });
+});
+
+describe("parseExtractedFindings", () => {
+  const stocks = [
+    { _id: stockId("AAPL"), ticker: "AAPL" },
+    { _id: stockId("MSFT"), ticker: "MSFT" },
+  ];
+
+  it("splits typed columns from custom fields", () => {
+    const findings = parseExtractedFindings(
+      {
+        findings: [
+          { ticker: "aapl", rating: "buy", priceTarget: "$245.50", keyRisks: ["China", ""], moat: "Wide" },
+        ],
+      },
+      fields,
+      stocks,
+    );
+    expect(findings).toEqual([
+      {
+        stockId: stockId("AAPL"),
+        ticker: "AAPL",
+        rating: "Buy",
+        priceTarget: 245.5,
+        keyRisks: ["China"],
+        extra: { moat: "Wide" },
+      },
+    ]);
+  });
+
+  it("drops values of the wrong type and entries without values", () => {
+    const findings = parseExtractedFindings(
+      {
+        findings: [
+          { ticker: "AAPL", rating: "Outperform", priceTarget: null, keyRisks: null, moat: null },
+          { ticker: "MSFT", rating: "Hold", priceTarget: "n/a", keyRisks: "Antitrust", moat: 3 },
+        ],
+      },
+      fields,
+      stocks,
+    );
+    expect(findings).toEqual([
+      { stockId: stockId("MSFT"), ticker: "MSFT", rating: "Hold", keyRisks: ["Antitrust"] },
+    ]);
+  });
+
+  it("keeps tickers that are not on the watchlist without a stock", () => {
+    const findings = parseExtractedFindings(
+      { findings: [{ ticker: "nvda", rating: "Strong Buy" }] },
+      fields,
+      stocks,
+    );
+    expect(findings).toEqual([{ stockId: undefined, ticker: "NVDA", rating: "Strong Buy" }]);
+  });
+
+  it("assigns the only entry of a single-stock job to its stock", () => {
+    const findings = parseExtractedFindings(
+      { findings: [{ ticker: "Apple Inc.", priceTarget: 200 }] },
+      fields,
+      [stocks[0]!],
+    );
+    expect(findings[0]).toMatchObject({ stockId: stockId("AAPL"), ticker: "AAPL", priceTarget: 200 });
+  });
+
+  it("ignores malformed responses", () => {
+    expect(parseExtractedFindings(null, fields, stocks)).toEqual([]);
+    expect(parseExtractedFindings({ findings: "none" }, fields, stocks)).toEqual([]);
+  });
+
+  it("reads the mock model's output", () => {
+    const schema = buildExtractionSchema(fields, ["AAPL"]);
+    const findings = parseExtractedFindings(buildMockStructuredOutput(schema, 42), fields, [stocks[0]!]);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]!.stockId).toBe(stockId("AAPL"));
+    expect(findings[0]!.rating).toBeDefined();
+    expect(typeof findings[0]!.priceTarget).toBe("number");
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { hasActiveFollowUp, selectConversationTurns } from "../followUps";
+import type { Doc, Id } from "../_generated/dataModel";
+
+type Status = Doc<"researchJobs">["status"];
+
+function job(id: string, createdAt: number, status: Status = "completed") {
+  return { _id: id as Id<"researchJobs">, _creationTime: createdAt, status };
+}
+
+describe("selectConversationTurns", () => {
+  it("starts with the original job and orders follow-ups by creation", () => {
+    const root = job("root", 1);
+    const turns = selectConversationTurns(root, [job("b", 30), job("a", 20)], 100);
+    expect(turns.map((t) => t._id)).toEqual(["root", "a", "b"]);
+  });
+
+  it("only includes completed follow-ups asked before the current one", () => {
+    const root = job("root", 1);
+    const turns = selectConversationTurns(
+      root,
+      [job("done", 10), job("failed", 20, "failed"), job("current", 30, "running"), job("later", 40)],
+      30,
+    );
+    expect(turns.map((t) => t._id)).toEqual(["root", "done"]);
+  });
+});
+
+describe("hasActiveFollowUp", () => {
+  it("is true while a follow-up is queued, running or waiting on a retry", () => {
+    expect(hasActiveFollowUp([{ status: "queued" }])).toBe(true);
+    expect(hasActiveFollowUp([{ status: "running" }])).toBe(true);
+    expect(hasActiveFollowUp([{ status: "failed", awaitingRetry: true }])).toBe(true);
+  });
+
+  it("is false once every follow-up has finished", () => {
+    expect(hasActiveFollowUp([])).toBe(false);
+    expect(
+      hasActiveFollowUp([{ status: "completed" }, { status: "failed" }, { status: "cancelled" }]),
+    ).toBe(false);
+  });
+});
@@ -1,5 +1,6 @@
+import { createHmac } from "node:crypto";
 import { describe, it, expect } from "vitest";
-import { base64Decode, uint8ArrayToBase64 } from "../http";
+import { base64Decode, signWebhookPayload, uint8ArrayToBase64 } from "../http";
 
 describe("base64Decode", () => {
   it("decodes a simple base64 string", () => {
@@ -47,3 +48,18 @@ describe("uint8ArrayToBase64", () => {
     expect(uint8ArrayToBase64(bytes)).toBe("QQ==");
   });
 });
+
+describe("signWebhookPayload", () => {
+  it("produces a Standard Webhooks v1 HMAC-SHA256 signature", async () => {
+    const secretBytes = Buffer.from("test-webhook-secret");
+    const secret = `whsec_${secretBytes.toString("base64")}`;
+    const body = JSON.stringify({ type: "response.completed", data: { id: "resp_1" } });
+
+    const expected = createHmac("sha256", secretBytes)
+      .update(`msg_1.1700000000.${body}`)
+      .digest("base64");
+    await expect(signWebhookPayload(secret, "msg_1", "1700000000", body)).resolves.toBe(
+      `v1,${expected}`,
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_MAX_CONCURRENT_JOBS,
+  QUEUE_PRIORITY,
+  compareQueuedJobs,
+  holdsSlot,
+  isDeferred,
+  parseConcurrencyLimit,
+} from "../jobQueue";
+
+describe("compareQueuedJobs", () => {
+  it("orders equal-priority jobs first in, first out", () => {
+    const jobs = [
+      { id: "b", priority: QUEUE_PRIORITY.manual, queuedAt: 200, createdAt: 200 },
+      { id: "a", priority: QUEUE_PRIORITY.manual, queuedAt: 100, createdAt: 100 },
+    ];
+    expect(jobs.toSorted(compareQueuedJobs).map((j) => j.id)).toEqual(["a", "b"]);
+  });
+
+  it("puts manual runs ahead of scheduled runs queued earlier", () => {
+    const jobs = [
+      { id: "scheduled", priority: QUEUE_PRIORITY.scheduled, queuedAt: 100, createdAt: 100 },
+      { id: "manual", priority: QUEUE_PRIORITY.manual, queuedAt: 500, createdAt: 500 },
+    ];
+    expect(jobs.toSorted(compareQueuedJobs).map((j) => j.id)).toEqual([
+      "manual",
+      "scheduled",
+    ]);
+  });
+
+  it("falls back to createdAt and priority 0 for legacy jobs", () => {
+    const jobs = [
+      { id: "manual", priority: QUEUE_PRIORITY.manual, queuedAt: 900, createdAt: 900 },
+      { id: "new", createdAt: 300 },
+      { id: "old", createdAt: 50 },
+    ];
+    expect(jobs.toSorted(compareQueuedJobs).map((j) => j.id)).toEqual([
+      "manual",
+      "old",
+      "new",
+    ]);
+  });
+});
+
+describe("parseConcurrencyLimit", () => {
+  it("parses a positive whole number", () => {
+    expect(parseConcurrencyLimit("8")).toBe(8);
+  });
+
+  it("falls back to the default for missing or invalid values", () => {
+    expect(parseConcurrencyLimit(null)).toBe(DEFAULT_MAX_CONCURRENT_JOBS);
+    expect(parseConcurrencyLimit("")).toBe(DEFAULT_MAX_CONCURRENT_JOBS);
+    expect(parseConcurrencyLimit("0")).toBe(DEFAULT_MAX_CONCURRENT_JOBS);
+    expect(parseConcurrencyLimit("2.5")).toBe(DEFAULT_MAX_CONCURRENT_JOBS);
+    expect(parseConcurrencyLimit("lots")).toBe(DEFAULT_MAX_CONCURRENT_JOBS);
+  });
+});
+
+describe("isDeferred", () => {
+  it("holds a job until its deferral time has passed", () => {
+    expect(isDeferred({ deferredUntil: 1_000 }, 999)).toBe(true);
+    expect(isDeferred({ deferredUntil: 1_000 }, 1_000)).toBe(false);
+    expect(isDeferred({}, 0)).toBe(false);
+  });
+});
+
+describe("holdsSlot", () => {
+  it("holds a slot while a job starts or runs", () => {
+    expect(holdsSlot({ status: "pending" })).toBe(true);
+    expect(holdsSlot({ status: "running" })).toBe(true);
+    expect(holdsSlot({ status: "queued" })).toBe(false);
+    expect(holdsSlot({ status: "completed" })).toBe(false);
+  });
+
+  it("keeps the slot of a failed job waiting for its retry", () => {
+    expect(holdsSlot({ status: "failed", awaitingRetry: true })).toBe(true);
+    expect(holdsSlot({ status: "failed" })).toBe(false);
+    expect(holdsSlot({ status: "cancelled" })).toBe(false);
+  });
+});
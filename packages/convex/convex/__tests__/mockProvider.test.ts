@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_MOCK_DELAY_SECONDS,
+  buildMockReport,
+  buildMockSnapshot,
+  decodeMockRunId,
+  encodeMockRunId,
+  parseMockConfig,
+  resolveMockScenario,
+} from "../mockProvider";
+import { classifyError } from "../retryPolicy";
+
+describe("parseMockConfig", () => {
+  it("defaults to a successful run after the default delay", () => {
+    expect(parseMockConfig({})).toEqual({
+      delayMs: DEFAULT_MOCK_DELAY_SECONDS * 1000,
+      scenario: "completed",
+    });
+  });
+
+  it("reads the delay and scenario settings", () => {
+    expect(
+      parseMockConfig({ mock_provider_delay_seconds: "30", mock_provider_scenario: "failed" }),
+    ).toEqual({ delayMs: 30_000, scenario: "failed" });
+  });
+
+  it("keeps a minimum delay and ignores unknown scenarios", () => {
+    expect(
+      parseMockConfig({ mock_provider_delay_seconds: "0", mock_provider_scenario: "explode" }),
+    ).toEqual({ delayMs: 1000, scenario: "completed" });
+  });
+});
+
+describe("resolveMockScenario", () => {
+  it("lets a prompt directive override the configured scenario", () => {
+    expect(resolveMockScenario("Analyze AAPL [[mock:rate_limit]]", "completed")).toBe("rate_limit");
+  });
+
+  it("falls back when the directive is missing or unknown", () => {
+    expect(resolveMockScenario("Analyze AAPL", "cancelled")).toBe("cancelled");
+    expect(resolveMockScenario("[[mock:nope]]", "completed")).toBe("completed");
+  });
+});
+
+describe("mock run IDs", () => {
+  it("roundtrips through encode and decode", () => {
+    const run = { scenario: "failed" as const, readyAt: 1_700_000_000_000, inputTokens: 42, seed: 123456789 };
+    expect(decodeMockRunId(encodeMockRunId(run))).toEqual(run);
+  });
+
+  it("rejects IDs from other providers", () => {
+    expect(decodeMockRunId("resp_abc123")).toBeNull();
+  });
+});
+
+describe("buildMockSnapshot", () => {
+  const readyAt = 1_700_000_000_000;
+  const id = (scenario: "completed" | "failed" | "cancelled") =>
+    encodeMockRunId({ scenario, readyAt, inputTokens: 100, seed: 7 });
+
+  it("reports running until the ready time", () => {
+    expect(buildMockSnapshot(id("completed"), readyAt - 1).status).toBe("running");
+  });
+
+  it("returns the same report with usage and a cited source once ready", () => {
+    const snapshot = buildMockSnapshot(id("completed"), readyAt);
+    expect(snapshot.status).toBe("completed");
+    expect(snapshot.outputText).toBe(buildMockSnapshot(id("completed"), readyAt + 1000).outputText);
+    expect(snapshot.usage?.inputTokens).toBe(100);
+    expect(snapshot.usage?.outputTokens).toBeGreaterThan(0);
+
+    const source = snapshot.sources![0]!;
+    expect(snapshot.outputText!.slice(source.start, source.end)).toBe(source.citedText);
+  });
+
+  it("simulates a retryable failure and a cancellation", () => {
+    const failed = buildMockSnapshot(id("failed"), readyAt);
+    expect(failed.status).toBe("failed");
+    expect(classifyError(failed.error!).errorClass).toBe("transient");
+
+    expect(buildMockSnapshot(id("cancelled"), readyAt).status).toBe("cancelled");
+  });
+
+  it("fails unknown run IDs", () => {
+    expect(buildMockSnapshot("mock-bogus", readyAt).status).toBe("failed");
+  });
+});
+
+describe("buildMockReport", () => {
+  it("is deterministic per seed", () => {
+    expect(buildMockReport(5)).toEqual(buildMockReport(5));
+    expect(buildMockReport(5).text).not.toBe(buildMockReport(6).text);
+  });
+});
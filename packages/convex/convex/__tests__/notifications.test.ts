@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { escapeHtml } from "../notifications";
+import type { Id } from "../_generated/dataModel";
+import { buildNotificationSummary, escapeHtml } from "../notifications";
 
 describe("escapeHtml", () => {
   it("escapes ampersands", () => {
@@ -39,3 +40,60 @@ describe("escapeHtml", () => {
     expect(escapeHtml("&&&&")).toBe("&amp;&amp;&amp;&amp;");
   });
 });
+
+describe("buildNotificationSummary", () => {
+  it("leads with the changes since the last run when summarized", () => {
+    const summary = buildNotificationSummary({
+      status: "completed",
+      result: "Full report",
+      changeSummary: {
+        previousJobId: "job_1" as Id<"researchJobs">,
+        text: "- Rating moved from Hold to Buy",
+        createdAt: 0,
+      },
+    });
+    expect(summary).toBe("Changes since last run:\n- Rating moved from Hold to Buy");
+  });
+
+  it("uses the executive summary instead of the start of the report", () => {
+    const summary = buildNotificationSummary({
+      status: "completed",
+      result: "# Apple Inc. Deep Dive\n\nApple reported...",
+      executiveSummary: {
+        tldr: "Services growth offsets a soft iPhone cycle.",
+        bullets: ["Services revenue up 14%", "Gross margin at a record 46%"],
+        createdAt: 0,
+      },
+    });
+    expect(summary).toBe(
+      "TL;DR: Services growth offsets a soft iPhone cycle.\n\u2022 Services revenue up 14%\n\u2022 Gross margin at a record 46%",
+    );
+  });
+
+  it("puts the changes before the executive summary", () => {
+    const summary = buildNotificationSummary({
+      status: "completed",
+      changeSummary: {
+        previousJobId: "job_1" as Id<"researchJobs">,
+        text: "- Rating moved from Hold to Buy",
+        createdAt: 0,
+      },
+      executiveSummary: { tldr: "Upgrade to Buy.", bullets: [], createdAt: 0 },
+    });
+    expect(summary).toBe("Changes since last run:\n- Rating moved from Hold to Buy\n\nTL;DR: Upgrade to Buy.");
+  });
+
+  it("uses the start of the report otherwise", () => {
+    const result = "x".repeat(400);
+    expect(buildNotificationSummary({ status: "completed", result })).toBe(
+      `${"x".repeat(300)}...`,
+    );
+    expect(buildNotificationSummary({ status: "completed", result: "Short" })).toBe("Short");
+  });
+
+  it("reports the error of a failed job", () => {
+    expect(buildNotificationSummary({ status: "failed", error: "Timed out" })).toBe(
+      "Error: Timed out",
+    );
+  });
+});
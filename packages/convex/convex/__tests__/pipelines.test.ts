@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import type { Id } from "../_generated/dataModel";
+import { findStepPromptError, summarizePipelineRun, validateStepReferences } from "../pipelines";
+import type { PipelineRunStep } from "../pipelines";
+import { findStepReferences, resolveStepReferences } from "../promptTemplate";
+
+const jobId = (n: number) => `job${n}` as Id<"researchJobs">;
+
+function step(name: string, overrides: Partial<PipelineRunStep> = {}): PipelineRunStep {
+  return {
+    name,
+    promptId: "prompt" as Id<"prompts">,
+    provider: "openai",
+    status: "waiting",
+    ...overrides,
+  };
+}
+
+describe("findStepReferences", () => {
+  it("lists each referenced step once, in order", () => {
+    expect(
+      findStepReferences("{{STEP_2_RESULT}} vs {{STEP_1_RESULT}}, again {{STEP_2_RESULT}}"),
+    ).toEqual([1, 2]);
+  });
+
+  it("ignores other variables", () => {
+    expect(findStepReferences("{{TICKER}} on {{DATE}}")).toEqual([]);
+  });
+});
+
+describe("resolveStepReferences", () => {
+  it("substitutes the output of earlier steps", () => {
+    expect(
+      resolveStepReferences("Critique:\n{{STEP_1_RESULT}}\n\nSummary: {{STEP_2_RESULT}}", [
+        "report",
+        "critique",
+      ]),
+    ).toBe("Critique:\nreport\n\nSummary: critique");
+  });
+
+  it("throws on a reference to a step without a result", () => {
+    expect(() => resolveStepReferences("{{STEP_3_RESULT}}", ["a", "b"])).toThrow(
+      "{{STEP_3_RESULT}} has no value: step 3 has no result for this run",
+    );
+    expect(() => resolveStepReferences("{{STEP_1_RESULT}}", [undefined])).toThrow();
+    expect(() => resolveStepReferences("{{STEP_1_RESULT}}", [])).toThrow();
+  });
+
+  it("does not substitute variables inside a step result", () => {
+    expect(resolveStepReferences("{{STEP_1_RESULT}}", ["{{STEP_2_RESULT}}", "b"])).toBe(
+      "{{STEP_2_RESULT}}",
+    );
+  });
+});
+
+describe("validateStepReferences", () => {
+  it("accepts references to earlier steps", () => {
+    expect(() =>
+      validateStepReferences([
+        { name: "Research", template: "Research {{TICKER}}" },
+        { name: "Critique", template: "Critique {{STEP_1_RESULT}}" },
+        { name: "Summary", template: "{{STEP_1_RESULT}} {{STEP_2_RESULT}}" },
+      ]),
+    ).not.toThrow();
+  });
+
+  it("rejects a step that uses its own or a later result", () => {
+    expect(() =>
+      validateStepReferences([
+        { name: "Research", template: "Research" },
+        { name: "Critique", template: "{{STEP_2_RESULT}}" },
+      ]),
+    ).toThrow('Step 2 ("Critique") uses {{STEP_2_RESULT}}, which is not an earlier step');
+  });
+
+  it("rejects step zero", () => {
+    expect(() => validateStepReferences([{ name: "Only", template: "{{STEP_0_RESULT}}" }])).toThrow(
+      "not an earlier step",
+    );
+  });
+});
+
+describe("summarizePipelineRun", () => {
+  const steps = [step("Research"), step("Critique"), step("Summary")];
+
+  it("is running while the current step is queued", () => {
+    const summary = summarizePipelineRun(steps, [
+      { _id: jobId(1), status: "queued", pipelineStep: 0 },
+    ]);
+    expect(summary.status).toBe("running");
+    expect(summary.currentStep).toBe(0);
+    expect(summary.nextStep).toBeNull();
+    expect(summary.steps.map((s) => s.status)).toEqual(["queued", "waiting", "waiting"]);
+    expect(summary.steps[0]!.jobId).toBe(jobId(1));
+  });
+
+  it("asks for the next step once the one before it completed", () => {
+    const summary = summarizePipelineRun(steps, [
+      { _id: jobId(1), status: "completed", costUsd: 1.25, pipelineStep: 0 },
+    ]);
+    expect(summary.status).toBe("running");
+    expect(summary.currentStep).toBe(1);
+    expect(summary.nextStep).toBe(1);
+    expect(summary.costUsd).toBe(1.25);
+  });
+
+  it("adds up the cost of every step", () => {
+    const summary = summarizePipelineRun(steps, [
+      { _id: jobId(1), status: "completed", costUsd: 1, pipelineStep: 0 },
+      { _id: jobId(2), status: "completed", costUsd: 0.5, pipelineStep: 1 },
+      { _id: jobId(3), status: "completed", costUsd: 0.25, pipelineStep: 2 },
+    ]);
+    expect(summary.status).toBe("completed");
+    expect(summary.currentStep).toBe(2);
+    expect(summary.nextStep).toBeNull();
+    expect(summary.costUsd).toBe(1.75);
+  });
+
+  it("fails when the current step failed, but not while it awaits a retry", () => {
+    const failed = summarizePipelineRun(steps, [
+      { _id: jobId(1), status: "completed", pipelineStep: 0 },
+      { _id: jobId(2), status: "failed", costUsd: 0.1, pipelineStep: 1 },
+    ]);
+    expect(failed.status).toBe("failed");
+    expect(failed.nextStep).toBeNull();
+    expect(failed.costUsd).toBe(0.1);
+
+    const retrying = summarizePipelineRun(steps, [
+      { _id: jobId(1), status: "completed", pipelineStep: 0 },
+      { _id: jobId(2), status: "failed", awaitingRetry: true, pipelineStep: 1 },
+    ]);
+    expect(retrying.status).toBe("running");
+    expect(retrying.steps[1]!.status).toBe("running");
+  });
+
+  it("is cancelled when the current step was cancelled", () => {
+    const summary = summarizePipelineRun(steps, [
+      { _id: jobId(1), status: "cancelled", pipelineStep: 0 },
+    ]);
+    expect(summary.status).toBe("cancelled");
+  });
+
+  it("keeps the last known state of a step whose job was deleted", () => {
+    const summary = summarizePipelineRun(
+      [step("Research", { jobId: jobId(1), status: "failed", costUsd: 0.3 }), step("Critique")],
+      [],
+    );
+    expect(summary.status).toBe("failed");
+    expect(summary.nextStep).toBeNull();
+    expect(summary.costUsd).toBe(0.3);
+  });
+});
+
+describe("findStepPromptError", () => {
+  it("needs a value for every parameter without a default", () => {
+    const template = "Research {{TICKER}} over {{HORIZON: select[6m,1y]}} with {{MAX_PICKS: number=5}}";
+    expect(findStepPromptError(template)).toBe("Missing value for {{HORIZON}}");
+    expect(findStepPromptError(template, { HORIZON: "2y" })).toBe("{{HORIZON}} must be one of 6m, 1y");
+    expect(findStepPromptError(template, { HORIZON: "1y" })).toBeNull();
+  });
+
+  it("reports template errors", () => {
+    expect(findStepPromptError("Research {{UNKNOWN}}")).toMatch(/^Invalid prompt template/);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  estimateCost,
+  estimateCostBreakdown,
+  sumCostBreakdowns,
+  sumTokenUsage,
+  DEFAULT_MODEL_RATES,
+} from "../pricing";
+
+const o3Rates = DEFAULT_MODEL_RATES["o3-deep-research"]!;
+
+describe("estimateCost", () => {
+  it("returns undefined for undefined usage", () => {
+    expect(estimateCost(undefined, o3Rates)).toBeUndefined();
+  });
+
+  it("returns 0 for zero tokens", () => {
+    expect(estimateCost({ inputTokens: 0, outputTokens: 0 }, o3Rates)).toBe(0);
+  });
+
+  it("calculates cost for input tokens only", () => {
+    // 1M input tokens * $10/1M = $10
+    expect(
+      estimateCost({ inputTokens: 1_000_000, outputTokens: 0 }, o3Rates),
+    ).toBe(10);
+  });
+
+  it("calculates cost for output tokens only", () => {
+    // 1M output tokens * $40/1M = $40
+    expect(
+      estimateCost({ inputTokens: 0, outputTokens: 1_000_000 }, o3Rates),
+    ).toBe(40);
+  });
+
+  it("calculates combined cost correctly", () => {
+    // 500K * $10/1M + 100K * $40/1M = $5 + $4 = $9
+    expect(
+      estimateCost({ inputTokens: 500_000, outputTokens: 100_000 }, o3Rates),
+    ).toBe(9);
+  });
+
+  it("handles small token counts", () => {
+    // 1000 * 10 / 1M + 500 * 40 / 1M = 0.01 + 0.02 = 0.03
+    expect(
+      estimateCost({ inputTokens: 1000, outputTokens: 500 }, o3Rates),
+    ).toBeCloseTo(0.03, 10);
+  });
+
+  it("bills cached input at the cached rate", () => {
+    // 600K * $10/1M + 400K * $2.5/1M = $6 + $1 = $7
+    expect(
+      estimateCost(
+        { inputTokens: 1_000_000, outputTokens: 0, cachedInputTokens: 400_000 },
+        o3Rates,
+      ),
+    ).toBe(7);
+  });
+
+  it("bills reasoning tokens at the reasoning rate", () => {
+    const rates = { ...o3Rates, reasoningPerMillion: 20 };
+    // 250K * $40/1M + 750K * $20/1M = $10 + $15 = $25
+    expect(
+      estimateCost(
+        { inputTokens: 0, outputTokens: 1_000_000, reasoningTokens: 750_000 },
+        rates,
+      ),
+    ).toBe(25);
+  });
+
+  it("adds the per-call web search fee", () => {
+    const rates = DEFAULT_MODEL_RATES["claude-sonnet-4-5"]!;
+    expect(
+      estimateCost(
+        { inputTokens: 0, outputTokens: 0, webSearchRequests: 20 },
+        rates,
+      ),
+    ).toBeCloseTo(0.2, 10);
+  });
+});
+
+describe("estimateCostBreakdown", () => {
+  it("returns undefined for undefined usage", () => {
+    expect(estimateCostBreakdown(undefined, o3Rates)).toBeUndefined();
+  });
+
+  it("splits cost into parts that add up to estimateCost", () => {
+    const usage = {
+      inputTokens: 500_000,
+      outputTokens: 300_000,
+      cachedInputTokens: 100_000,
+      reasoningTokens: 200_000,
+      webSearchRequests: 10,
+    };
+    const rates = DEFAULT_MODEL_RATES["claude-sonnet-4-5"]!;
+    const breakdown = estimateCostBreakdown(usage, rates)!;
+
+    // 400K uncached * $3/1M, 100K cached * $0.3/1M, 100K visible * $15/1M, 200K reasoning * $15/1M, 10 * $0.01
+    expect(breakdown.inputUsd).toBeCloseTo(1.2);
+    expect(breakdown.cachedInputUsd).toBeCloseTo(0.03);
+    expect(breakdown.outputUsd).toBeCloseTo(1.5);
+    expect(breakdown.reasoningUsd).toBeCloseTo(3);
+    expect(breakdown.webSearchUsd).toBeCloseTo(0.1);
+
+    const total = Object.values(breakdown).reduce((sum, part) => sum + part, 0);
+    expect(total).toBeCloseTo(estimateCost(usage, rates)!);
+  });
+});
+
+describe("sumTokenUsage", () => {
+  it("adds usage across runs and treats missing counts as zero", () => {
+    expect(
+      sumTokenUsage([
+        { inputTokens: 100, outputTokens: 50, reasoningTokens: 20 },
+        undefined,
+        { inputTokens: 10, outputTokens: 5, cachedInputTokens: 4, webSearchRequests: 3 },
+      ]),
+    ).toEqual({
+      inputTokens: 110,
+      outputTokens: 55,
+      cachedInputTokens: 4,
+      reasoningTokens: 20,
+      webSearchRequests: 3,
+    });
+  });
+});
+
+describe("sumCostBreakdowns", () => {
+  it("adds each part across runs", () => {
+    const part = { inputUsd: 1, cachedInputUsd: 0.5, outputUsd: 2, reasoningUsd: 3, webSearchUsd: 0.25 };
+    expect(sumCostBreakdowns([part, undefined, part])).toEqual({
+      inputUsd: 2,
+      cachedInputUsd: 1,
+      outputUsd: 4,
+      reasoningUsd: 6,
+      webSearchUsd: 0.5,
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import type { Id } from "../_generated/dataModel";
+import { commonErrors, monthlyCostTrend, summarizeRuns } from "../promptAnalytics";
+
+type Run = Parameters<typeof summarizeRuns>[0][number];
+
+let nextId = 0;
+const run = (overrides: Partial<Run> = {}): Run => ({
+  _id: `job_${nextId++}` as Id<"researchJobs">,
+  status: "completed",
+  createdAt: new Date(2026, 4, 10).getTime(),
+  ...overrides,
+});
+
+describe("summarizeRuns", () => {
+  it("counts outcomes and rates over finished runs, cancelled ones aside", () => {
+    const summary = summarizeRuns(
+      [
+        run({ durationMs: 60_000 }),
+        run({ durationMs: 120_000 }),
+        run({ durationMs: 300_000 }),
+        run({ status: "failed" }),
+        run({ status: "failed", awaitingRetry: true }),
+        run({ status: "cancelled" }),
+        run({ status: "running" }),
+      ],
+      new Map([
+        ["job_a", 1],
+        ["job_b", 3],
+      ]),
+    );
+    expect(summary).toMatchObject({
+      runs: 7,
+      completed: 3,
+      failed: 1,
+      cancelled: 1,
+      active: 2,
+      successRate: 0.75,
+      failureRate: 0.25,
+      totalCostUsd: 4,
+    });
+    expect(summary.durationMs?.median).toBe(120_000);
+    expect(summary.costUsd?.median).toBe(2);
+  });
+
+  it("has no rates or spreads before any run finished", () => {
+    const summary = summarizeRuns([run({ status: "queued" })], new Map());
+    expect(summary.successRate).toBeNull();
+    expect(summary.durationMs).toBeNull();
+    expect(summary.costUsd).toBeNull();
+  });
+});
+
+describe("monthlyCostTrend", () => {
+  it("buckets cost and runs by month, with empty months filled in", () => {
+    const now = new Date(2026, 4, 20).getTime();
+    const trend = monthlyCostTrend(
+      [
+        { costUsd: 2, timestamp: new Date(2026, 4, 1).getTime() },
+        { costUsd: 1.5, timestamp: new Date(2026, 2, 15).getTime() },
+        // Before the window
+        { costUsd: 9, timestamp: new Date(2025, 11, 31).getTime() },
+      ],
+      [{ createdAt: new Date(2026, 4, 2).getTime() }, { createdAt: new Date(2026, 2, 14).getTime() }],
+      3,
+      now,
+    );
+    expect(trend).toEqual([
+      { month: "2026-03", costUsd: 1.5, runs: 1 },
+      { month: "2026-04", costUsd: 0, runs: 0 },
+      { month: "2026-05", costUsd: 2, runs: 1 },
+    ]);
+  });
+});
+
+describe("commonErrors", () => {
+  it("groups final failures on their first line, most frequent first", () => {
+    const errors = commonErrors(
+      [
+        run({ status: "failed", error: "Rate limited (429)\nRetry later", createdAt: 1 }),
+        run({ status: "failed", error: "Rate limited (429)", createdAt: 5 }),
+        run({ status: "failed", error: "Timed out", createdAt: 9 }),
+        run({ status: "failed", error: "Timed out again", awaitingRetry: true }),
+        run({ error: "Recovered" }),
+      ],
+      5,
+    );
+    expect(errors).toEqual([
+      { message: "Rate limited (429)", count: 2, lastSeenAt: 5 },
+      { message: "Timed out", count: 1, lastSeenAt: 9 },
+    ]);
+    expect(commonErrors([run({ status: "failed", error: "A" }), run({ status: "failed", error: "B" })], 1)).toHaveLength(1);
+  });
+});
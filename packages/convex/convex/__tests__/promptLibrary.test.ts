@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import type { Id } from "../_generated/dataModel";
+import { planPromptImport } from "../promptLibrary";
+import type { PromptLibraryEntry } from "../promptLibrary";
+
+const existing = [
+  {
+    _id: "prompt_1" as Id<"prompts">,
+    name: "Earnings Preview",
+    description: "Before the call",
+    type: "single-stock" as const,
+    template: "Preview {{TICKER}} earnings",
+    defaultProvider: "openai" as const,
+    defaultModel: "o3-deep-research",
+  },
+];
+
+const entry = (overrides: Partial<PromptLibraryEntry> = {}): PromptLibraryEntry => ({
+  name: "Earnings Preview",
+  description: "Before the call",
+  type: "single-stock",
+  template: "Preview {{TICKER}} earnings",
+  defaultProvider: "openai",
+  defaultModel: "o3-deep-research",
+  ...overrides,
+});
+
+describe("planPromptImport", () => {
+  it("creates prompts whose name is new", () => {
+    const [item] = planPromptImport(existing, [entry({ name: "Sector Scan", defaultProvider: undefined, defaultModel: undefined })]);
+    expect(item).toMatchObject({ name: "Sector Scan", action: "create" });
+    expect(item!.fields?.defaultProvider).toBe("openai");
+  });
+
+  it("matches existing prompts by name, ignoring case and spacing", () => {
+    const [item] = planPromptImport(existing, [entry({ name: "  earnings preview " })]);
+    expect(item).toMatchObject({ action: "update", promptId: "prompt_1", changes: ["name"] });
+  });
+
+  it("lists the fields an update changes", () => {
+    const [item] = planPromptImport(existing, [
+      entry({ template: "Preview {{TICKER}} results", defaultProvider: "anthropic", defaultModel: undefined }),
+    ]);
+    expect(item).toMatchObject({ action: "update", changes: ["template", "provider", "model"] });
+    expect(item!.fields?.defaultModel).toBeUndefined();
+  });
+
+  it("keeps fields the entry leaves out", () => {
+    const [item] = planPromptImport(existing, [
+      entry({ description: undefined, defaultProvider: undefined, defaultModel: undefined }),
+    ]);
+    expect(item).toMatchObject({ action: "unchanged", changes: [] });
+  });
+
+  it("rejects entries that fail prompt validation", () => {
+    const plan = planPromptImport(existing, [
+      entry({ name: "Broken", template: "{{#if SECTOR}}open" }),
+      entry({ name: "Wrong model", defaultModel: "claude-opus-4-1" }),
+      entry({ name: " " }),
+    ]);
+    expect(plan.map((item) => item.action)).toEqual(["invalid", "invalid", "invalid"]);
+    expect(plan[0]!.error).toContain("Invalid prompt template");
+    expect(plan[1]!.error).toContain("not available for OpenAI");
+    expect(plan[2]!.error).toBe("Prompt name is required");
+  });
+
+  it("rejects names that appear more than once in the import", () => {
+    const plan = planPromptImport([], [entry({ name: "Scan" }), entry({ name: "SCAN" })]);
+    expect(plan.map((item) => item.error)).toEqual([
+      "Appears more than once in the import",
+      "Appears more than once in the import",
+    ]);
+  });
+});
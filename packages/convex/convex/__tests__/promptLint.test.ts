@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { lintPromptTemplate } from "../promptLint";
+
+const messages = (template: string, options: Parameters<typeof lintPromptTemplate>[1] = {}) =>
+  lintPromptTemplate(template, options).map((issue) => `${issue.severity} ${issue.line}: ${issue.message}`);
+
+describe("lintPromptTemplate", () => {
+  it("reports template errors with a hint for misspelled variables", () => {
+    const [issue] = lintPromptTemplate("Research {{TIKCER}}");
+    expect(issue).toEqual({
+      line: 1,
+      severity: "error",
+      message: "Unknown variable {{TIKCER}}",
+      hint: "Did you mean {{TICKER}}?",
+    });
+    expect(lintPromptTemplate("{{company_name}}")[0]!.hint).toBe("Did you mean {{COMPANY_NAME}}?");
+    expect(lintPromptTemplate("{{FOO}}")[0]!.hint).toBeUndefined();
+  });
+
+  it("reports unbalanced blocks", () => {
+    expect(messages("{{#if SECTOR}}\nSector: {{SECTOR}}")).toEqual([
+      "error 1: {{#if}} is never closed",
+    ]);
+    expect(messages("{{#each STOCKS}}\n{{TICKER}}\n{{/if}}")).toContain(
+      "error 3: Expected {{/each}} for the {{#each}} on line 1",
+    );
+  });
+
+  it("requires {{TICKER}} in single-stock prompts", () => {
+    expect(messages("Research {{COMPANY_NAME}}", { type: "single-stock" })).toEqual([
+      "error 1: Single-stock prompts must use {{TICKER}} to say which stock to research",
+    ]);
+    expect(messages("{{#if TICKER}}Research it{{/if}}", { type: "single-stock" })).toEqual([]);
+  });
+
+  it("rejects stocks in discovery prompts and warns on per-stock variables", () => {
+    expect(
+      messages("Screen as of {{DATE}}\nSkip {{STOCKS}}\n{{#each STOCKS}}{{TICKER}}{{/each}}", {
+        type: "discovery",
+      }),
+    ).toEqual([
+      "error 2: Discovery prompts run without stocks, so {{STOCKS}} is always empty",
+      "error 3: Discovery prompts run without stocks, so {{#each STOCKS}} never repeats",
+      "warning 3: Discovery prompts run without stocks, so {{TICKER}} is always empty",
+    ]);
+  });
+
+  it("warns on per-stock variables outside the loop of a multi-stock prompt", () => {
+    expect(
+      messages("Compare {{STOCKS}} in {{SECTOR}}\n{{#each STOCKS}}\n- {{TICKER}}\n{{/each}}", {
+        type: "multi-stock",
+      }),
+    ).toEqual(["warning 1: {{SECTOR}} outside {{#each STOCKS}} only refers to the first stock"]);
+  });
+
+  it("warns on malformed and single-brace placeholders", () => {
+    const issues = lintPromptTemplate("Research {{TICKER}}\nAs of {DATE}\nSee {{ TICKER\n{{{TICKER}}}");
+    expect(issues.map((issue) => [issue.line, issue.severity, issue.hint])).toEqual([
+      [2, "warning", "Did you mean {{DATE}}?"],
+      [3, "warning", "Write variables as {{NAME}}"],
+    ]);
+  });
+
+  it("warns when the rendered prompt takes most of the model's context", () => {
+    const template = `{{#each STOCKS}}\n${"Analyze {{TICKER}} in depth. ".repeat(400)}\n{{/each}}`;
+    expect(lintPromptTemplate(template, { type: "multi-stock", model: "o3-deep-research" })).toEqual([]);
+
+    const [issue] = lintPromptTemplate(template, {
+      type: "multi-stock",
+      model: "o3-deep-research",
+      stockCount: 100,
+    });
+    expect(issue?.severity).toBe("warning");
+    expect(issue?.message).toMatch(/^About [\d,]+ tokens with 100 stocks, more than half of o3-deep-research's 200,000-token context/);
+
+    // Without a model there is no context to compare against
+    expect(lintPromptTemplate(template, { type: "multi-stock", stockCount: 100 })).toEqual([]);
+  });
+
+  it("counts pipeline step results toward the prompt size", () => {
+    const template = Array.from({ length: 13 }, (_, i) => `{{STEP_${i + 1}_RESULT}}`).join("\n");
+    const options = { type: "discovery" as const, pipelineSteps: [14] };
+    expect(lintPromptTemplate(template, { ...options, provider: "anthropic" })).toHaveLength(1);
+    expect(lintPromptTemplate(template, { ...options, provider: "gemini" })).toEqual([]);
+  });
+
+  it("checks step references against the pipeline steps the prompt runs as", () => {
+    const template = "Critique {{STEP_1_RESULT}}\nand {{STEP_2_RESULT}}";
+    expect(messages(template, { pipelineSteps: [3] })).toEqual([]);
+    expect(messages(template, { pipelineSteps: [3, 2] })).toEqual([
+      "error 2: {{STEP_2_RESULT}} is not an earlier step of step 2",
+    ]);
+    expect(messages(template, { pipelineSteps: [] })).toEqual([
+      "error 1: {{STEP_1_RESULT}} only has a value when the prompt runs as a pipeline step",
+      "error 2: {{STEP_2_RESULT}} only has a value when the prompt runs as a pipeline step",
+    ]);
+    // Not known yet, as for a new prompt
+    expect(messages(template)).toEqual([
+      "warning 1: {{STEP_1_RESULT}} only has a value when the prompt runs as a pipeline step",
+      "warning 2: {{STEP_2_RESULT}} only has a value when the prompt runs as a pipeline step",
+    ]);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  findPromptParameters,
+  findTemplateErrors,
+  resolveParameterValues,
+  resolvePromptTemplate,
+} from "../promptTemplate";
+import type { TemplateStock } from "../promptTemplate";
+import { toTemplateStock } from "../earnings";
+
+const apple: TemplateStock = {
+  ticker: "AAPL",
+  companyName: "Apple Inc.",
+  exchange: "NASDAQ",
+  sector: "Technology",
+  tags: ["core", "hardware"],
+  nextEarningsDate: "2025-01-30",
+  lastEarnings: { date: "2024-10-31", epsActual: 1.64, epsEstimate: 1.6 },
+};
+
+const bank: TemplateStock = {
+  ticker: "JPM",
+  companyName: "JPMorgan Chase & Co.",
+  exchange: "NYSE",
+  tags: [],
+};
+
+const vars = { stocks: [apple, bank], date: "2025-01-15" };
+
+describe("resolvePromptTemplate", () => {
+  it("reads stock fields from the first stock outside of loops", () => {
+    expect(
+      resolvePromptTemplate("{{COMPANY_NAME}} ({{EXCHANGE}}: {{TICKER}}), {{SECTOR}}, tagged {{TAGS}}", vars),
+    ).toBe("Apple Inc. (NASDAQ: AAPL), Technology, tagged core, hardware");
+  });
+
+  it("formats earnings context", () => {
+    expect(resolvePromptTemplate("{{NEXT_EARNINGS_DATE}} | {{LAST_EPS_SURPRISE}}", vars)).toBe(
+      "2025-01-30 | +2.5% (EPS 1.64 vs 1.60 estimated, reported 2024-10-31)",
+    );
+    expect(resolvePromptTemplate("[{{LAST_EPS_SURPRISE}}]", { ...vars, stocks: [bank] })).toBe("[]");
+  });
+
+  it("repeats loops per stock and drops lines holding only block tags", () => {
+    const template = [
+      "Stocks:",
+      "{{#each STOCKS}}",
+      "- {{TICKER}}{{#if SECTOR}} ({{SECTOR}}){{/if}}",
+      "{{/each}}",
+      "Done",
+    ].join("\n");
+    expect(resolvePromptTemplate(template, vars)).toBe(
+      "Stocks:\n- AAPL (Technology)\n- JPM\nDone",
+    );
+  });
+
+  it("renders the else branch when the variable is empty", () => {
+    const template = "{{#if NEXT_EARNINGS_DATE}}Reports {{NEXT_EARNINGS_DATE}}{{else}}No date{{/if}}";
+    expect(resolvePromptTemplate(template, vars)).toBe("Reports 2025-01-30");
+    expect(resolvePromptTemplate(template, { ...vars, stocks: [bank] })).toBe("No date");
+  });
+
+  it("keeps pipeline step references for later", () => {
+    expect(resolvePromptTemplate("Review {{STEP_1_RESULT}} for {{TICKER}}", vars)).toBe(
+      "Review {{STEP_1_RESULT}} for AAPL",
+    );
+  });
+
+  it("throws instead of sending unknown variables to the model", () => {
+    expect(() => resolvePromptTemplate("Hello {{FOO}}", vars)).toThrow(
+      "Invalid prompt template: Unknown variable {{FOO}} (line 1)",
+    );
+  });
+});
+
+describe("findTemplateErrors", () => {
+  it("accepts a valid template", () => {
+    expect(findTemplateErrors("{{#each STOCKS}}{{TICKER}}{{/each}} on {{DATE}}")).toEqual([]);
+  });
+
+  it("reports block mistakes with their line", () => {
+    expect(
+      findTemplateErrors("{{#each TAGS}}\n{{TICKER}}\n{{/if}}\n{{else}}\n{{#if}}"),
+    ).toEqual([
+      { line: 1, message: "Only {{#each STOCKS}} loops are supported" },
+      { line: 1, message: "{{#each}} is never closed" },
+      { line: 3, message: "Expected {{/each}} for the {{#each}} on line 1" },
+      { line: 4, message: "{{else}} must be inside an {{#if}} block" },
+      { line: 5, message: "{{#if}} needs a variable to test" },
+      { line: 5, message: "{{#if}} is never closed" },
+    ]);
+  });
+
+  it("flags unknown variables and blocks", () => {
+    expect(findTemplateErrors("{{#if PRICE}}{{/if}} {{#with X}}")).toEqual([
+      { line: 1, message: "Unknown variable {{PRICE}} in {{#if}}" },
+      { line: 1, message: "Unknown block {{#with}}" },
+    ]);
+  });
+});
+
+describe("prompt parameters", () => {
+  const template = [
+    "Horizon: {{HORIZON: select[6m, 1y, 3y]=1y}}",
+    "{{#if FOCUS}}Focus on {{FOCUS: text}}.{{/if}}",
+    "Pick at most {{MAX_PICKS: number=5}} ideas over {{HORIZON}}.",
+  ].join("\n");
+
+  it("lists declarations in order", () => {
+    expect(findPromptParameters(template)).toEqual([
+      { name: "HORIZON", type: "select", options: ["6m", "1y", "3y"], defaultValue: "1y" },
+      { name: "FOCUS", type: "text", defaultValue: undefined },
+      { name: "MAX_PICKS", type: "number", defaultValue: "5" },
+    ]);
+  });
+
+  it("renders values and falls back to defaults", () => {
+    expect(resolvePromptTemplate(template, { ...vars, parameters: { HORIZON: "3y" } })).toBe(
+      "Horizon: 3y\n\nPick at most 5 ideas over 3y.",
+    );
+    expect(
+      resolvePromptTemplate(template, { ...vars, parameters: { FOCUS: "margins", MAX_PICKS: "3" } }),
+    ).toBe("Horizon: 1y\nFocus on margins.\nPick at most 3 ideas over 1y.");
+  });
+
+  it("resolves the values a run is stored with", () => {
+    const parameters = findPromptParameters(template);
+    expect(resolveParameterValues(parameters, { FOCUS: " margins ", OLD: "x" })).toEqual({
+      HORIZON: "1y",
+      FOCUS: "margins",
+      MAX_PICKS: "5",
+    });
+    expect(() => resolveParameterValues(parameters, {})).toThrow("Missing value for {{FOCUS}}");
+    expect(() => resolveParameterValues(parameters, { FOCUS: "a", HORIZON: "5y" })).toThrow(
+      "{{HORIZON}} must be one of 6m, 1y, 3y",
+    );
+    expect(() => resolveParameterValues(parameters, { FOCUS: "a", MAX_PICKS: "many" })).toThrow(
+      "{{MAX_PICKS}} must be a number",
+    );
+  });
+
+  it("rejects bad declarations", () => {
+    expect(
+      findTemplateErrors(
+        "{{TICKER: text}} {{horizon: text}} {{A: date}} {{B: select[]}} {{C: number=x}} {{D: text[a]}} {{E: select[a]=b}}\n{{F: text}} {{F: number}}",
+      ).map((error) => error.message),
+    ).toEqual([
+      "{{TICKER}} is a built-in variable and can't be declared as a parameter",
+      "Parameter {{horizon}} must be named with upper case letters, digits and underscores",
+      "Unknown type for parameter {{A}}; use text, number or select[…]",
+      "{{B}} needs options, like select[6m,1y]",
+      "Default of {{C}} must be a number",
+      "Only select parameters take options, not {{D}}",
+      "Default of {{E}} must be one of its options",
+      "{{F}} is declared again with a different type",
+    ]);
+  });
+});
+
+describe("toTemplateStock", () => {
+  const stock = {
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    companyName: "Apple Inc.",
+    tags: [],
+  } as unknown as Doc<"stocks">;
+
+  const earning = (date: string, epsActual?: number, epsEstimate?: number) =>
+    ({ stockId: "s" as Id<"stocks">, symbol: "AAPL", date, epsActual, epsEstimate }) as Doc<"earnings">;
+
+  it("picks the next date and the last reported quarter around the run date", () => {
+    const result = toTemplateStock(
+      stock,
+      [
+        earning("2025-04-30"),
+        earning("2024-10-31", 1.64, 1.6),
+        earning("2025-01-30"),
+        earning("2025-01-10", 2.1),
+        earning("2024-08-01", 1.4, 1.35),
+      ],
+      "2025-01-15",
+    );
+    expect(result.nextEarningsDate).toBe("2025-01-30");
+    expect(result.lastEarnings).toEqual({ date: "2024-10-31", epsActual: 1.64, epsEstimate: 1.6 });
+  });
+
+  it("counts an earnings date on the run date as upcoming", () => {
+    expect(toTemplateStock(stock, [earning("2025-01-15")], "2025-01-15").nextEarningsDate).toBe(
+      "2025-01-15",
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import {
+  PROVIDER_MODELS,
+  getDefaultModel,
+  resolveJobModel,
+  validateProviderModel,
+} from "../providers";
+import { DEFAULT_MODEL_RATES } from "../pricing";
+
+describe("PROVIDER_MODELS", () => {
+  it("has default pricing for every model", () => {
+    for (const models of Object.values(PROVIDER_MODELS)) {
+      for (const model of models) {
+        expect(DEFAULT_MODEL_RATES[model]).toBeDefined();
+      }
+    }
+  });
+});
+
+describe("validateProviderModel", () => {
+  it("accepts a model offered by the provider", () => {
+    expect(() =>
+      validateProviderModel("openai", "o4-mini-deep-research"),
+    ).not.toThrow();
+  });
+
+  it("rejects a model from another provider", () => {
+    expect(() => validateProviderModel("openai", "claude-sonnet-4-5")).toThrow(
+      'Model "claude-sonnet-4-5" is not available for OpenAI',
+    );
+  });
+});
+
+describe("resolveJobModel", () => {
+  const prompt = {
+    defaultProvider: "openai" as const,
+    defaultModel: "o4-mini-deep-research",
+  };
+
+  it("prefers an explicit model", () => {
+    expect(resolveJobModel("openai", "o3-deep-research", prompt)).toBe(
+      "o3-deep-research",
+    );
+  });
+
+  it("falls back to the prompt default for the same provider", () => {
+    expect(resolveJobModel("openai", undefined, prompt)).toBe(
+      "o4-mini-deep-research",
+    );
+  });
+
+  it("ignores the prompt default when the provider differs", () => {
+    expect(resolveJobModel("anthropic", undefined, prompt)).toBe(
+      getDefaultModel("anthropic"),
+    );
+  });
+
+  it("rejects a model that does not match the provider", () => {
+    expect(() =>
+      resolveJobModel("gemini", "o3-deep-research", prompt),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import type { Id } from "../_generated/dataModel";
+import { buildChangesInput, isPreviousRunOf, sameStockSet } from "../reportChanges";
+
+const stockId = (ticker: string) => `stock_${ticker}` as Id<"stocks">;
+
+function run(id: string, createdAt: number) {
+  return {
+    _id: id as Id<"researchJobs">,
+    status: "completed" as const,
+    stockIds: [stockId("AAPL")],
+    createdAt,
+  };
+}
+
+describe("sameStockSet", () => {
+  it("ignores order and duplicates", () => {
+    expect(sameStockSet([stockId("AAPL"), stockId("MSFT")], [stockId("MSFT"), stockId("AAPL")])).toBe(
+      true,
+    );
+    expect(sameStockSet([stockId("AAPL"), stockId("AAPL")], [stockId("AAPL")])).toBe(true);
+  });
+
+  it("rejects different stocks", () => {
+    expect(sameStockSet([stockId("AAPL")], [stockId("MSFT")])).toBe(false);
+    expect(sameStockSet([stockId("AAPL")], [stockId("AAPL"), stockId("MSFT")])).toBe(false);
+  });
+
+  it("matches two discovery runs without stocks", () => {
+    expect(sameStockSet([], [])).toBe(true);
+  });
+});
+
+describe("isPreviousRunOf", () => {
+  const job = run("current", 2000);
+
+  it("accepts an earlier completed run on the same stocks", () => {
+    expect(isPreviousRunOf(run("earlier", 1000), job)).toBe(true);
+  });
+
+  it("skips the job itself, later runs and unfinished runs", () => {
+    expect(isPreviousRunOf(job, job)).toBe(false);
+    expect(isPreviousRunOf(run("later", 3000), job)).toBe(false);
+    expect(isPreviousRunOf({ ...run("earlier", 1000), status: "failed" }, job)).toBe(false);
+  });
+
+  it("skips follow-up questions and pipeline steps", () => {
+    expect(
+      isPreviousRunOf({ ...run("followUp", 1000), parentJobId: "parent" as Id<"researchJobs"> }, job),
+    ).toBe(false);
+    expect(
+      isPreviousRunOf({ ...run("step", 1000), pipelineRunId: "run" as Id<"pipelineRuns"> }, job),
+    ).toBe(false);
+  });
+
+  it("skips runs on other stocks", () => {
+    expect(isPreviousRunOf({ ...run("other", 1000), stockIds: [stockId("MSFT")] }, job)).toBe(false);
+  });
+});
+
+describe("buildChangesInput", () => {
+  const previous = { createdAt: Date.UTC(2026, 0, 5), report: "Rating: Hold" };
+  const current = { createdAt: Date.UTC(2026, 0, 12), report: "Rating: Buy" };
+
+  it("tags both reports with their run date, previous first", () => {
+    const input = buildChangesInput(previous, current);
+    expect(input).toContain('<previous_report date="2026-01-05">\nRating: Hold\n</previous_report>');
+    expect(input).toContain('<current_report date="2026-01-12">\nRating: Buy\n</current_report>');
+    expect(input.indexOf("previous_report")).toBeLessThan(input.indexOf("current_report"));
+  });
+
+  it("truncates very long reports", () => {
+    const input = buildChangesInput({ createdAt: 0, report: "x".repeat(70_000) }, current);
+    expect(input).toContain("[Report truncated]");
+    expect(input.length).toBeLessThan(61_000);
+  });
+});
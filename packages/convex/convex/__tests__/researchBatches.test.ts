@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { summarizeBatch } from "../researchBatches";
+
+describe("summarizeBatch", () => {
+  it("is running while any child is still active", () => {
+    const summary = summarizeBatch([
+      { status: "completed", costUsd: 1.5 },
+      { status: "running" },
+      { status: "queued" },
+    ]);
+    expect(summary).toEqual({
+      status: "running",
+      total: 3,
+      completed: 1,
+      failed: 0,
+      cancelled: 0,
+      active: 2,
+      costUsd: 1.5,
+      progress: 1 / 3,
+    });
+  });
+
+  it("counts a failed child awaiting retry as active", () => {
+    const summary = summarizeBatch([
+      { status: "completed" },
+      { status: "failed", awaitingRetry: true },
+    ]);
+    expect(summary.status).toBe("running");
+    expect(summary.failed).toBe(0);
+    expect(summary.active).toBe(1);
+  });
+
+  it("is completed when every child completed", () => {
+    const summary = summarizeBatch([
+      { status: "completed", costUsd: 1 },
+      { status: "completed", costUsd: 2 },
+    ]);
+    expect(summary.status).toBe("completed");
+    expect(summary.costUsd).toBe(3);
+    expect(summary.progress).toBe(1);
+  });
+
+  it("is partial when some children completed and others did not", () => {
+    const summary = summarizeBatch([
+      { status: "completed" },
+      { status: "failed" },
+      { status: "cancelled" },
+    ]);
+    expect(summary.status).toBe("partial");
+    expect(summary.failed).toBe(1);
+    expect(summary.cancelled).toBe(1);
+  });
+
+  it("is failed when nothing completed", () => {
+    expect(
+      summarizeBatch([{ status: "failed" }, { status: "cancelled" }]).status,
+    ).toBe("failed");
+  });
+
+  it("is cancelled when every child was cancelled", () => {
+    expect(
+      summarizeBatch([{ status: "cancelled" }, { status: "cancelled" }]).status,
+    ).toBe("cancelled");
+  });
+});
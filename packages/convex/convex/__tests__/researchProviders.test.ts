@@ -0,0 +1,258 @@
+import { describe, it, expect } from "vitest";
+import {
+  toOpenAIUsage,
+  toAnthropicUsage,
+  toGeminiUsage,
+  toAnthropicSnapshot,
+  toAnthropicBatchSnapshot,
+  toGeminiSnapshot,
+  extractOpenAISources,
+} from "../researchProviders";
+import type OpenAI from "openai";
+
+describe("toOpenAIUsage", () => {
+  it("returns undefined for undefined usage", () => {
+    expect(toOpenAIUsage(undefined)).toBeUndefined();
+  });
+
+  it("maps cached and reasoning token details", () => {
+    expect(
+      toOpenAIUsage({
+        input_tokens: 500_000,
+        output_tokens: 100_000,
+        input_tokens_details: { cached_tokens: 200_000 },
+        output_tokens_details: { reasoning_tokens: 80_000 },
+        total_tokens: 600_000,
+      }),
+    ).toEqual({
+      inputTokens: 500_000,
+      outputTokens: 100_000,
+      cachedInputTokens: 200_000,
+      reasoningTokens: 80_000,
+    });
+  });
+});
+
+describe("toAnthropicUsage", () => {
+  it("returns undefined for undefined usage", () => {
+    expect(toAnthropicUsage(undefined)).toBeUndefined();
+  });
+
+  it("folds cache reads into input tokens", () => {
+    expect(
+      toAnthropicUsage({
+        input_tokens: 1_000,
+        output_tokens: 500,
+        cache_read_input_tokens: 4_000,
+        server_tool_use: { web_search_requests: 20 },
+      }),
+    ).toEqual({
+      inputTokens: 5_000,
+      outputTokens: 500,
+      cachedInputTokens: 4_000,
+      webSearchRequests: 20,
+    });
+  });
+});
+
+describe("toGeminiUsage", () => {
+  it("returns undefined for undefined usage", () => {
+    expect(toGeminiUsage(undefined)).toBeUndefined();
+  });
+
+  it("treats missing token counts as zero", () => {
+    expect(toGeminiUsage({})).toEqual({
+      inputTokens: 0,
+      outputTokens: 0,
+      cachedInputTokens: 0,
+      reasoningTokens: 0,
+    });
+  });
+
+  it("counts thought tokens as reasoning output", () => {
+    expect(
+      toGeminiUsage({
+        total_input_tokens: 1_000_000,
+        total_output_tokens: 500_000,
+        total_thought_tokens: 200_000,
+      }),
+    ).toMatchObject({ outputTokens: 700_000, reasoningTokens: 200_000 });
+  });
+});
+
+describe("toAnthropicSnapshot", () => {
+  it("joins text blocks into a completed snapshot", () => {
+    const snapshot = toAnthropicSnapshot({
+      id: "msg_1",
+      content: [
+        { type: "text", text: "Part one. " },
+        { type: "server_tool_use" },
+        { type: "text", text: "Part two." },
+      ],
+      stop_reason: "end_turn",
+      usage: { input_tokens: 0, output_tokens: 0 },
+    });
+    expect(snapshot).toEqual({
+      externalJobId: "msg_1",
+      status: "completed",
+      outputText: "Part one. Part two.",
+      usage: {
+        inputTokens: 0,
+        outputTokens: 0,
+        cachedInputTokens: 0,
+        webSearchRequests: 0,
+      },
+      sources: [],
+    });
+  });
+
+  it("records citations with the span of their text block", () => {
+    const snapshot = toAnthropicSnapshot({
+      id: "msg_4",
+      content: [
+        { type: "text", text: "Revenue grew. " },
+        {
+          type: "text",
+          text: "Margins hit 40%.",
+          citations: [
+            {
+              type: "web_search_result_location",
+              url: "https://example.com/q3",
+              title: "Q3 results",
+              cited_text: "gross margin of 40%",
+            },
+          ],
+        },
+      ],
+      stop_reason: "end_turn",
+    });
+    expect(snapshot.sources).toEqual([
+      {
+        url: "https://example.com/q3",
+        title: "Q3 results",
+        start: 14,
+        end: 30,
+        citedText: "gross margin of 40%",
+      },
+    ]);
+  });
+
+  it("fails when the model refuses", () => {
+    const snapshot = toAnthropicSnapshot({
+      id: "msg_2",
+      content: [{ type: "text", text: "I can't help with that." }],
+      stop_reason: "refusal",
+    });
+    expect(snapshot.status).toBe("failed");
+    expect(snapshot.error).toContain("refusal");
+  });
+
+  it("fails when no text is returned", () => {
+    const snapshot = toAnthropicSnapshot({
+      id: "msg_3",
+      content: [],
+      stop_reason: "max_tokens",
+    });
+    expect(snapshot.status).toBe("failed");
+  });
+});
+
+describe("toAnthropicBatchSnapshot", () => {
+  it("keys a succeeded run by its batch", () => {
+    const snapshot = toAnthropicBatchSnapshot("msgbatch_1", {
+      type: "succeeded",
+      message: {
+        id: "msg_1",
+        content: [{ type: "text", text: "# Report" }],
+        stop_reason: "end_turn",
+      },
+    });
+    expect(snapshot.externalJobId).toBe("msgbatch_1");
+    expect(snapshot.status).toBe("completed");
+    expect(snapshot.outputText).toBe("# Report");
+  });
+
+  it("fails with the API error so it can be classified", () => {
+    const snapshot = toAnthropicBatchSnapshot("msgbatch_2", {
+      type: "errored",
+      error: { error: { type: "overloaded_error", message: "Overloaded" } },
+    });
+    expect(snapshot.status).toBe("failed");
+    expect(snapshot.error).toBe("Anthropic API error (overloaded_error): Overloaded");
+  });
+
+  it("maps cancelled and expired requests", () => {
+    expect(toAnthropicBatchSnapshot("msgbatch_3", { type: "canceled" }).status).toBe("cancelled");
+    expect(toAnthropicBatchSnapshot("msgbatch_4", { type: "expired" }).status).toBe("failed");
+  });
+
+  it("fails when the batch has no result for the run", () => {
+    expect(toAnthropicBatchSnapshot("msgbatch_5", undefined).status).toBe("failed");
+  });
+});
+
+describe("toGeminiSnapshot", () => {
+  it("maps in-progress interactions to running", () => {
+    expect(toGeminiSnapshot({ id: "int_1", status: "in_progress" })).toEqual({
+      externalJobId: "int_1",
+      status: "running",
+    });
+  });
+
+  it("joins text outputs for completed interactions", () => {
+    const snapshot = toGeminiSnapshot({
+      id: "int_2",
+      status: "completed",
+      outputs: [
+        { type: "thought" },
+        { type: "text", text: "# Report" },
+        { type: "text", text: "Body" },
+      ],
+    });
+    expect(snapshot.status).toBe("completed");
+    expect(snapshot.outputText).toBe("# Report\n\nBody");
+  });
+
+  it("surfaces the provider error message on failure", () => {
+    const snapshot = toGeminiSnapshot({
+      id: "int_3",
+      status: "failed",
+      error: { message: "quota exceeded" },
+    });
+    expect(snapshot).toMatchObject({ status: "failed", error: "quota exceeded" });
+  });
+
+  it("maps cancelled interactions", () => {
+    expect(toGeminiSnapshot({ id: "int_4", status: "cancelled" }).status).toBe(
+      "cancelled",
+    );
+  });
+});
+
+describe("extractOpenAISources", () => {
+  it("offsets annotations across output_text parts and keeps opened pages", () => {
+    const response = {
+      output: [
+        { type: "web_search_call", id: "ws_1", status: "completed", action: { type: "open_page", url: "https://opened.com/" } },
+        {
+          type: "message",
+          content: [
+            { type: "output_text", text: "Hello ", annotations: [] },
+            {
+              type: "output_text",
+              text: "cited claim",
+              annotations: [
+                { type: "url_citation", url: "https://src.com/", title: "Src", start_index: 0, end_index: 11 },
+              ],
+            },
+          ],
+        },
+      ],
+    } as unknown as OpenAI.Responses.Response;
+
+    expect(extractOpenAISources(response)).toEqual([
+      { url: "https://opened.com/" },
+      { url: "https://src.com/", title: "Src", start: 6, end: 17 },
+    ]);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { RESULT_PREVIEW_CHARS, buildResultPreview } from "../researchResults";
+
+describe("buildResultPreview", () => {
+  it("returns results that fit unchanged", () => {
+    const text = "# Report\n\nShort result";
+    expect(buildResultPreview(text)).toBe(text);
+    const exact = "a".repeat(RESULT_PREVIEW_CHARS);
+    expect(buildResultPreview(exact)).toBe(exact);
+  });
+
+  it("cuts at the last line break near the limit", () => {
+    const firstLine = "a".repeat(RESULT_PREVIEW_CHARS - 100);
+    const text = `${firstLine}\n${"b".repeat(500)}`;
+    expect(buildResultPreview(text)).toBe(firstLine);
+  });
+
+  it("cuts at the limit when there is no nearby line break", () => {
+    const text = `intro\n${"a".repeat(RESULT_PREVIEW_CHARS * 2)}`;
+    expect(buildResultPreview(text)).toHaveLength(RESULT_PREVIEW_CHARS);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSourceRows,
+  extractDomain,
+  normalizeSourceUrl,
+} from "../researchSources";
+
+describe("normalizeSourceUrl", () => {
+  it("strips utm tracking params and fragments", () => {
+    expect(
+      normalizeSourceUrl("https://example.com/a?utm_source=openai&id=2#top"),
+    ).toBe("https://example.com/a?id=2");
+  });
+
+  it("returns invalid URLs unchanged", () => {
+    expect(normalizeSourceUrl("not a url")).toBe("not a url");
+  });
+});
+
+describe("extractDomain", () => {
+  it("drops a leading www", () => {
+    expect(extractDomain("https://www.sec.gov/filing")).toBe("sec.gov");
+  });
+
+  it("keeps other subdomains", () => {
+    expect(extractDomain("https://investor.apple.com/")).toBe(
+      "investor.apple.com",
+    );
+  });
+
+  it("falls back for invalid URLs", () => {
+    expect(extractDomain("nope")).toBe("unknown");
+  });
+});
+
+describe("buildSourceRows", () => {
+  it("returns an empty list for no sources", () => {
+    expect(buildSourceRows([])).toEqual([]);
+  });
+
+  it("merges repeated URLs and collects their spans", () => {
+    const rows = buildSourceRows([
+      { url: "https://a.com/x?utm_source=openai", title: "A", start: 50, end: 60 },
+      { url: "https://a.com/x", start: 10, end: 20 },
+    ]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      number: 1,
+      url: "https://a.com/x",
+      title: "A",
+      domain: "a.com",
+      spans: [
+        { start: 10, end: 20 },
+        { start: 50, end: 60 },
+      ],
+    });
+  });
+
+  it("numbers cited sources by first appearance, uncited last", () => {
+    const rows = buildSourceRows([
+      { url: "https://uncited.com/" },
+      { url: "https://second.com/", start: 100, end: 120 },
+      { url: "https://first.com/", start: 5, end: 15 },
+    ]);
+    expect(rows.map((r) => [r.number, r.domain])).toEqual([
+      [1, "first.com"],
+      [2, "second.com"],
+      [3, "uncited.com"],
+    ]);
+    expect(rows[2]!.spans).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_RETRY_POLICY,
+  classifyError,
+  classifyThrownError,
+  getRetryDecision,
+  maxAttemptsAllowed,
+  parseRetryPolicy,
+} from "../retryPolicy";
+
+describe("classifyError", () => {
+  it("treats rate limits, server errors and timeouts as transient", () => {
+    expect(classifyError("Anthropic API error (429): rate_limit_error")).toEqual({
+      errorClass: "transient",
+      errorReason: "rate_limit",
+    });
+    expect(classifyError("Gemini API error (503): unavailable")).toEqual({
+      errorClass: "transient",
+      errorReason: "server_error",
+    });
+    expect(classifyError("Request timed out.")).toEqual({
+      errorClass: "transient",
+      errorReason: "timeout",
+    });
+  });
+
+  it("treats bad keys, content policy and quota as permanent", () => {
+    expect(classifyError("Incorrect API key provided: sk-...").errorReason).toBe("auth");
+    expect(classifyError("Your request was rejected by our content policy").errorReason).toBe(
+      "content_policy",
+    );
+    expect(classifyError("Gemini API error (401): invalid credentials").errorClass).toBe(
+      "permanent",
+    );
+  });
+
+  it("reads quota errors sent as 429s as permanent", () => {
+    expect(classifyError("You exceeded your current quota", 429)).toEqual({
+      errorClass: "permanent",
+      errorReason: "quota",
+    });
+  });
+
+  it("keeps retrying errors it does not recognise", () => {
+    expect(classifyError("Something odd happened")).toEqual({
+      errorClass: "transient",
+      errorReason: "unknown",
+    });
+  });
+});
+
+describe("classifyThrownError", () => {
+  it("uses the status attached to SDK errors", () => {
+    const error = Object.assign(new Error("Bad request"), { status: 400 });
+    expect(classifyThrownError(error)).toEqual({
+      errorClass: "permanent",
+      errorReason: "invalid_request",
+      message: "Bad request",
+    });
+  });
+});
+
+describe("parseRetryPolicy", () => {
+  it("uses the defaults when nothing is configured", () => {
+    expect(parseRetryPolicy({})).toEqual(DEFAULT_RETRY_POLICY);
+  });
+
+  it("reads each class from settings and ignores invalid values", () => {
+    const policy = parseRetryPolicy({
+      retry_transient_max_attempts: "5",
+      retry_transient_base_delay_seconds: "30",
+      retry_permanent_max_attempts: "0",
+      retry_permanent_base_delay_seconds: "soon",
+    });
+    expect(policy).toEqual({
+      transient: { maxAttempts: 5, baseDelayMs: 30_000 },
+      permanent: DEFAULT_RETRY_POLICY.permanent,
+    });
+  });
+});
+
+describe("getRetryDecision", () => {
+  it("backs off exponentially until the class runs out of attempts", () => {
+    expect(getRetryDecision(DEFAULT_RETRY_POLICY, "transient", 1)).toEqual({
+      retry: true,
+      delayMs: 10_000,
+    });
+    expect(getRetryDecision(DEFAULT_RETRY_POLICY, "transient", 2).delayMs).toBe(20_000);
+    expect(getRetryDecision(DEFAULT_RETRY_POLICY, "transient", 3).retry).toBe(false);
+  });
+
+  it("stops permanent failures after the first attempt by default", () => {
+    expect(getRetryDecision(DEFAULT_RETRY_POLICY, "permanent", 1).retry).toBe(false);
+  });
+});
+
+describe("maxAttemptsAllowed", () => {
+  it("is the larger of the two class limits", () => {
+    expect(maxAttemptsAllowed(DEFAULT_RETRY_POLICY)).toBe(3);
+  });
+});
@@ -4,6 +4,7 @@ import {
   validateStringLength,
   validateStockInput,
   validatePromptInput,
+  validateOutputSchema,
   validateScheduleInput,
   validateSearchTerm,
   validateSettingInput,
@@ -143,6 +144,69 @@ describe("validatePromptInput", () => {
       validatePromptInput({ template: "a".repeat(50_001) }),
     ).toThrow("Prompt template must be at most 50000 characters");
   });
+
+  it("rejects templates with unknown variables", () => {
+    expect(() =>
+      validatePromptInput({ template: "Analyze {{TICKR}}" }),
+    ).toThrow("Unknown variable {{TICKR}} (line 1)");
+  });
+
+  it("rejects templates that don't fit the prompt type", () => {
+    expect(() =>
+      validatePromptInput({ template: "Analyze {{COMPANY_NAME}}", type: "single-stock" }),
+    ).toThrow("Single-stock prompts must use {{TICKER}}");
+    expect(() =>
+      validatePromptInput({ template: "Screen beyond {{STOCKS}}", type: "discovery" }),
+    ).toThrow("{{STOCKS}} is always empty (line 1)");
+  });
+
+  it("accepts templates with lint warnings only", () => {
+    expect(() =>
+      validatePromptInput({ template: "Compare {{TICKER}} to {{STOCKS}}", type: "multi-stock" }),
+    ).not.toThrow();
+  });
+});
+
+describe("validateOutputSchema", () => {
+  it("accepts standard and custom fields", () => {
+    expect(() =>
+      validateOutputSchema([
+        { key: "rating", label: "Rating", type: "rating" },
+        { key: "priceTarget", label: "Price target", type: "number" },
+        { key: "moat", label: "Moat", type: "text" },
+      ]),
+    ).not.toThrow();
+  });
+
+  it("rejects keys that are not plain identifiers", () => {
+    expect(() => validateOutputSchema([{ key: "price target", label: "PT", type: "number" }])).toThrow(
+      "must start with a letter",
+    );
+    expect(() => validateOutputSchema([{ key: "_id", label: "ID", type: "text" }])).toThrow(
+      "must start with a letter",
+    );
+  });
+
+  it("rejects duplicate keys", () => {
+    expect(() =>
+      validateOutputSchema([
+        { key: "moat", label: "Moat", type: "text" },
+        { key: "moat", label: "Moat again", type: "text" },
+      ]),
+    ).toThrow('Duplicate output field key "moat"');
+  });
+
+  it("keeps standard keys on their column type", () => {
+    expect(() => validateOutputSchema([{ key: "priceTarget", label: "PT", type: "text" }])).toThrow(
+      'Output field "priceTarget" must have type "number"',
+    );
+  });
+
+  it("requires a label", () => {
+    expect(() => validateOutputSchema([{ key: "moat", label: " ", type: "text" }])).toThrow(
+      "needs a label",
+    );
+  });
 });
 
 describe("validateScheduleInput", () => {
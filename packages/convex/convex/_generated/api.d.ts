@@ -8,20 +8,48 @@
  * @module
  */
 
+import type * as analysisModels from "../analysisModels.js";
 import type * as auditLog from "../auditLog.js";
 import type * as auth from "../auth.js";
 import type * as authHelpers from "../authHelpers.js";
 import type * as budgetAlert from "../budgetAlert.js";
+import type * as budgetCap from "../budgetCap.js";
+import type * as comparisons from "../comparisons.js";
 import type * as costTracking from "../costTracking.js";
+import type * as cron from "../cron.js";
 import type * as crons from "../crons.js";
 import type * as dashboard from "../dashboard.js";
 import type * as earnings from "../earnings.js";
 import type * as earningsActions from "../earningsActions.js";
+import type * as estimates from "../estimates.js";
+import type * as executiveSummaries from "../executiveSummaries.js";
+import type * as executiveSummariesActions from "../executiveSummariesActions.js";
+import type * as findings from "../findings.js";
+import type * as findingsActions from "../findingsActions.js";
+import type * as followUps from "../followUps.js";
 import type * as http from "../http.js";
+import type * as jobAttempts from "../jobAttempts.js";
+import type * as jobQueue from "../jobQueue.js";
+import type * as mockProvider from "../mockProvider.js";
+import type * as modelPricing from "../modelPricing.js";
 import type * as notifications from "../notifications.js";
+import type * as pipelines from "../pipelines.js";
+import type * as pricing from "../pricing.js";
+import type * as promptAnalytics from "../promptAnalytics.js";
+import type * as promptLibrary from "../promptLibrary.js";
+import type * as promptTemplate from "../promptTemplate.js";
+import type * as promptVersions from "../promptVersions.js";
 import type * as prompts from "../prompts.js";
+import type * as providers from "../providers.js";
+import type * as reportChanges from "../reportChanges.js";
+import type * as reportChangesActions from "../reportChangesActions.js";
 import type * as researchActions from "../researchActions.js";
+import type * as researchBatches from "../researchBatches.js";
 import type * as researchJobs from "../researchJobs.js";
+import type * as researchProviders from "../researchProviders.js";
+import type * as researchResults from "../researchResults.js";
+import type * as researchSources from "../researchSources.js";
+import type * as retryPolicy from "../retryPolicy.js";
 import type * as scheduleActions from "../scheduleActions.js";
 import type * as schedules from "../schedules.js";
 import type * as seed from "../seed.js";
@@ -36,20 +64,48 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  analysisModels: typeof analysisModels;
   auditLog: typeof auditLog;
   auth: typeof auth;
   authHelpers: typeof authHelpers;
   budgetAlert: typeof budgetAlert;
+  budgetCap: typeof budgetCap;
+  comparisons: typeof comparisons;
   costTracking: typeof costTracking;
+  cron: typeof cron;
   crons: typeof crons;
   dashboard: typeof dashboard;
   earnings: typeof earnings;
   earningsActions: typeof earningsActions;
+  estimates: typeof estimates;
+  executiveSummaries: typeof executiveSummaries;
+  executiveSummariesActions: typeof executiveSummariesActions;
+  findings: typeof findings;
+  findingsActions: typeof findingsActions;
+  followUps: typeof followUps;
   http: typeof http;
+  jobAttempts: typeof jobAttempts;
+  jobQueue: typeof jobQueue;
+  mockProvider: typeof mockProvider;
+  modelPricing: typeof modelPricing;
   notifications: typeof notifications;
+  pipelines: typeof pipelines;
+  pricing: typeof pricing;
+  promptAnalytics: typeof promptAnalytics;
+  promptLibrary: typeof promptLibrary;
+  promptTemplate: typeof promptTemplate;
+  promptVersions: typeof promptVersions;
   prompts: typeof prompts;
+  providers: typeof providers;
+  reportChanges: typeof reportChanges;
+  reportChangesActions: typeof reportChangesActions;
   researchActions: typeof researchActions;
+  researchBatches: typeof researchBatches;
   researchJobs: typeof researchJobs;
+  researchProviders: typeof researchProviders;
+  researchResults: typeof researchResults;
+  researchSources: typeof researchSources;
+  retryPolicy: typeof retryPolicy;
   scheduleActions: typeof scheduleActions;
   schedules: typeof schedules;
   seed: typeof seed;
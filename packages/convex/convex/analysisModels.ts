@@ -0,0 +1,249 @@
+"use node";
+
+import OpenAI from "openai";
+import type { Infer } from "convex/values";
+import { internal } from "./_generated/api";
+import type { ActionCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { createMockAnalysisModel } from "./mockProvider";
+import { ANALYSIS_MODELS, PROVIDER_API_KEY_SETTINGS } from "./providers";
+import type { ResearchProviderId } from "./providers";
+import { estimateCost, estimateCostBreakdown } from "./pricing";
+import type { TokenUsage, analysisKindValidator } from "./pricing";
+import { GEMINI_BASE_URL, toAnthropicUsage, toOpenAIUsage } from "./researchProviders";
+
+const ANALYSIS_MAX_OUTPUT_TOKENS = 4096;
+
+/** A single call to an analysis model. */
+export interface AnalysisRequest {
+  instructions: string;
+  /** The material to work on, usually a finished report */
+  input: string;
+  /** JSON Schema the answer must follow; the returned text is then JSON */
+  schema?: Record<string, unknown>;
+}
+
+export interface AnalysisResponse {
+  text: string;
+  usage?: TokenUsage;
+}
+
+/** A fast model for follow-on work on a finished report, see ANALYSIS_MODELS. */
+export interface AnalysisModel {
+  provider: ResearchProviderId;
+  model: string;
+  complete(request: AnalysisRequest): Promise<AnalysisResponse>;
+}
+
+/**
+ * Resolve the analysis model of a provider with its API key from settings.
+ * Returns null when the key is not configured. When the mock provider is
+ * enabled a mock model answers instead.
+ */
+export async function getAnalysisModel(
+  ctx: Pick<ActionCtx, "runQuery">,
+  providerId: ResearchProviderId,
+): Promise<AnalysisModel | null> {
+  const model = ANALYSIS_MODELS[providerId];
+  const mockConfig = await ctx.runQuery(internal.mockProvider.getMockProviderConfig, {});
+  if (mockConfig) return createMockAnalysisModel(providerId, model);
+
+  const apiKey = await ctx.runQuery(internal.authHelpers.getSettingValue, {
+    key: PROVIDER_API_KEY_SETTINGS[providerId],
+  });
+  if (!apiKey) return null;
+
+  switch (providerId) {
+    case "openai":
+      return createOpenAIAnalysisModel(apiKey, model);
+    case "anthropic":
+      return createAnthropicAnalysisModel(apiKey, model);
+    case "gemini":
+      return createGeminiAnalysisModel(apiKey, model);
+  }
+}
+
+/**
+ * Run an analysis call about a job on the job's provider and log its cost
+ * against the job. Returns null when the provider has no API key.
+ */
+export async function runAnalysis(
+  ctx: ActionCtx,
+  job: { _id: Id<"researchJobs">; provider: ResearchProviderId },
+  kind: Infer<typeof analysisKindValidator>,
+  request: AnalysisRequest,
+): Promise<string | null> {
+  const model = await getAnalysisModel(ctx, job.provider);
+  if (!model) return null;
+
+  const response = await model.complete(request);
+
+  const pricing = await ctx.runQuery(internal.modelPricing.getModelPricingInternal, {
+    model: model.model,
+  });
+  const costUsd = pricing ? estimateCost(response.usage, pricing.rates) : undefined;
+  if (costUsd !== undefined) {
+    await ctx.runMutation(internal.researchJobs.logCost, {
+      jobId: job._id,
+      provider: job.provider,
+      model: model.model,
+      priceVersion: pricing?.version,
+      costUsd,
+      usage: response.usage,
+      costBreakdown: pricing ? estimateCostBreakdown(response.usage, pricing.rates) : undefined,
+      kind,
+    });
+  }
+
+  return response.text;
+}
+
+// --- OpenAI (Responses API, JSON schema output) ---
+
+function createOpenAIAnalysisModel(apiKey: string, model: string): AnalysisModel {
+  const client = new OpenAI({ apiKey });
+  return {
+    provider: "openai",
+    model,
+    async complete(request) {
+      const response = await client.responses.create({
+        model,
+        instructions: request.instructions,
+        input: request.input,
+        max_output_tokens: ANALYSIS_MAX_OUTPUT_TOKENS,
+        text: request.schema
+          ? {
+              format: {
+                type: "json_schema",
+                name: "analysis",
+                schema: request.schema,
+                strict: true,
+              },
+            }
+          : undefined,
+      });
+      return { text: response.output_text, usage: toOpenAIUsage(response.usage) };
+    },
+  };
+}
+
+// --- Anthropic (Messages API, a forced tool call for structured output) ---
+
+const ANTHROPIC_OUTPUT_TOOL = "record_analysis";
+
+interface AnthropicAnalysisMessage {
+  content: Array<{ type: string; text?: string; input?: unknown }>;
+  usage?: Parameters<typeof toAnthropicUsage>[0];
+}
+
+function createAnthropicAnalysisModel(apiKey: string, model: string): AnalysisModel {
+  return {
+    provider: "anthropic",
+    model,
+    async complete(request) {
+      const response = await fetch("https://api.anthropic.com/v1/messages", {
+        method: "POST",
+        headers: {
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: ANALYSIS_MAX_OUTPUT_TOKENS,
+          system: request.instructions,
+          messages: [{ role: "user", content: request.input }],
+          ...(request.schema && {
+            tools: [
+              {
+                name: ANTHROPIC_OUTPUT_TOOL,
+                description: "Record the requested output.",
+                input_schema: request.schema,
+              },
+            ],
+            tool_choice: { type: "tool", name: ANTHROPIC_OUTPUT_TOOL },
+          }),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Anthropic API error (${response.status}): ${errorText}`);
+      }
+
+      const message = (await response.json()) as AnthropicAnalysisMessage;
+      const toolUse = message.content.find((block) => block.type === "tool_use");
+      const text = toolUse
+        ? JSON.stringify(toolUse.input)
+        : message.content.map((block) => block.text ?? "").join("");
+      return { text, usage: toAnthropicUsage(message.usage) };
+    },
+  };
+}
+
+// --- Gemini (generateContent, JSON schema output) ---
+
+interface GeminiContentResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    cachedContentTokenCount?: number;
+    thoughtsTokenCount?: number;
+  };
+}
+
+// Like the Interactions API, thought tokens are reported separately from output
+function toGeminiContentUsage(
+  usage: GeminiContentResponse["usageMetadata"],
+): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const reasoningTokens = usage.thoughtsTokenCount ?? 0;
+  return {
+    inputTokens: usage.promptTokenCount ?? 0,
+    outputTokens: (usage.candidatesTokenCount ?? 0) + reasoningTokens,
+    cachedInputTokens: usage.cachedContentTokenCount ?? 0,
+    reasoningTokens,
+  };
+}
+
+function createGeminiAnalysisModel(apiKey: string, model: string): AnalysisModel {
+  return {
+    provider: "gemini",
+    model,
+    async complete(request) {
+      const response = await fetch(
+        `${GEMINI_BASE_URL}/models/${encodeURIComponent(model)}:generateContent`,
+        {
+          method: "POST",
+          headers: {
+            "x-goog-api-key": apiKey,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            systemInstruction: { parts: [{ text: request.instructions }] },
+            contents: [{ role: "user", parts: [{ text: request.input }] }],
+            generationConfig: {
+              maxOutputTokens: ANALYSIS_MAX_OUTPUT_TOKENS,
+              ...(request.schema && {
+                responseMimeType: "application/json",
+                responseJsonSchema: request.schema,
+              }),
+            },
+          }),
+        },
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Gemini API error (${response.status}): ${errorText}`);
+      }
+
+      const result = (await response.json()) as GeminiContentResponse;
+      const text = (result.candidates?.[0]?.content?.parts ?? [])
+        .map((part) => part.text ?? "")
+        .join("");
+      return { text, usage: toGeminiContentUsage(result.usageMetadata) };
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { requireAuth } from "./authHelpers";
+import { estimateUnfinishedJobsCostUsd } from "./estimates";
+
+/**
+ * What happens to a run that would push month-to-date spend over the cap:
+ * `block` refuses it, `defer` queues it until the first of next month.
+ */
+export type BudgetCapMode = "block" | "defer";
+
+export interface BudgetCap {
+  capUsd: number;
+  mode: BudgetCapMode;
+}
+
+/**
+ * Parse the `budget_hard_cap` and `budget_cap_mode` settings. Returns null
+ * when no cap is configured.
+ * @internal Exported for testing
+ */
+export function parseBudgetCap(
+  capValue: string | null | undefined,
+  modeValue: string | null | undefined,
+): BudgetCap | null {
+  const capUsd = capValue ? Number(capValue) : Number.NaN;
+  if (!Number.isFinite(capUsd) || capUsd <= 0) return null;
+  return { capUsd, mode: modeValue === "defer" ? "defer" : "block" };
+}
+
+/**
+ * Whether a run estimated at `estimatedUsd` would take spend over the cap,
+ * counting what jobs that have not finished yet are expected to cost.
+ * @internal Exported for testing
+ */
+export function exceedsBudgetCap(args: {
+  spentUsd: number;
+  unfinishedUsd: number;
+  estimatedUsd: number;
+  capUsd: number;
+}): boolean {
+  return args.spentUsd + args.unfinishedUsd + args.estimatedUsd > args.capUsd;
+}
+
+/** Start of the calendar month containing `timestamp`, and of the month after. */
+export function getMonthBounds(timestamp: number): { start: number; end: number } {
+  const date = new Date(timestamp);
+  return {
+    start: new Date(date.getFullYear(), date.getMonth(), 1).getTime(),
+    end: new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime(),
+  };
+}
+
+export async function getBudgetCap(ctx: QueryCtx): Promise<BudgetCap | null> {
+  const [capSetting, modeSetting] = await Promise.all(
+    ["budget_hard_cap", "budget_cap_mode"].map((key) =>
+      ctx.db
+        .query("settings")
+        .withIndex("by_key", (q) => q.eq("key", key))
+        .unique(),
+    ),
+  );
+  return parseBudgetCap(capSetting?.value, modeSetting?.value);
+}
+
+/** Total logged cost for the calendar month containing `now`. */
+export async function getMonthToDateSpend(ctx: QueryCtx, now: number): Promise<number> {
+  const { start, end } = getMonthBounds(now);
+  const logs = await ctx.db
+    .query("costLogs")
+    .withIndex("by_timestamp", (q) => q.gte("timestamp", start).lt("timestamp", end))
+    .collect();
+  return logs.reduce((sum, log) => sum + log.costUsd, 0);
+}
+
+/**
+ * Check a new run against the hard monthly cap before creating its jobs.
+ * Throws when the cap is in block mode; in defer mode returns the time the
+ * run should be held until. `override` lets a manual run through regardless.
+ */
+export async function enforceBudgetCap(
+  ctx: MutationCtx,
+  args: { estimatedUsd: number; override?: boolean },
+): Promise<{ deferredUntil?: number; overridden: boolean }> {
+  const cap = await getBudgetCap(ctx);
+  if (!cap) return { overridden: false };
+
+  const now = Date.now();
+  const spentUsd = await getMonthToDateSpend(ctx, now);
+  const unfinishedUsd = await estimateUnfinishedJobsCostUsd(ctx, now);
+  if (
+    !exceedsBudgetCap({ spentUsd, unfinishedUsd, estimatedUsd: args.estimatedUsd, capUsd: cap.capUsd })
+  ) {
+    return { overridden: false };
+  }
+  if (args.override) return { overridden: true };
+
+  if (cap.mode === "defer") {
+    const deferredUntil = getMonthBounds(now).end;
+    // Drain the queue once the new month starts
+    await ctx.scheduler.runAt(deferredUntil, internal.jobQueue.drainQueue, {});
+    return { deferredUntil, overridden: false };
+  }
+
+  throw new Error(
+    `Monthly budget cap of $${cap.capUsd.toFixed(2)} would be exceeded: ` +
+      `$${spentUsd.toFixed(2)} spent this month, $${unfinishedUsd.toFixed(2)} expected for unfinished jobs, ` +
+      `this run is estimated at $${args.estimatedUsd.toFixed(2)}`,
+  );
+}
+
+// --- Queries ---
+
+/** The configured hard cap with month-to-date spend, or null when no cap is set. */
+export const getBudgetStatus = query({
+  args: { token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const cap = await getBudgetCap(ctx);
+    if (!cap) return null;
+
+    const spentUsd = await getMonthToDateSpend(ctx, Date.now());
+    return {
+      ...cap,
+      spentUsd,
+      remainingUsd: Math.max(0, cap.capUsd - spentUsd),
+    };
+  },
+});
@@ -0,0 +1,326 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./authHelpers";
+import { logAuditEvent } from "./auditLog";
+import { researchProvider, resolveJobModel } from "./providers";
+import { QUEUE_PRIORITY, startQueuedJobs } from "./jobQueue";
+import { enforceBudgetCap } from "./budgetCap";
+import { estimateJobCostUsd } from "./estimates";
+import { resolvePromptVersion, type ResolvedPromptVersion } from "./promptVersions";
+import { parameterValuesValidator } from "./promptTemplate";
+
+/** One side of an A/B comparison: the job and what it ran with. */
+export const comparisonRunValidator = v.object({
+  jobId: v.id("researchJobs"),
+  promptId: v.id("prompts"),
+  promptVersionId: v.id("promptVersions"),
+  provider: researchProvider,
+  model: v.string(),
+});
+
+/** What differs between the two runs of a comparison. */
+export const comparisonKindValidator = v.union(
+  v.literal("prompts"),
+  v.literal("versions"),
+  v.literal("models"),
+);
+
+/** The run judged better, or `tie` when neither was. */
+export const comparisonWinnerValidator = v.union(v.literal("a"), v.literal("b"), v.literal("tie"));
+
+export type ComparisonKind = Doc<"comparisons">["kind"];
+
+/** What one side of a comparison ran with. */
+export type ComparisonRun = Omit<Doc<"comparisons">["a"], "jobId">;
+
+export interface ComparisonRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+  /** Comparisons nobody has voted on yet */
+  undecided: number;
+}
+
+/**
+ * What differs between the two runs of a comparison. Only one of prompt,
+ * version and model may change, so a vote says something about that change.
+ * @internal Exported for testing
+ */
+export function comparisonKind(a: ComparisonRun, b: ComparisonRun): ComparisonKind {
+  const modelsDiffer = a.provider !== b.provider || a.model !== b.model;
+  // A different prompt always means a different version too
+  const kind: ComparisonKind | null =
+    a.promptId !== b.promptId
+      ? "prompts"
+      : a.promptVersionId !== b.promptVersionId
+        ? "versions"
+        : modelsDiffer
+          ? "models"
+          : null;
+
+  if (!kind) {
+    throw new Error("The two runs must differ in prompt, prompt version or model");
+  }
+  if (kind !== "models" && modelsDiffer) {
+    throw new Error("Change only one of prompt, prompt version or model so the runs compare fairly");
+  }
+  return kind;
+}
+
+/**
+ * Wins, losses and ties per key over voted comparisons. `keyOf` picks what is
+ * being compared, such as the prompt; comparisons where both runs share the
+ * key say nothing about it and are skipped.
+ * @internal Exported for testing
+ */
+export function tallyComparisonVotes(
+  comparisons: Pick<Doc<"comparisons">, "a" | "b" | "winner">[],
+  keyOf: (run: ComparisonRun) => string,
+): Map<string, ComparisonRecord> {
+  const records = new Map<string, ComparisonRecord>();
+  const recordFor = (key: string) => {
+    let record = records.get(key);
+    if (!record) {
+      record = { wins: 0, losses: 0, ties: 0, undecided: 0 };
+      records.set(key, record);
+    }
+    return record;
+  };
+
+  for (const comparison of comparisons) {
+    const keyA = keyOf(comparison.a);
+    const keyB = keyOf(comparison.b);
+    if (keyA === keyB) continue;
+    const recordA = recordFor(keyA);
+    const recordB = recordFor(keyB);
+
+    switch (comparison.winner) {
+      case "a":
+        recordA.wins++;
+        recordB.losses++;
+        break;
+      case "b":
+        recordB.wins++;
+        recordA.losses++;
+        break;
+      case "tie":
+        recordA.ties++;
+        recordB.ties++;
+        break;
+      default:
+        recordA.undecided++;
+        recordB.undecided++;
+    }
+  }
+  return records;
+}
+
+function isFinished(job: Doc<"researchJobs">): boolean {
+  return (
+    job.status === "completed" ||
+    job.status === "cancelled" ||
+    (job.status === "failed" && !job.awaitingRetry)
+  );
+}
+
+async function insertRunJob(
+  ctx: MutationCtx,
+  run: ComparisonRun,
+  version: ResolvedPromptVersion,
+  stockIds: Id<"stocks">[],
+  queue: { now: number; deferredUntil?: number },
+): Promise<Id<"researchJobs">> {
+  return await ctx.db.insert("researchJobs", {
+    promptId: run.promptId,
+    promptSnapshot: version.template,
+    promptVersionId: version.versionId,
+    parameterValues: version.parameterValues,
+    stockIds,
+    provider: run.provider,
+    model: run.model,
+    status: "queued",
+    attempts: 0,
+    createdAt: queue.now,
+    priority: QUEUE_PRIORITY.manual,
+    queuedAt: queue.now,
+    deferredUntil: queue.deferredUntil,
+  });
+}
+
+const runArgs = v.object({
+  promptId: v.id("prompts"),
+  /** Version to run; the prompt's current template when unset */
+  promptVersionId: v.optional(v.id("promptVersions")),
+  provider: researchProvider,
+  model: v.optional(v.string()),
+});
+
+// --- Queries ---
+
+/** A comparison with both of its jobs; a job is null once it has been deleted. */
+export const getComparison = query({
+  args: { id: v.id("comparisons"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const comparison = await ctx.db.get(args.id);
+    if (!comparison) return null;
+
+    const [jobA, jobB] = await Promise.all([
+      ctx.db.get(comparison.a.jobId),
+      ctx.db.get(comparison.b.jobId),
+    ]);
+    return { comparison, jobA, jobB };
+  },
+});
+
+/** Head-to-head record of every prompt compared against another prompt, by prompt id. */
+export const listPromptRecords = query({
+  args: { token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const comparisons = await ctx.db.query("comparisons").collect();
+    const records = tallyComparisonVotes(
+      comparisons.filter((comparison) => comparison.kind === "prompts"),
+      (run) => run.promptId,
+    );
+    return Object.fromEntries(records) as Record<Id<"prompts">, ComparisonRecord>;
+  },
+});
+
+// --- Mutations ---
+
+/**
+ * Start an A/B run: one job per side on the same stocks, linked as a
+ * comparison. Run B keeps run A's model unless it names its own or switches
+ * provider. Both jobs are checked against the budget cap together.
+ */
+export const createAndStartComparison = mutation({
+  args: {
+    a: runArgs,
+    b: runArgs,
+    stockIds: v.array(v.id("stocks")),
+    /** Shared by both runs; each prompt takes the parameters it declares */
+    parameterValues: v.optional(parameterValuesValidator),
+    /** Start even if the runs would exceed the hard monthly budget cap */
+    overrideBudgetCap: v.optional(v.boolean()),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const [promptA, promptB] = await Promise.all([
+      ctx.db.get(args.a.promptId),
+      ctx.db.get(args.b.promptId),
+    ]);
+    if (!promptA || !promptB) {
+      throw new Error("Prompt not found");
+    }
+    if (promptA.type !== promptB.type) {
+      throw new Error("Both runs must use prompts of the same type");
+    }
+
+    const modelA = resolveJobModel(args.a.provider, args.a.model, promptA);
+    const modelB = resolveJobModel(
+      args.b.provider,
+      args.b.model ?? (args.b.provider === args.a.provider ? modelA : undefined),
+      promptB,
+    );
+    // One after the other: the first may create the current version both share
+    const versionA = await resolvePromptVersion(ctx, promptA, args.a.promptVersionId, args.parameterValues);
+    const versionB = await resolvePromptVersion(ctx, promptB, args.b.promptVersionId, args.parameterValues);
+
+    const runA: ComparisonRun = {
+      promptId: promptA._id,
+      promptVersionId: versionA.versionId,
+      provider: args.a.provider,
+      model: modelA,
+    };
+    const runB: ComparisonRun = {
+      promptId: promptB._id,
+      promptVersionId: versionB.versionId,
+      provider: args.b.provider,
+      model: modelB,
+    };
+    const kind = comparisonKind(runA, runB);
+
+    const estimates = await Promise.all(
+      [
+        { run: runA, version: versionA },
+        { run: runB, version: versionB },
+      ].map(({ run, version }) =>
+        estimateJobCostUsd(ctx, {
+          promptId: run.promptId,
+          template: version.template,
+          parameterValues: version.parameterValues,
+          provider: run.provider,
+          model: run.model,
+          stockIds: args.stockIds,
+        }),
+      ),
+    );
+    const estimatedUsd = estimates.reduce((sum, cost) => sum + cost, 0);
+    const budget = await enforceBudgetCap(ctx, {
+      estimatedUsd,
+      override: args.overrideBudgetCap,
+    });
+
+    const queue = { now: Date.now(), deferredUntil: budget.deferredUntil };
+    const [jobIdA, jobIdB] = await Promise.all([
+      insertRunJob(ctx, runA, versionA, args.stockIds, queue),
+      insertRunJob(ctx, runB, versionB, args.stockIds, queue),
+    ]);
+    const comparisonId = await ctx.db.insert("comparisons", {
+      kind,
+      stockIds: args.stockIds,
+      a: { ...runA, jobId: jobIdA },
+      b: { ...runB, jobId: jobIdB },
+      createdAt: queue.now,
+    });
+    await Promise.all([
+      ctx.db.patch(jobIdA, { comparisonId }),
+      ctx.db.patch(jobIdB, { comparisonId }),
+    ]);
+
+    if (budget.overridden) {
+      await logAuditEvent(ctx, { action: "budget.override", resourceType: "comparisons", resourceId: comparisonId, details: `Estimated $${estimatedUsd.toFixed(2)}` });
+    }
+    await logAuditEvent(ctx, { action: "comparison.create", resourceType: "comparisons", resourceId: comparisonId, details: `Comparing ${kind}` });
+
+    await startQueuedJobs(ctx);
+
+    return comparisonId;
+  },
+});
+
+/** Record which run was better once both have finished. Voting again replaces the earlier vote. */
+export const voteComparison = mutation({
+  args: {
+    id: v.id("comparisons"),
+    winner: comparisonWinnerValidator,
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const comparison = await ctx.db.get(args.id);
+    if (!comparison) {
+      throw new Error("Comparison not found");
+    }
+    const jobs = await Promise.all([
+      ctx.db.get(comparison.a.jobId),
+      ctx.db.get(comparison.b.jobId),
+    ]);
+    if (jobs.some((job) => job !== null && !isFinished(job))) {
+      throw new Error("Wait for both runs to finish before voting");
+    }
+
+    await ctx.db.patch(args.id, { winner: args.winner, votedAt: Date.now() });
+    await logAuditEvent(ctx, { action: "comparison.vote", resourceType: "comparisons", resourceId: args.id, details: args.winner === "tie" ? "Tie" : `Run ${args.winner.toUpperCase()} won` });
+
+    return args.id;
+  },
+});
@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { internalMutation, internalQuery, query } from "./_generated/server";
 import { requireAuth } from "./authHelpers";
+import { sumCostBreakdowns, sumTokenUsage } from "./pricing";
 
 // --- Mutations ---
 
@@ -53,7 +54,7 @@ export const getMonthlyCost = query({
       .collect();
 
     const totalCost = logs.reduce((sum, log) => sum + log.costUsd, 0);
-    const jobCount = logs.length;
+    const jobCount = logs.filter((log) => !log.kind).length;
 
     return {
       totalCost: Math.round(totalCost * 100) / 100,
@@ -90,7 +91,7 @@ export const getMonthlyCostInternal = internalQuery({
       .collect();
 
     const totalCost = logs.reduce((sum, log) => sum + log.costUsd, 0);
-    const jobCount = logs.length;
+    const jobCount = logs.filter((log) => !log.kind).length;
 
     return {
       totalCost: Math.round(totalCost * 100) / 100,
@@ -146,7 +147,7 @@ export const getCostByProvider = query({
         jobCount: 0,
       };
       entry.totalCost += log.costUsd;
-      entry.jobCount += 1;
+      if (!log.kind) entry.jobCount += 1;
       byProvider[log.provider] = entry;
     }
 
@@ -213,12 +214,12 @@ export const getCostHistory = query({
       const entry = monthlyData[key];
       if (entry) {
         entry.totalCost += log.costUsd;
-        entry.jobCount += 1;
+        if (!log.kind) entry.jobCount += 1;
       }
     }
 
     return Object.values(monthlyData)
-      .sort((a, b) => a.timestamp - b.timestamp)
+      .toSorted((a, b) => a.timestamp - b.timestamp)
       .map((entry) => ({
         month: entry.month,
         totalCost: Math.round(entry.totalCost * 100) / 100,
@@ -226,3 +227,60 @@ export const getCostHistory = query({
       }));
   },
 });
+
+/**
+ * Token usage and cost split by component (input, cached input, output,
+ * reasoning, web search), overall and per model. Runs logged before usage
+ * was tracked only count towards `untrackedCost`.
+ */
+export const getUsageBreakdown = query({
+  args: {
+    /** Optional start timestamp filter (unix ms). */
+    from: v.optional(v.number()),
+    /** Optional end timestamp filter (unix ms). */
+    to: v.optional(v.number()),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const logs = await ctx.db
+      .query("costLogs")
+      .withIndex("by_timestamp", (q) => {
+        const from = args.from ?? 0;
+        return args.to !== undefined
+          ? q.gte("timestamp", from).lt("timestamp", args.to)
+          : q.gte("timestamp", from);
+      })
+      .collect();
+
+    const tracked = logs.filter((log) => log.usage && log.costBreakdown);
+    const byModel = new Map<string, typeof tracked>();
+    for (const log of tracked) {
+      const key = `${log.provider}:${log.model ?? ""}`;
+      const group = byModel.get(key) ?? [];
+      group.push(log);
+      byModel.set(key, group);
+    }
+
+    const summarize = (group: typeof tracked) => ({
+      runCount: group.length,
+      totalCost: group.reduce((sum, log) => sum + log.costUsd, 0),
+      tokens: sumTokenUsage(group.map((log) => log.usage)),
+      costs: sumCostBreakdowns(group.map((log) => log.costBreakdown)),
+    });
+
+    const models = [];
+    for (const group of byModel.values()) {
+      models.push({ provider: group[0]!.provider, model: group[0]!.model, ...summarize(group) });
+    }
+
+    return {
+      ...summarize(tracked),
+      untrackedCost: logs
+        .filter((log) => !log.usage || !log.costBreakdown)
+        .reduce((sum, log) => sum + log.costUsd, 0),
+      byModel: models.toSorted((a, b) => b.totalCost - a.totalCost),
+    };
+  },
+});
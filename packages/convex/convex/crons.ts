@@ -9,4 +9,18 @@ crons.daily(
   internal.earningsActions.fetchAllEarnings,
 );
 
+// Recover jobs stuck in "running" when the completion webhook is lost
+crons.interval(
+  "reconcile-running-jobs",
+  { minutes: 5 },
+  internal.researchActions.reconcileRunningJobs,
+);
+
+// Flag or cancel jobs that exceed the configured maximum runtime
+crons.interval(
+  "watchdog-running-jobs",
+  { minutes: 5 },
+  internal.researchActions.watchdogRunningJobs,
+);
+
 export default crons;
@@ -1,8 +1,8 @@
 import { v } from "convex/values";
 import { query } from "./_generated/server";
 import { requireAuth } from "./authHelpers";
-
-const MAX_CONCURRENT_JOBS = 5;
+import { getConcurrencyLimit } from "./jobQueue";
+import { getBudgetCap } from "./budgetCap";
 
 /** Recent research: last 5 completed or failed jobs with prompt and stock info. */
 export const recentResearch = query({
@@ -15,9 +15,9 @@ export const recentResearch = query({
       .order("desc")
       .take(20);
 
-    // Filter to completed/failed and take 5
+    // Filter to finished jobs and take 5
     const recent = jobs
-      .filter((j) => j.status === "completed" || j.status === "failed")
+      .filter((j) => j.status === "completed" || j.status === "failed" || j.status === "cancelled")
       .slice(0, 5);
 
     // Batch-load unique prompts and stocks to avoid N+1 queries
@@ -53,6 +53,7 @@ export const recentResearch = query({
         createdAt: job.createdAt,
         completedAt: job.completedAt,
         error: job.error,
+        tldr: job.executiveSummary?.tldr,
       };
     });
   },
@@ -72,6 +73,7 @@ export const upcomingSchedules = query({
         _id: s._id,
         name: s.name,
         promptId: s.promptId,
+        pipelineId: s.pipelineId,
         nextRunAt: s.nextRunAt!,
         cron: s.cron,
         timezone: s.timezone,
@@ -79,10 +81,15 @@ export const upcomingSchedules = query({
       .toSorted((a, b) => a.nextRunAt - b.nextRunAt)
       .slice(0, 5);
 
-    // Enrich with prompt names
+    // Enrich with prompt or pipeline names
     const enriched = await Promise.all(
       upcoming.map(async (s) => {
-        const prompt = await ctx.db.get(s.promptId);
+        if (s.pipelineId) {
+          const pipeline = await ctx.db.get(s.pipelineId);
+          Object.assign(s, { promptName: pipeline ? `Pipeline: ${pipeline.name}` : "Deleted pipeline" });
+          return s as typeof s & { promptName: string };
+        }
+        const prompt = s.promptId ? await ctx.db.get(s.promptId) : null;
         Object.assign(s, { promptName: prompt?.name ?? "Deleted prompt" });
         return s as typeof s & { promptName: string };
       }),
@@ -131,16 +138,18 @@ export const monthlySpend = query({
 
     return {
       totalCost: Math.round(totalCost * 100) / 100,
-      jobCount: logs.length,
+      jobCount: logs.filter((log) => !log.kind).length,
       budgetThreshold:
         budgetThreshold !== undefined && !Number.isNaN(budgetThreshold)
           ? budgetThreshold
           : undefined,
+      /** Hard cap and what happens to runs over it; null when only alerts are set up */
+      hardCap: await getBudgetCap(ctx),
     };
   },
 });
 
-/** Active jobs count: number of pending + running jobs and the max limit. */
+/** Active jobs count: number of pending + running jobs, queued jobs and the max limit. */
 export const activeJobsCount = query({
   args: { token: v.optional(v.string()) },
   handler: async (ctx, args) => {
@@ -154,12 +163,17 @@ export const activeJobsCount = query({
       .query("researchJobs")
       .withIndex("by_status", (q) => q.eq("status", "running"))
       .collect();
+    const queuedJobs = await ctx.db
+      .query("researchJobs")
+      .withIndex("by_status", (q) => q.eq("status", "queued"))
+      .collect();
 
     return {
       pending: pendingJobs.length,
       running: runningJobs.length,
+      queued: queuedJobs.length,
       total: pendingJobs.length + runningJobs.length,
-      limit: MAX_CONCURRENT_JOBS,
+      limit: await getConcurrencyLimit(ctx),
     };
   },
 });
@@ -1,6 +1,66 @@
 import { v } from "convex/values";
 import { internalMutation, internalQuery, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
 import { requireAuth } from "./authHelpers";
+import type { TemplateStock } from "./promptTemplate";
+
+/**
+ * A stock with its earnings context on `date` (YYYY-MM-DD): the next
+ * earnings date from then on and the last quarter reported before it.
+ * @internal Exported for testing
+ */
+export function toTemplateStock(
+  stock: Doc<"stocks">,
+  earnings: Doc<"earnings">[],
+  date: string,
+): TemplateStock {
+  const sorted = earnings.toSorted((a, b) => a.date.localeCompare(b.date));
+  const next = sorted.find((e) => e.date >= date);
+  const last = sorted.findLast(
+    (e) => e.date < date && e.epsActual !== undefined && e.epsEstimate !== undefined,
+  );
+
+  return {
+    ticker: stock.ticker,
+    companyName: stock.companyName,
+    exchange: stock.exchange,
+    sector: stock.sector,
+    notes: stock.notes,
+    tags: stock.tags,
+    nextEarningsDate: next?.date,
+    lastEarnings: last
+      ? { date: last.date, epsActual: last.epsActual!, epsEstimate: last.epsEstimate! }
+      : undefined,
+  };
+}
+
+/** Stocks of a job as its prompt template sees them on `date`. Deleted stocks are skipped. */
+export async function loadTemplateStocks(
+  ctx: QueryCtx,
+  stockIds: Id<"stocks">[],
+  date: string,
+): Promise<TemplateStock[]> {
+  const loaded = await Promise.all(
+    stockIds.map(async (id) => {
+      const stock = await ctx.db.get(id);
+      if (!stock) return null;
+      const earnings = await ctx.db
+        .query("earnings")
+        .withIndex("by_stockId", (q) => q.eq("stockId", id))
+        .collect();
+      return toTemplateStock(stock, earnings, date);
+    }),
+  );
+  return loaded.filter((s): s is TemplateStock => s !== null);
+}
+
+export const getTemplateStocksInternal = internalQuery({
+  args: { stockIds: v.array(v.id("stocks")), date: v.string() },
+  handler: async (ctx, args) => {
+    return await loadTemplateStocks(ctx, args.stockIds, args.date);
+  },
+});
 
 export const listAllStocksInternal = internalQuery({
   args: {},
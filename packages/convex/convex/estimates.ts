@@ -0,0 +1,325 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { Infer } from "convex/values";
+import { requireAuth } from "./authHelpers";
+import { getDefaultModel, researchProvider, resolveJobModel } from "./providers";
+import type { ResearchProviderId } from "./providers";
+import { estimateTokenCount } from "./pricing";
+import { getCurrentPricing } from "./modelPricing";
+import { estimateRunsPerMonth } from "./cron";
+import {
+  findTemplateErrors,
+  parameterValuesValidator,
+  resolvePromptTemplate,
+  todayIsoDate,
+} from "./promptTemplate";
+import type { PromptVariables } from "./promptTemplate";
+import { loadTemplateStocks } from "./earnings";
+import { isDeferred } from "./jobQueue";
+
+/** Most recent completed runs of a prompt used for the statistics. */
+const HISTORY_SAMPLE_LIMIT = 50;
+/** Below this many runs on the selected model, every run of the prompt is used instead. */
+const MIN_MODEL_SAMPLES = 3;
+/** Most recent cost log entries searched for runs of a model, for prompts without history. */
+const MODEL_COST_SAMPLE_LIMIT = 200;
+/**
+ * Cost assumed for a run of a prompt without history on a model without any
+ * either: high enough that the budget cap still holds before real costs arrive.
+ */
+export const NO_HISTORY_JOB_COST_USD = 2;
+
+/** Which stocks a schedule or estimate covers. */
+export const stockSelectionValidator = v.object({
+  type: v.union(
+    v.literal("all"),
+    v.literal("tagged"),
+    v.literal("specific"),
+    v.literal("none"),
+  ),
+  tags: v.optional(v.array(v.string())),
+  stockIds: v.optional(v.array(v.id("stocks"))),
+});
+
+export interface Spread {
+  median: number;
+  p90: number;
+}
+
+/**
+ * Linearly interpolated percentile of an ascending list, `p` in 0–100.
+ * @internal Exported for testing
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (rank - lower);
+}
+
+/** @internal Exported for testing */
+export function summarizeSpread(values: number[]): Spread | null {
+  if (values.length === 0) return null;
+  const sorted = values.toSorted((a, b) => a - b);
+  return { median: percentile(sorted, 50), p90: percentile(sorted, 90) };
+}
+
+function scaleSpread(spread: Spread | null, factor: number | null): Spread | null {
+  if (!spread || factor === null) return null;
+  return { median: spread.median * factor, p90: spread.p90 * factor };
+}
+
+/** Recent completed runs of a prompt, preferring the given provider/model. */
+async function loadRunHistory(
+  ctx: QueryCtx,
+  args: { promptId: Id<"prompts">; provider: ResearchProviderId; model: string },
+): Promise<{ samples: Doc<"researchJobs">[]; usesModelHistory: boolean }> {
+  const recent = await ctx.db
+    .query("researchJobs")
+    .withIndex("by_promptId", (q) => q.eq("promptId", args.promptId))
+    .order("desc")
+    .take(HISTORY_SAMPLE_LIMIT * 4);
+  // Follow-up questions share the prompt but are not runs of it
+  const completed = recent.filter((job) => job.status === "completed" && !job.parentJobId);
+  const sameModel = completed.filter(
+    (job) =>
+      job.provider === args.provider &&
+      (job.model ?? getDefaultModel(job.provider)) === args.model,
+  );
+  const usesModelHistory = sameModel.length >= MIN_MODEL_SAMPLES;
+  const samples = (usesModelHistory ? sameModel : completed).slice(0, HISTORY_SAMPLE_LIMIT);
+  return { samples, usesModelHistory };
+}
+
+/**
+ * Cost to assume for a job of a prompt without history: the p90 of the
+ * model's recent runs of any prompt, or `NO_HISTORY_JOB_COST_USD` without
+ * enough of those, and never less than the input cost of the prompt itself.
+ * @internal Exported for testing
+ */
+export function fallbackJobCostUsd(modelCosts: number[], inputCostUsd: number): number {
+  const modelSpread = modelCosts.length >= MIN_MODEL_SAMPLES ? summarizeSpread(modelCosts) : null;
+  return Math.max(modelSpread?.p90 ?? NO_HISTORY_JOB_COST_USD, inputCostUsd);
+}
+
+/** Costs of the model's most recent research runs, on any prompt. */
+async function loadModelCosts(
+  ctx: QueryCtx,
+  args: { provider: ResearchProviderId; model: string },
+): Promise<number[]> {
+  const logs = await ctx.db
+    .query("costLogs")
+    .withIndex("by_timestamp")
+    .order("desc")
+    .take(MODEL_COST_SAMPLE_LIMIT);
+  // Follow-on analysis calls are logged with a kind and cost far less than a run
+  return logs.flatMap((log) =>
+    !log.kind &&
+    log.provider === args.provider &&
+    (log.model ?? getDefaultModel(log.provider)) === args.model
+      ? [log.costUsd]
+      : [],
+  );
+}
+
+/**
+ * Expected cost of a single job: the median of past runs of the prompt or,
+ * without history, a conservative cost for the model (see `fallbackJobCostUsd`).
+ */
+export async function estimateJobCostUsd(
+  ctx: QueryCtx,
+  args: {
+    promptId: Id<"prompts">;
+    template: string;
+    parameterValues?: Record<string, string>;
+    provider: ResearchProviderId;
+    model: string;
+    stockIds: Id<"stocks">[];
+  },
+): Promise<number> {
+  const { samples } = await loadRunHistory(ctx, args);
+  const spread = summarizeSpread(
+    samples.flatMap((job) => (job.costUsd !== undefined ? [job.costUsd] : [])),
+  );
+  if (spread) return spread.median;
+
+  const date = todayIsoDate();
+  const resolvedPrompt = promptToSize(args.template, {
+    stocks: await loadTemplateStocks(ctx, args.stockIds, date),
+    date,
+    parameters: args.parameterValues,
+  });
+  const pricing = await getCurrentPricing(ctx, args.model);
+  const inputCostUsd = pricing
+    ? (estimateTokenCount(resolvedPrompt) * pricing.rates.inputPerMillion) / 1_000_000
+    : 0;
+  return fallbackJobCostUsd(await loadModelCosts(ctx, args), inputCostUsd);
+}
+
+/**
+ * Expected cost of the jobs that have not finished yet: pending, running and
+ * queued, except those the budget cap holds back. Jobs of the same prompt and
+ * model share one estimate.
+ */
+export async function estimateUnfinishedJobsCostUsd(ctx: QueryCtx, now: number): Promise<number> {
+  const jobs = (
+    await Promise.all(
+      (["queued", "pending", "running"] as const).map((status) =>
+        ctx.db
+          .query("researchJobs")
+          .withIndex("by_status", (q) => q.eq("status", status))
+          .collect(),
+      ),
+    )
+  )
+    .flat()
+    .filter((job) => !isDeferred(job, now));
+
+  const estimates = new Map<string, Promise<number>>();
+  const costs = await Promise.all(
+    jobs.map((job) => {
+      const model = job.model ?? getDefaultModel(job.provider);
+      const key = `${job.promptId}:${job.provider}:${model}`;
+      let estimate = estimates.get(key);
+      if (!estimate) {
+        estimate = estimateJobCostUsd(ctx, {
+          promptId: job.promptId,
+          template: job.promptSnapshot,
+          parameterValues: job.parameterValues,
+          provider: job.provider,
+          model,
+          stockIds: job.stockIds,
+        });
+        estimates.set(key, estimate);
+      }
+      return estimate;
+    }),
+  );
+  return costs.reduce((sum, cost) => sum + cost, 0);
+}
+
+/** The prompt a run would send, or the raw template while it has errors so it can still be sized. */
+function promptToSize(template: string, vars: PromptVariables): string {
+  return findTemplateErrors(template).length > 0 ? template : resolvePromptTemplate(template, vars);
+}
+
+async function resolveStocks(
+  ctx: QueryCtx,
+  args: {
+    stockIds?: Doc<"stocks">["_id"][];
+    stockSelection?: Infer<typeof stockSelectionValidator>;
+  },
+): Promise<Doc<"stocks">[]> {
+  const ids = args.stockIds ?? (args.stockSelection?.type === "specific" ? args.stockSelection.stockIds ?? [] : undefined);
+  if (ids) {
+    const stocks = await Promise.all(ids.map((id) => ctx.db.get(id)));
+    return stocks.filter((s): s is NonNullable<typeof s> => s !== null);
+  }
+
+  const selection = args.stockSelection;
+  if (!selection || selection.type === "none") return [];
+
+  const allStocks = await ctx.db.query("stocks").collect();
+  if (selection.type === "all") return allStocks;
+
+  const tagSet = new Set(selection.tags ?? []);
+  return allStocks.filter((s) => s.tags.some((t) => tagSet.has(t)));
+}
+
+// --- Queries ---
+
+/**
+ * Pre-flight estimate for a research run or schedule: prompt size and input
+ * cost, plus median/p90 cost and duration from past runs of the same prompt.
+ * Pass `stockIds` for a one-off run or `stockSelection` and `cron` for a schedule,
+ * and `promptVersionId` when the run is pinned to a version of the prompt.
+ */
+export const getResearchEstimate = query({
+  args: {
+    promptId: v.id("prompts"),
+    promptVersionId: v.optional(v.id("promptVersions")),
+    provider: researchProvider,
+    model: v.optional(v.string()),
+    stockIds: v.optional(v.array(v.id("stocks"))),
+    stockSelection: v.optional(stockSelectionValidator),
+    fanOut: v.optional(v.boolean()),
+    cron: v.optional(v.string()),
+    parameterValues: v.optional(parameterValuesValidator),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const prompt = await ctx.db.get(args.promptId);
+    if (!prompt) {
+      throw new Error("Prompt not found");
+    }
+    const model = resolveJobModel(args.provider, args.model, prompt);
+
+    // Size the pinned version's template, as the run will send it
+    const version = args.promptVersionId ? await ctx.db.get(args.promptVersionId) : null;
+    const template = version?.promptId === args.promptId ? version.template : prompt.template;
+
+    const stocks = await resolveStocks(ctx, args);
+    const jobCount = args.fanOut && stocks.length > 1 ? stocks.length : 1;
+
+    // Size one job's prompt; fan-out jobs each cover a single stock
+    const date = todayIsoDate();
+    const resolvedPrompt = promptToSize(template, {
+      stocks: await loadTemplateStocks(
+        ctx,
+        (jobCount > 1 ? stocks.slice(0, 1) : stocks).map((s) => s._id),
+        date,
+      ),
+      date,
+      parameters: args.parameterValues,
+    });
+    const promptTokens = estimateTokenCount(resolvedPrompt);
+    const pricing = await getCurrentPricing(ctx, model);
+    const inputCostUsd = pricing
+      ? ((promptTokens * pricing.rates.inputPerMillion) / 1_000_000) * jobCount
+      : null;
+
+    const { samples, usesModelHistory } = await loadRunHistory(ctx, {
+      promptId: args.promptId,
+      provider: args.provider,
+      model,
+    });
+
+    const costPerJob = summarizeSpread(
+      samples.flatMap((job) => (job.costUsd !== undefined ? [job.costUsd] : [])),
+    );
+    const durationMs = summarizeSpread(
+      samples.flatMap((job) => (job.durationMs !== undefined ? [job.durationMs] : [])),
+    );
+
+    let runsPerMonth: number | null = null;
+    if (args.cron) {
+      try {
+        runsPerMonth = estimateRunsPerMonth(args.cron);
+      } catch {
+        runsPerMonth = null;
+      }
+    }
+
+    const costUsd = scaleSpread(costPerJob, jobCount);
+    return {
+      model,
+      stockCount: stocks.length,
+      jobCount,
+      promptTokens,
+      inputCostUsd,
+      sampleSize: samples.length,
+      usesModelHistory,
+      /** Per run, across all of its jobs */
+      costUsd,
+      /** Per job */
+      durationMs,
+      runsPerMonth,
+      monthlyCostUsd: scaleSpread(costUsd, runsPerMonth),
+    };
+  },
+});
@@ -0,0 +1,90 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+
+/** Longest slice of a report sent to the model when summarizing it. */
+const MAX_REPORT_CHARS = 60_000;
+
+const MAX_BULLETS = 5;
+
+export interface ExecutiveSummary {
+  tldr: string;
+  bullets: string[];
+}
+
+export const SUMMARY_INSTRUCTIONS = [
+  "You write executive summaries of equity research reports for a busy investor.",
+  "Give a one or two sentence TL;DR with the main conclusion, then 3 to 5 key points,",
+  "each a single short sentence with the concrete facts or numbers behind it.",
+  "Use only what the report says and plain text without Markdown.",
+].join(" ");
+
+/** JSON Schema of the summary, written for strict structured output modes. */
+export const SUMMARY_SCHEMA: Record<string, unknown> = {
+  type: "object",
+  properties: {
+    tldr: { type: "string", description: "One or two sentence summary of the conclusion" },
+    bullets: {
+      type: "array",
+      items: { type: "string" },
+      description: "3 to 5 key points, one short sentence each",
+    },
+  },
+  required: ["tldr", "bullets"],
+  additionalProperties: false,
+};
+
+export function buildSummaryInput(report: string): string {
+  return report.length > MAX_REPORT_CHARS
+    ? `${report.slice(0, MAX_REPORT_CHARS)}\n\n[Report truncated]`
+    : report;
+}
+
+/**
+ * Validate the model's answer against SUMMARY_SCHEMA, keeping at most
+ * MAX_BULLETS non-empty bullets. Returns null when there is no TL;DR.
+ * @internal Exported for testing
+ */
+export function parseExecutiveSummary(response: unknown): ExecutiveSummary | null {
+  if (typeof response !== "object" || response === null) return null;
+  const { tldr, bullets } = response as { tldr?: unknown; bullets?: unknown };
+  if (typeof tldr !== "string" || !tldr.trim()) return null;
+
+  return {
+    tldr: tldr.trim(),
+    bullets: Array.isArray(bullets)
+      ? bullets
+          .filter((bullet): bullet is string => typeof bullet === "string")
+          .map((bullet) => bullet.trim())
+          .filter(Boolean)
+          .slice(0, MAX_BULLETS)
+      : [],
+  };
+}
+
+// --- Internal helpers (called from executiveSummariesActions) ---
+
+export const saveExecutiveSummary = internalMutation({
+  args: {
+    jobId: v.id("researchJobs"),
+    tldr: v.string(),
+    bullets: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return;
+    await ctx.db.patch(args.jobId, {
+      executiveSummary: { tldr: args.tldr, bullets: args.bullets, createdAt: Date.now() },
+      executiveSummaryError: undefined,
+    });
+  },
+});
+
+/** Keep why the summary could not be written, so the job page can show it. */
+export const recordExecutiveSummaryError = internalMutation({
+  args: { jobId: v.id("researchJobs"), error: v.string() },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return;
+    await ctx.db.patch(args.jobId, { executiveSummaryError: args.error });
+  },
+});
@@ -0,0 +1,53 @@
+"use node";
+
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { runAnalysis } from "./analysisModels";
+import {
+  SUMMARY_INSTRUCTIONS,
+  SUMMARY_SCHEMA,
+  buildSummaryInput,
+  parseExecutiveSummary,
+} from "./executiveSummaries";
+import { readFullResult } from "./researchResults";
+
+/**
+ * Write a TL;DR and key points for a completed report with the provider's
+ * analysis model. Failures are kept in the job's `executiveSummaryError`;
+ * without an API key for the analysis model the job has no summary.
+ */
+export const summarizeJob = internalAction({
+  args: { jobId: v.id("researchJobs") },
+  handler: async (ctx, args): Promise<void> => {
+    const job = await ctx.runQuery(internal.researchJobs.getJobInternal, { id: args.jobId });
+    if (!job || job.status !== "completed") return;
+
+    try {
+      const report = await readFullResult(ctx, job);
+      if (!report.trim()) return;
+
+      const text = await runAnalysis(ctx, job, "summary", {
+        instructions: SUMMARY_INSTRUCTIONS,
+        input: buildSummaryInput(report),
+        schema: SUMMARY_SCHEMA,
+      });
+      if (text === null) return;
+
+      const summary = parseExecutiveSummary(JSON.parse(text));
+      if (!summary) {
+        throw new Error("The analysis model returned an empty summary");
+      }
+      await ctx.runMutation(internal.executiveSummaries.saveExecutiveSummary, {
+        jobId: job._id,
+        tldr: summary.tldr,
+        bullets: summary.bullets,
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.executiveSummaries.recordExecutiveSummaryError, {
+        jobId: job._id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  },
+});
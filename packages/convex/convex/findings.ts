@@ -0,0 +1,317 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { requireAuth } from "./authHelpers";
+
+/** A value the extraction pass pulls out of a finished report. */
+export const outputFieldValidator = v.object({
+  key: v.string(),
+  label: v.string(),
+  type: v.union(
+    v.literal("rating"),
+    v.literal("number"),
+    v.literal("text"),
+    v.literal("list"),
+  ),
+  description: v.optional(v.string()),
+});
+
+/**
+ * Output fields stored in their own researchFindings column, so they can be
+ * charted across runs. Any other key lands in `extra`.
+ */
+export const TYPED_OUTPUT_FIELDS = {
+  rating: "rating",
+  priceTarget: "number",
+  conviction: "number",
+  keyRisks: "list",
+} as const;
+
+export type OutputField = Infer<typeof outputFieldValidator>;
+
+export type FindingValue = string | number | string[];
+
+/** Rating scale, from most bearish to most bullish. */
+export const RATING_SCALE = ["Strong Sell", "Sell", "Hold", "Buy", "Strong Buy"] as const;
+
+/** Values extracted for one ticker, ready to insert into researchFindings. */
+export interface ExtractedFinding {
+  stockId?: Id<"stocks">;
+  ticker: string;
+  rating?: string;
+  priceTarget?: number;
+  conviction?: number;
+  keyRisks?: string[];
+  extra?: Record<string, FindingValue>;
+}
+
+const findingValueValidator = v.union(v.string(), v.number(), v.array(v.string()));
+
+function fieldJsonSchema(field: OutputField): Record<string, unknown> {
+  const description = field.description ? `${field.label}. ${field.description}` : field.label;
+  switch (field.type) {
+    case "rating":
+      return { type: ["string", "null"], enum: [...RATING_SCALE, null], description };
+    case "number":
+      return { type: ["number", "null"], description };
+    case "text":
+      return { type: ["string", "null"], description };
+    case "list":
+      return { type: ["array", "null"], items: { type: "string" }, description };
+  }
+}
+
+/**
+ * JSON Schema for the extraction response: one entry per ticker, with every
+ * field nullable so the model can leave out what the report does not say.
+ * Written for strict structured output modes, which need every property
+ * listed as required.
+ * @internal Exported for testing
+ */
+export function buildExtractionSchema(
+  fields: OutputField[],
+  tickers: string[],
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {
+    ticker: tickers.length > 0 ? { type: "string", enum: tickers } : { type: "string" },
+  };
+  for (const field of fields) {
+    properties[field.key] = fieldJsonSchema(field);
+  }
+  return {
+    type: "object",
+    properties: {
+      findings: {
+        type: "array",
+        items: {
+          type: "object",
+          properties,
+          required: Object.keys(properties),
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["findings"],
+    additionalProperties: false,
+  };
+}
+
+/** Instructions for the extraction pass. */
+export function buildExtractionInstructions(tickers: string[]): string {
+  const scope =
+    tickers.length > 0
+      ? `Report findings for each of these tickers the report covers: ${tickers.join(", ")}.`
+      : "Report findings for each stock the report recommends or analyzes, by ticker.";
+  return (
+    "You extract structured data from an equity research report. " +
+    `${scope} Only use what the report states; use null for anything it does not cover. ` +
+    "Price targets are plain numbers in the stock's trading currency."
+  );
+}
+
+function toRating(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const normalized = value.trim().toLowerCase();
+  return RATING_SCALE.find((rating) => rating.toLowerCase() === normalized);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== "string") return undefined;
+  const parsed = Number.parseFloat(value.replace(/[$,\s]/g, ""));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const text = value.trim();
+  return text.length > 0 ? text : undefined;
+}
+
+function toList(value: unknown): string[] | undefined {
+  const items = Array.isArray(value) ? value : [value];
+  const list = items.flatMap((item) => {
+    const text = toText(item);
+    return text ? [text] : [];
+  });
+  return list.length > 0 ? list : undefined;
+}
+
+/** Coerce a raw value to the field's type, or undefined when it does not fit. */
+function toFieldValue(field: OutputField, value: unknown): FindingValue | undefined {
+  switch (field.type) {
+    case "rating":
+      return toRating(value);
+    case "number":
+      return toNumber(value);
+    case "text":
+      return toText(value);
+    case "list":
+      return toList(value);
+  }
+}
+
+/**
+ * Turn the model's JSON response into findings rows. Values that do not match
+ * their field type are dropped, and so are entries left with no values.
+ * Tickers are matched to the job's stocks case-insensitively; a single-stock
+ * job takes the only entry whatever ticker the model used.
+ * @internal Exported for testing
+ */
+export function parseExtractedFindings(
+  response: unknown,
+  fields: OutputField[],
+  stocks: { _id: Id<"stocks">; ticker: string }[],
+): ExtractedFinding[] {
+  const entries = (response as { findings?: unknown } | null)?.findings;
+  if (!Array.isArray(entries)) return [];
+
+  const only = stocks.length === 1 && entries.length === 1 ? stocks[0] : undefined;
+  const findings: ExtractedFinding[] = [];
+  for (const entry of entries) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const record = entry as Record<string, unknown>;
+
+    const reported = toText(record.ticker)?.toUpperCase();
+    const stock =
+      only ?? stocks.find((candidate) => candidate.ticker.toUpperCase() === reported);
+    const ticker = stock?.ticker ?? reported;
+    if (!ticker) continue;
+
+    const finding: ExtractedFinding = { stockId: stock?._id, ticker };
+    const extra: Record<string, FindingValue> = {};
+    let hasValues = false;
+    for (const field of fields) {
+      const value = toFieldValue(field, record[field.key]);
+      if (value === undefined) continue;
+      hasValues = true;
+      if (field.key in TYPED_OUTPUT_FIELDS) {
+        Object.assign(finding, { [field.key]: value });
+      } else {
+        extra[field.key] = value;
+      }
+    }
+    if (!hasValues) continue;
+    if (Object.keys(extra).length > 0) finding.extra = extra;
+    findings.push(finding);
+  }
+  return findings;
+}
+
+// --- Queries ---
+
+/** Findings for one stock across runs, oldest first, for history charts. */
+export const listStockFindings = query({
+  args: {
+    stockId: v.id("stocks"),
+    limit: v.optional(v.number()),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const findings = await ctx.db
+      .query("researchFindings")
+      .withIndex("by_stockId", (q) => q.eq("stockId", args.stockId))
+      .order("desc")
+      .take(Math.min(args.limit ?? 100, 500));
+
+    const promptIds = [...new Set(findings.map((finding) => finding.promptId))];
+    const prompts = await Promise.all(promptIds.map((id) => ctx.db.get(id)));
+    const promptNames = new Map(
+      prompts.flatMap((prompt) => (prompt ? [[prompt._id, prompt.name] as const] : [])),
+    );
+
+    return findings.toReversed().map((finding) =>
+      Object.assign({}, finding, {
+        promptName: promptNames.get(finding.promptId) ?? "Deleted prompt",
+      }),
+    );
+  },
+});
+
+export const getJobFindings = query({
+  args: { jobId: v.id("researchJobs"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+    return await ctx.db
+      .query("researchFindings")
+      .withIndex("by_jobId", (q) => q.eq("jobId", args.jobId))
+      .collect();
+  },
+});
+
+// --- Internal helpers (called from findingsActions) ---
+
+/**
+ * What the extraction pass needs for a completed job, or null when its
+ * prompt declares no output schema.
+ */
+export const getExtractionContext = internalQuery({
+  args: { jobId: v.id("researchJobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.status !== "completed") return null;
+    const prompt = await ctx.db.get(job.promptId);
+    if (!prompt?.outputSchema || prompt.outputSchema.length === 0) return null;
+
+    const stocks = await Promise.all(job.stockIds.map((id) => ctx.db.get(id)));
+    return {
+      job,
+      fields: prompt.outputSchema,
+      stocks: stocks.flatMap((stock) => (stock ? [{ _id: stock._id, ticker: stock.ticker }] : [])),
+    };
+  },
+});
+
+/** Replace a job's findings, so re-running extraction does not duplicate rows. */
+export const saveFindings = internalMutation({
+  args: {
+    jobId: v.id("researchJobs"),
+    findings: v.array(
+      v.object({
+        stockId: v.optional(v.id("stocks")),
+        ticker: v.string(),
+        rating: v.optional(v.string()),
+        priceTarget: v.optional(v.number()),
+        conviction: v.optional(v.number()),
+        keyRisks: v.optional(v.array(v.string())),
+        extra: v.optional(v.record(v.string(), findingValueValidator)),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return;
+
+    const existing = await ctx.db
+      .query("researchFindings")
+      .withIndex("by_jobId", (q) => q.eq("jobId", args.jobId))
+      .collect();
+    await Promise.all(existing.map((finding) => ctx.db.delete(finding._id)));
+
+    const createdAt = job.completedAt ?? Date.now();
+    await Promise.all(
+      args.findings.map((finding) =>
+        ctx.db.insert(
+          "researchFindings",
+          Object.assign({ jobId: args.jobId, promptId: job.promptId, createdAt }, finding),
+        ),
+      ),
+    );
+    if (job.findingsError !== undefined) {
+      await ctx.db.patch(args.jobId, { findingsError: undefined });
+    }
+  },
+});
+
+/** Keep why extraction failed on the job, so the job page can show it. */
+export const recordFindingsError = internalMutation({
+  args: { jobId: v.id("researchJobs"), error: v.string() },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return;
+    await ctx.db.patch(args.jobId, { findingsError: args.error });
+  },
+});
@@ -0,0 +1,48 @@
+"use node";
+
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { runAnalysis } from "./analysisModels";
+import {
+  buildExtractionInstructions,
+  buildExtractionSchema,
+  parseExtractedFindings,
+} from "./findings";
+import { readFullResult } from "./researchResults";
+
+/**
+ * Second pass over a completed report: the provider's analysis model fills
+ * the prompt's output schema, and the values are stored in researchFindings.
+ * Failures are kept in the job's `findingsError` and never affect the job
+ * itself; without an API key for the analysis model nothing is extracted.
+ */
+export const extractFindings = internalAction({
+  args: { jobId: v.id("researchJobs") },
+  handler: async (ctx, args) => {
+    const context = await ctx.runQuery(internal.findings.getExtractionContext, {
+      jobId: args.jobId,
+    });
+    if (!context) return;
+
+    const { job, fields, stocks } = context;
+    const tickers = stocks.map((stock) => stock.ticker);
+    try {
+      const report = await readFullResult(ctx, job);
+      const text = await runAnalysis(ctx, job, "extraction", {
+        instructions: buildExtractionInstructions(tickers),
+        input: report,
+        schema: buildExtractionSchema(fields, tickers),
+      });
+      if (text === null) return;
+
+      const findings = parseExtractedFindings(JSON.parse(text), fields, stocks);
+      await ctx.runMutation(internal.findings.saveFindings, { jobId: job._id, findings });
+    } catch (error) {
+      await ctx.runMutation(internal.findings.recordFindingsError, {
+        jobId: job._id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  },
+});
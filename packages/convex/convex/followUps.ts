@@ -0,0 +1,173 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./authHelpers";
+import { logAuditEvent } from "./auditLog";
+import { getDefaultModel } from "./providers";
+import { QUEUE_PRIORITY, startQueuedJobs } from "./jobQueue";
+import { enforceBudgetCap } from "./budgetCap";
+import { estimateJobCostUsd } from "./estimates";
+import { validateFollowUpQuestion } from "./validation";
+import { resolvePromptTemplate } from "./promptTemplate";
+import { loadTemplateStocks } from "./earnings";
+
+type ThreadJob = Pick<Doc<"researchJobs">, "_id" | "_creationTime" | "status">;
+
+/**
+ * Earlier turns a follow-up continues from: the original job, then every
+ * completed follow-up created before it, oldest first. Failed and cancelled
+ * follow-ups have no answer and are left out of the conversation.
+ * @internal Exported for testing
+ */
+export function selectConversationTurns<T extends ThreadJob>(
+  root: T,
+  followUps: T[],
+  before: number,
+): T[] {
+  return [
+    root,
+    ...followUps
+      .filter((job) => job.status === "completed" && job._creationTime < before)
+      .toSorted((a, b) => a._creationTime - b._creationTime),
+  ];
+}
+
+/** @internal Exported for testing */
+export function hasActiveFollowUp(followUps: Pick<Doc<"researchJobs">, "status" | "awaitingRetry">[]): boolean {
+  return followUps.some(
+    (job) =>
+      job.status === "queued" ||
+      job.status === "pending" ||
+      job.status === "running" ||
+      (job.status === "failed" && job.awaitingRetry === true),
+  );
+}
+
+async function listThreadFollowUps(
+  ctx: QueryCtx,
+  rootId: Id<"researchJobs">,
+): Promise<Doc<"researchJobs">[]> {
+  return await ctx.db
+    .query("researchJobs")
+    .withIndex("by_parentJobId", (q) => q.eq("parentJobId", rootId))
+    .collect();
+}
+
+// --- Mutations ---
+
+/**
+ * Ask a follow-up question on a completed job. The question runs as a child
+ * job with the same provider and model, continuing from the latest answer in
+ * the thread. Asking on a follow-up adds to the original job's thread.
+ */
+export const askFollowUp = mutation({
+  args: {
+    jobId: v.id("researchJobs"),
+    question: v.string(),
+    /** Start even if the run would exceed the hard monthly budget cap */
+    overrideBudgetCap: v.optional(v.boolean()),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+    validateFollowUpQuestion(args.question);
+
+    const job = await ctx.db.get(args.jobId);
+    if (!job) {
+      throw new Error("Research job not found");
+    }
+    const root = job.parentJobId ? await ctx.db.get(job.parentJobId) : job;
+    if (!root) {
+      throw new Error("Original research job not found");
+    }
+    if (root.status !== "completed") {
+      throw new Error("Follow-ups can only be asked on completed research");
+    }
+    if (hasActiveFollowUp(await listThreadFollowUps(ctx, root._id))) {
+      throw new Error("Wait for the current follow-up to finish before asking another");
+    }
+
+    const model = root.model ?? getDefaultModel(root.provider);
+    const estimatedUsd = await estimateJobCostUsd(ctx, {
+      promptId: root.promptId,
+      template: args.question,
+      provider: root.provider,
+      model,
+      stockIds: root.stockIds,
+    });
+    const budget = await enforceBudgetCap(ctx, {
+      estimatedUsd,
+      override: args.overrideBudgetCap,
+    });
+
+    const now = Date.now();
+    const followUpId = await ctx.db.insert("researchJobs", {
+      promptId: root.promptId,
+      promptSnapshot: args.question.trim(),
+      stockIds: root.stockIds,
+      provider: root.provider,
+      model,
+      status: "queued",
+      attempts: 0,
+      createdAt: now,
+      priority: QUEUE_PRIORITY.manual,
+      queuedAt: now,
+      deferredUntil: budget.deferredUntil,
+      parentJobId: root._id,
+    });
+    await logAuditEvent(ctx, { action: "job.follow_up", resourceType: "researchJobs", resourceId: followUpId, details: `Follow-up to ${root._id}` });
+    if (budget.overridden) {
+      await logAuditEvent(ctx, { action: "budget.override", resourceType: "researchJobs", resourceId: followUpId, details: `Follow-up, estimated $${estimatedUsd.toFixed(2)}` });
+    }
+
+    await startQueuedJobs(ctx);
+    return followUpId;
+  },
+});
+
+// --- Queries ---
+
+/** Follow-up questions on a job, in the order they were asked. */
+export const listFollowUps = query({
+  args: { jobId: v.id("researchJobs"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const followUps = await listThreadFollowUps(ctx, args.jobId);
+    return followUps.toSorted((a, b) => a._creationTime - b._creationTime);
+  },
+});
+
+/**
+ * Conversation a follow-up job continues from. The original prompt is
+ * resolved as it was on the day the job ran.
+ */
+export const getConversationTurns = internalQuery({
+  args: { jobId: v.id("researchJobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job?.parentJobId) return null;
+    const root = await ctx.db.get(job.parentJobId);
+    if (!root) return null;
+
+    const date = new Date(root.createdAt).toISOString().split("T")[0]!;
+    const rootPrompt = resolvePromptTemplate(root.promptSnapshot, {
+      stocks: await loadTemplateStocks(ctx, root.stockIds, date),
+      date,
+      parameters: root.parameterValues,
+    });
+
+    const turns = selectConversationTurns(
+      root,
+      await listThreadFollowUps(ctx, root._id),
+      job._creationTime,
+    );
+    return turns.map((turn) => ({
+      prompt: turn._id === root._id ? rootPrompt : turn.promptSnapshot,
+      externalJobId: turn.externalJobId,
+      result: turn.result,
+      resultStorageId: turn.resultStorageId,
+    }));
+  },
+});
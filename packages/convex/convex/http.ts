@@ -45,26 +45,7 @@ http.route({
       });
     }
 
-    // Standard Webhooks: sign "msgId.timestamp.body"
-    const signedContent = `${msgId}.${timestamp}.${body}`;
-    const encoder = new TextEncoder();
-
-    // The secret from OpenAI is base64-encoded, prefixed with "whsec_"
-    const secretBytes = base64Decode(webhookSecret.replace("whsec_", ""));
-    const key = await crypto.subtle.importKey(
-      "raw",
-      secretBytes.buffer as ArrayBuffer,
-      { name: "HMAC", hash: "SHA-256" },
-      false,
-      ["sign"],
-    );
-    const signatureBytes = await crypto.subtle.sign(
-      "HMAC",
-      key,
-      encoder.encode(signedContent),
-    );
-    const expectedSignature =
-      "v1," + uint8ArrayToBase64(new Uint8Array(signatureBytes));
+    const expectedSignature = await signWebhookPayload(webhookSecret, msgId, timestamp, body);
 
     // OpenAI may send multiple signatures separated by spaces
     const signatures = signature.split(" ");
@@ -76,6 +57,33 @@ http.route({
   }),
 });
 
+/**
+ * Standard Webhooks signature (`v1,<base64 HMAC-SHA256>`) over
+ * "msgId.timestamp.body". The secret is base64-encoded, prefixed with "whsec_".
+ * Also used by the mock provider to sign its callbacks.
+ */
+export async function signWebhookPayload(
+  secret: string,
+  msgId: string,
+  timestamp: string,
+  body: string,
+): Promise<string> {
+  const secretBytes = base64Decode(secret.replace("whsec_", ""));
+  const key = await crypto.subtle.importKey(
+    "raw",
+    secretBytes.buffer as ArrayBuffer,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signatureBytes = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${msgId}.${timestamp}.${body}`),
+  );
+  return "v1," + uint8ArrayToBase64(new Uint8Array(signatureBytes));
+}
+
 /** @internal Exported for testing */
 export function base64Decode(str: string): Uint8Array {
   const binaryStr = atob(str);
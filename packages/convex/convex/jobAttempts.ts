@@ -0,0 +1,96 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./authHelpers";
+
+type AttemptOutcome = Partial<
+  Pick<Doc<"jobAttempts">, "error" | "errorClass" | "errorReason" | "costUsd" | "usage">
+> & { status: "completed" | "failed" | "cancelled" };
+
+async function getLatestAttempt(
+  ctx: MutationCtx,
+  jobId: Id<"researchJobs">,
+): Promise<Doc<"jobAttempts"> | null> {
+  return await ctx.db
+    .query("jobAttempts")
+    .withIndex("by_jobId", (q) => q.eq("jobId", jobId))
+    .order("desc")
+    .first();
+}
+
+/** Open a new attempt row when a job is (re)started. */
+export async function startAttempt(
+  ctx: MutationCtx,
+  jobId: Id<"researchJobs">,
+): Promise<number> {
+  const latest = await getLatestAttempt(ctx, jobId);
+  const attempt = (latest?.attempt ?? 0) + 1;
+  await ctx.db.insert("jobAttempts", {
+    jobId,
+    attempt,
+    status: "running",
+    startedAt: Date.now(),
+  });
+  return attempt;
+}
+
+/** Record the provider's run ID on the attempt in progress. */
+export async function setAttemptExternalId(
+  ctx: MutationCtx,
+  jobId: Id<"researchJobs">,
+  externalJobId: string,
+): Promise<void> {
+  const latest = await getLatestAttempt(ctx, jobId);
+  if (latest?.status === "running") {
+    await ctx.db.patch(latest._id, { externalJobId });
+  }
+}
+
+/** Close the attempt in progress, if any, with its outcome. */
+export async function finishAttempt(
+  ctx: MutationCtx,
+  jobId: Id<"researchJobs">,
+  outcome: AttemptOutcome,
+): Promise<void> {
+  const latest = await getLatestAttempt(ctx, jobId);
+  if (latest?.status !== "running") return;
+
+  await ctx.db.patch(latest._id, { ...outcome, endedAt: Date.now() });
+}
+
+// --- Internal mutations (called from researchActions) ---
+
+/** Record on the attempt that ran `externalJobId` that its provider run could not be cancelled. */
+export const recordCancelError = internalMutation({
+  args: {
+    jobId: v.id("researchJobs"),
+    externalJobId: v.string(),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const attempts = await ctx.db
+      .query("jobAttempts")
+      .withIndex("by_jobId", (q) => q.eq("jobId", args.jobId))
+      .collect();
+    const attempt = attempts.find((a) => a.externalJobId === args.externalJobId);
+    if (attempt) {
+      await ctx.db.patch(attempt._id, { cancelError: args.error });
+    }
+  },
+});
+
+// --- Queries ---
+
+/** Every attempt of a job, oldest first. */
+export const listJobAttempts = query({
+  args: { jobId: v.id("researchJobs"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    return await ctx.db
+      .query("jobAttempts")
+      .withIndex("by_jobId", (q) => q.eq("jobId", args.jobId))
+      .collect();
+  },
+});
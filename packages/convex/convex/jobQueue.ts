@@ -0,0 +1,115 @@
+import { internalMutation } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+export const DEFAULT_MAX_CONCURRENT_JOBS = 5;
+
+/** Higher priority runs first; ties run in the order they were queued. */
+export const QUEUE_PRIORITY = {
+  scheduled: 0,
+  manual: 1,
+} as const;
+
+type QueueFields = Pick<Doc<"researchJobs">, "priority" | "queuedAt" | "createdAt">;
+
+/** @internal Exported for testing */
+export function compareQueuedJobs(a: QueueFields, b: QueueFields): number {
+  const byPriority = (b.priority ?? 0) - (a.priority ?? 0);
+  if (byPriority !== 0) return byPriority;
+  return (a.queuedAt ?? a.createdAt) - (b.queuedAt ?? b.createdAt);
+}
+
+/** Held back by the budget cap until `deferredUntil`. */
+export function isDeferred(job: Pick<Doc<"researchJobs">, "deferredUntil">, now: number): boolean {
+  return job.deferredUntil !== undefined && job.deferredUntil > now;
+}
+
+/**
+ * Whether a job holds a concurrency slot: while it starts or runs, and while a
+ * failed job waits for its scheduled retry so the retry cannot overrun the limit.
+ */
+export function holdsSlot(job: Pick<Doc<"researchJobs">, "status" | "awaitingRetry">): boolean {
+  return (
+    job.status === "pending" ||
+    job.status === "running" ||
+    (job.status === "failed" && job.awaitingRetry === true)
+  );
+}
+
+/** @internal Exported for testing */
+export function parseConcurrencyLimit(value: string | null | undefined): number {
+  const limit = value ? Number(value) : Number.NaN;
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_MAX_CONCURRENT_JOBS;
+}
+
+/** Max jobs holding a slot, from the `max_concurrent_jobs` setting. */
+export async function getConcurrencyLimit(ctx: QueryCtx): Promise<number> {
+  const setting = await ctx.db
+    .query("settings")
+    .withIndex("by_key", (q) => q.eq("key", "max_concurrent_jobs"))
+    .unique();
+  return parseConcurrencyLimit(setting?.value);
+}
+
+/** Jobs currently holding a slot, see `holdsSlot`. */
+export async function countActiveJobs(ctx: QueryCtx): Promise<number> {
+  const pendingJobs = await ctx.db
+    .query("researchJobs")
+    .withIndex("by_status", (q) => q.eq("status", "pending"))
+    .collect();
+  const runningJobs = await ctx.db
+    .query("researchJobs")
+    .withIndex("by_status", (q) => q.eq("status", "running"))
+    .collect();
+  const retryingJobs = await ctx.db
+    .query("researchJobs")
+    .withIndex("by_awaitingRetry", (q) => q.eq("awaitingRetry", true))
+    .collect();
+  return (
+    pendingJobs.length +
+    runningJobs.length +
+    retryingJobs.filter((job) => job.status === "failed").length
+  );
+}
+
+/** Queued jobs in the order they will start. */
+export async function listQueuedJobs(ctx: QueryCtx): Promise<Doc<"researchJobs">[]> {
+  const queued = await ctx.db
+    .query("researchJobs")
+    .withIndex("by_status", (q) => q.eq("status", "queued"))
+    .collect();
+  return queued.toSorted(compareQueuedJobs);
+}
+
+/**
+ * Start as many queued jobs as there are free slots. Call after inserting a
+ * queued job and whenever a job releases its slot.
+ */
+export async function startQueuedJobs(ctx: MutationCtx): Promise<number> {
+  const limit = await getConcurrencyLimit(ctx);
+  const freeSlots = limit - (await countActiveJobs(ctx));
+  if (freeSlots <= 0) return 0;
+
+  const now = Date.now();
+  const next = (await listQueuedJobs(ctx))
+    .filter((job) => !isDeferred(job, now))
+    .slice(0, freeSlots);
+  await Promise.all(
+    next.map(async (job) => {
+      await ctx.db.patch(job._id, { status: "pending", deferredUntil: undefined });
+      await ctx.scheduler.runAfter(0, internal.researchActions.startResearch, {
+        jobId: job._id,
+      });
+    }),
+  );
+  return next.length;
+}
+
+/** Scheduled for when jobs deferred by the budget cap become eligible. */
+export const drainQueue = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    await startQueuedJobs(ctx);
+  },
+});
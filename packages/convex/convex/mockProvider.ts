@@ -0,0 +1,395 @@
+import { v } from "convex/values";
+import { internalAction, internalQuery } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { signWebhookPayload } from "./http";
+import type { ResearchProviderId } from "./providers";
+import type { TokenUsage } from "./pricing";
+import type { CitedSource } from "./researchSources";
+import type { ProviderSnapshot, ResearchProvider } from "./researchProviders";
+import type { AnalysisModel } from "./analysisModels";
+
+/**
+ * Outcome a mock run simulates. `rate_limit` and `invalid_key` fail when the
+ * run starts, like a rejected API call; the others finish after the delay.
+ */
+export type MockScenario = "completed" | "failed" | "cancelled" | "rate_limit" | "invalid_key";
+
+export const MOCK_SCENARIOS: readonly MockScenario[] = [
+  "completed",
+  "failed",
+  "cancelled",
+  "rate_limit",
+  "invalid_key",
+];
+
+export const MOCK_PROVIDER_SETTINGS = {
+  enabled: "mock_provider_enabled",
+  delaySeconds: "mock_provider_delay_seconds",
+  scenario: "mock_provider_scenario",
+} as const;
+
+export const DEFAULT_MOCK_DELAY_SECONDS = 5;
+
+// Leaves time for the job to store the run ID before the callback looks it up
+const MIN_MOCK_DELAY_MS = 1000;
+
+export interface MockProviderConfig {
+  delayMs: number;
+  scenario: MockScenario;
+}
+
+interface MockRun {
+  scenario: "completed" | "failed" | "cancelled";
+  readyAt: number;
+  inputTokens: number;
+  seed: number;
+}
+
+export function isMockScenario(value: string | null | undefined): value is MockScenario {
+  return MOCK_SCENARIOS.includes(value as MockScenario);
+}
+
+/**
+ * Build the mock config from settings values. Unset or invalid values fall
+ * back to a successful run after the default delay.
+ * @internal Exported for testing
+ */
+export function parseMockConfig(
+  values: Record<string, string | null | undefined>,
+): MockProviderConfig {
+  const delayValue = values[MOCK_PROVIDER_SETTINGS.delaySeconds];
+  const delaySeconds = delayValue ? Number(delayValue) : Number.NaN;
+  const scenario = values[MOCK_PROVIDER_SETTINGS.scenario];
+  return {
+    delayMs: Math.max(
+      MIN_MOCK_DELAY_MS,
+      (Number.isFinite(delaySeconds) && delaySeconds >= 0
+        ? delaySeconds
+        : DEFAULT_MOCK_DELAY_SECONDS) * 1000,
+    ),
+    scenario: isMockScenario(scenario) ? scenario : "completed",
+  };
+}
+
+/**
+ * A `[[mock:<scenario>]]` directive in the prompt overrides the configured
+ * scenario, so a single run can be made to fail without changing settings.
+ * @internal Exported for testing
+ */
+export function resolveMockScenario(prompt: string, fallback: MockScenario): MockScenario {
+  const directive = /\[\[mock:([a-z_]+)\]\]/.exec(prompt)?.[1];
+  return isMockScenario(directive) ? directive : fallback;
+}
+
+/** 32-bit FNV-1a, so the same prompt and model always produce the same report. */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mock runs keep no state: everything `retrieve` needs is encoded in the ID.
+ * @internal Exported for testing
+ */
+export function encodeMockRunId(run: MockRun): string {
+  return `mock-${run.scenario}-${run.readyAt}-${run.inputTokens}-${run.seed.toString(36)}`;
+}
+
+/** @internal Exported for testing */
+export function decodeMockRunId(externalJobId: string): MockRun | null {
+  const match = /^mock-(completed|failed|cancelled)-(\d+)-(\d+)-([0-9a-z]+)$/.exec(externalJobId);
+  if (!match) return null;
+  return {
+    scenario: match[1] as MockRun["scenario"],
+    readyAt: Number(match[2]),
+    inputTokens: Number(match[3]),
+    seed: parseInt(match[4]!, 36),
+  };
+}
+
+const MOCK_RATINGS = ["Buy", "Hold", "Sell"] as const;
+
+/**
+ * Canned Markdown report with one cited span, varied by `seed`.
+ * @internal Exported for testing
+ */
+export function buildMockReport(seed: number): { text: string; sources: CitedSource[] } {
+  const rating = MOCK_RATINGS[seed % MOCK_RATINGS.length]!;
+  const priceTarget = 50 + (seed % 250);
+  const growth = 2 + (seed % 18);
+
+  const intro = "# Research Report (mock)\n\n## Summary\n\n";
+  const cited =
+    `Revenue grew ${growth}% year over year, driven by steady demand in the core segment ` +
+    "and improving margins.";
+  const rest =
+    ` Overall rating: **${rating}** with a 12-month price target of $${priceTarget}.\n\n` +
+    "## Key Findings\n\n" +
+    "- Management reiterated full-year guidance.\n" +
+    "- Operating cash flow covered capital expenditure with room to spare.\n" +
+    "- Competitive pressure remains the main open question.\n\n" +
+    "## Risks\n\n" +
+    "- Customer concentration in the largest segment.\n" +
+    "- Input cost inflation could compress margins.\n\n" +
+    "_This report was generated by the mock research provider and contains no real data._\n";
+
+  return {
+    text: intro + cited + rest,
+    sources: [
+      {
+        url: `https://example.com/mock-research/${seed.toString(36)}`,
+        title: "Mock quarterly filing",
+        start: intro.length,
+        end: intro.length + cited.length,
+        citedText: cited,
+      },
+    ],
+  };
+}
+
+function buildMockUsage(run: MockRun, outputText: string): TokenUsage {
+  return {
+    inputTokens: run.inputTokens,
+    outputTokens: Math.ceil(outputText.length / 4),
+    cachedInputTokens: 0,
+    reasoningTokens: 1000 + (run.seed % 4000),
+    webSearchRequests: 3 + (run.seed % 8),
+  };
+}
+
+/**
+ * State of a mock run at `now`: running until its ready time, then the
+ * simulated outcome.
+ * @internal Exported for testing
+ */
+export function buildMockSnapshot(externalJobId: string, now: number): ProviderSnapshot {
+  const run = decodeMockRunId(externalJobId);
+  if (!run) {
+    return { externalJobId, status: "failed", error: "Unknown mock research run" };
+  }
+  if (now < run.readyAt) {
+    return { externalJobId, status: "running" };
+  }
+
+  switch (run.scenario) {
+    case "completed": {
+      const report = buildMockReport(run.seed);
+      return {
+        externalJobId,
+        status: "completed",
+        outputText: report.text,
+        usage: buildMockUsage(run, report.text),
+        sources: report.sources,
+      };
+    }
+    case "failed":
+      return {
+        externalJobId,
+        status: "failed",
+        error: "Mock research failed (500): simulated server error",
+        usage: buildMockUsage(run, ""),
+      };
+    case "cancelled":
+      return { externalJobId, status: "cancelled", error: "Research cancelled" };
+  }
+}
+
+/** Standard Webhooks event for a finished mock run, in the shape OpenAI sends. */
+function buildMockWebhookEvent(run: MockRun, externalJobId: string, now: number) {
+  return {
+    id: `evt_${externalJobId}`,
+    type: `response.${run.scenario}`,
+    created_at: Math.floor(now / 1000),
+    data: { id: externalJobId },
+  };
+}
+
+/**
+ * Stand-in for any research provider: canned reports after a delay, with
+ * signed completion callbacks like OpenAI background responses. Cancelling
+ * needs no provider call since the callback is ignored for cancelled jobs.
+ */
+export function createMockProvider(
+  ctx: Pick<ActionCtx, "scheduler">,
+  providerId: ResearchProviderId,
+  config: MockProviderConfig,
+): ResearchProvider {
+  return {
+    id: providerId,
+    completion: "webhook",
+    async start(prompt, model, conversation) {
+      const scenario = resolveMockScenario(prompt, config.scenario);
+      if (scenario === "rate_limit") {
+        throw new Error("Mock provider error (429): rate limit exceeded");
+      }
+      if (scenario === "invalid_key") {
+        throw new Error("Mock provider error (401): invalid API key");
+      }
+
+      const readyAt = Date.now() + config.delayMs;
+      const externalJobId = encodeMockRunId({
+        scenario,
+        readyAt,
+        inputTokens: Math.ceil(prompt.length / 4),
+        seed: hashString(`${model}\n${conversation?.previousExternalJobId ?? ""}\n${prompt}`),
+      });
+      await ctx.scheduler.runAt(readyAt, internal.mockProvider.sendMockCallback, {
+        externalJobId,
+      });
+      return { externalJobId, status: "running" };
+    },
+    async retrieve(externalJobId) {
+      return buildMockSnapshot(externalJobId, Date.now());
+    },
+  };
+}
+
+/**
+ * Deterministic value matching a JSON Schema: the seed picks enum members and
+ * numbers, arrays get a single item and nullable types are never null.
+ * @internal Exported for testing
+ */
+export function buildMockStructuredOutput(schema: unknown, seed: number): unknown {
+  const node = (schema ?? {}) as {
+    type?: string | string[];
+    enum?: unknown[];
+    properties?: Record<string, unknown>;
+    items?: unknown;
+  };
+  const options = node.enum?.filter((option) => option !== null);
+  if (options && options.length > 0) return options[seed % options.length];
+
+  const type = Array.isArray(node.type) ? node.type.find((t) => t !== "null") : node.type;
+  switch (type) {
+    case "object": {
+      const value: Record<string, unknown> = {};
+      let offset = 0;
+      for (const [key, property] of Object.entries(node.properties ?? {})) {
+        value[key] = buildMockStructuredOutput(property, seed + offset);
+        offset += 7;
+      }
+      return value;
+    }
+    case "array":
+      return [buildMockStructuredOutput(node.items, seed)];
+    case "number":
+    case "integer":
+      return 10 + (seed % 190);
+    case "boolean":
+      return seed % 2 === 0;
+    default:
+      return "Mock value";
+  }
+}
+
+/**
+ * Stand-in for an analysis model: structured requests get a value built from
+ * the schema, plain requests a canned note. Seeded by the input so the same
+ * report always gets the same answer.
+ */
+export function createMockAnalysisModel(
+  providerId: ResearchProviderId,
+  model: string,
+): AnalysisModel {
+  return {
+    provider: providerId,
+    model,
+    async complete(request) {
+      const seed = hashString(`${model}\n${request.instructions}\n${request.input}`);
+      const text = request.schema
+        ? JSON.stringify(buildMockStructuredOutput(request.schema, seed))
+        : "Mock analysis generated without calling a model.";
+      return {
+        text,
+        usage: {
+          inputTokens: Math.ceil((request.instructions.length + request.input.length) / 4),
+          outputTokens: Math.ceil(text.length / 4),
+        },
+      };
+    },
+  };
+}
+
+// --- Queries ---
+
+/**
+ * Mock settings when the mock provider is switched on in settings or with
+ * the MOCK_RESEARCH_PROVIDER env var, otherwise null.
+ */
+export const getMockProviderConfig = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const keys = Object.values(MOCK_PROVIDER_SETTINGS);
+    const settings = await Promise.all(
+      keys.map((key) =>
+        ctx.db
+          .query("settings")
+          .withIndex("by_key", (q) => q.eq("key", key))
+          .unique(),
+      ),
+    );
+    const values = Object.fromEntries(keys.map((key, i) => [key, settings[i]?.value]));
+
+    const enabled =
+      values[MOCK_PROVIDER_SETTINGS.enabled] === "true" ||
+      process.env.MOCK_RESEARCH_PROVIDER === "true";
+    return enabled ? parseMockConfig(values) : null;
+  },
+});
+
+// --- Actions ---
+
+/**
+ * Deliver the completion callback of a mock run to /api/research-callback,
+ * signed with WEBHOOK_SECRET so it takes the same path as a real webhook.
+ * Without a secret or site URL the webhook handler is skipped and the job is
+ * completed directly.
+ */
+export const sendMockCallback = internalAction({
+  args: { externalJobId: v.string() },
+  handler: async (ctx, args) => {
+    const run = decodeMockRunId(args.externalJobId);
+    if (!run) return;
+
+    const now = Date.now();
+    const event = buildMockWebhookEvent(run, args.externalJobId, now);
+    const webhookSecret = process.env.WEBHOOK_SECRET;
+    const siteUrl = process.env.CONVEX_SITE_URL;
+
+    if (!webhookSecret || !siteUrl) {
+      const job = await ctx.runQuery(internal.researchJobs.getJobByExternalId, {
+        externalJobId: args.externalJobId,
+      });
+      if (job) {
+        await ctx.scheduler.runAfter(0, internal.researchActions.processWebhookEvent, {
+          jobId: job._id,
+          eventType: event.type,
+        });
+      }
+      return;
+    }
+
+    const body = JSON.stringify(event);
+    const msgId = `msg_${args.externalJobId}`;
+    const timestamp = String(event.created_at);
+    const response = await fetch(`${siteUrl}/api/research-callback`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "webhook-id": msgId,
+        "webhook-timestamp": timestamp,
+        "webhook-signature": await signWebhookPayload(webhookSecret, msgId, timestamp, body),
+      },
+      body,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Mock callback rejected (${response.status}): ${errorText}`);
+    }
+  },
+});
@@ -0,0 +1,127 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import { requireAuth } from "./authHelpers";
+import { logAuditEvent } from "./auditLog";
+import { PROVIDER_MODELS, getDefaultModel } from "./providers";
+import type { ResearchProviderId } from "./providers";
+import { DEFAULT_MODEL_RATES } from "./pricing";
+
+const ratesValidator = {
+  inputPerMillion: v.number(),
+  cachedInputPerMillion: v.number(),
+  outputPerMillion: v.number(),
+  reasoningPerMillion: v.number(),
+  webSearchPerCall: v.number(),
+};
+
+function findModelProvider(model: string): ResearchProviderId | null {
+  const providers = Object.keys(PROVIDER_MODELS) as ResearchProviderId[];
+  return providers.find((p) => PROVIDER_MODELS[p].includes(model)) ?? null;
+}
+
+export async function getCurrentPricing(ctx: QueryCtx, model: string) {
+  const latest = await ctx.db
+    .query("modelPricing")
+    .withIndex("by_model_version", (q) => q.eq("model", model))
+    .order("desc")
+    .first();
+
+  if (latest) {
+    const { inputPerMillion, cachedInputPerMillion, outputPerMillion, reasoningPerMillion, webSearchPerCall } = latest;
+    return {
+      rates: { inputPerMillion, cachedInputPerMillion, outputPerMillion, reasoningPerMillion, webSearchPerCall },
+      version: latest.version,
+      updatedAt: latest.createdAt as number | undefined,
+    };
+  }
+
+  const rates = DEFAULT_MODEL_RATES[model];
+  if (!rates) return null;
+  return { rates, version: 0, updatedAt: undefined };
+}
+
+// --- Queries ---
+
+/** Current pricing for every selectable model, grouped by provider order. */
+export const listModelPricing = query({
+  args: { token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const providers = Object.keys(PROVIDER_MODELS) as ResearchProviderId[];
+    const models = providers.flatMap((provider) =>
+      PROVIDER_MODELS[provider].map((model) => ({ provider, model })),
+    );
+
+    const rows = await Promise.all(
+      models.map(async ({ provider, model }) => {
+        const pricing = await getCurrentPricing(ctx, model);
+        if (!pricing) return null;
+        return {
+          provider,
+          model,
+          isDefault: model === getDefaultModel(provider),
+          inputPerMillion: pricing.rates.inputPerMillion,
+          cachedInputPerMillion: pricing.rates.cachedInputPerMillion,
+          outputPerMillion: pricing.rates.outputPerMillion,
+          reasoningPerMillion: pricing.rates.reasoningPerMillion,
+          webSearchPerCall: pricing.rates.webSearchPerCall,
+          version: pricing.version,
+          updatedAt: pricing.updatedAt,
+        };
+      }),
+    );
+    return rows.filter((row): row is NonNullable<typeof row> => row !== null);
+  },
+});
+
+export const getModelPricingInternal = internalQuery({
+  args: { model: v.string() },
+  handler: async (ctx, args) => {
+    return await getCurrentPricing(ctx, args.model);
+  },
+});
+
+// --- Mutations ---
+
+/**
+ * Record new rates for a model. Each edit inserts a new version so cost logs
+ * keep pointing at the prices that produced them.
+ */
+export const updateModelPricing = mutation({
+  args: {
+    model: v.string(),
+    ...ratesValidator,
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const provider = findModelProvider(args.model);
+    if (!provider) {
+      throw new Error(`Unknown model "${args.model}"`);
+    }
+
+    const { model, token: _token, ...rates } = args;
+    for (const [field, value] of Object.entries(rates)) {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`${field} must be a non-negative number`);
+      }
+    }
+
+    const current = await getCurrentPricing(ctx, model);
+    const version = (current?.version ?? 0) + 1;
+
+    const id = await ctx.db.insert("modelPricing", {
+      provider,
+      model,
+      ...rates,
+      version,
+      createdAt: Date.now(),
+    });
+
+    await logAuditEvent(ctx, { action: "modelPricing.update", resourceType: "modelPricing", resourceId: id, details: `${model} v${version}` });
+    return version;
+  },
+});
@@ -3,6 +3,7 @@
 import { v } from "convex/values";
 import { action, internalAction } from "./_generated/server";
 import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
 
 // --- Telegram ---
 
@@ -109,6 +110,41 @@ export function escapeHtml(str: string): string {
     .replace(/'/g, "&#039;");
 }
 
+const SUMMARY_PREVIEW_CHARS = 300;
+
+/**
+ * Body of a job notification. A completed job leads with the changes since
+ * the previous run when they were summarized, then its executive summary, or
+ * the start of the report when there is none. A failed job shows its error.
+ * @internal Exported for testing
+ */
+export function buildNotificationSummary(
+  job: Pick<
+    Doc<"researchJobs">,
+    "status" | "result" | "error" | "changeSummary" | "executiveSummary"
+  >,
+): string {
+  if (job.status !== "completed") return job.error ? `Error: ${job.error}` : "";
+
+  const parts: string[] = [];
+  if (job.changeSummary) parts.push(`Changes since last run:\n${job.changeSummary.text}`);
+  if (job.executiveSummary) {
+    parts.push(
+      [
+        `TL;DR: ${job.executiveSummary.tldr}`,
+        ...job.executiveSummary.bullets.map((bullet) => `\u2022 ${bullet}`),
+      ].join("\n"),
+    );
+  } else if (!job.changeSummary && job.result) {
+    parts.push(
+      job.result.length > SUMMARY_PREVIEW_CHARS
+        ? `${job.result.substring(0, SUMMARY_PREVIEW_CHARS)}...`
+        : job.result,
+    );
+  }
+  return parts.join("\n\n");
+}
+
 // --- Dispatch Logic ---
 
 /**
@@ -128,6 +164,9 @@ export const dispatchJobNotification = internalAction({
     // Only notify for completed or failed jobs
     if (job.status !== "completed" && job.status !== "failed") return;
 
+    // Batch children are reported together in the batch summary
+    if (job.batchId) return;
+
     // Check enabled channels
     const telegramEnabled: string | null = await ctx.runQuery(
       internal.authHelpers.getSettingValue,
@@ -158,14 +197,7 @@ export const dispatchJobNotification = internalAction({
     const statusEmoji = isCompleted ? "\u2705" : "\u274c";
     const statusText = isCompleted ? "completed" : "failed";
 
-    // Extract a brief summary for the notification
-    let summary = "";
-    if (isCompleted && job.result) {
-      summary = job.result.substring(0, 300);
-      if (job.result.length > 300) summary += "...";
-    } else if (job.error) {
-      summary = `Error: ${job.error}`;
-    }
+    const summary = buildNotificationSummary(job);
 
     const costLine =
       job.costUsd !== undefined
@@ -208,6 +240,116 @@ export const dispatchJobNotification = internalAction({
   },
 });
 
+/**
+ * Notifies enabled channels when the runtime watchdog flags or cancels a job.
+ */
+export const dispatchWatchdogNotification = internalAction({
+  args: {
+    jobId: v.id("researchJobs"),
+    action: v.union(v.literal("flagged"), v.literal("cancelled")),
+    maxRuntimeMinutes: v.number(),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const job = await ctx.runQuery(internal.researchJobs.getJobInternal, {
+      id: args.jobId,
+    });
+    if (!job) return;
+
+    const telegramEnabled: string | null = await ctx.runQuery(
+      internal.authHelpers.getSettingValue,
+      { key: "notification_telegram_enabled" },
+    );
+    const emailEnabled: string | null = await ctx.runQuery(
+      internal.authHelpers.getSettingValue,
+      { key: "notification_email_enabled" },
+    );
+
+    const stocks = await Promise.all(
+      job.stockIds.map((id) =>
+        ctx.runQuery(internal.researchJobs.getStockInternal, { id }),
+      ),
+    );
+    const stockTickers = stocks
+      .filter((s): s is NonNullable<typeof s> => s !== null)
+      .map((s) => s.ticker);
+    const stockLabel =
+      stockTickers.length > 0
+        ? stockTickers.join(", ")
+        : "Discovery research";
+
+    const headline = `\u23f1\ufe0f Research exceeded ${args.maxRuntimeMinutes} min: ${stockLabel}`;
+    const detail =
+      args.action === "cancelled"
+        ? "The job was cancelled automatically."
+        : "The job is still running. Cancel it from Active Jobs if it is stuck.";
+
+    if (telegramEnabled === "true") {
+      await ctx.runAction(internal.notifications.sendTelegramMessage, {
+        text: `${headline}\n\n${detail}`,
+      });
+    }
+
+    if (emailEnabled === "true") {
+      await ctx.runAction(internal.notifications.sendEmail, {
+        subject: headline,
+        html: `
+          <h2>Research exceeded maximum runtime</h2>
+          <p><strong>Stocks:</strong> ${escapeHtml(stockLabel)}</p>
+          <p><strong>Limit:</strong> ${args.maxRuntimeMinutes} minutes</p>
+          <p>${escapeHtml(detail)}</p>
+        `.trim(),
+      });
+    }
+  },
+});
+
+/** Tell the user a scheduled run was skipped, e.g. because of the budget cap. */
+export const dispatchScheduleNotification = internalAction({
+  args: {
+    scheduleId: v.id("schedules"),
+    error: v.string(),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const schedule = await ctx.runQuery(internal.schedules.getScheduleInternal, {
+      id: args.scheduleId,
+    });
+    if (!schedule) return;
+
+    const telegramEnabled: string | null = await ctx.runQuery(
+      internal.authHelpers.getSettingValue,
+      { key: "notification_telegram_enabled" },
+    );
+    const emailEnabled: string | null = await ctx.runQuery(
+      internal.authHelpers.getSettingValue,
+      { key: "notification_email_enabled" },
+    );
+
+    const headline = `\u26a0\ufe0f Scheduled run skipped: ${schedule.name}`;
+
+    if (telegramEnabled === "true") {
+      await ctx.runAction(internal.notifications.sendTelegramMessage, {
+        text: `${headline}\n\n${args.error}`,
+      });
+    }
+
+    if (emailEnabled === "true") {
+      await ctx.runAction(internal.notifications.sendEmail, {
+        subject: headline,
+        html: `
+          <h2>Scheduled run skipped</h2>
+          <p><strong>Schedule:</strong> ${escapeHtml(schedule.name)}</p>
+          <p>${escapeHtml(args.error)}</p>
+        `.trim(),
+      });
+    }
+
+    // Without a notification channel the skip only shows on the schedules page and in the logs
+    if (telegramEnabled !== "true" && emailEnabled !== "true") {
+      console.error(`Scheduled run skipped for schedule ${args.scheduleId}: ${args.error}`);
+    }
+  },
+});
+
 /**
  * Batch notification dispatcher. Sends a single summary notification
  * for multiple jobs that completed in a short window.
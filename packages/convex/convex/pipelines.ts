@@ -0,0 +1,557 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./authHelpers";
+import { logAuditEvent } from "./auditLog";
+import { researchProvider, resolveJobModel, validateProviderModel } from "./providers";
+import { QUEUE_PRIORITY, startQueuedJobs } from "./jobQueue";
+import { enforceBudgetCap } from "./budgetCap";
+import { estimateJobCostUsd } from "./estimates";
+import { resolvePromptVersion } from "./promptVersions";
+import {
+  findPromptParameters,
+  findStepReferences,
+  findTemplateErrors,
+  formatTemplateErrors,
+  parameterValuesValidator,
+  resolveParameterValues,
+} from "./promptTemplate";
+import { validateParameterValues, validatePipelineInput } from "./validation";
+
+/** One step of a pipeline: a prompt run on a given provider and model. */
+export const pipelineStepValidator = v.object({
+  name: v.string(),
+  promptId: v.id("prompts"),
+  provider: researchProvider,
+  model: v.optional(v.string()),
+  /** Values for the step prompt's own parameters */
+  parameterValues: v.optional(parameterValuesValidator),
+});
+
+/** Where a pipeline step is: `waiting` until the steps before it complete. */
+export const pipelineStepStatusValidator = v.union(
+  v.literal("waiting"),
+  v.literal("queued"),
+  v.literal("running"),
+  v.literal("completed"),
+  v.literal("failed"),
+  v.literal("cancelled"),
+);
+
+type PipelineStep = Infer<typeof pipelineStepValidator>;
+export type PipelineRunStep = Doc<"pipelineRuns">["steps"][number];
+export type PipelineRunStatus = Doc<"pipelineRuns">["status"];
+
+type StepJob = Pick<
+  Doc<"researchJobs">,
+  "_id" | "status" | "costUsd" | "awaitingRetry" | "pipelineStep"
+>;
+
+export interface PipelineRunSummary {
+  status: PipelineRunStatus;
+  steps: PipelineRunStep[];
+  currentStep: number;
+  costUsd: number;
+  /** Step whose job should be created now, when the one before it just completed */
+  nextStep: number | null;
+}
+
+function stepStatus(job: StepJob): PipelineRunStep["status"] {
+  switch (job.status) {
+    case "queued":
+    case "completed":
+    case "cancelled":
+      return job.status;
+    case "failed":
+      return job.awaitingRetry ? "running" : "failed";
+    default:
+      return "running";
+  }
+}
+
+/**
+ * Derive a run's state from its step jobs. Steps run strictly in order, so the
+ * first step that hasn't completed decides the status; a step still waiting
+ * there is ready to start. Steps whose job was deleted keep their last state.
+ * @internal Exported for testing
+ */
+export function summarizePipelineRun(
+  steps: PipelineRunStep[],
+  jobs: StepJob[],
+): PipelineRunSummary {
+  const jobByStep = new Map(jobs.map((job) => [job.pipelineStep, job]));
+  const summarized: PipelineRunStep[] = [];
+  let costUsd = 0;
+
+  for (const [index, step] of steps.entries()) {
+    const job = jobByStep.get(index);
+    if (job) {
+      summarized.push({ ...step, jobId: job._id, status: stepStatus(job), costUsd: job.costUsd });
+    } else {
+      summarized.push(step);
+    }
+    costUsd += summarized[index]!.costUsd ?? 0;
+  }
+
+  const currentStep = summarized.findIndex((step) => step.status !== "completed");
+  if (currentStep === -1) {
+    return { status: "completed", steps: summarized, currentStep: steps.length - 1, costUsd, nextStep: null };
+  }
+
+  const current = summarized[currentStep]!;
+  return {
+    status: current.status === "failed" || current.status === "cancelled" ? current.status : "running",
+    steps: summarized,
+    currentStep,
+    costUsd,
+    nextStep: current.status === "waiting" ? currentStep : null,
+  };
+}
+
+/**
+ * Steps can only use the output of steps that ran before them.
+ * @internal Exported for testing
+ */
+export function validateStepReferences(steps: { name: string; template: string }[]): void {
+  for (const [index, step] of steps.entries()) {
+    const invalid = findStepReferences(step.template).find((n) => n < 1 || n > index);
+    if (invalid !== undefined) {
+      throw new Error(
+        `Step ${index + 1} ("${step.name}") uses {{STEP_${invalid}_RESULT}}, which is not an earlier step`,
+      );
+    }
+  }
+}
+
+/**
+ * Why a step's prompt can't run: template errors, or a parameter the step
+ * gives no valid value for and that has no default. Null when it can run.
+ * @internal Exported for testing
+ */
+export function findStepPromptError(
+  template: string,
+  parameterValues?: Record<string, string>,
+): string | null {
+  const errors = findTemplateErrors(template);
+  if (errors.length > 0) return formatTemplateErrors(errors);
+  try {
+    resolveParameterValues(findPromptParameters(template), parameterValues);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid parameter values";
+  }
+}
+
+/**
+ * Prompts of each step, checked to exist, to run with the step's parameter
+ * values and to reference only earlier steps.
+ */
+async function loadStepPrompts(
+  ctx: QueryCtx,
+  steps: PipelineStep[],
+): Promise<Doc<"prompts">[]> {
+  const prompts = await Promise.all(steps.map((step) => ctx.db.get(step.promptId)));
+  const found: Doc<"prompts">[] = [];
+  for (const [index, prompt] of prompts.entries()) {
+    const step = steps[index]!;
+    if (!prompt) {
+      throw new Error(`Prompt for step ${index + 1} ("${step.name}") not found`);
+    }
+    const error = findStepPromptError(prompt.template, step.parameterValues);
+    if (error) {
+      throw new Error(`Step ${index + 1} ("${step.name}"): ${error}`);
+    }
+    found.push(prompt);
+  }
+  validateStepReferences(
+    steps.map((step, index) => ({ name: step.name, template: found[index]!.template })),
+  );
+  return found;
+}
+
+/** 1-based steps a prompt runs as, across every pipeline that uses it. */
+export async function findPromptPipelineSteps(
+  ctx: QueryCtx,
+  promptId: Id<"prompts">,
+): Promise<number[]> {
+  const pipelines = await ctx.db.query("pipelines").collect();
+  return pipelines.flatMap((pipeline) =>
+    pipeline.steps.flatMap((step, index) => (step.promptId === promptId ? [index + 1] : [])),
+  );
+}
+
+function validateSteps(steps: PipelineStep[]): void {
+  for (const step of steps) {
+    if (step.model !== undefined) validateProviderModel(step.provider, step.model);
+    if (step.parameterValues) validateParameterValues(step.parameterValues);
+  }
+}
+
+async function insertStepJob(
+  ctx: MutationCtx,
+  run: Pick<Doc<"pipelineRuns">, "_id" | "steps" | "stockIds" | "scheduleId" | "priority">,
+  index: number,
+  prompt: Doc<"prompts">,
+  deferredUntil?: number,
+): Promise<Id<"researchJobs">> {
+  const step = run.steps[index]!;
+  const version = await resolvePromptVersion(ctx, prompt, undefined, step.parameterValues, index + 1);
+  const now = Date.now();
+  return await ctx.db.insert("researchJobs", {
+    promptId: prompt._id,
+    promptSnapshot: version.template,
+    promptVersionId: version.versionId,
+    parameterValues: version.parameterValues,
+    stockIds: run.stockIds,
+    provider: step.provider,
+    model: resolveJobModel(step.provider, step.model, prompt),
+    status: "queued",
+    attempts: 0,
+    scheduleId: run.scheduleId,
+    createdAt: now,
+    priority: run.priority,
+    queuedAt: now,
+    deferredUntil,
+    pipelineRunId: run._id,
+    pipelineStep: index,
+  });
+}
+
+/**
+ * Start a run of a pipeline with its first step queued. The whole pipeline is
+ * checked against the budget cap up front; later steps start without another
+ * check as soon as the step before them completes.
+ */
+async function createPipelineRun(
+  ctx: MutationCtx,
+  args: {
+    pipeline: Doc<"pipelines">;
+    stockIds: Id<"stocks">[];
+    scheduleId?: Id<"schedules">;
+    priority: number;
+    overrideBudgetCap?: boolean;
+  },
+): Promise<Id<"pipelineRuns">> {
+  const { pipeline, stockIds, scheduleId, priority } = args;
+  const prompts = await loadStepPrompts(ctx, pipeline.steps);
+
+  const stepEstimates = await Promise.all(
+    pipeline.steps.map((step, index) =>
+      estimateJobCostUsd(ctx, {
+        promptId: step.promptId,
+        template: prompts[index]!.template,
+        parameterValues: step.parameterValues,
+        provider: step.provider,
+        model: resolveJobModel(step.provider, step.model, prompts[index]!),
+        stockIds,
+      }),
+    ),
+  );
+  const estimatedUsd = stepEstimates.reduce((sum, cost) => sum + cost, 0);
+  const budget = await enforceBudgetCap(ctx, {
+    estimatedUsd,
+    override: args.overrideBudgetCap,
+  });
+
+  const steps: PipelineRunStep[] = [];
+  for (const step of pipeline.steps) {
+    steps.push({ ...step, status: "waiting" });
+  }
+  const runId = await ctx.db.insert("pipelineRuns", {
+    pipelineId: pipeline._id,
+    name: pipeline.name,
+    steps,
+    stockIds,
+    scheduleId,
+    status: "running",
+    currentStep: 0,
+    costUsd: 0,
+    priority,
+    createdAt: Date.now(),
+  });
+
+  const jobId = await insertStepJob(
+    ctx,
+    { _id: runId, steps, stockIds, scheduleId, priority },
+    0,
+    prompts[0]!,
+    budget.deferredUntil,
+  );
+  steps[0] = { ...steps[0]!, jobId, status: "queued" };
+  await ctx.db.patch(runId, { steps });
+
+  if (budget.overridden) {
+    await logAuditEvent(ctx, { action: "budget.override", resourceType: "pipelineRuns", resourceId: runId, details: `Estimated $${estimatedUsd.toFixed(2)}` });
+  }
+  await startQueuedJobs(ctx);
+
+  return runId;
+}
+
+/**
+ * Recompute a run from its step jobs, queueing the next step once the one
+ * before it completes. Called whenever a step job changes state, so a step
+ * that can't start fails the run rather than the caller.
+ */
+export async function refreshPipelineRun(
+  ctx: MutationCtx,
+  runId: Id<"pipelineRuns">,
+): Promise<void> {
+  const run = await ctx.db.get(runId);
+  if (!run) return;
+
+  const jobs = await ctx.db
+    .query("researchJobs")
+    .withIndex("by_pipelineRunId", (q) => q.eq("pipelineRunId", runId))
+    .collect();
+  const summary = summarizePipelineRun(run.steps, jobs);
+  let { status } = summary;
+  let error: string | undefined;
+
+  if (summary.nextStep !== null) {
+    const step = summary.steps[summary.nextStep]!;
+    const prompt = await ctx.db.get(step.promptId);
+    if (prompt) {
+      try {
+        const jobId = await insertStepJob(ctx, run, summary.nextStep, prompt);
+        summary.steps[summary.nextStep] = { ...step, jobId, status: "queued" };
+      } catch (startError) {
+        // The prompt was edited since the run started, e.g. with a new required parameter
+        const message = startError instanceof Error ? startError.message : "Unknown error";
+        error = `Step ${summary.nextStep + 1} ("${step.name}") could not start: ${message}`;
+      }
+    } else {
+      error = `Prompt for step ${summary.nextStep + 1} ("${step.name}") was deleted`;
+    }
+    if (error) {
+      status = "failed";
+      summary.steps[summary.nextStep] = { ...step, status: "failed" };
+    } else {
+      await startQueuedJobs(ctx);
+    }
+  }
+
+  await ctx.db.patch(runId, {
+    steps: summary.steps,
+    status,
+    currentStep: summary.currentStep,
+    costUsd: summary.costUsd,
+    error,
+    completedAt: status === "running" ? undefined : (run.completedAt ?? Date.now()),
+  });
+}
+
+// --- Queries ---
+
+export const listPipelines = query({
+  args: { token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+    return await ctx.db.query("pipelines").order("desc").collect();
+  },
+});
+
+export const getPipeline = query({
+  args: { id: v.id("pipelines"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+    return await ctx.db.get(args.id);
+  },
+});
+
+/** Most recent runs, of one pipeline or of all of them. */
+export const listPipelineRuns = query({
+  args: {
+    pipelineId: v.optional(v.id("pipelines")),
+    limit: v.optional(v.number()),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const maxResults = Math.min(args.limit ?? 20, 100);
+    const pipelineId = args.pipelineId;
+    if (pipelineId) {
+      return await ctx.db
+        .query("pipelineRuns")
+        .withIndex("by_pipelineId", (q) => q.eq("pipelineId", pipelineId))
+        .order("desc")
+        .take(maxResults);
+    }
+    return await ctx.db
+      .query("pipelineRuns")
+      .withIndex("by_createdAt")
+      .order("desc")
+      .take(maxResults);
+  },
+});
+
+export const getPipelineRun = query({
+  args: { id: v.id("pipelineRuns"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+    return await ctx.db.get(args.id);
+  },
+});
+
+/**
+ * Results of the steps before a pipeline step job, in step order, for
+ * substituting `{{STEP_n_RESULT}}`. Steps without a job yield an empty result.
+ */
+export const getStepResults = internalQuery({
+  args: { jobId: v.id("researchJobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job?.pipelineRunId || !job.pipelineStep) return [];
+    const runId = job.pipelineRunId;
+
+    const jobs = await ctx.db
+      .query("researchJobs")
+      .withIndex("by_pipelineRunId", (q) => q.eq("pipelineRunId", runId))
+      .collect();
+    const jobByStep = new Map(jobs.map((stepJob) => [stepJob.pipelineStep, stepJob]));
+
+    const results = [];
+    for (let step = 0; step < job.pipelineStep; step++) {
+      const stepJob = jobByStep.get(step);
+      results.push({ result: stepJob?.result, resultStorageId: stepJob?.resultStorageId });
+    }
+    return results;
+  },
+});
+
+// --- Mutations ---
+
+export const createPipeline = mutation({
+  args: {
+    name: v.string(),
+    description: v.string(),
+    steps: v.array(pipelineStepValidator),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+    validatePipelineInput(args);
+    validateSteps(args.steps);
+    await loadStepPrompts(ctx, args.steps);
+
+    const now = Date.now();
+    const id = await ctx.db.insert("pipelines", {
+      name: args.name.trim(),
+      description: args.description,
+      steps: args.steps,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await logAuditEvent(ctx, { action: "pipeline.create", resourceType: "pipelines", resourceId: id, details: args.name });
+    return id;
+  },
+});
+
+/** Edits apply to future runs; runs already started keep the steps they began with. */
+export const updatePipeline = mutation({
+  args: {
+    id: v.id("pipelines"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    steps: v.optional(v.array(pipelineStepValidator)),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+    validatePipelineInput(args);
+
+    const existing = await ctx.db.get(args.id);
+    if (!existing) {
+      throw new Error("Pipeline not found");
+    }
+
+    const patch: Record<string, unknown> = { updatedAt: Date.now() };
+    if (args.name !== undefined) patch.name = args.name.trim();
+    if (args.description !== undefined) patch.description = args.description;
+    if (args.steps !== undefined) {
+      validateSteps(args.steps);
+      await loadStepPrompts(ctx, args.steps);
+      patch.steps = args.steps;
+    }
+
+    await ctx.db.patch(args.id, patch);
+    await logAuditEvent(ctx, { action: "pipeline.update", resourceType: "pipelines", resourceId: args.id, details: existing.name });
+    return args.id;
+  },
+});
+
+export const deletePipeline = mutation({
+  args: { id: v.id("pipelines"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const existing = await ctx.db.get(args.id);
+    if (!existing) {
+      throw new Error("Pipeline not found");
+    }
+
+    const schedules = await ctx.db.query("schedules").collect();
+    const scheduled = schedules.find((schedule) => schedule.pipelineId === args.id);
+    if (scheduled) {
+      throw new Error(`Pipeline is used by the schedule "${scheduled.name}"`);
+    }
+
+    // Past runs stay in history with the name and steps they ran with
+    await ctx.db.delete(args.id);
+    await logAuditEvent(ctx, { action: "pipeline.delete", resourceType: "pipelines", resourceId: args.id, details: existing.name });
+  },
+});
+
+export const startPipelineRun = mutation({
+  args: {
+    pipelineId: v.id("pipelines"),
+    stockIds: v.array(v.id("stocks")),
+    /** Start even if the run would exceed the hard monthly budget cap */
+    overrideBudgetCap: v.optional(v.boolean()),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const pipeline = await ctx.db.get(args.pipelineId);
+    if (!pipeline) {
+      throw new Error("Pipeline not found");
+    }
+
+    const runId = await createPipelineRun(ctx, {
+      pipeline,
+      stockIds: args.stockIds,
+      priority: QUEUE_PRIORITY.manual,
+      overrideBudgetCap: args.overrideBudgetCap,
+    });
+    await logAuditEvent(ctx, { action: "pipeline.run", resourceType: "pipelineRuns", resourceId: runId, details: pipeline.name });
+
+    return runId;
+  },
+});
+
+// --- Internal helpers (called from scheduleActions) ---
+
+export const createScheduledPipelineRun = internalMutation({
+  args: {
+    pipelineId: v.id("pipelines"),
+    stockIds: v.array(v.id("stocks")),
+    scheduleId: v.id("schedules"),
+  },
+  handler: async (ctx, args) => {
+    const pipeline = await ctx.db.get(args.pipelineId);
+    if (!pipeline) {
+      throw new Error("Pipeline not found");
+    }
+
+    return await createPipelineRun(ctx, {
+      pipeline,
+      stockIds: args.stockIds,
+      scheduleId: args.scheduleId,
+      priority: QUEUE_PRIORITY.scheduled,
+    });
+  },
+});
@@ -0,0 +1,211 @@
+/**
+ * Pure cost estimation shared by actions and pricing mutations.
+ * Editable per-model rates are stored in the modelPricing table.
+ */
+
+import { v } from "convex/values";
+
+/**
+ * Token usage reported by a provider, normalized across vendors.
+ * `inputTokens` includes cached input and `outputTokens` includes reasoning.
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens?: number;
+  reasoningTokens?: number;
+  webSearchRequests?: number;
+}
+
+export const tokenUsageValidator = v.object({
+  inputTokens: v.number(),
+  outputTokens: v.number(),
+  cachedInputTokens: v.optional(v.number()),
+  reasoningTokens: v.optional(v.number()),
+  webSearchRequests: v.optional(v.number()),
+});
+
+/**
+ * Cost of a run split by what was billed. Input excludes cached input and
+ * output excludes reasoning, so the parts add up to the total.
+ */
+export interface CostBreakdown {
+  inputUsd: number;
+  cachedInputUsd: number;
+  outputUsd: number;
+  reasoningUsd: number;
+  webSearchUsd: number;
+}
+
+export const costBreakdownValidator = v.object({
+  inputUsd: v.number(),
+  cachedInputUsd: v.number(),
+  outputUsd: v.number(),
+  reasoningUsd: v.number(),
+  webSearchUsd: v.number(),
+});
+
+/** Follow-on model calls about a finished report, logged separately from the run. */
+export const analysisKindValidator = v.union(
+  v.literal("extraction"),
+  v.literal("changes"),
+  v.literal("summary"),
+);
+
+/** Per-model rates in USD per 1M tokens, plus a flat per-search fee. */
+export interface ModelRates {
+  inputPerMillion: number;
+  cachedInputPerMillion: number;
+  outputPerMillion: number;
+  reasoningPerMillion: number;
+  webSearchPerCall: number;
+}
+
+/** Published list prices, used until a model's pricing is edited in Settings (version 0). */
+export const DEFAULT_MODEL_RATES: Record<string, ModelRates> = {
+  "o3-deep-research": {
+    inputPerMillion: 10,
+    cachedInputPerMillion: 2.5,
+    outputPerMillion: 40,
+    reasoningPerMillion: 40,
+    webSearchPerCall: 0,
+  },
+  "o4-mini-deep-research": {
+    inputPerMillion: 2,
+    cachedInputPerMillion: 0.5,
+    outputPerMillion: 8,
+    reasoningPerMillion: 8,
+    webSearchPerCall: 0,
+  },
+  "claude-sonnet-4-5": {
+    inputPerMillion: 3,
+    cachedInputPerMillion: 0.3,
+    outputPerMillion: 15,
+    reasoningPerMillion: 15,
+    webSearchPerCall: 0.01,
+  },
+  "claude-opus-4-1": {
+    inputPerMillion: 15,
+    cachedInputPerMillion: 1.5,
+    outputPerMillion: 75,
+    reasoningPerMillion: 75,
+    webSearchPerCall: 0.01,
+  },
+  "deep-research-pro-preview-12-2025": {
+    inputPerMillion: 2,
+    cachedInputPerMillion: 0.2,
+    outputPerMillion: 12,
+    reasoningPerMillion: 12,
+    webSearchPerCall: 0,
+  },
+  // Analysis models, see ANALYSIS_MODELS
+  "gpt-4.1-mini": {
+    inputPerMillion: 0.4,
+    cachedInputPerMillion: 0.1,
+    outputPerMillion: 1.6,
+    reasoningPerMillion: 1.6,
+    webSearchPerCall: 0,
+  },
+  "claude-haiku-4-5": {
+    inputPerMillion: 1,
+    cachedInputPerMillion: 0.1,
+    outputPerMillion: 5,
+    reasoningPerMillion: 5,
+    webSearchPerCall: 0,
+  },
+  "gemini-2.5-flash": {
+    inputPerMillion: 0.3,
+    cachedInputPerMillion: 0.03,
+    outputPerMillion: 2.5,
+    reasoningPerMillion: 2.5,
+    webSearchPerCall: 0,
+  },
+};
+
+/** @internal Exported for testing */
+export function estimateCost(
+  usage: TokenUsage | undefined,
+  rates: ModelRates,
+): number | undefined {
+  if (!usage) return undefined;
+  const cachedInput = usage.cachedInputTokens ?? 0;
+  const reasoning = usage.reasoningTokens ?? 0;
+  const uncachedInput = Math.max(0, usage.inputTokens - cachedInput);
+  const visibleOutput = Math.max(0, usage.outputTokens - reasoning);
+  const searches = usage.webSearchRequests ?? 0;
+
+  return (
+    (uncachedInput * rates.inputPerMillion +
+      cachedInput * rates.cachedInputPerMillion +
+      visibleOutput * rates.outputPerMillion +
+      reasoning * rates.reasoningPerMillion) /
+      1_000_000 +
+    searches * rates.webSearchPerCall
+  );
+}
+
+/** @internal Exported for testing */
+export function estimateCostBreakdown(
+  usage: TokenUsage | undefined,
+  rates: ModelRates,
+): CostBreakdown | undefined {
+  if (!usage) return undefined;
+  const cachedInput = usage.cachedInputTokens ?? 0;
+  const reasoning = usage.reasoningTokens ?? 0;
+
+  return {
+    inputUsd: (Math.max(0, usage.inputTokens - cachedInput) * rates.inputPerMillion) / 1_000_000,
+    cachedInputUsd: (cachedInput * rates.cachedInputPerMillion) / 1_000_000,
+    outputUsd: (Math.max(0, usage.outputTokens - reasoning) * rates.outputPerMillion) / 1_000_000,
+    reasoningUsd: (reasoning * rates.reasoningPerMillion) / 1_000_000,
+    webSearchUsd: (usage.webSearchRequests ?? 0) * rates.webSearchPerCall,
+  };
+}
+
+/**
+ * Add up usage across runs, treating missing optional counts as zero.
+ * @internal Exported for testing
+ */
+export function sumTokenUsage(usages: Array<TokenUsage | undefined>): Required<TokenUsage> {
+  const total: Required<TokenUsage> = {
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedInputTokens: 0,
+    reasoningTokens: 0,
+    webSearchRequests: 0,
+  };
+  for (const usage of usages) {
+    if (!usage) continue;
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.cachedInputTokens += usage.cachedInputTokens ?? 0;
+    total.reasoningTokens += usage.reasoningTokens ?? 0;
+    total.webSearchRequests += usage.webSearchRequests ?? 0;
+  }
+  return total;
+}
+
+/** @internal Exported for testing */
+export function sumCostBreakdowns(breakdowns: Array<CostBreakdown | undefined>): CostBreakdown {
+  const total: CostBreakdown = {
+    inputUsd: 0,
+    cachedInputUsd: 0,
+    outputUsd: 0,
+    reasoningUsd: 0,
+    webSearchUsd: 0,
+  };
+  for (const breakdown of breakdowns) {
+    if (!breakdown) continue;
+    total.inputUsd += breakdown.inputUsd;
+    total.cachedInputUsd += breakdown.cachedInputUsd;
+    total.outputUsd += breakdown.outputUsd;
+    total.reasoningUsd += breakdown.reasoningUsd;
+    total.webSearchUsd += breakdown.webSearchUsd;
+  }
+  return total;
+}
+
+/** Rough token count for English prose (about four characters per token). */
+export function estimateTokenCount(text: string): number {
+  return Math.ceil(text.length / 4);
+}
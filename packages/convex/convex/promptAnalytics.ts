@@ -0,0 +1,266 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./authHelpers";
+import { summarizeSpread, type Spread } from "./estimates";
+import { tallyComparisonVotes } from "./comparisons";
+
+/** Most recent runs of a prompt the analytics cover. */
+const RECENT_RUN_LIMIT = 300;
+/** Months shown in the cost trend, the current one included. */
+const TREND_MONTHS = 6;
+const TOP_ERROR_COUNT = 5;
+/** Error messages are grouped on their first line, cut to this length. */
+const ERROR_KEY_LENGTH = 200;
+
+export interface RunSummary {
+  runs: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  /** Queued, pending, running or waiting on a retry */
+  active: number;
+  /** Share of finished runs, cancelled ones aside, that completed; null before any finished */
+  successRate: number | null;
+  failureRate: number | null;
+  /** Per completed run */
+  durationMs: Spread | null;
+  /** Per run with any cost, follow-on calls such as findings extraction included */
+  costUsd: Spread | null;
+  totalCostUsd: number;
+}
+
+export interface MonthlyCost {
+  /** `YYYY-MM` */
+  month: string;
+  costUsd: number;
+  runs: number;
+}
+
+export interface ErrorGroup {
+  message: string;
+  count: number;
+  lastSeenAt: number;
+}
+
+type RunFields = Pick<
+  Doc<"researchJobs">,
+  "_id" | "status" | "awaitingRetry" | "durationMs" | "error" | "createdAt"
+>;
+
+function monthKey(time: number): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Counts, rates and spreads over a prompt's runs. `costByJob` holds each
+ * run's total from the cost logs.
+ * @internal Exported for testing
+ */
+export function summarizeRuns(runs: RunFields[], costByJob: Map<string, number>): RunSummary {
+  let completed = 0;
+  let failed = 0;
+  let cancelled = 0;
+  for (const run of runs) {
+    if (run.status === "completed") completed++;
+    else if (run.status === "failed" && !run.awaitingRetry) failed++;
+    else if (run.status === "cancelled") cancelled++;
+  }
+  const finished = completed + failed;
+  const costs = [...costByJob.values()];
+
+  return {
+    runs: runs.length,
+    completed,
+    failed,
+    cancelled,
+    active: runs.length - completed - failed - cancelled,
+    successRate: finished > 0 ? completed / finished : null,
+    failureRate: finished > 0 ? failed / finished : null,
+    durationMs: summarizeSpread(
+      runs.flatMap((run) =>
+        run.status === "completed" && run.durationMs !== undefined ? [run.durationMs] : [],
+      ),
+    ),
+    costUsd: summarizeSpread(costs),
+    totalCostUsd: costs.reduce((sum, cost) => sum + cost, 0),
+  };
+}
+
+/**
+ * Cost logged and runs started per calendar month, oldest first, covering
+ * `months` months up to the one holding `now`.
+ * @internal Exported for testing
+ */
+export function monthlyCostTrend(
+  logs: Pick<Doc<"costLogs">, "costUsd" | "timestamp">[],
+  runs: Pick<RunFields, "createdAt">[],
+  months: number,
+  now: number,
+): MonthlyCost[] {
+  const today = new Date(now);
+  const trend = new Map<string, MonthlyCost>();
+  for (let i = months - 1; i >= 0; i--) {
+    const month = monthKey(new Date(today.getFullYear(), today.getMonth() - i, 1).getTime());
+    trend.set(month, { month, costUsd: 0, runs: 0 });
+  }
+
+  for (const log of logs) {
+    const entry = trend.get(monthKey(log.timestamp));
+    if (entry) entry.costUsd += log.costUsd;
+  }
+  for (const run of runs) {
+    const entry = trend.get(monthKey(run.createdAt));
+    if (entry) entry.runs++;
+  }
+  return [...trend.values()];
+}
+
+/**
+ * Most frequent error messages of failed runs, grouped on their first line.
+ * Runs still waiting on a retry are not counted.
+ * @internal Exported for testing
+ */
+export function commonErrors(runs: RunFields[], limit: number): ErrorGroup[] {
+  const groups = new Map<string, ErrorGroup>();
+  for (const run of runs) {
+    if (run.status !== "failed" || run.awaitingRetry || !run.error) continue;
+    const message = run.error.split("\n")[0]!.trim().slice(0, ERROR_KEY_LENGTH);
+    const group = groups.get(message);
+    if (group) {
+      group.count++;
+      group.lastSeenAt = Math.max(group.lastSeenAt, run.createdAt);
+    } else {
+      groups.set(message, { message, count: 1, lastSeenAt: run.createdAt });
+    }
+  }
+  return [...groups.values()]
+    .toSorted((a, b) => b.count - a.count || b.lastSeenAt - a.lastSeenAt)
+    .slice(0, limit);
+}
+
+/** Schedules that run the prompt, directly or as a step of their pipeline. */
+async function loadPromptSchedules(ctx: QueryCtx, promptId: Id<"prompts">) {
+  const [schedules, pipelines] = await Promise.all([
+    ctx.db.query("schedules").collect(),
+    ctx.db.query("pipelines").collect(),
+  ]);
+  const pipelineNames = new Map(
+    pipelines
+      .filter((pipeline) => pipeline.steps.some((step) => step.promptId === promptId))
+      .map((pipeline) => [pipeline._id, pipeline.name]),
+  );
+
+  return schedules.flatMap((schedule) => {
+    const pipelineName = schedule.pipelineId ? pipelineNames.get(schedule.pipelineId) : undefined;
+    if (schedule.promptId !== promptId && pipelineName === undefined) return [];
+    return [
+      {
+        _id: schedule._id,
+        name: schedule.name,
+        enabled: schedule.enabled,
+        cron: schedule.cron,
+        timezone: schedule.timezone,
+        nextRunAt: schedule.nextRunAt,
+        /** Set when the prompt runs as a step of this pipeline */
+        pipelineName,
+      },
+    ];
+  });
+}
+
+/** Votes from A/B runs involving the prompt: against other prompts, between its versions and between models. */
+async function loadComparisonRecords(ctx: QueryCtx, promptId: Id<"prompts">) {
+  const [asA, asB] = await Promise.all([
+    ctx.db
+      .query("comparisons")
+      .withIndex("by_promptA", (q) => q.eq("a.promptId", promptId))
+      .collect(),
+    ctx.db
+      .query("comparisons")
+      .withIndex("by_promptB", (q) => q.eq("b.promptId", promptId))
+      .collect(),
+  ]);
+  // A comparison of two versions or two models has the prompt on both sides
+  const comparisons = [...asA, ...asB.filter((comparison) => comparison.a.promptId !== promptId)];
+  const ofKind = (kind: Doc<"comparisons">["kind"]) =>
+    comparisons.filter((comparison) => comparison.kind === kind);
+
+  const versionRecords = tallyComparisonVotes(ofKind("versions"), (run) => run.promptVersionId);
+  const versions = await Promise.all(
+    [...versionRecords.keys()].map((id) => ctx.db.get(id as Id<"promptVersions">)),
+  );
+
+  return {
+    total: comparisons.length,
+    againstPrompts: tallyComparisonVotes(ofKind("prompts"), (run) => run.promptId).get(promptId) ?? null,
+    versions: versions
+      .flatMap((version) =>
+        version
+          ? [{ versionId: version._id, version: version.version, record: versionRecords.get(version._id)! }]
+          : [],
+      )
+      .toSorted((a, b) => b.version - a.version),
+    models: [...tallyComparisonVotes(ofKind("models"), (run) => run.model)].map(([model, record]) => ({
+      model,
+      record,
+    })),
+  };
+}
+
+// --- Queries ---
+
+/**
+ * Performance of a prompt over its recent runs: outcomes, duration and cost
+ * spreads, monthly cost, frequent errors, the schedules that run it and its
+ * A/B votes. Follow-up questions are not runs of the prompt and are left out.
+ */
+export const getPromptAnalytics = query({
+  args: { promptId: v.id("prompts"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const prompt = await ctx.db.get(args.promptId);
+    if (!prompt) return null;
+
+    const recent = await ctx.db
+      .query("researchJobs")
+      .withIndex("by_promptId", (q) => q.eq("promptId", args.promptId))
+      .order("desc")
+      .take(RECENT_RUN_LIMIT);
+    const runs = recent.filter((job) => !job.parentJobId);
+
+    const logs = (
+      await Promise.all(
+        runs.map((run) =>
+          ctx.db
+            .query("costLogs")
+            .withIndex("by_jobId", (q) => q.eq("jobId", run._id))
+            .collect(),
+        ),
+      )
+    ).flat();
+    const costByJob = new Map<string, number>();
+    for (const log of logs) {
+      costByJob.set(log.jobId, (costByJob.get(log.jobId) ?? 0) + log.costUsd);
+    }
+
+    const [schedules, comparisons] = await Promise.all([
+      loadPromptSchedules(ctx, args.promptId),
+      loadComparisonRecords(ctx, args.promptId),
+    ]);
+
+    return {
+      prompt,
+      /** True when the prompt has more runs than the analytics cover */
+      truncated: recent.length === RECENT_RUN_LIMIT,
+      summary: summarizeRuns(runs, costByJob),
+      costTrend: monthlyCostTrend(logs, runs, TREND_MONTHS, Date.now()),
+      errors: commonErrors(runs, TOP_ERROR_COUNT),
+      schedules,
+      comparisons,
+    };
+  },
+});
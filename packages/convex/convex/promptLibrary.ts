@@ -0,0 +1,282 @@
+/**
+ * Prompt library import and export.
+ *
+ * Prompts travel as plain entries (name, description, type, template and
+ * model defaults) so they can be kept in git and brought back in. Entries are
+ * matched to existing prompts by name, so importing the same library twice
+ * updates instead of duplicating.
+ */
+
+import { v, type Infer } from "convex/values";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./authHelpers";
+import { logAuditEvent } from "./auditLog";
+import { promptType } from "./prompts";
+import { createFirstVersion, saveTemplateVersion } from "./promptVersions";
+import { researchProvider, validateProviderModel } from "./providers";
+import { validateOutputSchema, validatePromptInput } from "./validation";
+import { outputFieldValidator } from "./findings";
+
+const MAX_LIBRARY_PROMPTS = 200;
+const IMPORT_VERSION_NOTE = "Imported";
+
+export const promptLibraryEntry = v.object({
+  name: v.string(),
+  description: v.optional(v.string()),
+  type: promptType,
+  template: v.string(),
+  /** Omitted on import: kept as is, or OpenAI for a new prompt */
+  defaultProvider: v.optional(researchProvider),
+  defaultModel: v.optional(v.string()),
+  /** Omitted on import: kept as is */
+  outputSchema: v.optional(v.array(outputFieldValidator)),
+});
+
+export type PromptLibraryEntry = Infer<typeof promptLibraryEntry>;
+
+type PromptFields = Pick<
+  Doc<"prompts">,
+  "name" | "description" | "type" | "template" | "defaultProvider" | "defaultModel" | "outputSchema"
+>;
+
+type ExistingPrompt = PromptFields & { _id: Id<"prompts"> };
+
+export type ImportAction = "create" | "update" | "unchanged" | "invalid";
+
+export interface PlannedImport {
+  name: string;
+  action: ImportAction;
+  /** Prompt the entry updates */
+  promptId?: Id<"prompts">;
+  /** Fields an update changes, e.g. ["template", "model"] */
+  changes: string[];
+  /** Why the entry can't be imported */
+  error?: string;
+  /** The prompt as it will be saved */
+  fields?: PromptFields;
+}
+
+// --- Helpers ---
+
+function nameKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function sameOutputSchema(a: PromptFields["outputSchema"], b: PromptFields["outputSchema"]): boolean {
+  return JSON.stringify(a ?? []) === JSON.stringify(b ?? []);
+}
+
+/**
+ * The prompt an entry describes, merged over the prompt it updates. Model
+ * defaults follow `prompts.updatePrompt`: a new provider without a model
+ * clears the model.
+ */
+function resolveEntry(entry: PromptLibraryEntry, existing: ExistingPrompt | undefined): PromptFields {
+  const name = entry.name.trim();
+  if (name.length === 0) {
+    throw new Error("Prompt name is required");
+  }
+  const defaultProvider = entry.defaultProvider ?? existing?.defaultProvider ?? "openai";
+  const defaultModel =
+    entry.defaultModel ?? (entry.defaultProvider === undefined ? existing?.defaultModel : undefined);
+  validatePromptInput({
+    name,
+    description: entry.description,
+    template: entry.template,
+    type: entry.type,
+    defaultProvider,
+    defaultModel,
+  });
+  if (entry.outputSchema) validateOutputSchema(entry.outputSchema);
+  if (defaultModel !== undefined) validateProviderModel(defaultProvider, defaultModel);
+
+  const outputSchema = entry.outputSchema ?? existing?.outputSchema;
+  return {
+    name,
+    description: entry.description ?? existing?.description ?? "",
+    type: entry.type,
+    template: entry.template,
+    defaultProvider,
+    defaultModel,
+    outputSchema: outputSchema?.length ? outputSchema : undefined,
+  };
+}
+
+function changedFields(existing: PromptFields, fields: PromptFields): string[] {
+  const changes: string[] = [];
+  if (existing.name !== fields.name) changes.push("name");
+  if (existing.description !== fields.description) changes.push("description");
+  if (existing.type !== fields.type) changes.push("type");
+  if (existing.template !== fields.template) changes.push("template");
+  if (existing.defaultProvider !== fields.defaultProvider) changes.push("provider");
+  if (existing.defaultModel !== fields.defaultModel) changes.push("model");
+  if (!sameOutputSchema(existing.outputSchema, fields.outputSchema)) changes.push("output schema");
+  return changes;
+}
+
+/**
+ * What importing each entry would do. An entry updates the prompt with the
+ * same name (ignoring case) and is invalid when it fails prompt validation
+ * or its name appears more than once in the import.
+ * @internal Exported for testing
+ */
+export function planPromptImport(
+  existing: ExistingPrompt[],
+  entries: PromptLibraryEntry[],
+): PlannedImport[] {
+  const byName = new Map(existing.map((prompt) => [nameKey(prompt.name), prompt]));
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    counts.set(nameKey(entry.name), (counts.get(nameKey(entry.name)) ?? 0) + 1);
+  }
+
+  return entries.map((entry) => {
+    const name = entry.name.trim();
+    if ((counts.get(nameKey(name)) ?? 0) > 1) {
+      return { name, action: "invalid", changes: [], error: "Appears more than once in the import" };
+    }
+    const match = byName.get(nameKey(name));
+    let fields: PromptFields;
+    try {
+      fields = resolveEntry(entry, match);
+    } catch (error) {
+      return {
+        name,
+        action: "invalid",
+        promptId: match?._id,
+        changes: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    if (!match) return { name, action: "create", changes: [], fields };
+
+    const changes = changedFields(match, fields);
+    return {
+      name,
+      action: changes.length > 0 ? "update" : "unchanged",
+      promptId: match._id,
+      changes,
+      fields,
+    };
+  });
+}
+
+function toEntry(prompt: Doc<"prompts">): PromptLibraryEntry {
+  return {
+    name: prompt.name,
+    description: prompt.description,
+    type: prompt.type,
+    template: prompt.template,
+    defaultProvider: prompt.defaultProvider,
+    defaultModel: prompt.defaultModel,
+    outputSchema: prompt.outputSchema,
+  };
+}
+
+async function exportLibrary(ctx: QueryCtx): Promise<{ prompts: PromptLibraryEntry[] }> {
+  const prompts = await ctx.db.query("prompts").take(MAX_LIBRARY_PROMPTS);
+  return {
+    prompts: prompts.toSorted((a, b) => a.name.localeCompare(b.name)).map(toEntry),
+  };
+}
+
+async function planLibraryImport(
+  ctx: QueryCtx,
+  entries: PromptLibraryEntry[],
+): Promise<PlannedImport[]> {
+  if (entries.length > MAX_LIBRARY_PROMPTS) {
+    throw new Error(`Maximum of ${MAX_LIBRARY_PROMPTS} prompts per import`);
+  }
+  const existing = await ctx.db.query("prompts").take(MAX_LIBRARY_PROMPTS);
+  return planPromptImport(existing, entries);
+}
+
+/**
+ * Apply an import plan. Nothing is written when any entry is invalid, so a
+ * library is brought in whole or not at all.
+ */
+async function importLibrary(ctx: MutationCtx, entries: PromptLibraryEntry[]) {
+  const plan = await planLibraryImport(ctx, entries);
+  const invalid = plan.filter((item) => item.action === "invalid");
+  if (invalid.length > 0) {
+    throw new Error(
+      `Cannot import prompts: ${invalid.map((item) => `"${item.name}": ${item.error}`).join("; ")}`,
+    );
+  }
+
+  const now = Date.now();
+  await Promise.all(
+    plan.map(async (item) => {
+      const fields = item.fields!;
+      if (item.action === "create") {
+        const id = await ctx.db.insert("prompts", { ...fields, isBuiltIn: false, createdAt: now, updatedAt: now });
+        await createFirstVersion(ctx, id, fields.template, IMPORT_VERSION_NOTE);
+      } else if (item.action === "update") {
+        const existing = (await ctx.db.get(item.promptId!))!;
+        const { template, ...rest } = fields;
+        await ctx.db.patch(existing._id, { ...rest, updatedAt: now });
+        if (template !== existing.template) {
+          await saveTemplateVersion(ctx, existing, template, IMPORT_VERSION_NOTE);
+        }
+      }
+    }),
+  );
+
+  const summary = {
+    created: plan.filter((item) => item.action === "create").length,
+    updated: plan.filter((item) => item.action === "update").length,
+    unchanged: plan.filter((item) => item.action === "unchanged").length,
+  };
+  await logAuditEvent(ctx, {
+    action: "prompt.import",
+    resourceType: "prompts",
+    details: `${summary.created} created, ${summary.updated} updated`,
+  });
+  return summary;
+}
+
+// --- Mutations ---
+
+export const importPrompts = mutation({
+  args: { prompts: v.array(promptLibraryEntry), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+    return await importLibrary(ctx, args.prompts);
+  },
+});
+
+// --- Queries ---
+
+/** What `importPrompts` would do with these entries, without saving. */
+export const previewPromptImport = query({
+  args: { prompts: v.array(promptLibraryEntry), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+    const plan = await planLibraryImport(ctx, args.prompts);
+    return plan.map(({ fields: _fields, ...item }) => item);
+  },
+});
+
+// --- Internal (CLI) ---
+// Run with `convex run`, which needs deployment access instead of a session:
+// see scripts/prompts.sh.
+
+export const exportPromptLibrary = internalQuery({
+  args: {},
+  handler: async (ctx) => await exportLibrary(ctx),
+});
+
+export const previewPromptLibraryImport = internalQuery({
+  args: { prompts: v.array(promptLibraryEntry) },
+  handler: async (ctx, args) => {
+    const plan = await planLibraryImport(ctx, args.prompts);
+    return plan.map(({ fields: _fields, ...item }) => item);
+  },
+});
+
+export const importPromptLibrary = internalMutation({
+  args: { prompts: v.array(promptLibraryEntry) },
+  handler: async (ctx, args) => await importLibrary(ctx, args.prompts),
+});
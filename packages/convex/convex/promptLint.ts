@@ -0,0 +1,196 @@
+/**
+ * Prompt template linter shared by the server and the prompt editor.
+ *
+ * Builds on the template engine's own errors with checks that depend on the
+ * prompt type and model: a single-stock prompt must name its stock, a
+ * discovery prompt has no stocks to refer to, and a prompt that fills most of
+ * the model's context leaves no room for the research. `{{STEP_n_RESULT}}`
+ * must name an earlier step of each pipeline the prompt runs in. Errors block
+ * saving; warnings point at likely mistakes.
+ */
+
+import { estimateTokenCount } from "./pricing";
+import {
+  TEMPLATE_VARIABLES,
+  findStepReferenceErrors,
+  findTagOffsets,
+  findTemplateErrors,
+  findVariableUses,
+  resolvePromptTemplate,
+  type TemplateError,
+  type TemplateStock,
+} from "./promptTemplate";
+import { MODEL_CONTEXT_TOKENS, getDefaultModel, type ResearchProviderId } from "./providers";
+
+export type PromptType = "single-stock" | "multi-stock" | "discovery";
+
+export interface LintIssue extends TemplateError {
+  severity: "error" | "warning";
+}
+
+export interface LintOptions {
+  type?: PromptType;
+  provider?: ResearchProviderId;
+  model?: string;
+  /** Stocks a multi-stock run is sized for; defaults to DEFAULT_STOCK_COUNT */
+  stockCount?: number;
+  /**
+   * 1-based steps the template runs as in pipelines; an empty list when it
+   * only runs on its own. Unset when not known, as for a new prompt, which
+   * makes step references warnings rather than errors.
+   */
+  pipelineSteps?: number[];
+}
+
+const DEFAULT_STOCK_COUNT = 20;
+/** Share of the context window a prompt can take before a warning */
+const CONTEXT_SHARE = 0.5;
+/** Typical size of a pipeline step's report inserted with {{STEP_n_RESULT}} */
+const STEP_RESULT_TOKENS = 8000;
+
+/** A stock with typical field lengths, for sizing a rendered prompt. */
+const SIZING_STOCK: TemplateStock = {
+  ticker: "XXXX",
+  companyName: "Example Holdings Corporation",
+  exchange: "NASDAQ",
+  sector: "Information Technology",
+  notes: "x".repeat(400),
+  tags: ["core", "watchlist", "growth"],
+  nextEarningsDate: "2026-01-01",
+  lastEarnings: { date: "2025-10-01", epsActual: 1.23, epsEstimate: 1.2 },
+};
+
+const PER_STOCK_VARIABLES = new Set(
+  TEMPLATE_VARIABLES.filter((variable) => variable.perStock).map((variable) => variable.name),
+);
+const KNOWN_VARIABLES = new Set(TEMPLATE_VARIABLES.map((variable) => variable.name));
+const TAG_START = /\{\{/g;
+const SINGLE_BRACE = /(?<!\{)\{([A-Z][A-Z0-9_]*)\}(?!\})/g;
+
+function lineAt(template: string, index: number): number {
+  return template.slice(0, index).split("\n").length;
+}
+
+/** `{{` that doesn't open a tag the engine reads, and `{NAME}` written with single braces. */
+function findMalformedTags(template: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const tagStarts = findTagOffsets(template);
+  for (const match of template.matchAll(TAG_START)) {
+    // "{{{" is read as "{" followed by a tag
+    if (tagStarts.has(match.index) || tagStarts.has(match.index + 1)) continue;
+    issues.push({
+      line: lineAt(template, match.index),
+      severity: "warning",
+      message: "Malformed placeholder, sent to the model as written",
+      hint: "Write variables as {{NAME}}",
+    });
+  }
+  for (const match of template.matchAll(SINGLE_BRACE)) {
+    if (!KNOWN_VARIABLES.has(match[1]!)) continue;
+    issues.push({
+      line: lineAt(template, match.index),
+      severity: "warning",
+      message: `{${match[1]}} has single braces, so it is sent as written`,
+      hint: `Did you mean {{${match[1]}}}?`,
+    });
+  }
+  return issues;
+}
+
+function findTypeIssues(template: string, type: PromptType): LintIssue[] {
+  const uses = findVariableUses(template);
+  const issues: LintIssue[] = [];
+
+  if (type === "single-stock" && !uses.some((use) => use.name === "TICKER")) {
+    issues.push({
+      line: 1,
+      severity: "error",
+      message: "Single-stock prompts must use {{TICKER}} to say which stock to research",
+    });
+  }
+
+  for (const use of uses) {
+    if (type === "discovery" && use.name === "STOCKS") {
+      issues.push({
+        line: use.line,
+        severity: "error",
+        message:
+          use.kind === "each"
+            ? "Discovery prompts run without stocks, so {{#each STOCKS}} never repeats"
+            : "Discovery prompts run without stocks, so {{STOCKS}} is always empty",
+      });
+    } else if (type === "discovery" && PER_STOCK_VARIABLES.has(use.name)) {
+      issues.push({
+        line: use.line,
+        severity: "warning",
+        message: `Discovery prompts run without stocks, so {{${use.name}}} is always empty`,
+      });
+    } else if (type === "multi-stock" && PER_STOCK_VARIABLES.has(use.name) && !use.inEach) {
+      issues.push({
+        line: use.line,
+        severity: "warning",
+        message: `{{${use.name}}} outside {{#each STOCKS}} only refers to the first stock`,
+        hint: "Wrap it in {{#each STOCKS}}…{{/each}} to cover every stock",
+      });
+    }
+  }
+  return issues;
+}
+
+function stockCountFor(options: LintOptions): number {
+  switch (options.type) {
+    case "single-stock":
+      return 1;
+    case "discovery":
+      return 0;
+    default:
+      return options.stockCount ?? DEFAULT_STOCK_COUNT;
+  }
+}
+
+/** Warning when the rendered prompt would take most of the model's context. */
+function findContextIssue(template: string, options: LintOptions): LintIssue | undefined {
+  const model = options.model ?? (options.provider ? getDefaultModel(options.provider) : undefined);
+  const contextTokens = model ? MODEL_CONTEXT_TOKENS[model] : undefined;
+  if (!model || !contextTokens) return undefined;
+
+  const stockCount = stockCountFor(options);
+  const rendered = resolvePromptTemplate(template, {
+    stocks: Array.from({ length: stockCount }, () => SIZING_STOCK),
+    date: "2026-01-01",
+  });
+  const stepReferences = rendered.match(/\{\{STEP_\d+_RESULT\}\}/g)?.length ?? 0;
+  const tokens = estimateTokenCount(rendered) + stepReferences * STEP_RESULT_TOKENS;
+  if (tokens <= contextTokens * CONTEXT_SHARE) return undefined;
+
+  const sizedFor = options.type === "multi-stock" ? ` with ${stockCount} stocks` : "";
+  return {
+    line: 1,
+    severity: "warning",
+    message: `About ${tokens.toLocaleString("en-US")} tokens${sizedFor}, more than half of ${model}'s ${contextTokens.toLocaleString("en-US")}-token context, which may not leave room for the research`,
+    hint: "Shorten the template or run it on fewer stocks",
+  };
+}
+
+/**
+ * Errors and warnings for a template, by line with errors first on each
+ * line. Type and model checks run only when those are given.
+ */
+export function lintPromptTemplate(template: string, options: LintOptions = {}): LintIssue[] {
+  const templateErrors = findTemplateErrors(template);
+  const issues: LintIssue[] = [
+    ...templateErrors.map((error) => ({ ...error, severity: "error" as const })),
+    ...findMalformedTags(template),
+  ];
+  if (options.type) issues.push(...findTypeIssues(template, options.type));
+  for (const { line, message, hint } of findStepReferenceErrors(template, options.pipelineSteps ?? [])) {
+    issues.push({ line, message, hint, severity: options.pipelineSteps ? "error" : "warning" });
+  }
+  if (templateErrors.length === 0) {
+    const contextIssue = findContextIssue(template, options);
+    if (contextIssue) issues.push(contextIssue);
+  }
+  return issues.toSorted(
+    (a, b) => a.line - b.line || (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1),
+  );
+}
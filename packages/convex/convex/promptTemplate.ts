@@ -0,0 +1,563 @@
+/**
+ * Prompt template engine, shared by the backend and the prompt editor preview.
+ *
+ * Templates use `{{NAME}}` variables, `{{#each STOCKS}}…{{/each}}` loops and
+ * `{{#if NAME}}…{{else}}…{{/if}}` conditionals. Per-stock variables refer to
+ * the stock of the enclosing loop, or to the first stock outside of one.
+ * Prompts declare their own parameters inline, e.g. `{{HORIZON: select[6m,1y]}}`,
+ * `{{FOCUS: text}}` or `{{MAX_PICKS: number=5}}`, filled in when a run starts.
+ * Unknown variables are errors rather than text sent to the model.
+ */
+
+import { v } from "convex/values";
+
+/** A stock as seen by a template, with its earnings context on the run date. */
+export interface TemplateStock {
+  ticker: string;
+  companyName: string;
+  exchange: string;
+  sector?: string;
+  notes?: string;
+  tags: string[];
+  /** First earnings date on or after the run date, YYYY-MM-DD */
+  nextEarningsDate?: string;
+  /** Latest reported quarter before the run date with both EPS figures */
+  lastEarnings?: { date: string; epsActual: number; epsEstimate: number };
+}
+
+export interface PromptVariables {
+  /** Stocks the job covers, in selection order */
+  stocks: TemplateStock[];
+  /** Run date, YYYY-MM-DD */
+  date: string;
+  /** Values of the template's parameters by name; declared defaults fill the gaps */
+  parameters?: Record<string, string>;
+}
+
+/** Values of a prompt's own template parameters, by parameter name. */
+export const parameterValuesValidator = v.record(v.string(), v.string());
+
+export type ParameterType = "text" | "number" | "select";
+
+/** A parameter a template declares with `{{NAME: type}}`. */
+export interface PromptParameter {
+  name: string;
+  type: ParameterType;
+  /** Allowed values of a select parameter */
+  options?: string[];
+  defaultValue?: string;
+}
+
+export interface TemplateVariable {
+  name: string;
+  description: string;
+  /** Takes the value of the current stock inside `{{#each STOCKS}}` */
+  perStock: boolean;
+}
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { name: "TICKER", description: "Ticker symbol of the stock", perStock: true },
+  { name: "COMPANY_NAME", description: "Company name of the stock", perStock: true },
+  { name: "EXCHANGE", description: "Exchange the stock is listed on", perStock: true },
+  { name: "SECTOR", description: "Sector of the stock, empty when not set", perStock: true },
+  { name: "NOTES", description: "Your notes on the stock, empty when not set", perStock: true },
+  { name: "TAGS", description: "Comma-separated tags of the stock", perStock: true },
+  {
+    name: "NEXT_EARNINGS_DATE",
+    description: "Next earnings date of the stock, empty when unknown",
+    perStock: true,
+  },
+  {
+    name: "LAST_EPS_SURPRISE",
+    description: "EPS surprise of the last reported quarter, empty when unknown",
+    perStock: true,
+  },
+  { name: "STOCKS", description: "Comma-separated tickers of all stocks", perStock: false },
+  { name: "DATE", description: "The run date", perStock: false },
+];
+
+export interface TemplateError {
+  /** 1-based line of the template the error is on */
+  line: number;
+  message: string;
+  /** Likely fix, e.g. the variable a misspelled name stands for */
+  hint?: string;
+}
+
+export interface VariableUse {
+  name: string;
+  /** 1-based line of the tag */
+  line: number;
+  /** Written as a placeholder, tested by `{{#if}}` or looped over by `{{#each}}` */
+  kind: "variable" | "if" | "each";
+  /** Inside a `{{#each STOCKS}}` loop */
+  inEach: boolean;
+}
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "variable"; name: string }
+  | { type: "step"; step: number }
+  | { type: "each"; body: TemplateNode[] }
+  | { type: "if"; name: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type Token =
+  | { type: "text"; text: string }
+  | { type: "tag"; prefix: string; name: string; arg?: string; spec?: string; line: number };
+
+const TAG = /\{\{\s*([#/]?)(\w+)(?:\s+(\w+)|\s*:\s*([^}]*?))?\s*\}\}/g;
+const STEP_VARIABLE = /^STEP_(\d+)_RESULT$/;
+const PARAMETER_NAME = /^[A-Z][A-Z0-9_]*$/;
+const PARAMETER_SPEC = /^(\w+)\s*(?:\[([^\]]*)\])?\s*(?:=\s*(.*))?$/s;
+const KNOWN_VARIABLES = new Set(TEMPLATE_VARIABLES.map((variable) => variable.name));
+
+function isBlockTag(prefix: string, name: string): boolean {
+  return prefix !== "" || name === "else";
+}
+
+/** Edit distance between two names, for suggesting the one a typo stands for. */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/** "Did you mean" hint for an unknown name: the closest known one, if any is close. */
+function suggestName(name: string, known: Iterable<string>): string | undefined {
+  const upper = name.toUpperCase();
+  let best: { name: string; distance: number } | undefined;
+  for (const candidate of known) {
+    const distance = editDistance(upper, candidate);
+    if (distance <= Math.min(2, Math.floor(candidate.length / 3)) && (!best || distance < best.distance)) {
+      best = { name: candidate, distance };
+    }
+  }
+  return best && `Did you mean {{${best.name}}}?`;
+}
+
+function lineAt(template: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (template[i] === "\n") line++;
+  }
+  return line;
+}
+
+/**
+ * Split a template into text and tags. A block tag alone on its line takes
+ * the line with it, so loops and conditionals don't leave blank lines behind.
+ */
+function tokenize(template: string): Token[] {
+  const tokens: Token[] = [];
+  let cursor = 0;
+  for (const match of template.matchAll(TAG)) {
+    const [raw, prefix = "", name = "", arg, spec] = match;
+    let start = match.index;
+    let end = start + raw.length;
+
+    if (isBlockTag(prefix, name)) {
+      const lineStart = template.lastIndexOf("\n", start - 1) + 1;
+      const newline = template.indexOf("\n", end);
+      const lineEnd = newline === -1 ? template.length : newline;
+      if (
+        lineStart >= cursor &&
+        /^[ \t]*$/.test(template.slice(lineStart, start)) &&
+        /^[ \t]*\r?$/.test(template.slice(end, lineEnd))
+      ) {
+        start = lineStart;
+        end = newline === -1 ? lineEnd : newline + 1;
+      }
+    }
+
+    if (start > cursor) tokens.push({ type: "text", text: template.slice(cursor, start) });
+    tokens.push({ type: "tag", prefix, name, arg, spec, line: lineAt(template, match.index) });
+    cursor = end;
+  }
+  if (cursor < template.length) tokens.push({ type: "text", text: template.slice(cursor) });
+  return tokens;
+}
+
+/** Read a `{{NAME: spec}}` declaration into a parameter, or say what is wrong with it. */
+function parseParameter(name: string, spec: string): PromptParameter | string {
+  if (!PARAMETER_NAME.test(name)) {
+    return `Parameter {{${name}}} must be named with upper case letters, digits and underscores`;
+  }
+  if (KNOWN_VARIABLES.has(name) || STEP_VARIABLE.test(name)) {
+    return `{{${name}}} is a built-in variable and can't be declared as a parameter`;
+  }
+  const match = PARAMETER_SPEC.exec(spec.trim());
+  const type = match?.[1];
+  if (!match || (type !== "text" && type !== "number" && type !== "select")) {
+    return `Unknown type for parameter {{${name}}}; use text, number or select[…]`;
+  }
+
+  const defaultValue = match[3]?.trim() || undefined;
+  if (type !== "select") {
+    if (match[2] !== undefined) return `Only select parameters take options, not {{${name}}}`;
+    if (type === "number" && defaultValue !== undefined && !Number.isFinite(Number(defaultValue))) {
+      return `Default of {{${name}}} must be a number`;
+    }
+    return { name, type, defaultValue };
+  }
+
+  const options = [
+    ...new Set((match[2] ?? "").split(",").map((option) => option.trim()).filter(Boolean)),
+  ];
+  if (options.length === 0) return `{{${name}}} needs options, like select[6m,1y]`;
+  if (defaultValue !== undefined && !options.includes(defaultValue)) {
+    return `Default of {{${name}}} must be one of its options`;
+  }
+  return { name, type, options, defaultValue };
+}
+
+/** Parameters declared anywhere in the template, so they can be used before their declaration. */
+function collectParameters(tokens: Token[], errors: TemplateError[]): Map<string, PromptParameter> {
+  const parameters = new Map<string, PromptParameter>();
+  for (const token of tokens) {
+    if (token.type !== "tag" || token.prefix !== "" || token.spec === undefined) continue;
+    const parsed = parseParameter(token.name, token.spec);
+    if (typeof parsed === "string") {
+      errors.push({ line: token.line, message: parsed });
+      continue;
+    }
+    const existing = parameters.get(parsed.name);
+    if (!existing) {
+      parameters.set(parsed.name, parsed);
+    } else if (JSON.stringify(existing) !== JSON.stringify(parsed)) {
+      errors.push({
+        line: token.line,
+        message: `{{${parsed.name}}} is declared again with a different type`,
+      });
+    }
+  }
+  return parameters;
+}
+
+interface Frame {
+  block: "root" | "each" | "if";
+  line: number;
+  nodes: TemplateNode[];
+  node?: Extract<TemplateNode, { type: "if" }>;
+  inElse?: boolean;
+}
+
+function parse(template: string): {
+  nodes: TemplateNode[];
+  parameters: PromptParameter[];
+  errors: TemplateError[];
+} {
+  const errors: TemplateError[] = [];
+  const tokens = tokenize(template);
+  const parameters = collectParameters(tokens, errors);
+  const isKnown = (name: string) => KNOWN_VARIABLES.has(name) || parameters.has(name);
+  const hintFor = (name: string) => suggestName(name, [...KNOWN_VARIABLES, ...parameters.keys()]);
+  const root: Frame = { block: "root", line: 1, nodes: [] };
+  const stack: Frame[] = [root];
+
+  for (const token of tokens) {
+    const frame = stack.at(-1)!;
+    if (token.type === "text") {
+      frame.nodes.push(token);
+      continue;
+    }
+
+    const { prefix, name, arg, spec, line } = token;
+    if (prefix === "" && spec !== undefined) {
+      // A declaration renders the parameter's value; collectParameters checked it
+      if (parameters.has(name)) frame.nodes.push({ type: "variable", name });
+      continue;
+    }
+    if (prefix === "") {
+      if (name === "else") {
+        if (frame.block !== "if" || frame.inElse) {
+          errors.push({ line, message: "{{else}} must be inside an {{#if}} block" });
+        } else {
+          frame.inElse = true;
+          frame.nodes = frame.node!.otherwise;
+        }
+        continue;
+      }
+      if (arg !== undefined) {
+        errors.push({ line, message: `Unexpected "${arg}" after {{${name}}}` });
+        continue;
+      }
+      const step = STEP_VARIABLE.exec(name);
+      if (step) {
+        frame.nodes.push({ type: "step", step: Number(step[1]) });
+      } else if (isKnown(name)) {
+        frame.nodes.push({ type: "variable", name });
+      } else {
+        errors.push({ line, message: `Unknown variable {{${name}}}`, hint: hintFor(name) });
+      }
+      continue;
+    }
+
+    if (prefix === "#") {
+      if (name === "each") {
+        if (arg !== "STOCKS") {
+          errors.push({ line, message: "Only {{#each STOCKS}} loops are supported" });
+        }
+        const node: TemplateNode = { type: "each", body: [] };
+        frame.nodes.push(node);
+        stack.push({ block: "each", line, nodes: node.body });
+      } else if (name === "if") {
+        if (arg === undefined) {
+          errors.push({ line, message: "{{#if}} needs a variable to test" });
+        } else if (!isKnown(arg)) {
+          errors.push({ line, message: `Unknown variable {{${arg}}} in {{#if}}`, hint: hintFor(arg) });
+        }
+        const node: TemplateNode = { type: "if", name: arg ?? "", body: [], otherwise: [] };
+        frame.nodes.push(node);
+        stack.push({ block: "if", line, nodes: node.body, node });
+      } else {
+        errors.push({ line, message: `Unknown block {{#${name}}}` });
+      }
+      continue;
+    }
+
+    // Closing tag
+    if (name !== "each" && name !== "if") {
+      errors.push({ line, message: `Unknown block {{/${name}}}` });
+    } else if (frame.block === "root") {
+      errors.push({ line, message: `{{/${name}}} has no matching {{#${name}}}` });
+    } else if (frame.block !== name) {
+      errors.push({
+        line,
+        message: `Expected {{/${frame.block}}} for the {{#${frame.block}}} on line ${frame.line}`,
+      });
+    } else {
+      stack.pop();
+    }
+  }
+
+  for (const frame of stack.slice(1)) {
+    errors.push({ line: frame.line, message: `{{#${frame.block}}} is never closed` });
+  }
+  return { nodes: root.nodes, parameters: [...parameters.values()], errors };
+}
+
+function formatEpsSurprise(earnings: NonNullable<TemplateStock["lastEarnings"]>): string {
+  const { date, epsActual, epsEstimate } = earnings;
+  const figures = `EPS ${epsActual.toFixed(2)} vs ${epsEstimate.toFixed(2)} estimated, reported ${date}`;
+  if (epsEstimate === 0) return figures;
+  const surprise = ((epsActual - epsEstimate) / Math.abs(epsEstimate)) * 100;
+  return `${surprise >= 0 ? "+" : ""}${surprise.toFixed(1)}% (${figures})`;
+}
+
+function variableValue(name: string, vars: PromptVariables, stock: TemplateStock | undefined): string {
+  switch (name) {
+    case "STOCKS":
+      return vars.stocks.map((s) => s.ticker).join(", ");
+    case "DATE":
+      return vars.date;
+    case "TICKER":
+      return stock?.ticker ?? "";
+    case "COMPANY_NAME":
+      return stock?.companyName ?? "";
+    case "EXCHANGE":
+      return stock?.exchange ?? "";
+    case "SECTOR":
+      return stock?.sector ?? "";
+    case "NOTES":
+      return stock?.notes ?? "";
+    case "TAGS":
+      return stock?.tags.join(", ") ?? "";
+    case "NEXT_EARNINGS_DATE":
+      return stock?.nextEarningsDate ?? "";
+    case "LAST_EPS_SURPRISE":
+      return stock?.lastEarnings ? formatEpsSurprise(stock.lastEarnings) : "";
+    default:
+      return vars.parameters?.[name] ?? "";
+  }
+}
+
+function render(nodes: TemplateNode[], vars: PromptVariables, stock: TemplateStock | undefined): string {
+  let output = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.text;
+        break;
+      case "variable":
+        output += variableValue(node.name, vars, stock);
+        break;
+      case "step":
+        // Filled in by resolveStepReferences once earlier steps have run
+        output += `{{STEP_${node.step}_RESULT}}`;
+        break;
+      case "each":
+        for (const item of vars.stocks) {
+          output += render(node.body, vars, item);
+        }
+        break;
+      case "if":
+        output += render(
+          variableValue(node.name, vars, stock).trim() ? node.body : node.otherwise,
+          vars,
+          stock,
+        );
+        break;
+    }
+  }
+  return output;
+}
+
+/** Syntax errors and unknown variables in a template, in template order. */
+export function findTemplateErrors(template: string): TemplateError[] {
+  return parse(template).errors.toSorted((a, b) => a.line - b.line);
+}
+
+/** One-line description of template errors, for thrown errors. */
+export function formatTemplateErrors(errors: TemplateError[]): string {
+  return `Invalid prompt template: ${errors
+    .map((error) => `${error.message} (line ${error.line})`)
+    .join("; ")}`;
+}
+
+/** Offsets where the tags the engine reads start, to tell them from stray braces. */
+export function findTagOffsets(template: string): Set<number> {
+  return new Set([...template.matchAll(TAG)].map((match) => match.index));
+}
+
+/**
+ * Variables a template writes, tests and loops over, in template order.
+ * Parameter declarations are not uses.
+ */
+export function findVariableUses(template: string): VariableUse[] {
+  const uses: VariableUse[] = [];
+  let eachDepth = 0;
+  for (const token of tokenize(template)) {
+    if (token.type !== "tag" || token.spec !== undefined) continue;
+    const { prefix, name, arg, line } = token;
+    const inEach = eachDepth > 0;
+    if (prefix === "" && name !== "else") {
+      uses.push({ name, line, kind: "variable", inEach });
+    } else if (prefix === "#" && arg !== undefined && (name === "if" || name === "each")) {
+      uses.push({ name: arg, line, kind: name, inEach });
+    }
+    if (name === "each" && prefix !== "") eachDepth = Math.max(0, eachDepth + (prefix === "#" ? 1 : -1));
+  }
+  return uses;
+}
+
+/** Parameters a template declares, in order of first declaration. */
+export function findPromptParameters(template: string): PromptParameter[] {
+  return parse(template).parameters;
+}
+
+/** Why a value doesn't fit a parameter, or null when it does. */
+export function checkParameterValue(parameter: PromptParameter, value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return `Missing value for {{${parameter.name}}}`;
+  if (parameter.type === "number" && !Number.isFinite(Number(trimmed))) {
+    return `{{${parameter.name}}} must be a number`;
+  }
+  if (parameter.type === "select" && !parameter.options?.includes(trimmed)) {
+    return `{{${parameter.name}}} must be one of ${parameter.options?.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Every parameter's value for a run: the provided one, or its default.
+ * Values for parameters the template no longer declares are dropped.
+ * Throws on a missing or invalid value.
+ */
+export function resolveParameterValues(
+  parameters: PromptParameter[],
+  provided: Record<string, string> = {},
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const parameter of parameters) {
+    const value = provided[parameter.name]?.trim() || parameter.defaultValue || "";
+    const error = checkParameterValue(parameter, value);
+    if (error) throw new Error(error);
+    values[parameter.name] = value;
+  }
+  return values;
+}
+
+/**
+ * Render a prompt template for a run. Throws when the template has errors.
+ * `{{STEP_n_RESULT}}` references are kept for `resolveStepReferences`.
+ */
+export function resolvePromptTemplate(template: string, vars: PromptVariables): string {
+  const { nodes, parameters, errors } = parse(template);
+  if (errors.length > 0) {
+    throw new Error(formatTemplateErrors(errors.toSorted((a, b) => a.line - b.line)));
+  }
+  const defaults = Object.fromEntries(
+    parameters.flatMap((p) => (p.defaultValue !== undefined ? [[p.name, p.defaultValue]] : [])),
+  );
+  return render(nodes, { ...vars, parameters: { ...defaults, ...vars.parameters } }, vars.stocks[0]);
+}
+
+/** Today's date in the format used by `{{DATE}}`. */
+export function todayIsoDate(): string {
+  return new Date().toISOString().split("T")[0]!;
+}
+
+const STEP_REFERENCE = /\{\{STEP_(\d+)_RESULT\}\}/g;
+
+/** 1-based pipeline step numbers a template references with `{{STEP_n_RESULT}}`, ascending. */
+export function findStepReferences(template: string): number[] {
+  const steps = new Set<number>();
+  for (const match of template.matchAll(STEP_REFERENCE)) {
+    steps.add(Number(match[1]));
+  }
+  return [...steps].toSorted((a, b) => a - b);
+}
+
+/**
+ * `{{STEP_n_RESULT}}` references a template can't fill when it runs as the
+ * given 1-based pipeline steps: references to the step itself or a later
+ * one. A template that runs on its own, with no steps, can fill none.
+ */
+export function findStepReferenceErrors(template: string, steps: number[]): TemplateError[] {
+  const errors: TemplateError[] = [];
+  for (const match of template.matchAll(STEP_REFERENCE)) {
+    const line = template.slice(0, match.index).split("\n").length;
+    if (steps.length === 0) {
+      errors.push({
+        line,
+        message: `${match[0]} only has a value when the prompt runs as a pipeline step`,
+      });
+      continue;
+    }
+    const reference = Number(match[1]);
+    const step = steps.find((n) => reference < 1 || reference >= n);
+    if (step !== undefined) {
+      errors.push({
+        line,
+        message: `${match[0]} is not an earlier step of step ${step}`,
+        hint: step > 1 ? `Step ${step} can use the output of steps 1–${step - 1}` : undefined,
+      });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Substitute `{{STEP_n_RESULT}}` with the output of earlier pipeline steps,
+ * where `results[0]` is step 1. Throws on a reference to a step without a
+ * result, rather than sending the reference to the model.
+ */
+export function resolveStepReferences(template: string, results: (string | undefined)[]): string {
+  return template.replaceAll(STEP_REFERENCE, (reference, step: string) => {
+    const result = results[Number(step) - 1];
+    if (result === undefined) {
+      throw new Error(`${reference} has no value: step ${step} has no result for this run`);
+    }
+    return result;
+  });
+}
@@ -0,0 +1,194 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./authHelpers";
+import { logAuditEvent } from "./auditLog";
+import {
+  findPromptParameters,
+  findStepReferenceErrors,
+  findTemplateErrors,
+  formatTemplateErrors,
+  resolveParameterValues,
+} from "./promptTemplate";
+import { validateParameterValues } from "./validation";
+
+// --- Helpers ---
+
+/** Store a template as the next version of a prompt. */
+async function insertVersion(
+  ctx: MutationCtx,
+  promptId: Id<"prompts">,
+  template: string,
+  note?: string,
+  createdAt = Date.now(),
+): Promise<Id<"promptVersions">> {
+  const latest = await ctx.db
+    .query("promptVersions")
+    .withIndex("by_promptId", (q) => q.eq("promptId", promptId))
+    .order("desc")
+    .first();
+  return await ctx.db.insert("promptVersions", {
+    promptId,
+    version: (latest?.version ?? 0) + 1,
+    template,
+    note: note?.trim() || undefined,
+    createdAt,
+  });
+}
+
+/** First version of a newly created prompt. */
+export async function createFirstVersion(
+  ctx: MutationCtx,
+  promptId: Id<"prompts">,
+  template: string,
+  note?: string,
+): Promise<Id<"promptVersions">> {
+  const versionId = await insertVersion(ctx, promptId, template, note);
+  await ctx.db.patch(promptId, { currentVersionId: versionId });
+  return versionId;
+}
+
+/**
+ * Version holding the prompt's current template. Prompts saved before
+ * versioning get their first version here, on their next edit or run.
+ */
+export async function ensureCurrentVersion(
+  ctx: MutationCtx,
+  prompt: Doc<"prompts">,
+): Promise<Id<"promptVersions">> {
+  if (prompt.currentVersionId) return prompt.currentVersionId;
+
+  const versionId = await insertVersion(ctx, prompt._id, prompt.template, undefined, prompt.updatedAt);
+  await ctx.db.patch(prompt._id, { currentVersionId: versionId });
+  return versionId;
+}
+
+/**
+ * Save a new template for a prompt as a new version and make it current.
+ * The version it replaces is recorded first if it had none.
+ */
+export async function saveTemplateVersion(
+  ctx: MutationCtx,
+  prompt: Doc<"prompts">,
+  template: string,
+  note?: string,
+): Promise<Id<"promptVersions">> {
+  await ensureCurrentVersion(ctx, prompt);
+  const versionId = await insertVersion(ctx, prompt._id, template, note);
+  await ctx.db.patch(prompt._id, { template, currentVersionId: versionId, updatedAt: Date.now() });
+  return versionId;
+}
+
+export interface ResolvedPromptVersion {
+  versionId: Id<"promptVersions">;
+  template: string;
+  /** Every parameter of the template with the value the job runs with */
+  parameterValues?: Record<string, string>;
+}
+
+/**
+ * Template a new job runs and the version it comes from: the pinned version
+ * when there is one, the prompt's current template otherwise. Templates with
+ * errors, saved before they were checked, are rejected here, as are missing
+ * or invalid parameter values and step references the job can't fill:
+ * `pipelineStep` is the 1-based step the job runs as, unset outside pipelines.
+ */
+export async function resolvePromptVersion(
+  ctx: MutationCtx,
+  prompt: Doc<"prompts">,
+  pinnedVersionId?: Id<"promptVersions">,
+  parameterValues?: Record<string, string>,
+  pipelineStep?: number,
+): Promise<ResolvedPromptVersion> {
+  let resolved: { versionId: Id<"promptVersions">; template: string };
+  if (pinnedVersionId) {
+    const pinned = await ctx.db.get(pinnedVersionId);
+    if (!pinned || pinned.promptId !== prompt._id) {
+      throw new Error("Pinned prompt version not found");
+    }
+    resolved = { versionId: pinned._id, template: pinned.template };
+  } else {
+    resolved = { versionId: await ensureCurrentVersion(ctx, prompt), template: prompt.template };
+  }
+
+  const errors = [
+    ...findTemplateErrors(resolved.template),
+    ...findStepReferenceErrors(resolved.template, pipelineStep ? [pipelineStep] : []),
+  ];
+  if (errors.length > 0) {
+    throw new Error(formatTemplateErrors(errors.toSorted((a, b) => a.line - b.line)));
+  }
+
+  if (parameterValues) validateParameterValues(parameterValues);
+  const parameters = findPromptParameters(resolved.template);
+  return {
+    ...resolved,
+    parameterValues:
+      parameters.length > 0 ? resolveParameterValues(parameters, parameterValues) : undefined,
+  };
+}
+
+/** Remove every version of a deleted prompt. */
+export async function deletePromptVersions(ctx: MutationCtx, promptId: Id<"prompts">): Promise<void> {
+  const versions = await ctx.db
+    .query("promptVersions")
+    .withIndex("by_promptId", (q) => q.eq("promptId", promptId))
+    .collect();
+  await Promise.all(versions.map((version) => ctx.db.delete(version._id)));
+}
+
+// --- Mutations ---
+
+/** Make an earlier version current again, recorded as a new version. */
+export const restorePromptVersion = mutation({
+  args: { versionId: v.id("promptVersions"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const version = await ctx.db.get(args.versionId);
+    if (!version) {
+      throw new Error("Prompt version not found");
+    }
+    const prompt = await ctx.db.get(version.promptId);
+    if (!prompt) {
+      throw new Error("Prompt not found");
+    }
+    if (prompt.currentVersionId === version._id) {
+      throw new Error("This version is already current");
+    }
+
+    const versionId = await saveTemplateVersion(
+      ctx,
+      prompt,
+      version.template,
+      `Restored version ${version.version}`,
+    );
+    await logAuditEvent(ctx, { action: "prompt.restore", resourceType: "prompts", resourceId: prompt._id, details: `Version ${version.version}` });
+    return versionId;
+  },
+});
+
+// --- Queries ---
+
+/** Versions of a prompt, newest first. */
+export const listPromptVersions = query({
+  args: { promptId: v.id("prompts"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    return await ctx.db
+      .query("promptVersions")
+      .withIndex("by_promptId", (q) => q.eq("promptId", args.promptId))
+      .order("desc")
+      .collect();
+  },
+});
+
+export const getPromptVersion = query({
+  args: { id: v.id("promptVersions"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+    return await ctx.db.get(args.id);
+  },
+});
@@ -1,10 +1,14 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { requireAuth } from "./authHelpers";
-import { validatePromptInput } from "./validation";
+import { validateOutputSchema, validatePromptInput } from "./validation";
+import { outputFieldValidator } from "./findings";
 import { logAuditEvent } from "./auditLog";
+import { researchProvider, validateProviderModel } from "./providers";
+import { createFirstVersion, deletePromptVersions, saveTemplateVersion } from "./promptVersions";
+import { findPromptPipelineSteps } from "./pipelines";
 
-const promptType = v.union(
+export const promptType = v.union(
   v.literal("single-stock"),
   v.literal("multi-stock"),
   v.literal("discovery"),
@@ -18,13 +22,18 @@ export const createPrompt = mutation({
     description: v.string(),
     type: promptType,
     template: v.string(),
-    defaultProvider: v.optional(v.literal("openai")),
+    defaultProvider: v.optional(researchProvider),
+    defaultModel: v.optional(v.string()),
+    outputSchema: v.optional(v.array(outputFieldValidator)),
     isBuiltIn: v.optional(v.boolean()),
     token: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     await requireAuth(ctx, args.token);
-    validatePromptInput(args);
+    const defaultProvider = args.defaultProvider ?? "openai";
+    validatePromptInput({ ...args, defaultProvider });
+    if (args.outputSchema) validateOutputSchema(args.outputSchema);
+    if (args.defaultModel !== undefined) validateProviderModel(defaultProvider, args.defaultModel);
 
     const now = Date.now();
     const id = await ctx.db.insert("prompts", {
@@ -32,11 +41,14 @@ export const createPrompt = mutation({
       description: args.description,
       type: args.type,
       template: args.template,
-      defaultProvider: args.defaultProvider ?? "openai",
+      defaultProvider,
+      defaultModel: args.defaultModel,
+      outputSchema: args.outputSchema?.length ? args.outputSchema : undefined,
       isBuiltIn: args.isBuiltIn ?? false,
       createdAt: now,
       updatedAt: now,
     });
+    await createFirstVersion(ctx, id, args.template);
     await logAuditEvent(ctx, { action: "prompt.create", resourceType: "prompts", resourceId: id, details: args.name });
     return id;
   },
@@ -49,30 +61,57 @@ export const updatePrompt = mutation({
     description: v.optional(v.string()),
     type: v.optional(promptType),
     template: v.optional(v.string()),
-    defaultProvider: v.optional(v.literal("openai")),
+    defaultProvider: v.optional(researchProvider),
+    defaultModel: v.optional(v.string()),
+    /** An empty list removes the output schema */
+    outputSchema: v.optional(v.array(outputFieldValidator)),
+    /** Note stored with the new version when the template changes */
+    versionNote: v.optional(v.string()),
     token: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     await requireAuth(ctx, args.token);
-    validatePromptInput(args);
 
-    const { id, token: _token, ...updates } = args;
+    const { id, token: _token, versionNote, ...updates } = args;
 
     const existing = await ctx.db.get(id);
     if (!existing) {
       throw new Error("Prompt not found");
     }
+    // A new type is checked against the template it will run with, and step
+    // references against the pipelines that already run it
+    const pipelineSteps = await findPromptPipelineSteps(ctx, id);
+    validatePromptInput({
+      ...args,
+      template: args.template ?? (args.type === undefined ? undefined : existing.template),
+      type: args.type ?? existing.type,
+      defaultProvider: args.defaultProvider ?? existing.defaultProvider,
+      defaultModel:
+        args.defaultModel ?? (args.defaultProvider === undefined ? existing.defaultModel : undefined),
+      pipelineSteps: pipelineSteps.length > 0 ? pipelineSteps : undefined,
+    });
+    if (args.outputSchema) validateOutputSchema(args.outputSchema);
 
     const patch: Record<string, unknown> = { updatedAt: Date.now() };
     if (updates.name !== undefined) patch.name = updates.name;
     if (updates.description !== undefined)
       patch.description = updates.description;
     if (updates.type !== undefined) patch.type = updates.type;
-    if (updates.template !== undefined) patch.template = updates.template;
     if (updates.defaultProvider !== undefined)
       patch.defaultProvider = updates.defaultProvider;
+    if (updates.defaultProvider !== undefined || updates.defaultModel !== undefined) {
+      const defaultModel = updates.defaultModel ?? (updates.defaultProvider === undefined ? existing.defaultModel : undefined);
+      if (defaultModel !== undefined) validateProviderModel(updates.defaultProvider ?? existing.defaultProvider, defaultModel);
+      patch.defaultModel = defaultModel;
+    }
+    if (updates.outputSchema !== undefined)
+      patch.outputSchema = updates.outputSchema.length > 0 ? updates.outputSchema : undefined;
 
     await ctx.db.patch(id, patch);
+    // Template edits are kept as versions, so jobs and schedules can refer to them
+    if (updates.template !== undefined && updates.template !== existing.template) {
+      await saveTemplateVersion(ctx, existing, updates.template, versionNote);
+    }
     await logAuditEvent(ctx, { action: "prompt.update", resourceType: "prompts", resourceId: id });
     return id;
   },
@@ -92,7 +131,27 @@ export const deletePrompt = mutation({
       throw new Error("Cannot delete built-in prompts");
     }
 
+    // Schedules and pipelines would fail on their next run
+    const schedules = await ctx.db.query("schedules").collect();
+    const scheduled = schedules.find((schedule) => schedule.promptId === args.id);
+    if (scheduled) {
+      throw new Error(`Prompt is used by the schedule "${scheduled.name}"`);
+    }
+    const pipelines = await ctx.db.query("pipelines").collect();
+    const pipeline = pipelines.find((p) => p.steps.some((step) => step.promptId === args.id));
+    if (pipeline) {
+      throw new Error(`Prompt is used by the pipeline "${pipeline.name}"`);
+    }
+
     await ctx.db.delete(args.id);
+    // Past runs keep the versions they ran with
+    const hasRuns = await ctx.db
+      .query("researchJobs")
+      .withIndex("by_promptId", (q) => q.eq("promptId", args.id))
+      .first();
+    if (!hasRuns) {
+      await deletePromptVersions(ctx, args.id);
+    }
     await logAuditEvent(ctx, { action: "prompt.delete", resourceType: "prompts", resourceId: args.id, details: existing.name });
   },
 });
@@ -108,16 +167,20 @@ export const clonePrompt = mutation({
     }
 
     const now = Date.now();
-    return await ctx.db.insert("prompts", {
+    const id = await ctx.db.insert("prompts", {
       name: `${existing.name} (Copy)`,
       description: existing.description,
       type: existing.type,
       template: existing.template,
       defaultProvider: existing.defaultProvider,
+      defaultModel: existing.defaultModel,
+      outputSchema: existing.outputSchema,
       isBuiltIn: false,
       createdAt: now,
       updatedAt: now,
     });
+    await createFirstVersion(ctx, id, existing.template, `Cloned from "${existing.name}"`);
+    return id;
   },
 });
 
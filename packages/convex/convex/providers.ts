@@ -0,0 +1,92 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+
+/**
+ * Research provider identifiers shared by the schema, mutations and actions.
+ * Provider implementations live in researchProviders.ts (Node runtime).
+ */
+export const researchProvider = v.union(
+  v.literal("openai"),
+  v.literal("anthropic"),
+  v.literal("gemini"),
+);
+
+export type ResearchProviderId = Infer<typeof researchProvider>;
+
+/** Settings key holding each provider's API key. */
+export const PROVIDER_API_KEY_SETTINGS: Record<ResearchProviderId, string> = {
+  openai: "openai_api_key",
+  anthropic: "anthropic_api_key",
+  gemini: "gemini_api_key",
+};
+
+export const PROVIDER_LABELS: Record<ResearchProviderId, string> = {
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  gemini: "Gemini",
+};
+
+/**
+ * Models offered for each provider. The first entry is the provider default,
+ * used when neither the run, schedule nor prompt pins a model.
+ */
+export const PROVIDER_MODELS: Record<ResearchProviderId, readonly string[]> = {
+  openai: ["o3-deep-research", "o4-mini-deep-research"],
+  anthropic: ["claude-sonnet-4-5", "claude-opus-4-1"],
+  gemini: ["deep-research-pro-preview-12-2025"],
+};
+
+/**
+ * Context window of each research model, in tokens. The prompt shares it
+ * with everything the model reads while researching.
+ */
+export const MODEL_CONTEXT_TOKENS: Record<string, number> = {
+  "o3-deep-research": 200_000,
+  "o4-mini-deep-research": 200_000,
+  "claude-sonnet-4-5": 200_000,
+  "claude-opus-4-1": 200_000,
+  "deep-research-pro-preview-12-2025": 1_048_576,
+};
+
+/**
+ * Fast general-purpose model per provider, used for follow-on calls about a
+ * finished report such as extracting structured findings. Uses the same API
+ * key as the provider's research models.
+ */
+export const ANALYSIS_MODELS: Record<ResearchProviderId, string> = {
+  openai: "gpt-4.1-mini",
+  anthropic: "claude-haiku-4-5",
+  gemini: "gemini-2.5-flash",
+};
+
+export function getDefaultModel(providerId: ResearchProviderId): string {
+  return PROVIDER_MODELS[providerId][0]!;
+}
+
+export function validateProviderModel(
+  providerId: ResearchProviderId,
+  model: string,
+): void {
+  if (!PROVIDER_MODELS[providerId].includes(model)) {
+    throw new Error(
+      `Model "${model}" is not available for ${PROVIDER_LABELS[providerId]}`,
+    );
+  }
+}
+
+/**
+ * Pick the model for a new job: an explicit choice wins, then the prompt's
+ * default when it targets the same provider, then the provider default.
+ */
+export function resolveJobModel(
+  providerId: ResearchProviderId,
+  model: string | undefined,
+  prompt: { defaultProvider: ResearchProviderId; defaultModel?: string },
+): string {
+  const resolved =
+    model ??
+    (prompt.defaultProvider === providerId ? prompt.defaultModel : undefined) ??
+    getDefaultModel(providerId);
+  validateProviderModel(providerId, resolved);
+  return resolved;
+}
@@ -0,0 +1,171 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./authHelpers";
+
+/** Longest slice of each report sent to the model when summarizing changes. */
+const MAX_REPORT_CHARS = 60_000;
+/** Earlier jobs of the prompt searched for a previous run. */
+const PREVIOUS_RUN_SCAN_LIMIT = 200;
+
+/**
+ * Whether two jobs covered the same stocks, ignoring order and duplicates.
+ * @internal Exported for testing
+ */
+export function sameStockSet(a: readonly Id<"stocks">[], b: readonly Id<"stocks">[]): boolean {
+  const left = new Set(a);
+  const right = new Set(b);
+  if (left.size !== right.size) return false;
+  for (const id of left) {
+    if (!right.has(id)) return false;
+  }
+  return true;
+}
+
+type RunFields = Pick<
+  Doc<"researchJobs">,
+  "_id" | "status" | "stockIds" | "createdAt" | "parentJobId" | "pipelineRunId"
+>;
+
+/**
+ * Whether `candidate` can be the previous run of `job`: an earlier completed
+ * run on the same stocks that is neither a follow-up question nor a pipeline step.
+ * @internal Exported for testing
+ */
+export function isPreviousRunOf(candidate: RunFields, job: RunFields): boolean {
+  return (
+    candidate._id !== job._id &&
+    candidate.status === "completed" &&
+    !candidate.parentJobId &&
+    !candidate.pipelineRunId &&
+    candidate.createdAt < job.createdAt &&
+    sameStockSet(candidate.stockIds, job.stockIds)
+  );
+}
+
+/**
+ * Latest completed run of the same prompt on the same stocks before `job`,
+ * among the prompt's most recent earlier jobs.
+ */
+export async function findPreviousRun(
+  ctx: QueryCtx,
+  job: Doc<"researchJobs">,
+): Promise<Doc<"researchJobs"> | null> {
+  const candidates = await ctx.db
+    .query("researchJobs")
+    .withIndex("by_promptId_createdAt", (q) =>
+      q.eq("promptId", job.promptId).lt("createdAt", job.createdAt),
+    )
+    .order("desc")
+    .take(PREVIOUS_RUN_SCAN_LIMIT);
+
+  return candidates.find((candidate) => isPreviousRunOf(candidate, job)) ?? null;
+}
+
+function truncateReport(report: string): string {
+  return report.length > MAX_REPORT_CHARS
+    ? `${report.slice(0, MAX_REPORT_CHARS)}\n\n[Report truncated]`
+    : report;
+}
+
+function formatRunDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Model input holding both reports, each tagged with its run date.
+ * @internal Exported for testing
+ */
+export function buildChangesInput(
+  previous: { createdAt: number; report: string },
+  current: { createdAt: number; report: string },
+): string {
+  return [
+    `<previous_report date="${formatRunDate(previous.createdAt)}">`,
+    truncateReport(previous.report),
+    "</previous_report>",
+    "",
+    `<current_report date="${formatRunDate(current.createdAt)}">`,
+    truncateReport(current.report),
+    "</current_report>",
+  ].join("\n");
+}
+
+export const CHANGES_INSTRUCTIONS = [
+  "You compare two equity research reports written from the same prompt on the same stocks,",
+  "the previous run and the current one.",
+  "Summarize what is new or different in the current report: changed ratings, price targets",
+  "or estimates, new risks or catalysts, and conclusions that moved.",
+  "Ignore differences in wording that do not change the substance.",
+  "Answer in Markdown with at most 8 short bullet points, most important first.",
+  "If nothing material changed, say so in one sentence.",
+].join(" ");
+
+// --- Queries ---
+
+/** Previous run to compare a job with, or null when this is the first one. */
+export const getPreviousRun = query({
+  args: { jobId: v.id("researchJobs"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return null;
+    return await findPreviousRun(ctx, job);
+  },
+});
+
+// --- Internal helpers (called from reportChangesActions) ---
+
+/** A completed job and its previous run, or null when there is nothing to compare. */
+export const getChangeContext = internalQuery({
+  args: { jobId: v.id("researchJobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.status !== "completed") return null;
+    const previous = await findPreviousRun(ctx, job);
+    if (!previous) return null;
+    return { job, previous };
+  },
+});
+
+export const saveChangeSummary = internalMutation({
+  args: {
+    jobId: v.id("researchJobs"),
+    previousJobId: v.id("researchJobs"),
+    text: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return;
+    await ctx.db.patch(args.jobId, {
+      changeSummary: {
+        previousJobId: args.previousJobId,
+        text: args.text,
+        createdAt: Date.now(),
+      },
+      changeSummaryError: undefined,
+    });
+  },
+});
+
+/** Keep why the change summary could not be written, so the job page can show it. */
+export const recordChangeSummaryError = internalMutation({
+  args: {
+    jobId: v.id("researchJobs"),
+    previousJobId: v.id("researchJobs"),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return;
+    await ctx.db.patch(args.jobId, {
+      changeSummaryError: {
+        previousJobId: args.previousJobId,
+        error: args.error,
+        createdAt: Date.now(),
+      },
+    });
+  },
+});
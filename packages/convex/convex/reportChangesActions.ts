@@ -0,0 +1,105 @@
+"use node";
+
+import { v } from "convex/values";
+import { action, internalAction } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { runAnalysis } from "./analysisModels";
+import { CHANGES_INSTRUCTIONS, buildChangesInput } from "./reportChanges";
+import { readFullResult } from "./researchResults";
+
+/**
+ * Ask the job's analysis model what changed since the previous run and store
+ * the answer on the job. Returns the summary, or null without an API key.
+ */
+async function summarizeAgainst(
+  ctx: ActionCtx,
+  job: Doc<"researchJobs">,
+  previous: Doc<"researchJobs">,
+): Promise<string | null> {
+  const [report, previousReport] = await Promise.all([
+    readFullResult(ctx, job),
+    readFullResult(ctx, previous),
+  ]);
+  const text = await runAnalysis(ctx, job, "changes", {
+    instructions: CHANGES_INSTRUCTIONS,
+    input: buildChangesInput(
+      { createdAt: previous.createdAt, report: previousReport },
+      { createdAt: job.createdAt, report },
+    ),
+  });
+  if (text === null) return null;
+
+  const summary = text.trim();
+  await ctx.runMutation(internal.reportChanges.saveChangeSummary, {
+    jobId: job._id,
+    previousJobId: previous._id,
+    text: summary,
+  });
+  return summary;
+}
+
+// --- Actions ---
+
+/** Summarize changes on demand from the job page. */
+export const summarizeChanges = action({
+  args: { jobId: v.id("researchJobs"), token: v.string() },
+  handler: async (ctx, args): Promise<string> => {
+    const session = await ctx.runQuery(internal.authHelpers.validateSessionInternal, {
+      token: args.token,
+    });
+    if (!session.valid) {
+      throw new Error("Unauthorized");
+    }
+
+    const context = await ctx.runQuery(internal.reportChanges.getChangeContext, {
+      jobId: args.jobId,
+    });
+    if (!context) {
+      throw new Error("No previous completed run of this prompt on the same stocks");
+    }
+
+    const summary = await summarizeAgainst(ctx, context.job, context.previous);
+    if (summary === null) {
+      throw new Error(`No API key configured for ${context.job.provider}`);
+    }
+    return summary;
+  },
+});
+
+// --- Internal helpers (called from researchActions) ---
+
+/**
+ * Runs before the completion notification: writes the executive summary and,
+ * for scheduled jobs, the changes since the previous run, so the message can
+ * lead with them. The notification is sent even when summarizing fails; a
+ * failed change summary is kept on the job for the job page.
+ */
+export const prepareNotification = internalAction({
+  args: { jobId: v.id("researchJobs") },
+  handler: async (ctx, args) => {
+    await ctx.runAction(internal.executiveSummariesActions.summarizeJob, {
+      jobId: args.jobId,
+    });
+
+    const context = await ctx.runQuery(internal.reportChanges.getChangeContext, {
+      jobId: args.jobId,
+    });
+    if (context?.job.scheduleId && !context.job.batchId) {
+      try {
+        await summarizeAgainst(ctx, context.job, context.previous);
+      } catch (error) {
+        await ctx.runMutation(internal.reportChanges.recordChangeSummaryError, {
+          jobId: args.jobId,
+          previousJobId: context.previous._id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    await ctx.runAction(internal.notifications.dispatchJobNotification, {
+      jobId: args.jobId,
+    });
+  },
+});
@@ -1,29 +1,179 @@
 "use node";
 
 import { v } from "convex/values";
-import OpenAI from "openai";
 import { internalAction } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
 import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getResearchProvider, missingApiKeyError } from "./researchProviders";
+import type { ConversationContext, ProviderSnapshot } from "./researchProviders";
+import { getDefaultModel, researchProvider } from "./providers";
+import { estimateCost, estimateCostBreakdown } from "./pricing";
+import { resolvePromptTemplate, resolveStepReferences, todayIsoDate } from "./promptTemplate";
+import { readFullResult, storeResult } from "./researchResults";
+import {
+  classifyError,
+  classifyThrownError,
+  getRetryDecision,
+  maxAttemptsAllowed,
+} from "./retryPolicy";
 
-const MAX_RETRIES = 3;
+const POLL_INTERVAL_MS = 60_000;
+/** Running jobs older than this are polled by the reconciler in case their webhook was lost. */
+const RECONCILE_AFTER_MS = 15 * 60 * 1000;
+const DEFAULT_MAX_RUNTIME_MINUTES = 60;
 
-async function getOpenAIClient(
-  ctx: { runQuery: (ref: typeof internal.authHelpers.getSettingValue, args: { key: string }) => Promise<string | null> },
-): Promise<OpenAI | null> {
-  const apiKey = await ctx.runQuery(internal.authHelpers.getSettingValue, {
-    key: "openai_api_key",
+async function isWebhooklessMode(ctx: ActionCtx): Promise<boolean> {
+  const value = await ctx.runQuery(internal.authHelpers.getSettingValue, {
+    key: "webhookless_mode",
   });
-  if (!apiKey) return null;
-  return new OpenAI({ apiKey });
+  return value === "true";
 }
 
-// o3-deep-research pricing: Input $10/1M tokens, Output $40/1M tokens
-/** @internal Exported for testing */
-export function estimateCost(usage: OpenAI.Responses.ResponseUsage | undefined): number | undefined {
-  if (!usage) return undefined;
-  const inputTokens = usage.input_tokens ?? 0;
-  const outputTokens = usage.output_tokens ?? 0;
-  return (inputTokens * 10 + outputTokens * 40) / 1_000_000;
+/** Earlier turns of a follow-up's thread, with their full answers. */
+async function loadConversation(
+  ctx: ActionCtx,
+  jobId: Id<"researchJobs">,
+): Promise<ConversationContext> {
+  const turns = await ctx.runQuery(internal.followUps.getConversationTurns, { jobId });
+  if (!turns) {
+    throw new Error("Original research job not found");
+  }
+  return {
+    previousExternalJobId: turns.at(-1)?.externalJobId,
+    turns: await Promise.all(
+      turns.map(async (turn) => ({
+        prompt: turn.prompt,
+        response: await readFullResult(ctx, turn),
+      })),
+    ),
+  };
+}
+
+/** Full outputs of the steps before a pipeline step, in step order; undefined for steps without one. */
+async function loadStepResults(
+  ctx: ActionCtx,
+  jobId: Id<"researchJobs">,
+): Promise<(string | undefined)[]> {
+  const steps = await ctx.runQuery(internal.pipelines.getStepResults, { jobId });
+  return await Promise.all(
+    steps.map((step) =>
+      step.result === undefined && !step.resultStorageId ? undefined : readFullResult(ctx, step),
+    ),
+  );
+}
+
+/**
+ * Shared completion path for every provider: records the terminal state of a
+ * run, logs cost, schedules retries, findings extraction and notifications.
+ * Only the first caller to move the job out of `running` wins, so a webhook,
+ * the poller and the reconciler can race on the same job safely.
+ */
+async function applyProviderSnapshot(
+  ctx: ActionCtx,
+  job: Doc<"researchJobs">,
+  snapshot: ProviderSnapshot,
+): Promise<void> {
+  const model = job.model ?? getDefaultModel(job.provider);
+  const pricing = await ctx.runQuery(internal.modelPricing.getModelPricingInternal, { model });
+  const costUsd = pricing ? estimateCost(snapshot.usage, pricing.rates) : undefined;
+  const costBreakdown = pricing ? estimateCostBreakdown(snapshot.usage, pricing.rates) : undefined;
+
+  if (snapshot.status === "completed") {
+    const durationMs = Date.now() - job.createdAt;
+
+    // Long reports go to file storage in full instead of being truncated
+    const stored = await storeResult(ctx, snapshot.outputText ?? "");
+    const updated = await ctx.runMutation(internal.researchJobs.updateJobStatus, {
+      id: job._id,
+      status: "completed",
+      ...stored,
+      costUsd,
+      usage: snapshot.usage,
+      costBreakdown,
+      durationMs,
+      expectedStatus: "running",
+    });
+    if (!updated) {
+      if (stored.resultStorageId) await ctx.storage.delete(stored.resultStorageId);
+      return;
+    }
+
+    if (snapshot.sources && snapshot.sources.length > 0) {
+      await ctx.runMutation(internal.researchSources.saveSources, {
+        jobId: job._id,
+        sources: snapshot.sources,
+      });
+    }
+
+    // Log cost
+    if (costUsd !== undefined) {
+      await ctx.runMutation(internal.researchJobs.logCost, {
+        jobId: job._id,
+        provider: job.provider,
+        model,
+        priceVersion: pricing?.version,
+        costUsd,
+        usage: snapshot.usage,
+        costBreakdown,
+      });
+    }
+
+    // Extract structured findings when the prompt declares an output schema
+    await ctx.scheduler.runAfter(0, internal.findingsActions.extractFindings, {
+      jobId: job._id,
+    });
+
+    // Dispatch notifications, led by the changes since the last run when scheduled
+    await ctx.scheduler.runAfter(
+      0,
+      internal.reportChangesActions.prepareNotification,
+      { jobId: job._id },
+    );
+
+    // Check budget alert
+    if (costUsd !== undefined) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.budgetAlert.checkBudgetAlert,
+        { currentCostUsd: costUsd },
+      );
+    }
+  } else if (snapshot.status === "failed" || snapshot.status === "cancelled") {
+    const error = snapshot.error ?? `Research ${snapshot.status}`;
+    // Only failures are retried, and only as often as their error class allows
+    const classification = snapshot.status === "failed" ? classifyError(error) : undefined;
+    const decision = classification
+      ? getRetryDecision(
+          await ctx.runQuery(internal.retryPolicy.getRetryPolicy, {}),
+          classification.errorClass,
+          job.attempts,
+        )
+      : undefined;
+    const willRetry = decision?.retry ?? false;
+
+    // The retry is scheduled along with the status, so cancelling the job can stop it
+    const updated = await ctx.runMutation(internal.researchJobs.updateJobStatus, {
+      id: job._id,
+      status: snapshot.status,
+      error,
+      errorClass: classification?.errorClass,
+      errorReason: classification?.errorReason,
+      partialCostUsd: costUsd,
+      usage: snapshot.usage,
+      expectedStatus: "running",
+      retryAfterMs: willRetry ? decision?.delayMs : undefined,
+    });
+    if (!updated) return;
+
+    if (!willRetry) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.notifications.dispatchJobNotification,
+        { jobId: job._id },
+      );
+    }
+  }
 }
 
 export const processWebhookEvent = internalAction({
@@ -41,93 +191,208 @@ export const processWebhookEvent = internalAction({
 
     // Idempotency guard: skip if the job has already reached a terminal state.
     // Duplicate webhook deliveries would otherwise insert extra rows into costLogs.
-    if (job.status === "completed" || (job.status === "failed" && args.eventType === "response.completed")) {
+    if (
+      job.status === "completed" ||
+      job.status === "cancelled" ||
+      (job.status === "failed" && args.eventType === "response.completed")
+    ) {
       return;
     }
 
-    const client = await getOpenAIClient(ctx);
-    if (!client) {
+    const provider = await getResearchProvider(ctx, job.provider);
+    if (!provider) {
+      const error = missingApiKeyError(job.provider);
       await ctx.runMutation(internal.researchJobs.updateJobStatus, {
         id: args.jobId,
         status: "failed",
-        error: "OpenAI API key not configured. Set it in Settings.",
+        error,
+        ...classifyError(error),
       });
+      await ctx.scheduler.runAfter(
+        0,
+        internal.notifications.dispatchJobNotification,
+        { jobId: args.jobId },
+      );
       return;
     }
+    if (!provider.retrieve) {
+      throw new Error(`Provider "${job.provider}" does not support webhook completion`);
+    }
 
-    // Fetch the full response from OpenAI using the SDK
-    const response = await client.responses.retrieve(job.externalJobId);
+    // Fetch the full result from the provider
+    const snapshot = await provider.retrieve(job.externalJobId);
+    await applyProviderSnapshot(ctx, job, snapshot);
+  },
+});
 
-    if (
-      args.eventType === "response.completed" &&
-      response.status === "completed"
-    ) {
-      const outputContent = response.output_text;
-      const durationMs = Date.now() - job.createdAt;
-      const costUsd = estimateCost(response.usage);
+/**
+ * Poll a running job for providers without webhooks, rescheduling itself
+ * until the provider reports a terminal state.
+ */
+export const pollResearch = internalAction({
+  args: {
+    jobId: v.id("researchJobs"),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.runQuery(internal.researchJobs.getJobInternal, {
+      id: args.jobId,
+    });
+    if (!job || job.status !== "running" || !job.externalJobId) {
+      return;
+    }
 
+    const provider = await getResearchProvider(ctx, job.provider);
+    if (!provider) {
+      const error = missingApiKeyError(job.provider);
       await ctx.runMutation(internal.researchJobs.updateJobStatus, {
         id: args.jobId,
-        status: "completed",
-        result: outputContent,
-        costUsd,
-        durationMs,
+        status: "failed",
+        error,
+        ...classifyError(error),
       });
-
-      // Log cost
-      if (costUsd !== undefined) {
-        await ctx.runMutation(internal.researchJobs.logCost, {
-          jobId: args.jobId,
-          provider: "openai",
-          costUsd,
-        });
-      }
-
-      // Dispatch notifications
       await ctx.scheduler.runAfter(
         0,
         internal.notifications.dispatchJobNotification,
         { jobId: args.jobId },
       );
+      return;
+    }
+    if (!provider.retrieve) {
+      return;
+    }
+
+    const snapshot = await provider.retrieve(job.externalJobId);
+    if (snapshot.status === "running") {
+      await ctx.scheduler.runAfter(
+        POLL_INTERVAL_MS,
+        internal.researchActions.pollResearch,
+        { jobId: args.jobId },
+      );
+      return;
+    }
 
-      // Check budget alert
-      if (costUsd !== undefined) {
-        await ctx.scheduler.runAfter(
-          0,
-          internal.budgetAlert.checkBudgetAlert,
-          { currentCostUsd: costUsd },
-        );
-      }
-    } else if (
-      args.eventType === "response.failed" ||
-      args.eventType === "response.cancelled" ||
-      response.status === "failed" ||
-      response.status === "cancelled"
-    ) {
-      const error =
-        response.error?.message ?? `Research ${response.status ?? args.eventType}`;
+    await applyProviderSnapshot(ctx, job, snapshot);
+  },
+});
 
-      await ctx.runMutation(internal.researchJobs.updateJobStatus, {
-        id: args.jobId,
-        status: "failed",
-        error,
+/**
+ * Cron-driven safety net: polls running jobs whose completion webhook never
+ * arrived and feeds the result through the normal completion path.
+ * In webhook-less mode every running job is eligible immediately.
+ * Provider errors leave the job running for the next pass.
+ */
+export const reconcileRunningJobs = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const threshold = (await isWebhooklessMode(ctx)) ? 0 : RECONCILE_AFTER_MS;
+    const jobs = await ctx.runQuery(internal.researchJobs.listStaleRunningJobs, {
+      startedBefore: Date.now() - threshold,
+    });
+
+    await Promise.all(
+      jobs.map(async (job) => {
+        try {
+          const provider = await getResearchProvider(ctx, job.provider);
+          if (!provider?.retrieve || !job.externalJobId) return;
+
+          const snapshot = await provider.retrieve(job.externalJobId);
+          if (snapshot.status !== "running") {
+            await applyProviderSnapshot(ctx, job, snapshot);
+          }
+        } catch {
+          // Tried again on the next pass; a run that never reconciles is
+          // flagged by the runtime watchdog
+        }
+      }),
+    );
+  },
+});
+
+/**
+ * Cancel a provider-side run. Scheduled by `researchJobs.cancelJob`. The job
+ * is cancelled locally either way; a failed cancel is kept on its attempt.
+ */
+export const cancelProviderRun = internalAction({
+  args: {
+    jobId: v.id("researchJobs"),
+    provider: researchProvider,
+    externalJobId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const provider = await getResearchProvider(ctx, args.provider);
+    if (!provider?.cancel) return;
+
+    try {
+      await provider.cancel(args.externalJobId);
+    } catch (error: unknown) {
+      // The run may already have finished, or may still be billing
+      await ctx.runMutation(internal.jobAttempts.recordCancelError, {
+        jobId: args.jobId,
+        externalJobId: args.externalJobId,
+        error: error instanceof Error ? error.message : "Unknown error",
       });
+    }
+  },
+});
+
+/**
+ * Cron-driven watchdog: flags running jobs that exceed the configured maximum
+ * runtime, optionally cancels them, and notifies once per job.
+ */
+export const watchdogRunningJobs = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const maxRuntimeSetting = await ctx.runQuery(internal.authHelpers.getSettingValue, {
+      key: "max_runtime_minutes",
+    });
+    const autoCancel = await ctx.runQuery(internal.authHelpers.getSettingValue, {
+      key: "watchdog_auto_cancel",
+    });
+
+    const parsed = maxRuntimeSetting ? Number(maxRuntimeSetting) : NaN;
+    const maxRuntimeMinutes =
+      Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_RUNTIME_MINUTES;
+
+    const jobs = await ctx.runQuery(internal.researchJobs.listStaleRunningJobs, {
+      startedBefore: Date.now() - maxRuntimeMinutes * 60 * 1000,
+    });
+
+    await Promise.all(
+      jobs.map(async (job) => {
+        if (autoCancel === "true") {
+          const cancelled = await ctx.runMutation(internal.researchJobs.updateJobStatus, {
+            id: job._id,
+            status: "cancelled",
+            error: `Exceeded maximum runtime of ${maxRuntimeMinutes} minutes`,
+            expectedStatus: "running",
+          });
+          if (!cancelled) return;
+
+          if (job.externalJobId) {
+            await ctx.runAction(internal.researchActions.cancelProviderRun, {
+              jobId: job._id,
+              provider: job.provider,
+              externalJobId: job.externalJobId,
+            });
+          }
+        } else {
+          const flagged = await ctx.runMutation(internal.researchJobs.markRuntimeExceeded, {
+            id: job._id,
+          });
+          if (!flagged) return;
+        }
 
-      // Trigger retry if under max attempts
-      if (response.status === "failed" && job.attempts < 3) {
-        await ctx.scheduler.runAfter(
-          Math.pow(2, job.attempts) * 5000,
-          internal.researchActions.startResearch,
-          { jobId: args.jobId },
-        );
-      } else {
         await ctx.scheduler.runAfter(
           0,
-          internal.notifications.dispatchJobNotification,
-          { jobId: args.jobId },
+          internal.notifications.dispatchWatchdogNotification,
+          {
+            jobId: job._id,
+            action: autoCancel === "true" ? "cancelled" : "flagged",
+            maxRuntimeMinutes,
+          },
         );
-      }
-    }
+      }),
+    );
   },
 });
 
@@ -153,12 +418,19 @@ export const startResearch = internalAction({
       { id: args.jobId },
     );
 
-    if (attempts > MAX_RETRIES) {
+    const retryPolicy = await ctx.runQuery(internal.retryPolicy.getRetryPolicy, {});
+    const maxAttempts = maxAttemptsAllowed(retryPolicy);
+    if (attempts > maxAttempts) {
       await ctx.runMutation(internal.researchJobs.updateJobStatus, {
         id: args.jobId,
         status: "failed",
-        error: `Exceeded maximum retries (${MAX_RETRIES})`,
+        error: `Exceeded maximum attempts (${maxAttempts})`,
       });
+      await ctx.scheduler.runAfter(
+        0,
+        internal.notifications.dispatchJobNotification,
+        { jobId: args.jobId },
+      );
       return;
     }
 
@@ -168,79 +440,118 @@ export const startResearch = internalAction({
       status: "running",
     });
 
-    // Resolve stock tickers for prompt variable injection
-    const stocks = await Promise.all(
-      job.stockIds.map((stockId) =>
-        ctx.runQuery(internal.researchJobs.getStockInternal, { id: stockId }),
-      ),
-    );
-    const stockTickers = stocks
-      .filter((s): s is NonNullable<typeof s> => s !== null)
-      .map((s) => s.ticker);
-
-    // Build the final prompt with variable injection
+    // Build the final prompt with variable injection; follow-up questions are sent as written
     let resolvedPrompt = job.promptSnapshot;
-    resolvedPrompt = resolvedPrompt.replaceAll(
-      "{{STOCKS}}",
-      stockTickers.join(", "),
-    );
-    resolvedPrompt = resolvedPrompt.replaceAll(
-      "{{TICKER}}",
-      stockTickers[0] ?? "",
-    );
-    resolvedPrompt = resolvedPrompt.replaceAll(
-      "{{DATE}}",
-      new Date().toISOString().split("T")[0]!,
-    );
+    if (!job.parentJobId) {
+      const date = todayIsoDate();
+      const stocks = await ctx.runQuery(internal.earnings.getTemplateStocksInternal, {
+        stockIds: job.stockIds,
+        date,
+      });
+      // Later pipeline steps build on the output of the steps before them
+      const stepResults = job.pipelineStep ? await loadStepResults(ctx, job._id) : [];
+      try {
+        resolvedPrompt = resolveStepReferences(
+          resolvePromptTemplate(job.promptSnapshot, {
+            stocks,
+            date,
+            parameters: job.parameterValues,
+          }),
+          stepResults,
+        );
+      } catch (error) {
+        // A broken template fails the same way on every attempt
+        await ctx.runMutation(internal.researchJobs.updateJobStatus, {
+          id: args.jobId,
+          status: "failed",
+          error: error instanceof Error ? error.message : "Invalid prompt template",
+          errorClass: "permanent",
+          errorReason: "invalid_request",
+        });
+        await ctx.scheduler.runAfter(
+          0,
+          internal.notifications.dispatchJobNotification,
+          { jobId: args.jobId },
+        );
+        return;
+      }
+    }
 
-    const client = await getOpenAIClient(ctx);
-    if (!client) {
+    const provider = await getResearchProvider(ctx, job.provider);
+    if (!provider) {
+      const error = missingApiKeyError(job.provider);
       await ctx.runMutation(internal.researchJobs.updateJobStatus, {
         id: args.jobId,
         status: "failed",
-        error: "OpenAI API key not configured. Set it in Settings.",
+        error,
+        ...classifyError(error),
       });
+      await ctx.scheduler.runAfter(
+        0,
+        internal.notifications.dispatchJobNotification,
+        { jobId: args.jobId },
+      );
       return;
     }
 
     try {
-      const response = await client.responses.create({
-        model: "o3-deep-research",
-        input: resolvedPrompt,
-        tools: [{ type: "web_search_preview" }],
-        background: true,
-      });
+      const snapshot = await provider.start(
+        resolvedPrompt,
+        job.model ?? getDefaultModel(job.provider),
+        job.parentJobId ? await loadConversation(ctx, job._id) : undefined,
+      );
 
-      // Store the external job ID for webhook matching
-      await ctx.runMutation(internal.researchJobs.updateJobStatus, {
+      // Store the external job ID for webhook matching and polling
+      const updated = await ctx.runMutation(internal.researchJobs.updateJobStatus, {
         id: args.jobId,
         status: "running",
-        externalJobId: response.id,
+        externalJobId: snapshot.externalJobId,
+        expectedStatus: "running",
       });
+
+      // Cancelled while the provider call was in flight
+      if (!updated) {
+        if (snapshot.status === "running" && provider.cancel) {
+          await provider.cancel(snapshot.externalJobId);
+        }
+        return;
+      }
+
+      if (snapshot.status !== "running") {
+        await applyProviderSnapshot(ctx, { ...job, attempts }, snapshot);
+      } else if (
+        provider.completion === "poll" ||
+        (provider.completion === "webhook" && (await isWebhooklessMode(ctx)))
+      ) {
+        await ctx.scheduler.runAfter(
+          POLL_INTERVAL_MS,
+          internal.researchActions.pollResearch,
+          { jobId: args.jobId },
+        );
+      }
     } catch (error: unknown) {
-      const message =
-        error instanceof Error ? error.message : "Unknown error occurred";
+      const { message, errorClass, errorReason } = classifyThrownError(error);
+      const { retry, delayMs } = getRetryDecision(retryPolicy, errorClass, attempts);
 
-      // If under max retries, schedule a retry
-      if (attempts < MAX_RETRIES) {
-        await ctx.runMutation(internal.researchJobs.updateJobStatus, {
-          id: args.jobId,
-          status: "failed",
-          error: message,
-        });
-        // Schedule retry with exponential backoff
-        const delayMs = Math.pow(2, attempts) * 5000;
+      const updated = await ctx.runMutation(internal.researchJobs.updateJobStatus, {
+        id: args.jobId,
+        status: "failed",
+        error: retry || attempts === 1 ? message : `Failed after ${attempts} attempts: ${message}`,
+        errorClass,
+        errorReason,
+        expectedStatus: "running",
+        // Transient errors back off exponentially; permanent ones stop here by default
+        retryAfterMs: retry ? delayMs : undefined,
+      });
+      // Cancelled while the provider call was in flight
+      if (!updated) return;
+
+      if (!retry) {
         await ctx.scheduler.runAfter(
-          delayMs,
-          internal.researchActions.startResearch,
+          0,
+          internal.notifications.dispatchJobNotification,
           { jobId: args.jobId },
         );
-      } else {
-        await ctx.runMutation(internal.researchJobs.updateJobStatus, {
-          id: args.jobId,
-          status: "failed",
-          error: `Failed after ${MAX_RETRIES} attempts: ${message}`,
-        });
       }
     }
   },
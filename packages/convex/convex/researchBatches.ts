@@ -0,0 +1,277 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { requireAuth } from "./authHelpers";
+import { logAuditEvent } from "./auditLog";
+import { researchProvider, resolveJobModel } from "./providers";
+import type { ResearchProviderId } from "./providers";
+import { QUEUE_PRIORITY, startQueuedJobs } from "./jobQueue";
+import { enforceBudgetCap } from "./budgetCap";
+import { estimateJobCostUsd } from "./estimates";
+import { resolvePromptVersion } from "./promptVersions";
+import { parameterValuesValidator } from "./promptTemplate";
+
+export type BatchStatus = Doc<"researchBatches">["status"];
+
+export interface BatchSummary {
+  status: BatchStatus;
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  /** Queued, pending, running or waiting on a retry */
+  active: number;
+  costUsd: number;
+  /** Fraction of child jobs that reached a final state, 0–1 */
+  progress: number;
+}
+
+/**
+ * Aggregate the child jobs of a batch.
+ * @internal Exported for testing
+ */
+export function summarizeBatch(
+  jobs: Pick<Doc<"researchJobs">, "status" | "costUsd" | "awaitingRetry">[],
+): BatchSummary {
+  let completed = 0;
+  let failed = 0;
+  let cancelled = 0;
+  let costUsd = 0;
+
+  for (const job of jobs) {
+    costUsd += job.costUsd ?? 0;
+    if (job.status === "completed") completed++;
+    else if (job.status === "failed" && !job.awaitingRetry) failed++;
+    else if (job.status === "cancelled") cancelled++;
+  }
+
+  const total = jobs.length;
+  const active = total - completed - failed - cancelled;
+
+  let status: BatchStatus;
+  if (active > 0) status = "running";
+  else if (completed === total) status = "completed";
+  else if (completed > 0) status = "partial";
+  else if (cancelled === total) status = "cancelled";
+  else status = "failed";
+
+  return {
+    status,
+    total,
+    completed,
+    failed,
+    cancelled,
+    active,
+    costUsd,
+    progress: total > 0 ? (total - active) / total : 1,
+  };
+}
+
+async function listBatchJobs(ctx: MutationCtx, batchId: Id<"researchBatches">) {
+  return await ctx.db
+    .query("researchJobs")
+    .withIndex("by_batchId", (q) => q.eq("batchId", batchId))
+    .collect();
+}
+
+/**
+ * Create a batch with one queued child job per stock and start as many as
+ * the concurrency limit allows. The whole batch is checked against the
+ * budget cap up front.
+ */
+async function createBatch(
+  ctx: MutationCtx,
+  args: {
+    prompt: Doc<"prompts">;
+    stockIds: Id<"stocks">[];
+    provider: ResearchProviderId;
+    model?: string;
+    scheduleId?: Id<"schedules">;
+    /** Version pinned by the schedule, if any */
+    promptVersionId?: Id<"promptVersions">;
+    parameterValues?: Record<string, string>;
+    priority: number;
+    overrideBudgetCap?: boolean;
+  },
+): Promise<Id<"researchBatches">> {
+  const { prompt, stockIds, provider, scheduleId, priority } = args;
+  if (stockIds.length < 2) {
+    throw new Error("Fan-out needs at least two stocks");
+  }
+  const model = resolveJobModel(provider, args.model, prompt);
+  const version = await resolvePromptVersion(
+    ctx,
+    prompt,
+    args.promptVersionId,
+    args.parameterValues,
+  );
+
+  // Every child covers one stock, so size the run from the first
+  const estimatedUsd =
+    (await estimateJobCostUsd(ctx, {
+      promptId: prompt._id,
+      template: version.template,
+      parameterValues: version.parameterValues,
+      provider,
+      model,
+      stockIds: stockIds.slice(0, 1),
+    })) * stockIds.length;
+  const budget = await enforceBudgetCap(ctx, {
+    estimatedUsd,
+    override: args.overrideBudgetCap,
+  });
+
+  const now = Date.now();
+  const batchId = await ctx.db.insert("researchBatches", {
+    promptId: prompt._id,
+    stockIds,
+    provider,
+    model,
+    scheduleId,
+    status: "running",
+    createdAt: now,
+  });
+
+  await Promise.all(
+    stockIds.map((stockId) =>
+      ctx.db.insert("researchJobs", {
+        promptId: prompt._id,
+        promptSnapshot: version.template,
+        promptVersionId: version.versionId,
+        parameterValues: version.parameterValues,
+        stockIds: [stockId],
+        provider,
+        model,
+        status: "queued",
+        attempts: 0,
+        scheduleId,
+        createdAt: now,
+        priority,
+        queuedAt: now,
+        deferredUntil: budget.deferredUntil,
+        batchId,
+      }),
+    ),
+  );
+  if (budget.overridden) {
+    await logAuditEvent(ctx, { action: "budget.override", resourceType: "researchBatches", resourceId: batchId, details: `Estimated $${estimatedUsd.toFixed(2)}` });
+  }
+  await startQueuedJobs(ctx);
+
+  return batchId;
+}
+
+/**
+ * Recompute a batch's aggregate status from its children. Sends the batch
+ * summary notification once, when the last child reaches a final state.
+ */
+export async function refreshBatchStatus(
+  ctx: MutationCtx,
+  batchId: Id<"researchBatches">,
+): Promise<void> {
+  const batch = await ctx.db.get(batchId);
+  if (!batch) return;
+
+  const jobs = await listBatchJobs(ctx, batchId);
+  const { status } = summarizeBatch(jobs);
+  if (status === batch.status) return;
+
+  await ctx.db.patch(batchId, {
+    status,
+    completedAt: status === "running" ? undefined : Date.now(),
+  });
+
+  if (batch.status === "running") {
+    await ctx.scheduler.runAfter(0, internal.notifications.dispatchBatchNotification, {
+      jobIds: jobs.map((job) => job._id),
+    });
+  }
+}
+
+// --- Queries ---
+
+export const getBatch = query({
+  args: { id: v.id("researchBatches"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const batch = await ctx.db.get(args.id);
+    if (!batch) return null;
+
+    const jobs = await ctx.db
+      .query("researchJobs")
+      .withIndex("by_batchId", (q) => q.eq("batchId", args.id))
+      .collect();
+
+    return { batch, jobs, summary: summarizeBatch(jobs) };
+  },
+});
+
+// --- Mutations ---
+
+export const createAndStartBatch = mutation({
+  args: {
+    promptId: v.id("prompts"),
+    stockIds: v.array(v.id("stocks")),
+    provider: researchProvider,
+    model: v.optional(v.string()),
+    parameterValues: v.optional(parameterValuesValidator),
+    /** Start even if the batch would exceed the hard monthly budget cap */
+    overrideBudgetCap: v.optional(v.boolean()),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const prompt = await ctx.db.get(args.promptId);
+    if (!prompt) {
+      throw new Error("Prompt not found");
+    }
+
+    const batchId = await createBatch(ctx, {
+      prompt,
+      stockIds: args.stockIds,
+      provider: args.provider,
+      model: args.model,
+      parameterValues: args.parameterValues,
+      priority: QUEUE_PRIORITY.manual,
+      overrideBudgetCap: args.overrideBudgetCap,
+    });
+    await logAuditEvent(ctx, { action: "batch.create", resourceType: "researchBatches", resourceId: batchId, details: `${args.stockIds.length} jobs` });
+
+    return batchId;
+  },
+});
+
+// --- Internal helpers (called from scheduleActions) ---
+
+export const createScheduledBatch = internalMutation({
+  args: {
+    promptId: v.id("prompts"),
+    stockIds: v.array(v.id("stocks")),
+    provider: researchProvider,
+    model: v.optional(v.string()),
+    scheduleId: v.id("schedules"),
+    promptVersionId: v.optional(v.id("promptVersions")),
+    parameterValues: v.optional(parameterValuesValidator),
+  },
+  handler: async (ctx, args) => {
+    const prompt = await ctx.db.get(args.promptId);
+    if (!prompt) {
+      throw new Error("Prompt not found");
+    }
+
+    return await createBatch(ctx, {
+      prompt,
+      stockIds: args.stockIds,
+      provider: args.provider,
+      model: args.model,
+      scheduleId: args.scheduleId,
+      promptVersionId: args.promptVersionId,
+      parameterValues: args.parameterValues,
+      priority: QUEUE_PRIORITY.scheduled,
+    });
+  },
+});
@@ -6,46 +6,59 @@ import {
   query,
 } from "./_generated/server";
 import type { MutationCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
 import { requireAuth } from "./authHelpers";
 import { validateSearchTerm, truncateResult } from "./validation";
+import { parameterValuesValidator } from "./promptTemplate";
 import { logAuditEvent } from "./auditLog";
-
-const MAX_CONCURRENT_JOBS = 5;
+import { getDefaultModel, researchProvider, resolveJobModel } from "./providers";
+import {
+  QUEUE_PRIORITY,
+  getConcurrencyLimit,
+  holdsSlot,
+  isDeferred,
+  listQueuedJobs,
+  startQueuedJobs,
+} from "./jobQueue";
+import { refreshBatchStatus } from "./researchBatches";
+import { refreshPipelineRun } from "./pipelines";
+import { enforceBudgetCap } from "./budgetCap";
+import { estimateJobCostUsd } from "./estimates";
+import { resolvePromptVersion } from "./promptVersions";
+import { finishAttempt, setAttemptExternalId, startAttempt } from "./jobAttempts";
+import { errorClassValidator, errorReasonValidator } from "./retryPolicy";
+import { analysisKindValidator, costBreakdownValidator, tokenUsageValidator } from "./pricing";
 
 const jobStatus = v.union(
+  v.literal("queued"),
   v.literal("pending"),
   v.literal("running"),
   v.literal("completed"),
   v.literal("failed"),
+  v.literal("cancelled"),
 );
 
-/** Throws if concurrent job limit is reached. */
-async function enforceConcurrentJobLimit(ctx: MutationCtx) {
-  const pendingJobs = await ctx.db
-    .query("researchJobs")
-    .withIndex("by_status", (q) => q.eq("status", "pending"))
-    .collect();
-  const runningJobs = await ctx.db
-    .query("researchJobs")
-    .withIndex("by_status", (q) => q.eq("status", "running"))
-    .collect();
+type SlotFields = Pick<Doc<"researchJobs">, "status" | "awaitingRetry">;
 
-  if (pendingJobs.length + runningJobs.length >= MAX_CONCURRENT_JOBS) {
-    throw new Error(
-      `Maximum of ${MAX_CONCURRENT_JOBS} concurrent jobs allowed`,
-    );
-  }
+/** Whether a job moving from `from` to `to` frees a concurrency slot. */
+function releasesSlot(from: SlotFields, to: SlotFields): boolean {
+  return holdsSlot(from) && !holdsSlot(to) && to.status !== "queued";
 }
 
 // --- Mutations ---
 
-export const createResearchJob = mutation({
+export const createAndStartResearch = mutation({
   args: {
     promptId: v.id("prompts"),
     stockIds: v.array(v.id("stocks")),
-    provider: v.literal("openai"),
+    provider: researchProvider,
+    model: v.optional(v.string()),
+    /** Values for the prompt's own parameters; declared defaults fill the gaps */
+    parameterValues: v.optional(parameterValuesValidator),
     scheduleId: v.optional(v.id("schedules")),
+    /** Start even if the run would exceed the hard monthly budget cap */
+    overrideBudgetCap: v.optional(v.boolean()),
     token: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -55,59 +68,45 @@ export const createResearchJob = mutation({
     if (!prompt) {
       throw new Error("Prompt not found");
     }
+    const model = resolveJobModel(args.provider, args.model, prompt);
+    const version = await resolvePromptVersion(ctx, prompt, undefined, args.parameterValues);
 
-    await enforceConcurrentJobLimit(ctx);
-
-    const now = Date.now();
-    return await ctx.db.insert("researchJobs", {
+    const estimatedUsd = await estimateJobCostUsd(ctx, {
       promptId: args.promptId,
-      promptSnapshot: prompt.template,
-      stockIds: args.stockIds,
+      template: version.template,
+      parameterValues: version.parameterValues,
       provider: args.provider,
-      status: "pending",
-      attempts: 0,
-      scheduleId: args.scheduleId,
-      createdAt: now,
+      model,
+      stockIds: args.stockIds,
+    });
+    const budget = await enforceBudgetCap(ctx, {
+      estimatedUsd,
+      override: args.overrideBudgetCap,
     });
-  },
-});
-
-export const createAndStartResearch = mutation({
-  args: {
-    promptId: v.id("prompts"),
-    stockIds: v.array(v.id("stocks")),
-    provider: v.literal("openai"),
-    scheduleId: v.optional(v.id("schedules")),
-    token: v.optional(v.string()),
-  },
-  handler: async (ctx, args) => {
-    await requireAuth(ctx, args.token);
-
-    const prompt = await ctx.db.get(args.promptId);
-    if (!prompt) {
-      throw new Error("Prompt not found");
-    }
-
-    await enforceConcurrentJobLimit(ctx);
 
     const now = Date.now();
     const jobId = await ctx.db.insert("researchJobs", {
       promptId: args.promptId,
-      promptSnapshot: prompt.template,
+      promptSnapshot: version.template,
+      promptVersionId: version.versionId,
+      parameterValues: version.parameterValues,
       stockIds: args.stockIds,
       provider: args.provider,
-      status: "pending",
+      model,
+      status: "queued",
       attempts: 0,
       scheduleId: args.scheduleId,
       createdAt: now,
+      priority: QUEUE_PRIORITY.manual,
+      queuedAt: now,
+      deferredUntil: budget.deferredUntil,
     });
+    if (budget.overridden) {
+      await logAuditEvent(ctx, { action: "budget.override", resourceType: "researchJobs", resourceId: jobId, details: `Estimated $${estimatedUsd.toFixed(2)}` });
+    }
 
-    // Schedule the action to start immediately
-    await ctx.scheduler.runAfter(
-      0,
-      internal.researchActions.startResearch,
-      { jobId },
-    );
+    // Starts immediately when a slot is free, otherwise waits its turn
+    await startQueuedJobs(ctx);
 
     return jobId;
   },
@@ -119,36 +118,122 @@ export const updateJobStatus = internalMutation({
     status: jobStatus,
     externalJobId: v.optional(v.string()),
     result: v.optional(v.string()),
+    /** Set with `result` when the full text was moved to file storage */
+    resultStorageId: v.optional(v.id("_storage")),
+    resultLength: v.optional(v.number()),
     error: v.optional(v.string()),
     costUsd: v.optional(v.number()),
     durationMs: v.optional(v.number()),
+    /** Only apply the update if the job is still in this status; returns null otherwise. */
+    expectedStatus: v.optional(jobStatus),
+    /**
+     * Schedule a retry after this many milliseconds. The job keeps its slot
+     * meanwhile instead of starting the next queued job.
+     */
+    retryAfterMs: v.optional(v.number()),
+    errorClass: v.optional(errorClassValidator),
+    errorReason: v.optional(errorReasonValidator),
+    /** Cost of a failed run, recorded on its attempt only */
+    partialCostUsd: v.optional(v.number()),
+    /** Recorded on the attempt, and on the job too when it completes */
+    usage: v.optional(tokenUsageValidator),
+    costBreakdown: v.optional(costBreakdownValidator),
   },
   handler: async (ctx, args) => {
-    const { id, ...updates } = args;
+    const { id, expectedStatus, retryAfterMs, partialCostUsd, usage, costBreakdown, ...updates } =
+      args;
+    const willRetry = retryAfterMs !== undefined;
 
     const job = await ctx.db.get(id);
     if (!job) {
       throw new Error("Research job not found");
     }
+    if (expectedStatus !== undefined && job.status !== expectedStatus) {
+      return null;
+    }
 
     const patch: Record<string, unknown> = { status: updates.status };
 
     if (updates.externalJobId !== undefined)
       patch.externalJobId = updates.externalJobId;
-    if (updates.result !== undefined) patch.result = truncateResult(updates.result);
-    if (updates.error !== undefined) patch.error = updates.error;
+    if (updates.result !== undefined) {
+      patch.result = truncateResult(updates.result);
+      patch.resultStorageId = updates.resultStorageId;
+      patch.resultLength = updates.resultLength ?? updates.result.length;
+      // A new result replaces any full text stored for an earlier one
+      if (job.resultStorageId && job.resultStorageId !== updates.resultStorageId) {
+        await ctx.storage.delete(job.resultStorageId);
+      }
+    }
+    if (updates.error !== undefined) {
+      patch.error = updates.error;
+      patch.errorClass = updates.errorClass;
+      patch.errorReason = updates.errorReason;
+    }
     if (updates.costUsd !== undefined) patch.costUsd = updates.costUsd;
+    if (updates.status === "completed" && usage !== undefined) {
+      patch.usage = usage;
+      patch.costBreakdown = costBreakdown;
+    }
     if (updates.durationMs !== undefined) patch.durationMs = updates.durationMs;
+    // Set while a failed job waits for its scheduled retry
+    if (willRetry) {
+      patch.awaitingRetry = true;
+      patch.retryScheduledId = await ctx.scheduler.runAfter(
+        retryAfterMs,
+        internal.researchActions.startResearch,
+        { jobId: id },
+      );
+    } else if (job.awaitingRetry) {
+      patch.awaitingRetry = undefined;
+      patch.retryScheduledId = undefined;
+    }
 
-    if (updates.status === "completed" || updates.status === "failed") {
+    if (updates.status === "running" && job.status !== "running") {
+      patch.startedAt = Date.now();
+    }
+    if (
+      updates.status === "completed" ||
+      updates.status === "failed" ||
+      updates.status === "cancelled"
+    ) {
       patch.completedAt = Date.now();
     }
 
     await ctx.db.patch(id, patch);
+
+    if (updates.externalJobId !== undefined) {
+      await setAttemptExternalId(ctx, id, updates.externalJobId);
+    }
+    if (
+      updates.status === "completed" ||
+      updates.status === "failed" ||
+      updates.status === "cancelled"
+    ) {
+      await finishAttempt(ctx, id, {
+        status: updates.status,
+        error: updates.error,
+        errorClass: updates.errorClass,
+        errorReason: updates.errorReason,
+        costUsd: updates.costUsd ?? partialCostUsd,
+        usage,
+      });
+    }
+
+    if (releasesSlot(job, { status: updates.status, awaitingRetry: willRetry })) {
+      await startQueuedJobs(ctx);
+    }
+    if (job.batchId) {
+      await refreshBatchStatus(ctx, job.batchId);
+    }
+    if (job.pipelineRunId) {
+      await refreshPipelineRun(ctx, job.pipelineRunId);
+    }
     return id;
   },
 });
 
+/** Count a new attempt and open its `jobAttempts` row. */
 export const incrementAttempts = internalMutation({
   args: {
     id: v.id("researchJobs"),
@@ -160,6 +245,7 @@ export const incrementAttempts = internalMutation({
     }
 
     await ctx.db.patch(args.id, { attempts: job.attempts + 1 });
+    await startAttempt(ctx, args.id);
     return job.attempts + 1;
   },
 });
@@ -167,14 +253,24 @@ export const incrementAttempts = internalMutation({
 export const logCost = internalMutation({
   args: {
     jobId: v.id("researchJobs"),
-    provider: v.literal("openai"),
+    provider: researchProvider,
+    model: v.optional(v.string()),
+    priceVersion: v.optional(v.number()),
     costUsd: v.number(),
+    usage: v.optional(tokenUsageValidator),
+    costBreakdown: v.optional(costBreakdownValidator),
+    kind: v.optional(analysisKindValidator),
   },
   handler: async (ctx, args) => {
     await ctx.db.insert("costLogs", {
       jobId: args.jobId,
       provider: args.provider,
+      model: args.model,
+      priceVersion: args.priceVersion,
       costUsd: args.costUsd,
+      usage: args.usage,
+      costBreakdown: args.costBreakdown,
+      kind: args.kind,
       timestamp: Date.now(),
     });
   },
@@ -193,15 +289,41 @@ export const cancelJob = mutation({
       throw new Error("Research job not found");
     }
 
-    if (job.status !== "pending" && job.status !== "running") {
+    if (!holdsSlot(job) && job.status !== "queued") {
       throw new Error(`Cannot cancel job with status "${job.status}"`);
     }
 
+    // A failed job waiting for its retry is cancelled before the retry starts
+    if (job.retryScheduledId) {
+      await ctx.scheduler.cancel(job.retryScheduledId);
+    }
     await ctx.db.patch(args.id, {
-      status: "failed",
+      status: "cancelled",
       error: "Cancelled by user",
       completedAt: Date.now(),
+      awaitingRetry: undefined,
+      retryScheduledId: undefined,
     });
+    await finishAttempt(ctx, args.id, { status: "cancelled", error: "Cancelled by user" });
+
+    if (releasesSlot(job, { status: "cancelled" })) {
+      await startQueuedJobs(ctx);
+    }
+    if (job.batchId) {
+      await refreshBatchStatus(ctx, job.batchId);
+    }
+    if (job.pipelineRunId) {
+      await refreshPipelineRun(ctx, job.pipelineRunId);
+    }
+
+    // Stop the provider-side run so it doesn't keep billing; a failed one has already stopped
+    if (job.externalJobId && job.status !== "failed") {
+      await ctx.scheduler.runAfter(0, internal.researchActions.cancelProviderRun, {
+        jobId: args.id,
+        provider: job.provider,
+        externalJobId: job.externalJobId,
+      });
+    }
     await logAuditEvent(ctx, { action: "job.cancel", resourceType: "researchJobs", resourceId: args.id });
 
     return args.id;
@@ -211,6 +333,8 @@ export const cancelJob = mutation({
 export const retryJob = mutation({
   args: {
     id: v.id("researchJobs"),
+    /** Retry even if the run would exceed the hard monthly budget cap */
+    overrideBudgetCap: v.optional(v.boolean()),
     token: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -221,35 +345,134 @@ export const retryJob = mutation({
       throw new Error("Research job not found");
     }
 
-    if (job.status !== "failed") {
-      throw new Error("Can only retry failed jobs");
+    if (job.status !== "failed" && job.status !== "cancelled") {
+      throw new Error("Can only retry failed or cancelled jobs");
     }
 
-    // Enforce concurrent job limit on retry to prevent bypass
-    await enforceConcurrentJobLimit(ctx);
-
-    if (job.attempts >= 3) {
-      // Reset attempts to allow manual retry
-      await ctx.db.patch(args.id, { attempts: 0 });
+    const estimatedUsd = await estimateJobCostUsd(ctx, {
+      promptId: job.promptId,
+      template: job.promptSnapshot,
+      parameterValues: job.parameterValues,
+      provider: job.provider,
+      model: job.model ?? getDefaultModel(job.provider),
+      stockIds: job.stockIds,
+    });
+    const budget = await enforceBudgetCap(ctx, {
+      estimatedUsd,
+      override: args.overrideBudgetCap,
+    });
+    if (budget.overridden) {
+      await logAuditEvent(ctx, { action: "budget.override", resourceType: "researchJobs", resourceId: args.id, details: `Retry, estimated $${estimatedUsd.toFixed(2)}` });
     }
 
-    // Reset status and schedule retry
+    // Re-queue behind the concurrency limit like any other manual run
+    if (job.retryScheduledId) {
+      await ctx.scheduler.cancel(job.retryScheduledId);
+    }
     await ctx.db.patch(args.id, {
-      status: "pending",
+      // A manual retry gets the full retry policy again; earlier runs stay in jobAttempts
+      attempts: 0,
+      status: "queued",
       error: undefined,
+      errorClass: undefined,
+      errorReason: undefined,
       completedAt: undefined,
+      runtimeExceededAt: undefined,
+      priority: QUEUE_PRIORITY.manual,
+      queuedAt: Date.now(),
+      awaitingRetry: undefined,
+      retryScheduledId: undefined,
+      deferredUntil: budget.deferredUntil,
     });
+    await startQueuedJobs(ctx);
+    if (job.batchId) {
+      await refreshBatchStatus(ctx, job.batchId);
+    }
+    if (job.pipelineRunId) {
+      await refreshPipelineRun(ctx, job.pipelineRunId);
+    }
 
-    await ctx.scheduler.runAfter(
-      0,
-      internal.researchActions.startResearch,
-      { jobId: args.id },
-    );
+    return args.id;
+  },
+});
+
+/** Move a queued job ahead of everything else waiting in the queue. */
+export const moveJobToFront = mutation({
+  args: {
+    id: v.id("researchJobs"),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const job = await ctx.db.get(args.id);
+    if (!job) {
+      throw new Error("Research job not found");
+    }
+    if (job.status !== "queued") {
+      throw new Error("Only queued jobs can be moved to the front");
+    }
+    if (isDeferred(job, Date.now())) {
+      throw new Error("Job is held by the monthly budget cap until next month");
+    }
+
+    const queued = await listQueuedJobs(ctx);
+    const head = queued[0];
+    if (head && head._id !== job._id) {
+      await ctx.db.patch(args.id, { priority: (head.priority ?? 0) + 1 });
+    }
+    await logAuditEvent(ctx, { action: "job.prioritize", resourceType: "researchJobs", resourceId: args.id });
 
     return args.id;
   },
 });
 
+/** Delete a finished job with its cost logs, sources, attempts, findings and stored result. */
+async function deleteJobData(ctx: MutationCtx, job: Doc<"researchJobs">): Promise<void> {
+  // Delete associated cost logs
+  const costLogs = await ctx.db
+    .query("costLogs")
+    .withIndex("by_jobId", (q) => q.eq("jobId", job._id))
+    .collect();
+
+  for (const log of costLogs) {
+    await ctx.db.delete(log._id);
+  }
+
+  // Delete associated sources
+  const sources = await ctx.db
+    .query("researchSources")
+    .withIndex("by_jobId", (q) => q.eq("jobId", job._id))
+    .collect();
+
+  for (const source of sources) {
+    await ctx.db.delete(source._id);
+  }
+
+  // Delete the attempt history
+  const attempts = await ctx.db
+    .query("jobAttempts")
+    .withIndex("by_jobId", (q) => q.eq("jobId", job._id))
+    .collect();
+
+  await Promise.all(attempts.map((attempt) => ctx.db.delete(attempt._id)));
+
+  // Delete extracted findings
+  const findings = await ctx.db
+    .query("researchFindings")
+    .withIndex("by_jobId", (q) => q.eq("jobId", job._id))
+    .collect();
+
+  await Promise.all(findings.map((finding) => ctx.db.delete(finding._id)));
+
+  // Delete the full result from file storage
+  if (job.resultStorageId) {
+    await ctx.storage.delete(job.resultStorageId);
+  }
+
+  await ctx.db.delete(job._id);
+}
+
 export const deleteJob = mutation({
   args: {
     id: v.id("researchJobs"),
@@ -263,24 +486,23 @@ export const deleteJob = mutation({
       throw new Error("Research job not found");
     }
 
-    if (job.status === "pending" || job.status === "running") {
+    if (job.status === "queued" || job.status === "pending" || job.status === "running") {
       throw new Error(
         `Cannot delete a ${job.status} job. Cancel it first.`,
       );
     }
 
-    // Delete associated cost logs
-    const costLogs = await ctx.db
-      .query("costLogs")
-      .withIndex("by_jobId", (q) => q.eq("jobId", args.id))
+    // Follow-ups live and die with the job they were asked on
+    const followUps = await ctx.db
+      .query("researchJobs")
+      .withIndex("by_parentJobId", (q) => q.eq("parentJobId", args.id))
       .collect();
-
-    for (const log of costLogs) {
-      await ctx.db.delete(log._id);
+    if (followUps.some((followUp) => holdsSlot(followUp) || followUp.status === "queued")) {
+      throw new Error("Cannot delete a job while a follow-up is in progress. Cancel it first.");
     }
+    await Promise.all(followUps.map((followUp) => deleteJobData(ctx, followUp)));
 
-    // Delete the job itself
-    await ctx.db.delete(args.id);
+    await deleteJobData(ctx, job);
     await logAuditEvent(ctx, { action: "job.delete", resourceType: "researchJobs", resourceId: args.id });
 
     return args.id;
@@ -338,6 +560,9 @@ export const listJobs = query({
       jobs = await ctx.db.query("researchJobs").order("desc").take(maxResults);
     }
 
+    // Follow-up questions are shown in the thread of their original job
+    jobs = jobs.filter((j) => !j.parentJobId);
+
     // Filter by stockId in memory (stockIds is an array)
     if (args.stockId) {
       jobs = jobs.filter((j) => j.stockIds.includes(args.stockId!));
@@ -368,11 +593,32 @@ export const getActiveJobs = query({
       .query("researchJobs")
       .withIndex("by_status", (q) => q.eq("status", "running"))
       .collect();
+    // Failed jobs waiting for their retry keep their slot
+    const retryingJobs = (
+      await ctx.db
+        .query("researchJobs")
+        .withIndex("by_awaitingRetry", (q) => q.eq("awaitingRetry", true))
+        .collect()
+    ).filter((job) => job.status === "failed");
+    const queuedJobs = await listQueuedJobs(ctx);
+    // Jobs held by the budget cap wait outside the queue order
+    const now = Date.now();
+    const readyJobs = queuedJobs.filter((job) => !isDeferred(job, now));
+    const deferredJobs = queuedJobs.filter((job) => isDeferred(job, now));
+
+    const jobs: (Doc<"researchJobs"> & { queuePosition?: number })[] = [
+      ...pendingJobs,
+      ...runningJobs,
+      ...retryingJobs,
+      ...readyJobs.map((job, i) => Object.assign(job, { queuePosition: i + 1 })),
+      ...deferredJobs,
+    ];
 
     return {
-      jobs: [...pendingJobs, ...runningJobs],
-      count: pendingJobs.length + runningJobs.length,
-      limit: MAX_CONCURRENT_JOBS,
+      jobs,
+      count: pendingJobs.length + runningJobs.length + retryingJobs.length,
+      queued: queuedJobs.length,
+      limit: await getConcurrencyLimit(ctx),
     };
   },
 });
@@ -384,6 +630,36 @@ export const getJobInternal = internalQuery({
   },
 });
 
+/** Running jobs that started before `startedBefore`. */
+export const listStaleRunningJobs = internalQuery({
+  args: { startedBefore: v.number() },
+  handler: async (ctx, args) => {
+    const running = await ctx.db
+      .query("researchJobs")
+      .withIndex("by_status", (q) => q.eq("status", "running"))
+      .collect();
+    return running.filter(
+      (job) => (job.startedAt ?? job.createdAt) < args.startedBefore,
+    );
+  },
+});
+
+/**
+ * Flag a running job as over its maximum runtime.
+ * Returns false if it was already flagged or is no longer running.
+ */
+export const markRuntimeExceeded = internalMutation({
+  args: { id: v.id("researchJobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.id);
+    if (!job || job.status !== "running" || job.runtimeExceededAt !== undefined) {
+      return false;
+    }
+    await ctx.db.patch(args.id, { runtimeExceededAt: Date.now() });
+    return true;
+  },
+});
+
 export const getStockInternal = internalQuery({
   args: { id: v.id("stocks") },
   handler: async (ctx, args) => {
@@ -426,7 +702,8 @@ export const listResults = query({
       cursor: args.cursor ?? null,
     });
 
-    let results = paginatedResult.page;
+    // Follow-up questions are shown in the thread of their original job
+    let results = paginatedResult.page.filter((j) => !j.parentJobId);
 
     // Filter by stockId in memory (stockIds is an array field)
     if (args.stockId) {
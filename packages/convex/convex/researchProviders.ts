@@ -0,0 +1,496 @@
+"use node";
+
+import OpenAI from "openai";
+import { internal } from "./_generated/api";
+import type { ActionCtx } from "./_generated/server";
+import { createMockProvider } from "./mockProvider";
+import { PROVIDER_API_KEY_SETTINGS, PROVIDER_LABELS } from "./providers";
+import type { ResearchProviderId } from "./providers";
+import type { TokenUsage } from "./pricing";
+import type { CitedSource } from "./researchSources";
+
+/** Provider-agnostic view of a research run at a point in time. */
+export interface ProviderSnapshot {
+  externalJobId: string;
+  status: "running" | "completed" | "failed" | "cancelled";
+  outputText?: string;
+  error?: string;
+  usage?: TokenUsage;
+  sources?: CitedSource[];
+}
+
+/** Earlier turns of a follow-up thread, oldest first. */
+export interface ConversationContext {
+  /** Run ID of the latest turn, for vendors that keep conversation state */
+  previousExternalJobId?: string;
+  turns: { prompt: string; response: string }[];
+}
+
+/**
+ * A deep-research vendor. `completion` tells the job runner how a started
+ * run reaches a terminal state:
+ * - "webhook": the provider calls /api/research-callback when done
+ * - "poll": the runner must call `retrieve` until the run is terminal
+ *
+ * `conversation` is set for follow-up questions on a completed run.
+ */
+export interface ResearchProvider {
+  id: ResearchProviderId;
+  completion: "webhook" | "poll";
+  start(
+    prompt: string,
+    model: string,
+    conversation?: ConversationContext,
+  ): Promise<ProviderSnapshot>;
+  retrieve?(externalJobId: string): Promise<ProviderSnapshot>;
+  cancel?(externalJobId: string): Promise<void>;
+}
+
+/**
+ * Resolve a provider implementation with its API key from settings.
+ * Returns null when the key is not configured. When the mock provider is
+ * enabled it stands in for every provider and no key is needed.
+ */
+export async function getResearchProvider(
+  ctx: Pick<ActionCtx, "runQuery" | "scheduler">,
+  providerId: ResearchProviderId,
+): Promise<ResearchProvider | null> {
+  const mockConfig = await ctx.runQuery(internal.mockProvider.getMockProviderConfig, {});
+  if (mockConfig) return createMockProvider(ctx, providerId, mockConfig);
+
+  const apiKey = await ctx.runQuery(internal.authHelpers.getSettingValue, {
+    key: PROVIDER_API_KEY_SETTINGS[providerId],
+  });
+  if (!apiKey) return null;
+
+  switch (providerId) {
+    case "openai":
+      return createOpenAIProvider(apiKey);
+    case "anthropic":
+      return createAnthropicProvider(apiKey);
+    case "gemini":
+      return createGeminiProvider(apiKey);
+  }
+}
+
+export function missingApiKeyError(providerId: ResearchProviderId): string {
+  return `${PROVIDER_LABELS[providerId]} API key not configured. Set it in Settings.`;
+}
+
+// --- OpenAI (background responses, completed via webhook) ---
+
+/** @internal Exported for testing */
+export function toOpenAIUsage(usage: OpenAI.Responses.ResponseUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cachedInputTokens: usage.input_tokens_details?.cached_tokens ?? 0,
+    reasoningTokens: usage.output_tokens_details?.reasoning_tokens ?? 0,
+  };
+}
+
+/**
+ * Collect URL citations with offsets into `output_text`, which the SDK builds
+ * by concatenating every output_text part, plus pages opened by web search.
+ * @internal Exported for testing
+ */
+export function extractOpenAISources(response: OpenAI.Responses.Response): CitedSource[] {
+  const sources: CitedSource[] = [];
+  let offset = 0;
+
+  for (const item of response.output) {
+    if (item.type === "message") {
+      for (const part of item.content) {
+        if (part.type !== "output_text") continue;
+        for (const annotation of part.annotations) {
+          if (annotation.type !== "url_citation") continue;
+          sources.push({
+            url: annotation.url,
+            title: annotation.title,
+            start: offset + annotation.start_index,
+            end: offset + annotation.end_index,
+          });
+        }
+        offset += part.text.length;
+      }
+    } else if (item.type === "web_search_call") {
+      // `action` is returned by the API but not yet in the SDK types
+      const action = (item as { action?: { type?: string; url?: string } }).action;
+      if (action?.type === "open_page" && action.url) {
+        sources.push({ url: action.url });
+      }
+    }
+  }
+
+  return sources;
+}
+
+/** @internal Exported for testing */
+export function toOpenAISnapshot(response: OpenAI.Responses.Response): ProviderSnapshot {
+  switch (response.status) {
+    case "completed":
+      return {
+        externalJobId: response.id,
+        status: "completed",
+        outputText: response.output_text,
+        usage: toOpenAIUsage(response.usage),
+        sources: extractOpenAISources(response),
+      };
+    case "failed":
+    case "incomplete":
+      return {
+        externalJobId: response.id,
+        status: "failed",
+        error:
+          response.error?.message ??
+          response.incomplete_details?.reason ??
+          `Research ${response.status}`,
+        usage: toOpenAIUsage(response.usage),
+      };
+    case "cancelled":
+      return {
+        externalJobId: response.id,
+        status: "cancelled",
+        error: "Research cancelled",
+      };
+    default:
+      return { externalJobId: response.id, status: "running" };
+  }
+}
+
+function createOpenAIProvider(apiKey: string): ResearchProvider {
+  const client = new OpenAI({ apiKey });
+  return {
+    id: "openai",
+    completion: "webhook",
+    async start(prompt, model, conversation) {
+      const response = await client.responses.create({
+        model,
+        input: prompt,
+        // Follow-ups continue from the stored response instead of resending the report
+        previous_response_id: conversation?.previousExternalJobId,
+        tools: [{ type: "web_search_preview" }],
+        background: true,
+      });
+      return toOpenAISnapshot(response);
+    },
+    async retrieve(externalJobId) {
+      const response = await client.responses.retrieve(externalJobId);
+      return toOpenAISnapshot(response);
+    },
+    async cancel(externalJobId) {
+      await client.responses.cancel(externalJobId);
+    },
+  };
+}
+
+// --- Anthropic (Message Batches API with web search, completed by polling) ---
+
+export const ANTHROPIC_BASE_URL = "https://api.anthropic.com/v1";
+const ANTHROPIC_MAX_TOKENS = 16_000;
+const ANTHROPIC_MAX_SEARCHES = 25;
+/** The one request in each batch; a batch is a single research run. */
+const ANTHROPIC_REQUEST_ID = "research";
+
+interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number;
+  server_tool_use?: { web_search_requests?: number };
+}
+
+interface AnthropicCitation {
+  type: string;
+  url?: string;
+  title?: string;
+  cited_text?: string;
+}
+
+interface AnthropicMessage {
+  id: string;
+  content: Array<{ type: string; text?: string; citations?: AnthropicCitation[] | null }>;
+  stop_reason: string | null;
+  usage?: AnthropicUsage;
+}
+
+// Anthropic reports cache reads separately from input_tokens
+/** @internal Exported for testing */
+export function toAnthropicUsage(usage: AnthropicUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const cachedInputTokens = usage.cache_read_input_tokens ?? 0;
+  return {
+    inputTokens: usage.input_tokens + cachedInputTokens,
+    outputTokens: usage.output_tokens,
+    cachedInputTokens,
+    webSearchRequests: usage.server_tool_use?.web_search_requests ?? 0,
+  };
+}
+
+/** @internal Exported for testing */
+export function toAnthropicSnapshot(message: AnthropicMessage): ProviderSnapshot {
+  // Each cited text block supports the span it occupies in the joined report
+  let outputText = "";
+  const sources: CitedSource[] = [];
+  for (const block of message.content) {
+    if (block.type !== "text" || !block.text) continue;
+    const start = outputText.length;
+    outputText += block.text;
+    for (const citation of block.citations ?? []) {
+      if (citation.type !== "web_search_result_location" || !citation.url) continue;
+      sources.push({
+        url: citation.url,
+        title: citation.title,
+        start,
+        end: outputText.length,
+        citedText: citation.cited_text,
+      });
+    }
+  }
+  const usage = toAnthropicUsage(message.usage);
+
+  if (message.stop_reason === "refusal" || outputText.length === 0) {
+    return {
+      externalJobId: message.id,
+      status: "failed",
+      error: `Research returned no report (stop reason: ${message.stop_reason ?? "unknown"})`,
+      usage,
+    };
+  }
+
+  return { externalJobId: message.id, status: "completed", outputText, usage, sources };
+}
+
+interface AnthropicBatch {
+  id: string;
+  processing_status: "in_progress" | "canceling" | "ended";
+  results_url?: string | null;
+}
+
+/** One line of a batch's results file. */
+interface AnthropicBatchResult {
+  custom_id: string;
+  result:
+    | { type: "succeeded"; message: AnthropicMessage }
+    | { type: "errored"; error?: { error?: { type?: string; message?: string } } }
+    | { type: "canceled" }
+    | { type: "expired" };
+}
+
+/**
+ * Snapshot of a run from its batch's result, keyed by the batch ID so it can
+ * be retrieved and cancelled. Without a result the batch ended empty-handed.
+ * @internal Exported for testing
+ */
+export function toAnthropicBatchSnapshot(
+  batchId: string,
+  result: AnthropicBatchResult["result"] | undefined,
+): ProviderSnapshot {
+  switch (result?.type) {
+    case "succeeded":
+      return { ...toAnthropicSnapshot(result.message), externalJobId: batchId };
+    case "errored": {
+      const error = result.error?.error;
+      return {
+        externalJobId: batchId,
+        status: "failed",
+        error: `Anthropic API error (${error?.type ?? "unknown"}): ${error?.message ?? "Request failed"}`,
+      };
+    }
+    case "canceled":
+      return { externalJobId: batchId, status: "cancelled", error: "Research cancelled" };
+    case "expired":
+      return { externalJobId: batchId, status: "failed", error: "Research timed out in the Anthropic batch queue" };
+    default:
+      return { externalJobId: batchId, status: "failed", error: "Anthropic returned no result for the run" };
+  }
+}
+
+function createAnthropicProvider(apiKey: string): ResearchProvider {
+  async function request(path: string, init?: RequestInit): Promise<Response> {
+    const response = await fetch(`${ANTHROPIC_BASE_URL}${path}`, {
+      ...init,
+      headers: {
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+        "Content-Type": "application/json",
+      },
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Anthropic API error (${response.status}): ${errorText}`);
+    }
+    return response;
+  }
+
+  async function loadResult(batch: AnthropicBatch): Promise<ProviderSnapshot> {
+    if (!batch.results_url) return toAnthropicBatchSnapshot(batch.id, undefined);
+    const response = await request(batch.results_url.replace(ANTHROPIC_BASE_URL, ""));
+    const results = (await response.text())
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as AnthropicBatchResult);
+    return toAnthropicBatchSnapshot(
+      batch.id,
+      results.find((result) => result.custom_id === ANTHROPIC_REQUEST_ID)?.result,
+    );
+  }
+
+  // A long web-search run would outlast the action, so it runs as a batch of one
+  return {
+    id: "anthropic",
+    completion: "poll",
+    async start(prompt, model, conversation) {
+      // The Messages API is stateless, so follow-ups resend the whole thread
+      const history = (conversation?.turns ?? []).flatMap((turn) => [
+        { role: "user", content: turn.prompt },
+        { role: "assistant", content: turn.response },
+      ]);
+      const response = await request("/messages/batches", {
+        method: "POST",
+        body: JSON.stringify({
+          requests: [
+            {
+              custom_id: ANTHROPIC_REQUEST_ID,
+              params: {
+                model,
+                max_tokens: ANTHROPIC_MAX_TOKENS,
+                messages: [...history, { role: "user", content: prompt }],
+                tools: [
+                  {
+                    type: "web_search_20250305",
+                    name: "web_search",
+                    max_uses: ANTHROPIC_MAX_SEARCHES,
+                  },
+                ],
+              },
+            },
+          ],
+        }),
+      });
+      const batch = (await response.json()) as AnthropicBatch;
+      return { externalJobId: batch.id, status: "running" };
+    },
+    async retrieve(externalJobId) {
+      const response = await request(`/messages/batches/${encodeURIComponent(externalJobId)}`);
+      const batch = (await response.json()) as AnthropicBatch;
+      if (batch.processing_status !== "ended") {
+        return { externalJobId: batch.id, status: "running" };
+      }
+      return await loadResult(batch);
+    },
+    async cancel(externalJobId) {
+      await request(`/messages/batches/${encodeURIComponent(externalJobId)}/cancel`, {
+        method: "POST",
+      });
+    },
+  };
+}
+
+// --- Gemini (Deep Research agent via Interactions API, completed by polling) ---
+
+export const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+interface GeminiUsage {
+  total_input_tokens?: number;
+  total_output_tokens?: number;
+  total_cached_tokens?: number;
+  total_thought_tokens?: number;
+}
+
+interface GeminiInteraction {
+  id: string;
+  status: string;
+  outputs?: Array<{ type: string; text?: string }>;
+  usage?: GeminiUsage;
+  error?: { message?: string };
+}
+
+// Gemini reports thought tokens separately from output tokens
+/** @internal Exported for testing */
+export function toGeminiUsage(usage: GeminiUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const reasoningTokens = usage.total_thought_tokens ?? 0;
+  return {
+    inputTokens: usage.total_input_tokens ?? 0,
+    outputTokens: (usage.total_output_tokens ?? 0) + reasoningTokens,
+    cachedInputTokens: usage.total_cached_tokens ?? 0,
+    reasoningTokens,
+  };
+}
+
+/** @internal Exported for testing */
+export function toGeminiSnapshot(interaction: GeminiInteraction): ProviderSnapshot {
+  switch (interaction.status) {
+    case "completed":
+      return {
+        externalJobId: interaction.id,
+        status: "completed",
+        outputText: (interaction.outputs ?? [])
+          .filter((output) => output.type === "text" && output.text)
+          .map((output) => output.text)
+          .join("\n\n"),
+        usage: toGeminiUsage(interaction.usage),
+      };
+    case "failed":
+      return {
+        externalJobId: interaction.id,
+        status: "failed",
+        error: interaction.error?.message ?? "Research failed",
+        usage: toGeminiUsage(interaction.usage),
+      };
+    case "cancelled":
+      return {
+        externalJobId: interaction.id,
+        status: "cancelled",
+        error: "Research cancelled",
+      };
+    default:
+      return { externalJobId: interaction.id, status: "running" };
+  }
+}
+
+function createGeminiProvider(apiKey: string): ResearchProvider {
+  async function request(path: string, init?: RequestInit): Promise<GeminiInteraction> {
+    const response = await fetch(`${GEMINI_BASE_URL}${path}`, {
+      ...init,
+      headers: {
+        "x-goog-api-key": apiKey,
+        "Content-Type": "application/json",
+      },
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Gemini API error (${response.status}): ${errorText}`);
+    }
+    return (await response.json()) as GeminiInteraction;
+  }
+
+  return {
+    id: "gemini",
+    completion: "poll",
+    async start(prompt, model, conversation) {
+      const interaction = await request("/interactions", {
+        method: "POST",
+        body: JSON.stringify({
+          agent: model,
+          input: prompt,
+          previous_interaction_id: conversation?.previousExternalJobId,
+          background: true,
+        }),
+      });
+      return toGeminiSnapshot(interaction);
+    },
+    async retrieve(externalJobId) {
+      const interaction = await request(
+        `/interactions/${encodeURIComponent(externalJobId)}`,
+      );
+      return toGeminiSnapshot(interaction);
+    },
+    async cancel(externalJobId) {
+      await request(`/interactions/${encodeURIComponent(externalJobId)}:cancel`, {
+        method: "POST",
+      });
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./authHelpers";
+
+/**
+ * Results longer than this go to file storage in full; the job row keeps a
+ * preview of this size for lists, search and notifications.
+ */
+export const RESULT_PREVIEW_CHARS = 20_000;
+
+/**
+ * First part of a long result, cut at a line break near the limit so the
+ * preview doesn't end mid-sentence.
+ * @internal Exported for testing
+ */
+export function buildResultPreview(text: string): string {
+  if (text.length <= RESULT_PREVIEW_CHARS) return text;
+  const head = text.slice(0, RESULT_PREVIEW_CHARS);
+  const lastBreak = head.lastIndexOf("\n");
+  return lastBreak >= RESULT_PREVIEW_CHARS * 0.8 ? head.slice(0, lastBreak) : head;
+}
+
+export interface StoredResult {
+  /** Full text, or its preview when `resultStorageId` is set */
+  result: string;
+  resultStorageId?: Id<"_storage">;
+  /** Length of the full text in characters */
+  resultLength: number;
+}
+
+/** Move a long result into file storage, keeping only its preview inline. */
+export async function storeResult(ctx: ActionCtx, text: string): Promise<StoredResult> {
+  if (text.length <= RESULT_PREVIEW_CHARS) {
+    return { result: text, resultLength: text.length };
+  }
+  const resultStorageId = await ctx.storage.store(new Blob([text], { type: "text/markdown" }));
+  return { result: buildResultPreview(text), resultStorageId, resultLength: text.length };
+}
+
+/** Full result text of a job, read back from file storage when needed. */
+export async function readFullResult(
+  ctx: ActionCtx,
+  job: Pick<Doc<"researchJobs">, "result" | "resultStorageId">,
+): Promise<string> {
+  if (job.resultStorageId) {
+    const blob = await ctx.storage.get(job.resultStorageId);
+    if (blob) return await blob.text();
+  }
+  return job.result ?? "";
+}
+
+// --- Queries ---
+
+/** Download URL for a job's full result, or null when it is stored inline. */
+export const getFullResultUrl = query({
+  args: { jobId: v.id("researchJobs"), token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const job = await ctx.db.get(args.jobId);
+    if (!job?.resultStorageId) return null;
+    return await ctx.storage.getUrl(job.resultStorageId);
+  },
+});
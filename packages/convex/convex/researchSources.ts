@@ -0,0 +1,132 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import { requireAuth } from "./authHelpers";
+
+/**
+ * A web source reported by a provider. `start`/`end` delimit the span of the
+ * report text the source supports; sources consulted but never cited have no span.
+ */
+export const citedSource = v.object({
+  url: v.string(),
+  title: v.optional(v.string()),
+  start: v.optional(v.number()),
+  end: v.optional(v.number()),
+  citedText: v.optional(v.string()),
+});
+
+export type CitedSource = Infer<typeof citedSource>;
+
+export interface SourceRow {
+  number: number;
+  url: string;
+  title?: string;
+  domain: string;
+  spans: { start: number; end: number }[];
+  citedText?: string;
+}
+
+/** @internal Exported for testing */
+export function normalizeSourceUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    // Providers tag outbound links with their own tracking params
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (key.startsWith("utm_")) parsed.searchParams.delete(key);
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/** @internal Exported for testing */
+export function extractDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * Deduplicate sources by URL and number them as footnotes: cited sources in
+ * order of first appearance in the report, then uncited ones.
+ * @internal Exported for testing
+ */
+export function buildSourceRows(sources: CitedSource[]): SourceRow[] {
+  const byUrl = new Map<string, Omit<SourceRow, "number"> & { firstStart: number }>();
+
+  for (const source of sources) {
+    const url = normalizeSourceUrl(source.url);
+    const existing = byUrl.get(url) ?? {
+      url,
+      title: source.title,
+      domain: extractDomain(url),
+      spans: [],
+      citedText: undefined,
+      firstStart: Number.POSITIVE_INFINITY,
+    };
+
+    if (!existing.title && source.title) existing.title = source.title;
+    if (!existing.citedText && source.citedText) existing.citedText = source.citedText;
+    if (source.start !== undefined && source.end !== undefined) {
+      existing.spans.push({ start: source.start, end: source.end });
+      existing.firstStart = Math.min(existing.firstStart, source.start);
+    }
+    byUrl.set(url, existing);
+  }
+
+  return [...byUrl.values()]
+    .toSorted((a, b) => a.firstStart - b.firstStart)
+    .map((row, i) => ({
+      number: i + 1,
+      url: row.url,
+      title: row.title,
+      domain: row.domain,
+      spans: row.spans.toSorted((a, b) => a.start - b.start),
+      citedText: row.citedText,
+    }));
+}
+
+// --- Queries ---
+
+export const listSourcesByJob = query({
+  args: {
+    jobId: v.id("researchJobs"),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx, args.token);
+
+    const sources = await ctx.db
+      .query("researchSources")
+      .withIndex("by_jobId", (q) => q.eq("jobId", args.jobId))
+      .collect();
+    return sources.toSorted((a, b) => a.number - b.number);
+  },
+});
+
+// --- Mutations ---
+
+/** Replace the stored sources for a job. Safe to call more than once. */
+export const saveSources = internalMutation({
+  args: {
+    jobId: v.id("researchJobs"),
+    sources: v.array(citedSource),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("researchSources")
+      .withIndex("by_jobId", (q) => q.eq("jobId", args.jobId))
+      .collect();
+    await Promise.all(existing.map((row) => ctx.db.delete(row._id)));
+
+    const rows = buildSourceRows(args.sources);
+    await Promise.all(
+      rows.map((row) => ctx.db.insert("researchSources", { jobId: args.jobId, ...row })),
+    );
+    return rows.length;
+  },
+});
@@ -0,0 +1,184 @@
+import { v } from "convex/values";
+import { internalQuery } from "./_generated/server";
+
+/**
+ * Transient failures (rate limits, 5xx, timeouts) are worth retrying;
+ * permanent ones (bad key, content policy, exhausted quota) fail the same
+ * way every time.
+ */
+export type ErrorClass = "transient" | "permanent";
+
+export type ErrorReason =
+  | "rate_limit"
+  | "server_error"
+  | "timeout"
+  | "auth"
+  | "content_policy"
+  | "quota"
+  | "invalid_request"
+  | "unknown";
+
+export const errorClassValidator = v.union(v.literal("transient"), v.literal("permanent"));
+
+export const errorReasonValidator = v.union(
+  v.literal("rate_limit"),
+  v.literal("server_error"),
+  v.literal("timeout"),
+  v.literal("auth"),
+  v.literal("content_policy"),
+  v.literal("quota"),
+  v.literal("invalid_request"),
+  v.literal("unknown"),
+);
+
+export interface ErrorClassification {
+  errorClass: ErrorClass;
+  errorReason: ErrorReason;
+}
+
+export interface ClassRetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+  /** Backoff before retry n is `baseDelayMs * 2^n` */
+  baseDelayMs: number;
+}
+
+export type RetryPolicy = Record<ErrorClass, ClassRetryPolicy>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  transient: { maxAttempts: 3, baseDelayMs: 5000 },
+  permanent: { maxAttempts: 1, baseDelayMs: 5000 },
+};
+
+/** Setting keys for each class, in seconds for the delay. */
+export const RETRY_POLICY_SETTINGS = {
+  transient: {
+    maxAttempts: "retry_transient_max_attempts",
+    baseDelaySeconds: "retry_transient_base_delay_seconds",
+  },
+  permanent: {
+    maxAttempts: "retry_permanent_max_attempts",
+    baseDelaySeconds: "retry_permanent_base_delay_seconds",
+  },
+} as const;
+
+// Checked in order: quota errors often arrive as 429s, so they come before rate limits
+const REASON_PATTERNS: [ErrorReason, RegExp][] = [
+  ["quota", /quota|billing|insufficient_quota|credit balance|payment required/i],
+  ["auth", /api key|unauthori[sz]ed|authentication|permission denied|forbidden/i],
+  ["content_policy", /content[ _-]?policy|safety|moderation|flagged/i],
+  ["rate_limit", /rate[ _-]?limit|too many requests|overloaded/i],
+  ["timeout", /timed? ?out|etimedout|econnreset|econnrefused|socket hang up|network error|fetch failed/i],
+  ["server_error", /internal server error|bad gateway|service unavailable|server_error/i],
+];
+
+const PERMANENT_REASONS = new Set<ErrorReason>(["auth", "content_policy", "quota", "invalid_request"]);
+
+function reasonFromStatus(status: number): ErrorReason | null {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 402) return "quota";
+  if (status === 408) return "timeout";
+  if (status === 429 || status === 529) return "rate_limit";
+  if (status >= 500) return "server_error";
+  if (status === 400 || status === 404 || status === 422) return "invalid_request";
+  return null;
+}
+
+/**
+ * Classify a provider failure from its message and, when known, HTTP status.
+ * The message wins over the status so a 429 about quota counts as permanent.
+ * Unrecognised errors are treated as transient so they keep being retried.
+ * @internal Exported for testing
+ */
+export function classifyError(message: string, status?: number): ErrorClassification {
+  const statusInMessage = /\((\d{3})\)/.exec(message)?.[1];
+  const httpStatus = status ?? (statusInMessage ? Number(statusInMessage) : undefined);
+
+  const reason =
+    REASON_PATTERNS.find(([, pattern]) => pattern.test(message))?.[0] ??
+    (httpStatus !== undefined ? reasonFromStatus(httpStatus) : null) ??
+    "unknown";
+
+  return {
+    errorClass: PERMANENT_REASONS.has(reason) ? "permanent" : "transient",
+    errorReason: reason,
+  };
+}
+
+/** Classify a thrown error, using the `status` the OpenAI SDK attaches when present. */
+export function classifyThrownError(error: unknown): ErrorClassification & { message: string } {
+  const message = error instanceof Error ? error.message : "Unknown error occurred";
+  const status = (error as { status?: unknown } | null)?.status;
+  return {
+    ...classifyError(message, typeof status === "number" ? status : undefined),
+    message,
+  };
+}
+
+function parseWholeNumber(value: string | null | undefined, min: number): number | null {
+  const parsed = value ? Number(value) : Number.NaN;
+  return Number.isInteger(parsed) && parsed >= min ? parsed : null;
+}
+
+/**
+ * Build the policy from settings values, falling back per field to the defaults.
+ * @internal Exported for testing
+ */
+export function parseRetryPolicy(values: Record<string, string | null | undefined>): RetryPolicy {
+  const policy = (errorClass: ErrorClass): ClassRetryPolicy => {
+    const keys = RETRY_POLICY_SETTINGS[errorClass];
+    const delaySeconds = parseWholeNumber(values[keys.baseDelaySeconds], 0);
+    return {
+      maxAttempts:
+        parseWholeNumber(values[keys.maxAttempts], 1) ?? DEFAULT_RETRY_POLICY[errorClass].maxAttempts,
+      baseDelayMs:
+        delaySeconds !== null ? delaySeconds * 1000 : DEFAULT_RETRY_POLICY[errorClass].baseDelayMs,
+    };
+  };
+  return { transient: policy("transient"), permanent: policy("permanent") };
+}
+
+/**
+ * Whether a job that just failed its `attempts`-th attempt should run again,
+ * and after how long.
+ * @internal Exported for testing
+ */
+export function getRetryDecision(
+  policy: RetryPolicy,
+  errorClass: ErrorClass,
+  attempts: number,
+): { retry: boolean; delayMs: number } {
+  const classPolicy = policy[errorClass];
+  return {
+    retry: attempts < classPolicy.maxAttempts,
+    delayMs: Math.pow(2, attempts) * classPolicy.baseDelayMs,
+  };
+}
+
+/** Hard ceiling on attempts for any job, whatever its failures were. */
+export function maxAttemptsAllowed(policy: RetryPolicy): number {
+  return Math.max(policy.transient.maxAttempts, policy.permanent.maxAttempts);
+}
+
+// --- Queries ---
+
+export const getRetryPolicy = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const keys = Object.values(RETRY_POLICY_SETTINGS).flatMap((k) => [
+      k.maxAttempts,
+      k.baseDelaySeconds,
+    ]);
+    const settings = await Promise.all(
+      keys.map((key) =>
+        ctx.db
+          .query("settings")
+          .withIndex("by_key", (q) => q.eq("key", key))
+          .unique(),
+      ),
+    );
+    return parseRetryPolicy(
+      Object.fromEntries(keys.map((key, i) => [key, settings[i]?.value])),
+    );
+  },
+});
@@ -5,30 +5,79 @@ import {
   mutation,
   query,
 } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
 import { requireAuth } from "./authHelpers";
-import { validateScheduleInput } from "./validation";
+import { validateParameterValues, validateScheduleInput } from "./validation";
 import { logAuditEvent } from "./auditLog";
-
-const stockSelectionValidator = v.object({
-  type: v.union(
-    v.literal("all"),
-    v.literal("tagged"),
-    v.literal("specific"),
-    v.literal("none"),
-  ),
-  tags: v.optional(v.array(v.string())),
-  stockIds: v.optional(v.array(v.id("stocks"))),
-});
+import { researchProvider, resolveJobModel, validateProviderModel } from "./providers";
+import { QUEUE_PRIORITY, startQueuedJobs } from "./jobQueue";
+import { enforceBudgetCap } from "./budgetCap";
+import { estimateJobCostUsd, stockSelectionValidator } from "./estimates";
+import { resolvePromptVersion } from "./promptVersions";
+import { findPromptParameters, parameterValuesValidator, resolveParameterValues } from "./promptTemplate";
+
+/**
+ * A schedule runs exactly one prompt or one pipeline. Pipelines run once over
+ * all matching stocks, so they can't fan out. A prompt's parameters need a
+ * value or a default for the runs to start.
+ */
+async function validateScheduleTarget(
+  ctx: QueryCtx,
+  args: {
+    promptId?: Id<"prompts">;
+    promptVersionId?: Id<"promptVersions">;
+    parameterValues?: Record<string, string>;
+    pipelineId?: Id<"pipelines">;
+    fanOut?: boolean;
+  },
+): Promise<void> {
+  if ((args.promptId === undefined) === (args.pipelineId === undefined)) {
+    throw new Error("A schedule must run either a prompt or a pipeline");
+  }
+  if (args.promptId !== undefined) {
+    const prompt = await ctx.db.get(args.promptId);
+    if (!prompt) {
+      throw new Error("Prompt not found");
+    }
+    let template = prompt.template;
+    if (args.promptVersionId !== undefined) {
+      const version = await ctx.db.get(args.promptVersionId);
+      if (!version || version.promptId !== args.promptId) {
+        throw new Error("Pinned version does not belong to the schedule's prompt");
+      }
+      template = version.template;
+    }
+    if (args.parameterValues) validateParameterValues(args.parameterValues);
+    resolveParameterValues(findPromptParameters(template), args.parameterValues);
+  }
+  if (args.pipelineId !== undefined) {
+    if (!(await ctx.db.get(args.pipelineId))) {
+      throw new Error("Pipeline not found");
+    }
+    if (args.fanOut) {
+      throw new Error("Pipeline schedules cannot run one job per stock");
+    }
+  }
+}
 
 // --- Mutations ---
 
 export const createSchedule = mutation({
   args: {
     name: v.string(),
-    promptId: v.id("prompts"),
+    /** Run a single prompt, or a pipeline with `pipelineId` instead */
+    promptId: v.optional(v.id("prompts")),
+    /** Pin a version of the prompt so later edits don't change the runs */
+    promptVersionId: v.optional(v.id("promptVersions")),
+    /** Fixed values for the prompt's own parameters */
+    parameterValues: v.optional(parameterValuesValidator),
+    pipelineId: v.optional(v.id("pipelines")),
     stockSelection: stockSelectionValidator,
-    provider: v.literal("openai"),
+    provider: researchProvider,
+    model: v.optional(v.string()),
+    fanOut: v.optional(v.boolean()),
     cron: v.string(),
     timezone: v.string(),
     enabled: v.boolean(),
@@ -38,10 +87,7 @@ export const createSchedule = mutation({
     await requireAuth(ctx, args.token);
     validateScheduleInput(args);
 
-    const prompt = await ctx.db.get(args.promptId);
-    if (!prompt) {
-      throw new Error("Prompt not found");
-    }
+    await validateScheduleTarget(ctx, args);
 
     // Validate stock selection
     if (args.stockSelection.type === "tagged" && (!args.stockSelection.tags || args.stockSelection.tags.length === 0)) {
@@ -50,13 +96,19 @@ export const createSchedule = mutation({
     if (args.stockSelection.type === "specific" && (!args.stockSelection.stockIds || args.stockSelection.stockIds.length === 0)) {
       throw new Error("Stock IDs are required when stock selection type is 'specific'");
     }
+    if (args.model !== undefined) validateProviderModel(args.provider, args.model);
 
     const now = Date.now();
     const scheduleId = await ctx.db.insert("schedules", {
       name: args.name,
       promptId: args.promptId,
+      promptVersionId: args.promptVersionId,
+      parameterValues: args.parameterValues,
+      pipelineId: args.pipelineId,
       stockSelection: args.stockSelection,
       provider: args.provider,
+      model: args.model,
+      fanOut: args.fanOut,
       cron: args.cron,
       timezone: args.timezone,
       enabled: args.enabled,
@@ -79,9 +131,17 @@ export const updateSchedule = mutation({
   args: {
     id: v.id("schedules"),
     name: v.optional(v.string()),
+    /** Switching between a prompt and a pipeline clears the other one */
     promptId: v.optional(v.id("prompts")),
+    /** The pin goes with the prompt: sending a target without it unpins */
+    promptVersionId: v.optional(v.id("promptVersions")),
+    /** Like the pin, parameter values go with the prompt */
+    parameterValues: v.optional(parameterValuesValidator),
+    pipelineId: v.optional(v.id("pipelines")),
     stockSelection: v.optional(stockSelectionValidator),
-    provider: v.optional(v.literal("openai")),
+    provider: v.optional(researchProvider),
+    model: v.optional(v.string()),
+    fanOut: v.optional(v.boolean()),
     cron: v.optional(v.string()),
     timezone: v.optional(v.string()),
     enabled: v.optional(v.boolean()),
@@ -100,13 +160,37 @@ export const updateSchedule = mutation({
     const patch: Record<string, unknown> = {};
 
     if (updates.name !== undefined) patch.name = updates.name;
-    if (updates.promptId !== undefined) {
-      const prompt = await ctx.db.get(updates.promptId);
-      if (!prompt) throw new Error("Prompt not found");
+    const targetChanged = updates.promptId !== undefined || updates.pipelineId !== undefined;
+    if (targetChanged) {
       patch.promptId = updates.promptId;
+      patch.pipelineId = updates.pipelineId;
+    }
+    if (targetChanged || updates.promptVersionId !== undefined) {
+      patch.promptVersionId = updates.promptVersionId;
+    }
+    if (targetChanged || updates.parameterValues !== undefined) {
+      patch.parameterValues = updates.parameterValues;
     }
+    await validateScheduleTarget(ctx, {
+      promptId: updates.promptId ?? (updates.pipelineId === undefined ? schedule.promptId : undefined),
+      promptVersionId: targetChanged
+        ? updates.promptVersionId
+        : (updates.promptVersionId ?? schedule.promptVersionId),
+      parameterValues: targetChanged
+        ? updates.parameterValues
+        : (updates.parameterValues ?? schedule.parameterValues),
+      pipelineId: updates.pipelineId ?? (updates.promptId === undefined ? schedule.pipelineId : undefined),
+      fanOut: updates.fanOut ?? schedule.fanOut,
+    });
     if (updates.stockSelection !== undefined) patch.stockSelection = updates.stockSelection;
     if (updates.provider !== undefined) patch.provider = updates.provider;
+    if (updates.provider !== undefined || updates.model !== undefined) {
+      // Switching provider without a model falls back to the prompt/provider default
+      const model = updates.model ?? (updates.provider === undefined ? schedule.model : undefined);
+      if (model !== undefined) validateProviderModel(updates.provider ?? schedule.provider, model);
+      patch.model = model;
+    }
+    if (updates.fanOut !== undefined) patch.fanOut = updates.fanOut;
     if (updates.cron !== undefined) patch.cron = updates.cron;
     if (updates.timezone !== undefined) patch.timezone = updates.timezone;
     if (updates.enabled !== undefined) patch.enabled = updates.enabled;
@@ -279,6 +363,8 @@ export const updateScheduleNextRun = internalMutation({
     nextRunAt: v.optional(v.number()),
     nextScheduledFunctionId: v.optional(v.string()),
     lastRunAt: v.optional(v.number()),
+    /** Set with `lastRunAt` when the run was skipped */
+    lastRunError: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const schedule = await ctx.db.get(args.id);
@@ -287,7 +373,10 @@ export const updateScheduleNextRun = internalMutation({
     const patch: Record<string, unknown> = {};
     if (args.nextRunAt !== undefined) patch.nextRunAt = args.nextRunAt;
     if (args.nextScheduledFunctionId !== undefined) patch.nextScheduledFunctionId = args.nextScheduledFunctionId;
-    if (args.lastRunAt !== undefined) patch.lastRunAt = args.lastRunAt;
+    if (args.lastRunAt !== undefined) {
+      patch.lastRunAt = args.lastRunAt;
+      patch.lastRunError = args.lastRunError;
+    }
 
     await ctx.db.patch(args.id, patch);
   },
@@ -350,6 +439,7 @@ export const getUpcomingRuns = query({
         scheduleId: s._id,
         scheduleName: s.name,
         promptId: s.promptId,
+        pipelineId: s.pipelineId,
         nextRunAt: s.nextRunAt!,
         timezone: s.timezone,
       }))
@@ -411,46 +501,56 @@ export const createScheduledJob = internalMutation({
   args: {
     promptId: v.id("prompts"),
     stockIds: v.array(v.id("stocks")),
-    provider: v.literal("openai"),
+    provider: researchProvider,
+    model: v.optional(v.string()),
     scheduleId: v.id("schedules"),
+    promptVersionId: v.optional(v.id("promptVersions")),
+    parameterValues: v.optional(parameterValuesValidator),
   },
   handler: async (ctx, args) => {
     const prompt = await ctx.db.get(args.promptId);
     if (!prompt) {
       throw new Error("Prompt not found");
     }
+    const model = resolveJobModel(args.provider, args.model, prompt);
+    const version = await resolvePromptVersion(
+      ctx,
+      prompt,
+      args.promptVersionId,
+      args.parameterValues,
+    );
+
+    // Scheduled runs have no override: over the cap they are refused or deferred
+    const budget = await enforceBudgetCap(ctx, {
+      estimatedUsd: await estimateJobCostUsd(ctx, {
+        promptId: args.promptId,
+        template: version.template,
+        parameterValues: version.parameterValues,
+        provider: args.provider,
+        model,
+        stockIds: args.stockIds,
+      }),
+    });
 
-    // Enforce concurrent job limit on scheduled jobs to prevent bypass
-    const pendingJobs = await ctx.db
-      .query("researchJobs")
-      .withIndex("by_status", (q) => q.eq("status", "pending"))
-      .collect();
-    const runningJobs = await ctx.db
-      .query("researchJobs")
-      .withIndex("by_status", (q) => q.eq("status", "running"))
-      .collect();
-
-    const MAX_CONCURRENT_JOBS = 5;
-    if (pendingJobs.length + runningJobs.length >= MAX_CONCURRENT_JOBS) {
-      throw new Error(`Maximum of ${MAX_CONCURRENT_JOBS} concurrent jobs allowed. Scheduled job deferred.`);
-    }
-
+    // Queued behind manual runs; starts as soon as a slot frees up
     const now = Date.now();
     const jobId = await ctx.db.insert("researchJobs", {
       promptId: args.promptId,
-      promptSnapshot: prompt.template,
+      promptSnapshot: version.template,
+      promptVersionId: version.versionId,
+      parameterValues: version.parameterValues,
       stockIds: args.stockIds,
       provider: args.provider,
-      status: "pending",
+      model,
+      status: "queued",
       attempts: 0,
       scheduleId: args.scheduleId,
       createdAt: now,
+      priority: QUEUE_PRIORITY.scheduled,
+      queuedAt: now,
+      deferredUntil: budget.deferredUntil,
     });
-
-    // Schedule the research action to start immediately
-    await ctx.scheduler.runAfter(0, internal.researchActions.startResearch, {
-      jobId,
-    });
+    await startQueuedJobs(ctx);
 
     return jobId;
   },
@@ -1,5 +1,16 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { researchProvider } from "./providers";
+import { errorClassValidator, errorReasonValidator } from "./retryPolicy";
+import { analysisKindValidator, costBreakdownValidator, tokenUsageValidator } from "./pricing";
+import { pipelineStepStatusValidator, pipelineStepValidator } from "./pipelines";
+import { outputFieldValidator } from "./findings";
+import { parameterValuesValidator } from "./promptTemplate";
+import {
+  comparisonKindValidator,
+  comparisonRunValidator,
+  comparisonWinnerValidator,
+} from "./comparisons";
 
 export default defineSchema({
   stocks: defineTable({
@@ -24,44 +35,236 @@ export default defineSchema({
       v.literal("discovery"),
     ),
     template: v.string(),
-    defaultProvider: v.literal("openai"),
+    defaultProvider: researchProvider,
+    defaultModel: v.optional(v.string()),
+    /** Values to extract into researchFindings once a run completes */
+    outputSchema: v.optional(v.array(outputFieldValidator)),
+    /** Version holding `template`; unset until the prompt is first edited or run */
+    currentVersionId: v.optional(v.id("promptVersions")),
     isBuiltIn: v.boolean(),
     createdAt: v.number(),
     updatedAt: v.number(),
   }),
 
+  promptVersions: defineTable({
+    promptId: v.id("prompts"),
+    /** 1-based, increasing with every template edit */
+    version: v.number(),
+    template: v.string(),
+    /** What changed and why, written by whoever saved the edit */
+    note: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_promptId", ["promptId", "version"]),
+
   researchJobs: defineTable({
     promptId: v.id("prompts"),
     promptSnapshot: v.string(),
+    /** Prompt version the snapshot was taken from */
+    promptVersionId: v.optional(v.id("promptVersions")),
+    /** Values of the prompt's own parameters the job ran with, defaults included */
+    parameterValues: v.optional(parameterValuesValidator),
     stockIds: v.array(v.id("stocks")),
-    provider: v.literal("openai"),
+    provider: researchProvider,
+    model: v.optional(v.string()),
     status: v.union(
+      v.literal("queued"),
       v.literal("pending"),
       v.literal("running"),
       v.literal("completed"),
       v.literal("failed"),
+      v.literal("cancelled"),
     ),
     externalJobId: v.optional(v.string()),
+    /** Full result, or a preview of it when `resultStorageId` is set */
     result: v.optional(v.string()),
+    /** Full Markdown result in file storage, for results too long to keep inline */
+    resultStorageId: v.optional(v.id("_storage")),
+    /** Length of the full result in characters */
+    resultLength: v.optional(v.number()),
     error: v.optional(v.string()),
+    /** Classification of the latest failure */
+    errorClass: v.optional(errorClassValidator),
+    errorReason: v.optional(errorReasonValidator),
     costUsd: v.optional(v.number()),
+    /** Token usage and cost split of the run that produced the result */
+    usage: v.optional(tokenUsageValidator),
+    costBreakdown: v.optional(costBreakdownValidator),
     durationMs: v.optional(v.number()),
     attempts: v.number(),
     scheduleId: v.optional(v.id("schedules")),
     createdAt: v.number(),
+    startedAt: v.optional(v.number()),
     completedAt: v.optional(v.number()),
+    runtimeExceededAt: v.optional(v.number()),
+    priority: v.optional(v.number()),
+    queuedAt: v.optional(v.number()),
+    /** Failed, with a retry already scheduled */
+    awaitingRetry: v.optional(v.boolean()),
+    /** The scheduled retry of a job awaiting one, so cancelling the job can stop it */
+    retryScheduledId: v.optional(v.id("_scheduled_functions")),
+    /** Held in the queue by the budget cap until this time */
+    deferredUntil: v.optional(v.number()),
+    batchId: v.optional(v.id("researchBatches")),
+    /** Set on follow-up questions: the original job whose thread they belong to */
+    parentJobId: v.optional(v.id("researchJobs")),
+    /** Set on pipeline steps: the run they belong to and their 0-based step index */
+    pipelineRunId: v.optional(v.id("pipelineRuns")),
+    pipelineStep: v.optional(v.number()),
+    /** Set on A/B runs: the comparison the job is one side of */
+    comparisonId: v.optional(v.id("comparisons")),
+    /** Why extracting structured findings from the result failed */
+    findingsError: v.optional(v.string()),
+    /** Model-written TL;DR and key points of the result */
+    executiveSummary: v.optional(
+      v.object({
+        tldr: v.string(),
+        bullets: v.array(v.string()),
+        createdAt: v.number(),
+      }),
+    ),
+    /** Why writing the executive summary failed */
+    executiveSummaryError: v.optional(v.string()),
+    /** Model-written summary of what changed since the previous run of the same prompt and stocks */
+    changeSummary: v.optional(
+      v.object({
+        previousJobId: v.id("researchJobs"),
+        text: v.string(),
+        createdAt: v.number(),
+      }),
+    ),
+    /** Why summarizing the changes after the job completed failed */
+    changeSummaryError: v.optional(
+      v.object({
+        previousJobId: v.id("researchJobs"),
+        error: v.string(),
+        createdAt: v.number(),
+      }),
+    ),
     isFavorited: v.optional(v.boolean()),
   })
     .index("by_status", ["status"])
+    .index("by_awaitingRetry", ["awaitingRetry"])
+    .index("by_batchId", ["batchId"])
+    .index("by_parentJobId", ["parentJobId"])
+    .index("by_pipelineRunId", ["pipelineRunId"])
+    .index("by_comparisonId", ["comparisonId"])
     .index("by_promptId", ["promptId"])
+    .index("by_promptId_createdAt", ["promptId", "createdAt"])
     .index("by_scheduleId", ["scheduleId"])
     .index("by_externalJobId", ["externalJobId"])
     .index("by_createdAt", ["createdAt"])
     .index("by_isFavorited", ["isFavorited"]),
 
+  /** One row per provider run of a research job, including failed retries. */
+  jobAttempts: defineTable({
+    jobId: v.id("researchJobs"),
+    /** 1-based, in the order the attempts started */
+    attempt: v.number(),
+    externalJobId: v.optional(v.string()),
+    status: v.union(
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed"),
+      v.literal("cancelled"),
+    ),
+    startedAt: v.number(),
+    endedAt: v.optional(v.number()),
+    error: v.optional(v.string()),
+    errorClass: v.optional(errorClassValidator),
+    errorReason: v.optional(errorReasonValidator),
+    /** Cost of this attempt alone; partial for failed runs */
+    costUsd: v.optional(v.number()),
+    usage: v.optional(tokenUsageValidator),
+    /** Why the provider-side run could not be cancelled; it may still be running and billing */
+    cancelError: v.optional(v.string()),
+  }).index("by_jobId", ["jobId", "attempt"]),
+
+  researchBatches: defineTable({
+    promptId: v.id("prompts"),
+    stockIds: v.array(v.id("stocks")),
+    provider: researchProvider,
+    model: v.optional(v.string()),
+    scheduleId: v.optional(v.id("schedules")),
+    status: v.union(
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("partial"),
+      v.literal("failed"),
+      v.literal("cancelled"),
+    ),
+    createdAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_createdAt", ["createdAt"])
+    .index("by_scheduleId", ["scheduleId"]),
+
+  /** Two jobs on the same stocks that differ in prompt, prompt version or model, compared side by side. */
+  comparisons: defineTable({
+    kind: comparisonKindValidator,
+    stockIds: v.array(v.id("stocks")),
+    a: comparisonRunValidator,
+    b: comparisonRunValidator,
+    /** Recorded by whoever read both reports */
+    winner: v.optional(comparisonWinnerValidator),
+    votedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_createdAt", ["createdAt"])
+    .index("by_promptA", ["a.promptId"])
+    .index("by_promptB", ["b.promptId"]),
+
+  /** Ordered prompt steps; later steps can use earlier outputs via `{{STEP_n_RESULT}}`. */
+  pipelines: defineTable({
+    name: v.string(),
+    description: v.string(),
+    steps: v.array(pipelineStepValidator),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }),
+
+  pipelineRuns: defineTable({
+    pipelineId: v.id("pipelines"),
+    /** Pipeline name and steps as they were when the run started */
+    name: v.string(),
+    steps: v.array(
+      v.object({
+        ...pipelineStepValidator.fields,
+        jobId: v.optional(v.id("researchJobs")),
+        status: pipelineStepStatusValidator,
+        costUsd: v.optional(v.number()),
+      }),
+    ),
+    stockIds: v.array(v.id("stocks")),
+    scheduleId: v.optional(v.id("schedules")),
+    status: v.union(
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed"),
+      v.literal("cancelled"),
+    ),
+    /** 0-based index of the step the run is on, or last ran */
+    currentStep: v.number(),
+    /** Sum of the step jobs' costs so far */
+    costUsd: v.number(),
+    /** Queue priority for every step job */
+    priority: v.number(),
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_createdAt", ["createdAt"])
+    .index("by_pipelineId", ["pipelineId"])
+    .index("by_scheduleId", ["scheduleId"]),
+
   schedules: defineTable({
     name: v.string(),
-    promptId: v.id("prompts"),
+    /** What the schedule runs: a single prompt or a pipeline, exactly one of them */
+    promptId: v.optional(v.id("prompts")),
+    /** Version of the prompt to run; unset follows the latest edits */
+    promptVersionId: v.optional(v.id("promptVersions")),
+    /** Fixed values for the prompt's own parameters */
+    parameterValues: v.optional(parameterValuesValidator),
+    pipelineId: v.optional(v.id("pipelines")),
     stockSelection: v.object({
       type: v.union(
         v.literal("all"),
@@ -72,11 +275,16 @@ export default defineSchema({
       tags: v.optional(v.array(v.string())),
       stockIds: v.optional(v.array(v.id("stocks"))),
     }),
-    provider: v.literal("openai"),
+    provider: researchProvider,
+    model: v.optional(v.string()),
+    /** Run one job per matching stock instead of one job for all of them */
+    fanOut: v.optional(v.boolean()),
     cron: v.string(),
     timezone: v.string(),
     enabled: v.boolean(),
     lastRunAt: v.optional(v.number()),
+    /** Why the last run was skipped, e.g. by the budget cap; cleared by the next run that starts */
+    lastRunError: v.optional(v.string()),
     nextRunAt: v.optional(v.number()),
     nextScheduledFunctionId: v.optional(v.string()),
     createdAt: v.number(),
@@ -89,13 +297,62 @@ export default defineSchema({
 
   costLogs: defineTable({
     jobId: v.id("researchJobs"),
-    provider: v.literal("openai"),
+    provider: researchProvider,
+    model: v.optional(v.string()),
+    priceVersion: v.optional(v.number()),
     costUsd: v.number(),
+    /** Absent on runs logged before usage was tracked */
+    usage: v.optional(tokenUsageValidator),
+    costBreakdown: v.optional(costBreakdownValidator),
+    /** Set for follow-on model calls about a job; absent for the research run itself */
+    kind: v.optional(analysisKindValidator),
     timestamp: v.number(),
   })
     .index("by_jobId", ["jobId"])
     .index("by_timestamp", ["timestamp"]),
 
+  researchFindings: defineTable({
+    jobId: v.id("researchJobs"),
+    promptId: v.id("prompts"),
+    /** Absent when the ticker is not on the watchlist, e.g. discovery results */
+    stockId: v.optional(v.id("stocks")),
+    ticker: v.string(),
+    rating: v.optional(v.string()),
+    priceTarget: v.optional(v.number()),
+    conviction: v.optional(v.number()),
+    keyRisks: v.optional(v.array(v.string())),
+    /** Custom output fields, keyed by field key */
+    extra: v.optional(
+      v.record(v.string(), v.union(v.string(), v.number(), v.array(v.string()))),
+    ),
+    /** When the report was completed */
+    createdAt: v.number(),
+  })
+    .index("by_jobId", ["jobId"])
+    .index("by_stockId", ["stockId", "createdAt"]),
+
+  researchSources: defineTable({
+    jobId: v.id("researchJobs"),
+    number: v.number(),
+    url: v.string(),
+    title: v.optional(v.string()),
+    domain: v.string(),
+    spans: v.array(v.object({ start: v.number(), end: v.number() })),
+    citedText: v.optional(v.string()),
+  }).index("by_jobId", ["jobId"]),
+
+  modelPricing: defineTable({
+    provider: researchProvider,
+    model: v.string(),
+    inputPerMillion: v.number(),
+    cachedInputPerMillion: v.number(),
+    outputPerMillion: v.number(),
+    reasoningPerMillion: v.number(),
+    webSearchPerCall: v.number(),
+    version: v.number(),
+    createdAt: v.number(),
+  }).index("by_model_version", ["model", "version"]),
+
   earnings: defineTable({
     stockId: v.id("stocks"),
     symbol: v.string(),
@@ -89,7 +89,7 @@ export const backfillCostLogs = internalMutation({
 
       await ctx.db.insert("costLogs", {
         jobId: job._id,
-        provider: "openai",
+        provider: job.provider,
         costUsd: job.costUsd,
         timestamp: job.completedAt ?? job.createdAt,
       });
@@ -3,6 +3,9 @@ import { mutation, query } from "./_generated/server";
 import { requireAuth } from "./authHelpers";
 import { validateSettingInput } from "./validation";
 import { logAuditEvent } from "./auditLog";
+import { startQueuedJobs } from "./jobQueue";
+import { RETRY_POLICY_SETTINGS } from "./retryPolicy";
+import { MOCK_PROVIDER_SETTINGS, isMockScenario } from "./mockProvider";
 
 const PROTECTED_SETTING_KEYS = new Set([
   "auth_password_hash",
@@ -35,22 +38,67 @@ export const upsertSetting = mutation({
       throw new Error(`Setting "${args.key}" cannot be modified directly`);
     }
 
+    // An empty value falls back to the default limit
+    if (args.key === "max_concurrent_jobs" && args.value !== "") {
+      const limit = Number(args.value);
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error("Max concurrent jobs must be a positive whole number");
+      }
+    }
+    if (args.key === "budget_hard_cap" && args.value !== "") {
+      const cap = Number(args.value);
+      if (!Number.isFinite(cap) || cap <= 0) {
+        throw new Error("Budget cap must be a positive amount");
+      }
+    }
+    const retryKeys = Object.values(RETRY_POLICY_SETTINGS);
+    if (retryKeys.some((k) => k.maxAttempts === args.key) && args.value !== "") {
+      const attempts = Number(args.value);
+      if (!Number.isInteger(attempts) || attempts < 1) {
+        throw new Error("Max attempts must be a positive whole number");
+      }
+    }
+    if (retryKeys.some((k) => k.baseDelaySeconds === args.key) && args.value !== "") {
+      const seconds = Number(args.value);
+      if (!Number.isInteger(seconds) || seconds < 0) {
+        throw new Error("Retry delay must be a whole number of seconds");
+      }
+    }
+    if (args.key === "budget_cap_mode" && args.value !== "block" && args.value !== "defer") {
+      throw new Error('Budget cap mode must be "block" or "defer"');
+    }
+    if (args.key === MOCK_PROVIDER_SETTINGS.delaySeconds && args.value !== "") {
+      const seconds = Number(args.value);
+      if (!Number.isFinite(seconds) || seconds < 0) {
+        throw new Error("Mock delay must be a non-negative number of seconds");
+      }
+    }
+    if (args.key === MOCK_PROVIDER_SETTINGS.scenario && args.value !== "" && !isMockScenario(args.value)) {
+      throw new Error(`Unknown mock scenario "${args.value}"`);
+    }
+
     const existing = await ctx.db
       .query("settings")
       .withIndex("by_key", (q) => q.eq("key", args.key))
       .unique();
 
+    let id;
     if (existing) {
       await ctx.db.patch(existing._id, { value: args.value });
       await logAuditEvent(ctx, { action: "settings.update", resourceType: "settings", details: args.key });
-      return existing._id;
+      id = existing._id;
+    } else {
+      id = await ctx.db.insert("settings", {
+        key: args.key,
+        value: args.value,
+      });
+      await logAuditEvent(ctx, { action: "settings.create", resourceType: "settings", details: args.key });
     }
 
-    const id = await ctx.db.insert("settings", {
-      key: args.key,
-      value: args.value,
-    });
-    await logAuditEvent(ctx, { action: "settings.create", resourceType: "settings", details: args.key });
+    // A raised limit frees slots for jobs already waiting
+    if (args.key === "max_concurrent_jobs") {
+      await startQueuedJobs(ctx);
+    }
     return id;
   },
 });
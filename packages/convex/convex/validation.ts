@@ -3,6 +3,11 @@
  * Enforces length limits and character restrictions on user-provided strings.
  */
 
+import { lintPromptTemplate, type PromptType } from "./promptLint";
+import type { ResearchProviderId } from "./providers";
+import { formatTemplateErrors } from "./promptTemplate";
+import { TYPED_OUTPUT_FIELDS } from "./findings";
+
 // --- Length Limits ---
 
 const MAX_TICKER_LENGTH = 10;
@@ -16,13 +21,26 @@ const MAX_TAGS_COUNT = 20;
 const MAX_PROMPT_NAME_LENGTH = 200;
 const MAX_PROMPT_DESCRIPTION_LENGTH = 1000;
 const MAX_PROMPT_TEMPLATE_LENGTH = 50_000;
+const MAX_VERSION_NOTE_LENGTH = 500;
+const MAX_OUTPUT_FIELDS = 20;
+const MAX_OUTPUT_FIELD_LABEL_LENGTH = 100;
+const MAX_OUTPUT_FIELD_DESCRIPTION_LENGTH = 500;
 
 const MAX_SCHEDULE_NAME_LENGTH = 200;
 const MAX_CRON_LENGTH = 100;
 const MAX_TIMEZONE_LENGTH = 100;
 
+const MAX_PIPELINE_NAME_LENGTH = 200;
+const MAX_PIPELINE_DESCRIPTION_LENGTH = 1000;
+const MAX_PIPELINE_STEPS = 10;
+
 const MAX_SEARCH_TERM_LENGTH = 500;
 
+const MAX_PARAMETER_VALUES = 50;
+const MAX_PARAMETER_VALUE_LENGTH = 1000;
+
+const MAX_FOLLOW_UP_LENGTH = 10_000;
+
 const MAX_SETTING_KEY_LENGTH = 100;
 const MAX_SETTING_VALUE_LENGTH = 10_000;
 
@@ -93,10 +111,20 @@ export function validateStockInput(args: {
 
 // --- Prompt Validation ---
 
+/**
+ * Checks prompt fields, and lints the template when given, as the editor
+ * does: against the prompt's type and default model when those are passed.
+ * Lint errors throw, step reference ones only when `pipelineSteps` is given.
+ */
 export function validatePromptInput(args: {
   name?: string;
   description?: string;
   template?: string;
+  versionNote?: string;
+  type?: PromptType;
+  defaultProvider?: ResearchProviderId;
+  defaultModel?: string;
+  pipelineSteps?: number[];
 }): void {
   if (args.name !== undefined)
     validateStringLength(args.name, "Prompt name", MAX_PROMPT_NAME_LENGTH);
@@ -106,12 +134,71 @@ export function validatePromptInput(args: {
       "Prompt description",
       MAX_PROMPT_DESCRIPTION_LENGTH,
     );
-  if (args.template !== undefined)
+  if (args.template !== undefined) {
     validateStringLength(
       args.template,
       "Prompt template",
       MAX_PROMPT_TEMPLATE_LENGTH,
     );
+    const lintErrors = lintPromptTemplate(args.template, {
+      type: args.type,
+      provider: args.defaultProvider,
+      model: args.defaultModel,
+      pipelineSteps: args.pipelineSteps,
+    }).filter(
+      (issue) => issue.severity === "error",
+    );
+    if (lintErrors.length > 0) {
+      throw new Error(formatTemplateErrors(lintErrors));
+    }
+  }
+  if (args.versionNote !== undefined)
+    validateStringLength(args.versionNote, "Version note", MAX_VERSION_NOTE_LENGTH);
+}
+
+export function validateOutputSchema(
+  fields: { key: string; label: string; type: string; description?: string }[],
+): void {
+  if (fields.length > MAX_OUTPUT_FIELDS) {
+    throw new Error(`Maximum of ${MAX_OUTPUT_FIELDS} output fields allowed`);
+  }
+  const seen = new Set<string>();
+  for (const field of fields) {
+    if (!/^[a-zA-Z][a-zA-Z0-9]{0,49}$/.test(field.key)) {
+      throw new Error(
+        `Output field key "${field.key}" must start with a letter and contain only letters and digits`,
+      );
+    }
+    if (seen.has(field.key)) {
+      throw new Error(`Duplicate output field key "${field.key}"`);
+    }
+    seen.add(field.key);
+
+    const typedAs = TYPED_OUTPUT_FIELDS[field.key as keyof typeof TYPED_OUTPUT_FIELDS];
+    if (typedAs && field.type !== typedAs) {
+      throw new Error(`Output field "${field.key}" must have type "${typedAs}"`);
+    }
+    if (field.label.trim().length === 0) {
+      throw new Error(`Output field "${field.key}" needs a label`);
+    }
+    validateStringLength(field.label, "Output field label", MAX_OUTPUT_FIELD_LABEL_LENGTH);
+    if (field.description !== undefined)
+      validateStringLength(
+        field.description,
+        "Output field description",
+        MAX_OUTPUT_FIELD_DESCRIPTION_LENGTH,
+      );
+  }
+}
+
+export function validateParameterValues(values: Record<string, string>): void {
+  const entries = Object.entries(values);
+  if (entries.length > MAX_PARAMETER_VALUES) {
+    throw new Error(`Maximum of ${MAX_PARAMETER_VALUES} parameter values allowed`);
+  }
+  for (const [name, value] of entries) {
+    validateStringLength(value, `Value of ${name}`, MAX_PARAMETER_VALUE_LENGTH);
+  }
 }
 
 // --- Schedule Validation ---
@@ -129,6 +216,47 @@ export function validateScheduleInput(args: {
     validateStringLength(args.timezone, "Timezone", MAX_TIMEZONE_LENGTH);
 }
 
+// --- Pipeline Validation ---
+
+export function validatePipelineInput(args: {
+  name?: string;
+  description?: string;
+  steps?: { name: string }[];
+}): void {
+  if (args.name !== undefined) {
+    if (args.name.trim().length === 0) {
+      throw new Error("Pipeline name is required");
+    }
+    validateStringLength(args.name, "Pipeline name", MAX_PIPELINE_NAME_LENGTH);
+  }
+  if (args.description !== undefined)
+    validateStringLength(
+      args.description,
+      "Pipeline description",
+      MAX_PIPELINE_DESCRIPTION_LENGTH,
+    );
+  if (args.steps !== undefined) {
+    if (args.steps.length === 0) {
+      throw new Error("A pipeline needs at least one step");
+    }
+    if (args.steps.length > MAX_PIPELINE_STEPS) {
+      throw new Error(`Maximum of ${MAX_PIPELINE_STEPS} pipeline steps allowed`);
+    }
+    for (const step of args.steps) {
+      validateStringLength(step.name, "Step name", MAX_PIPELINE_NAME_LENGTH);
+    }
+  }
+}
+
+// --- Follow-up Validation ---
+
+export function validateFollowUpQuestion(question: string): void {
+  if (question.trim().length === 0) {
+    throw new Error("Follow-up question cannot be empty");
+  }
+  validateStringLength(question, "Follow-up question", MAX_FOLLOW_UP_LENGTH);
+}
+
 // --- Search Validation ---
 
 export function validateSearchTerm(term: string): void {
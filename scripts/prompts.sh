@@ -0,0 +1,51 @@
+#!/bin/bash
+# Export or import the prompt library as JSON through the Convex CLI.
+# Uses the deployment configured in packages/convex (.env.local), so no login is needed.
+#
+# Usage:
+#   ./scripts/prompts.sh export [file]            Write all prompts (stdout by default)
+#   ./scripts/prompts.sh import <file> [--dry-run] Create or update prompts by name
+#
+# The file holds { "prompts": [...] } with name, description, type, template,
+# defaultProvider, defaultModel and outputSchema for each prompt. A dry run
+# lists what the import would create, update or reject without saving.
+
+set -e
+
+ROOT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")/.." && pwd)"
+CONVEX_DIR="$ROOT_DIR/packages/convex"
+
+usage() {
+  echo "Usage: $0 export [file] | import <file> [--dry-run]" >&2
+  exit 1
+}
+
+run() {
+  (cd "$CONVEX_DIR" && bunx convex run "$@")
+}
+
+case "$1" in
+  export)
+    if [ -n "$2" ]; then
+      run promptLibrary:exportPromptLibrary > "$2"
+      echo "✅ Exported prompts to $2" >&2
+    else
+      run promptLibrary:exportPromptLibrary
+    fi
+    ;;
+  import)
+    [ -n "$2" ] || usage
+    if [ ! -f "$2" ]; then
+      echo "File not found: $2" >&2
+      exit 1
+    fi
+    if [ "$3" = "--dry-run" ]; then
+      run promptLibrary:previewPromptLibraryImport "$(cat "$2")"
+    else
+      run promptLibrary:importPromptLibrary "$(cat "$2")"
+    fi
+    ;;
+  *)
+    usage
+    ;;
+esac